@@ -0,0 +1,455 @@
+// Chart CLI
+// Renders and validates .cryml / .prisma / .sql / .dbml / .mmd diagrams without VS Code, for CI and docs pipelines
+//
+//   chart-cli render <file|prisma/schema> [-o <out.svg|out.json|out.dot>] [--format svg|json|dot] [--direction DOWN|RIGHT]
+//   chart-cli validate <file...>
+//   chart-cli roundtrip <file.prisma...>
+//   chart-cli sql <file|prisma/schema> [--dialect postgresql|mysql|sqlite] [-o <out.sql>]
+//   chart-cli dbml <file|prisma/schema> [-o <out.dbml>]
+//   chart-cli mermaid <file|prisma/schema> [-o <out.mmd>]
+//   chart-cli plantuml <file> [-o <out.puml>]
+//   chart-cli schema [-o <out.schema.json>]
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { Node, Edge } from 'reactflow';
+import { parsePrismaSchema, parsePrismaSchemaFiles, convertPrismaToFlowChart, PrismaSchema } from '../webview/prismaParser';
+import { parseYamlSchema, parseYamlDiagram } from '../webview/yamlParser';
+import { parseFlowYaml, convertFlowToReactFlow } from '../webview/parsers/flowParser';
+import { parseSequenceYaml, convertSequenceToReactFlow } from '../webview/parsers/sequenceParser';
+import { parseSqlSchema } from '../webview/parsers/sqlParser';
+import { parseDbmlSchema } from '../webview/parsers/dbmlParser';
+import { layoutFlowDiagram, placeNewNodes } from '../webview/elkLayout';
+import { setDebugLogging } from '../webview/debugLog';
+import { DiagramValidator } from '../webview/validators/diagramValidator';
+import { checkPrismaRoundTrip, prismaToYaml } from '../webview/yamlTransformer';
+import { yamlToSql, SqlDialect, SQL_DIALECTS } from '../webview/sqlGenerator';
+import { yamlToDbml } from '../webview/dbmlGenerator';
+import { yamlToMermaid } from '../webview/mermaidGenerator';
+import { mermaidToYaml } from '../webview/parsers/mermaidParser';
+import { yamlToPlantUml } from '../webview/plantumlGenerator';
+import { toDot } from '../webview/dotGenerator';
+import { findYamlPathRange } from '../webview/parsers/yamlPath';
+import { buildCrymlJsonSchema } from '../utils/crymlJsonSchema';
+import { renderErdSvg, renderFlowSvg, renderSequenceSvg, layoutSequence, nodeBox } from './svgRenderer';
+
+const USAGE = `Usage:
+  chart-cli render <file|schema folder> [-o <output>] [--format svg|json|dot] [--direction DOWN|RIGHT]
+  chart-cli validate <file...>
+  chart-cli roundtrip <file.prisma...>   Check that Prisma -> YAML -> Prisma loses nothing
+  chart-cli sql <file|schema folder> [--dialect postgresql|mysql|sqlite] [-o <output>]
+  chart-cli dbml <file|schema folder> [-o <output>]
+  chart-cli mermaid <file|schema folder> [-o <output>]
+  chart-cli plantuml <file> [-o <output>]   Sequence and flow diagrams only
+  chart-cli schema [-o <output>]   JSON Schema of .cryml files
+
+Options:
+  -o, --output <file>   Write to a file instead of stdout (format follows the extension)
+  --format <format>     svg (default), json (node positions and sizes) or dot (Graphviz)
+  --direction <dir>     Re-run the flow layout top-down (DOWN) or left-right (RIGHT)
+  --dialect <dialect>   SQL dialect for sql: postgresql (default), mysql or sqlite
+  --verbose             Show layout diagnostics
+`;
+
+const LAYOUT_SIDECAR_SUFFIX = '.layout.json';
+
+// Schema files rendered as ERDs, by extension
+const SCHEMA_PARSERS: Record<string, (content: string) => PrismaSchema> = {
+  '.prisma': parsePrismaSchema,
+  '.sql': parseSqlSchema,
+  '.dbml': parseDbmlSchema,
+};
+
+type RenderFormat = 'svg' | 'json' | 'dot';
+
+// Output format of render by output file extension, svg otherwise
+const RENDER_EXTENSIONS: Record<string, RenderFormat> = {
+  '.json': 'json',
+  '.dot': 'dot',
+  '.gv': 'dot',
+};
+
+// Mermaid files are converted to .cryml first, so any diagram type works
+const MERMAID_EXTENSIONS = ['.mmd', '.mermaid'];
+
+interface CliOptions {
+  files: string[];
+  output?: string;
+  format?: RenderFormat;
+  direction?: 'DOWN' | 'RIGHT';
+  dialect?: SqlDialect;
+  verbose: boolean;
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (!command || command === '--help' || command === '-h') {
+    process.stdout.write(USAGE);
+    return command ? 0 : 1;
+  }
+
+  const options = parseOptions(rest);
+
+  // The YAML parser and ELK layout log progress for the webview devtools
+  setDebugLogging(options.verbose);
+
+  switch (command) {
+    case 'render':
+      return render(options);
+    case 'validate':
+      return validate(options);
+    case 'roundtrip':
+      return roundTrip(options);
+    case 'sql':
+      return generateSchema('sql', options, (content) => yamlToSql(content, options.dialect ?? 'postgresql'));
+    case 'dbml':
+      return generateSchema('dbml', options, yamlToDbml);
+    case 'mermaid':
+      return generateSchema('mermaid', options, yamlToMermaid);
+    case 'plantuml':
+      return generateSchema('plantuml', options, yamlToPlantUml);
+    case 'schema':
+      return writeJsonSchema(options);
+    default:
+      process.stderr.write(`Unknown command "${command}"\n\n${USAGE}`);
+      return 1;
+  }
+}
+
+function parseOptions(args: string[]): CliOptions {
+  const options: CliOptions = { files: [], verbose: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-o':
+      case '--output':
+        options.output = requireValue(args, ++i, arg);
+        break;
+      case '--format': {
+        const format = requireValue(args, ++i, arg);
+        if (format !== 'svg' && format !== 'json' && format !== 'dot') {
+          throw new Error(`Unsupported format "${format}" (expected svg, json or dot)`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--direction': {
+        const direction = requireValue(args, ++i, arg).toUpperCase();
+        if (direction !== 'DOWN' && direction !== 'RIGHT') {
+          throw new Error(`Unsupported direction "${direction}" (expected DOWN or RIGHT)`);
+        }
+        options.direction = direction;
+        break;
+      }
+      case '--dialect': {
+        const dialect = requireValue(args, ++i, arg).toLowerCase();
+        if (!(dialect in SQL_DIALECTS)) {
+          throw new Error(`Unsupported dialect "${dialect}" (expected ${Object.keys(SQL_DIALECTS).join(', ')})`);
+        }
+        options.dialect = dialect as SqlDialect;
+        break;
+      }
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option "${arg}"`);
+        }
+        options.files.push(arg);
+    }
+  }
+
+  return options;
+}
+
+function requireValue(args: string[], index: number, option: string): string {
+  const value = args[index];
+  if (value === undefined) {
+    throw new Error(`Missing value for ${option}`);
+  }
+  return value;
+}
+
+async function render(options: CliOptions): Promise<number> {
+  if (options.files.length !== 1) {
+    process.stderr.write(`render expects exactly one input file\n\n${USAGE}`);
+    return 1;
+  }
+
+  const file = options.files[0];
+  const format = options.format ?? (options.output ? RENDER_EXTENSIONS[path.extname(options.output)] : undefined) ?? 'svg';
+  const output = fs.statSync(file).isDirectory()
+    ? await renderPrismaFolder(file, format)
+    : await renderDiagram(file, readDiagram(file), format, options.direction);
+
+  if (options.output) {
+    fs.writeFileSync(options.output, output);
+    process.stderr.write(`Wrote ${options.output}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+async function renderDiagram(
+  file: string,
+  content: string,
+  format: RenderFormat,
+  direction?: 'DOWN' | 'RIGHT'
+): Promise<string> {
+  const parseSchema = SCHEMA_PARSERS[path.extname(file)];
+  if (parseSchema) {
+    const schema = parseSchema(content);
+    const { nodes, edges } = await convertPrismaToFlowChart(schema);
+    const positioned = applySavedLayout(file, undefined, nodes, true);
+    return renderErd(positioned, edges, format, path.basename(file, path.extname(file)));
+  }
+
+  const parsed = parseYamlDiagram(content);
+  const diagramType = parsed.diagram_type || 'erd';
+
+  switch (diagramType) {
+    case 'erd': {
+      const { nodes, edges } = await convertPrismaToFlowChart(parseYamlSchema(content));
+      const positioned = applySavedLayout(file, parsed.layout, nodes, true);
+      return renderErd(positioned, edges, format, parsed.metadata?.name);
+    }
+    case 'flow': {
+      let { nodes, edges } = await convertFlowToReactFlow(parseFlowYaml(content));
+      if (direction) {
+        ({ nodes, edges } = await layoutFlowDiagram(nodes, edges, direction));
+      } else {
+        nodes = applySavedLayout(file, parsed.layout, nodes, false);
+      }
+      const flowDirection = direction ?? parsed.layout?.direction ?? 'DOWN';
+      if (format === 'dot') {
+        return toDot(nodes, edges, { name: parsed.metadata?.name, direction: flowDirection });
+      }
+      return format === 'json' ? layoutJson('flow', nodes, edges) : renderFlowSvg(nodes, edges, flowDirection);
+    }
+    case 'sequence': {
+      const sequence = parseSequenceYaml(content);
+      if (format === 'dot') {
+        const { nodes, edges } = await convertSequenceToReactFlow(sequence);
+        return toDot(nodes, edges, { name: sequence.metadata.name });
+      }
+      return format === 'json'
+        ? JSON.stringify({ diagram_type: 'sequence', ...layoutSequence(sequence) }, null, 2) + '\n'
+        : renderSequenceSvg(sequence);
+    }
+    default:
+      throw new Error(`Unsupported diagram_type "${diagramType}"`);
+  }
+}
+
+/**
+ * Render a multi-file Prisma schema (prisma/schema/*.prisma) as one ERD
+ */
+async function renderPrismaFolder(folder: string, format: RenderFormat): Promise<string> {
+  const files = findPrismaFiles(folder).map((filePath) => ({ filePath, content: fs.readFileSync(filePath, 'utf8') }));
+  if (files.length === 0) {
+    throw new Error(`No .prisma files in ${folder}`);
+  }
+
+  const { nodes, edges } = await convertPrismaToFlowChart(parsePrismaSchemaFiles(files));
+  const positioned = applySavedLayout(folder, undefined, nodes, true);
+  return renderErd(positioned, edges, format, path.basename(folder));
+}
+
+function renderErd(nodes: Node[], edges: Edge[], format: RenderFormat, name?: string): string {
+  switch (format) {
+    case 'json':
+      return layoutJson('erd', nodes, edges);
+    case 'dot':
+      return toDot(nodes, edges, { name });
+    default:
+      return renderErdSvg(nodes, edges);
+  }
+}
+
+function findPrismaFiles(folder: string): string[] {
+  return fs.readdirSync(folder, { withFileTypes: true })
+    .flatMap((entry) => {
+      const entryPath = path.join(folder, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === 'node_modules' || entry.name.startsWith('.') ? [] : findPrismaFiles(entryPath);
+      }
+      return entry.name.endsWith('.prisma') ? [entryPath] : [];
+    })
+    .sort();
+}
+
+/**
+ * Apply positions saved from the editor (sidecar file first, then the `layout:` section)
+ */
+function applySavedLayout(file: string, inlineLayout: any, nodes: Node[], placeNew: boolean): Node[] {
+  const sidecar = file + LAYOUT_SIDECAR_SUFFIX;
+  const layout = fs.existsSync(sidecar) ? JSON.parse(fs.readFileSync(sidecar, 'utf8')) : inlineLayout;
+  const savedNodes: { id: string; position: { x: number; y: number } }[] = layout?.nodes || [];
+  if (savedNodes.length === 0) {
+    return nodes;
+  }
+
+  const saved = new Map(savedNodes.map((node) => [node.id, node.position]));
+  const positioned = nodes.map((node) => {
+    const position = saved.get(node.id);
+    return position ? { ...node, position } : node;
+  });
+  return placeNew ? placeNewNodes(positioned, new Set(saved.keys())) : positioned;
+}
+
+function layoutJson(diagramType: string, nodes: Node[], edges: Edge[]): string {
+  return JSON.stringify({
+    diagram_type: diagramType,
+    nodes: nodes.map((node) => ({ id: node.id, type: node.type, ...nodeBox(node) })),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      ...(typeof edge.label === 'string' && { label: edge.label }),
+    })),
+  }, null, 2) + '\n';
+}
+
+async function validate(options: CliOptions): Promise<number> {
+  if (options.files.length === 0) {
+    process.stderr.write(`validate expects at least one file\n\n${USAGE}`);
+    return 1;
+  }
+
+  const validator = new DiagramValidator();
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const file of options.files) {
+    const content = fs.readFileSync(file, 'utf8');
+    const doc = yaml.parseDocument(content);
+
+    if (doc.errors.length > 0) {
+      for (const error of doc.errors) {
+        const position = positionAt(content, error.pos[0]);
+        const message = error.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+        process.stdout.write(`${file}:${position} - error ${error.code}: ${message}\n`);
+      }
+      errorCount += doc.errors.length;
+      continue;
+    }
+
+    const result = await validator.validate(content);
+    for (const finding of [...result.errors, ...result.warnings]) {
+      const range = findYamlPathRange(doc, finding.path);
+      const position = positionAt(content, range?.start ?? 0);
+      process.stdout.write(`${file}:${position} - ${finding.level} ${finding.code}: ${finding.message}\n`);
+      if (finding.suggestion) {
+        process.stdout.write(`    Suggestion: ${finding.suggestion}\n`);
+      }
+    }
+    errorCount += result.errors.length;
+    warningCount += result.warnings.length;
+  }
+
+  process.stdout.write(`\n${errorCount} error(s), ${warningCount} warning(s) in ${options.files.length} file(s)\n`);
+  return errorCount > 0 ? 1 : 0;
+}
+
+function roundTrip(options: CliOptions): number {
+  if (options.files.length === 0) {
+    process.stderr.write(`roundtrip expects at least one .prisma file\n\n${USAGE}`);
+    return 1;
+  }
+
+  let differenceCount = 0;
+  for (const file of options.files) {
+    const differences = checkPrismaRoundTrip(fs.readFileSync(file, 'utf8'));
+    for (const difference of differences) {
+      process.stdout.write(`${file} - ${difference}\n`);
+    }
+    differenceCount += differences.length;
+  }
+
+  process.stdout.write(`\n${differenceCount} difference(s) in ${options.files.length} file(s)\n`);
+  return differenceCount > 0 ? 1 : 0;
+}
+
+/**
+ * Generate SQL DDL, DBML, Mermaid or PlantUML from a .cryml or Mermaid diagram, a Prisma schema (file or folder), SQL or DBML
+ */
+function generateSchema(command: string, options: CliOptions, generate: (content: string) => string): number {
+  if (options.files.length !== 1) {
+    process.stderr.write(`${command} expects exactly one input file\n\n${USAGE}`);
+    return 1;
+  }
+
+  // The generators read .cryml text; schemas are converted to an ERD named after the file first
+  const file = options.files[0];
+  const parseSchema = SCHEMA_PARSERS[path.extname(file)];
+  const metadata = { name: path.basename(file, path.extname(file)) };
+  let content: string;
+  if (fs.statSync(file).isDirectory()) {
+    const files = findPrismaFiles(file).map((filePath) => ({ filePath, content: fs.readFileSync(filePath, 'utf8') }));
+    content = prismaToYaml(parsePrismaSchemaFiles(files), metadata, { inferredGroups: false });
+  } else if (parseSchema) {
+    content = prismaToYaml(parseSchema(fs.readFileSync(file, 'utf8')), metadata, { inferredGroups: false });
+  } else {
+    content = readDiagram(file);
+  }
+
+  const output = generate(content);
+  if (options.output) {
+    fs.writeFileSync(options.output, output);
+    process.stderr.write(`Wrote ${options.output}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+/**
+ * Write the JSON Schema of .cryml files, generated from the key reference in diagramSchema.ts
+ */
+function writeJsonSchema(options: CliOptions): number {
+  const output = `${JSON.stringify(buildCrymlJsonSchema(), null, 2)}\n`;
+  if (options.output) {
+    fs.mkdirSync(path.dirname(options.output), { recursive: true });
+    fs.writeFileSync(options.output, output);
+    process.stderr.write(`Wrote ${options.output}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+// .cryml text of a diagram file
+function readDiagram(file: string): string {
+  const content = fs.readFileSync(file, 'utf8');
+  return MERMAID_EXTENSIONS.includes(path.extname(file))
+    ? mermaidToYaml(content, path.basename(file, path.extname(file)))
+    : content;
+}
+
+/**
+ * 1-based "line:column" for an offset
+ */
+function positionAt(content: string, offset: number): string {
+  const before = content.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return `${line}:${column}`;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => process.exit(code),
+    (error) => {
+      process.stderr.write(`chart-cli: ${error instanceof Error ? error.message : error}\n`);
+      process.exit(1);
+    }
+  );
+}
@@ -0,0 +1,432 @@
+// SVG Renderer
+// Renders laid-out diagrams to standalone SVG strings without a DOM (used by the CLI)
+
+import { Node, Edge } from 'reactflow';
+import { PrismaField, ModelConstraint } from '../webview/prismaParser';
+import { ParsedSequenceDiagram } from '../webview/parsers/sequenceParser';
+import { SequenceColor } from '../webview/types/diagrams';
+import { estimateTextWidth } from '../webview/textMetrics';
+
+const PADDING = 40;
+const BACKGROUND = '#1e1e1e';
+const FONT_FAMILY = 'system-ui, -apple-system, Helvetica, Arial, sans-serif';
+const EDGE_COLOR = '#64748b';
+
+// Matches the row geometry used by convertPrismaToFlowChart
+const ERD_HEADER_HEIGHT = 50;
+const ERD_FIELD_HEIGHT = 35;
+const ENUM_VALUE_HEIGHT = 30;
+
+const MODEL_COLORS: Record<string, string> = {
+  yellow: '#f59e0b',
+  red: '#ef4444',
+  teal: '#14b8a6',
+};
+
+const SEQUENCE_COLORS: Record<SequenceColor, string> = {
+  blue: '#3b82f6',
+  green: '#10b981',
+  red: '#ef4444',
+  orange: '#f97316',
+  purple: '#8b5cf6',
+  gray: '#6b7280',
+  yellow: '#fbbf24',
+  teal: '#14b8a6',
+};
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SequenceGeometry {
+  width: number;
+  height: number;
+  participants: { id: string; x: number; width: number; color: string }[];
+  messages: { id: string; from: string; to: string; y: number }[];
+}
+
+/**
+ * Render an ERD (Prisma or YAML) after convertPrismaToFlowChart has laid it out
+ */
+export function renderErdSvg(nodes: Node[], edges: Edge[]): string {
+  const { offsetX, offsetY, width, height } = fitNodes(nodes);
+  const boxes = new Map(nodes.map((node) => [node.id, shift(nodeBox(node), offsetX, offsetY)]));
+  const parts: string[] = [];
+
+  for (const edge of edges) {
+    const source = nodes.find((node) => node.id === edge.source);
+    const target = nodes.find((node) => node.id === edge.target);
+    if (!source || !target) continue;
+
+    const sourceBox = boxes.get(source.id)!;
+    const targetBox = boxes.get(target.id)!;
+    const sourceY = sourceBox.y + rowCenter(source, edge.sourceHandle);
+    const targetY = targetBox.y + rowCenter(target, edge.targetHandle);
+
+    // Leave from the side facing the target; stacked boxes loop around the right side
+    let sourceX: number;
+    let targetX: number;
+    let midX: number;
+    if (targetBox.x > sourceBox.x + sourceBox.width) {
+      sourceX = sourceBox.x + sourceBox.width;
+      targetX = targetBox.x;
+      midX = (sourceX + targetX) / 2;
+    } else if (targetBox.x + targetBox.width < sourceBox.x) {
+      sourceX = sourceBox.x;
+      targetX = targetBox.x + targetBox.width;
+      midX = (sourceX + targetX) / 2;
+    } else {
+      sourceX = sourceBox.x + sourceBox.width;
+      targetX = targetBox.x + targetBox.width;
+      midX = Math.max(sourceX, targetX) + 40;
+    }
+
+    const dash = edge.style?.strokeDasharray ? ` stroke-dasharray="${edge.style.strokeDasharray}"` : '';
+    parts.push(
+      `<path d="M ${sourceX} ${sourceY} H ${midX} V ${targetY} H ${targetX}" fill="none" stroke="#ffffff" stroke-opacity="0.7" stroke-width="1.5"${dash} marker-end="url(#arrow)"/>`
+    );
+  }
+
+  for (const node of nodes) {
+    const box = boxes.get(node.id)!;
+    const color = MODEL_COLORS[node.data?.color] || (node.type === 'prismaEnum' ? MODEL_COLORS.teal : MODEL_COLORS.yellow);
+    parts.push(`<g transform="translate(${box.x} ${box.y})">`);
+    parts.push(`<rect width="${box.width}" height="${box.height}" rx="8" fill="#2d2d2d" stroke="${color}" stroke-width="2"/>`);
+    parts.push(`<rect width="${box.width}" height="${ERD_HEADER_HEIGHT}" rx="8" fill="${color}" fill-opacity="0.25"/>`);
+    parts.push(text(16, 31, node.data?.label ?? node.id, { size: 15, weight: '700', fill: '#f9fafb' }));
+    parts.push(text(box.width - 16, 31, node.type === 'prismaEnum' ? 'ENUM' : (node.data?.kind || 'model').toUpperCase(), { size: 10, weight: '600', fill: color, anchor: 'end' }));
+
+    if (node.type === 'prismaEnum') {
+      (node.data?.values || []).forEach((value: { name: string }, index: number) => {
+        const rowY = ERD_HEADER_HEIGHT + index * ENUM_VALUE_HEIGHT;
+        parts.push(text(16, rowY + 20, value.name, { size: 12, fill: '#e5e7eb' }));
+      });
+    } else {
+      const fields: PrismaField[] = node.data?.fields || [];
+      fields.forEach((field, index) => {
+        parts.push(renderField(field, ERD_HEADER_HEIGHT + index * ERD_FIELD_HEIGHT, box.width));
+      });
+
+      const constraints: ModelConstraint[] = node.data?.constraints || [];
+      if (constraints.length > 0) {
+        const rowY = ERD_HEADER_HEIGHT + fields.length * ERD_FIELD_HEIGHT;
+        parts.push(`<line x1="0" y1="${rowY}" x2="${box.width}" y2="${rowY}" stroke="#3f3f46"/>`);
+        parts.push(text(16, rowY + 20, `Indexes & Constraints (${constraints.length})`, { size: 11, fill: '#9ca3af' }));
+      }
+    }
+    parts.push('</g>');
+  }
+
+  return svgDocument(width, height, parts, '#ffffff');
+}
+
+/**
+ * Render a flow diagram after convertFlowToReactFlow / layoutFlowDiagram
+ */
+export function renderFlowSvg(nodes: Node[], edges: Edge[], direction: 'DOWN' | 'RIGHT' = 'DOWN'): string {
+  const { offsetX, offsetY, width, height } = fitNodes(nodes);
+  const boxes = new Map(nodes.map((node) => [node.id, shift(nodeBox(node), offsetX, offsetY)]));
+  const parts: string[] = [];
+
+  for (const edge of edges) {
+    const source = boxes.get(edge.source);
+    const target = boxes.get(edge.target);
+    if (!source || !target) continue;
+
+    let path: string;
+    let labelX: number;
+    let labelY: number;
+    if (direction === 'RIGHT') {
+      const sx = source.x + source.width;
+      const sy = source.y + source.height / 2;
+      const tx = target.x;
+      const ty = target.y + target.height / 2;
+      const mx = (sx + tx) / 2;
+      path = `M ${sx} ${sy} H ${mx} V ${ty} H ${tx}`;
+      labelX = mx;
+      labelY = (sy + ty) / 2;
+    } else {
+      const sx = source.x + source.width / 2;
+      const sy = source.y + source.height;
+      const tx = target.x + target.width / 2;
+      const ty = target.y;
+      const my = (sy + ty) / 2;
+      path = `M ${sx} ${sy} V ${my} H ${tx} V ${ty}`;
+      labelX = (sx + tx) / 2;
+      labelY = my;
+    }
+
+    parts.push(`<path d="${path}" fill="none" stroke="${EDGE_COLOR}" stroke-width="2.5" marker-end="url(#arrow)"/>`);
+
+    const label = typeof edge.label === 'string' ? edge.label : '';
+    if (label) {
+      const labelWidth = estimateTextWidth(label, 13, '600') + 16;
+      parts.push(`<rect x="${labelX - labelWidth / 2}" y="${labelY - 11}" width="${labelWidth}" height="22" rx="4" fill="#1e293b" stroke="#334155"/>`);
+      parts.push(text(labelX, labelY + 4, label, { size: 13, weight: '600', fill: '#f8fafc', anchor: 'middle' }));
+    }
+  }
+
+  for (const node of nodes) {
+    parts.push(renderFlowNode(node, boxes.get(node.id)!));
+  }
+
+  return svgDocument(width, height, parts, EDGE_COLOR);
+}
+
+/**
+ * Compute participant and message positions with the same spacing as SequenceDiagramD3
+ */
+export function layoutSequence(parsed: ParsedSequenceDiagram): SequenceGeometry {
+  const participantWidth = parsed.style?.participant_width ?? 150;
+  const horizontalGap = 100;
+  const startX = 50;
+  const startY = 80;
+  const messageSpacing = 65;
+  const headerHeight = 70;
+  const bottomHeaderHeight = 50;
+
+  const participantIds = Object.keys(parsed.participants).sort((a, b) => {
+    const orderA = parsed.participants[a].order ?? 0;
+    const orderB = parsed.participants[b].order ?? 0;
+    return orderA - orderB;
+  });
+  const sortedMessages = [...parsed.messages].sort((a, b) => a.sequence_order - b.sequence_order);
+
+  return {
+    width: startX + participantIds.length * (participantWidth + horizontalGap) + 50,
+    height: startY + headerHeight + sortedMessages.length * messageSpacing + 100 + bottomHeaderHeight,
+    participants: participantIds.map((id, index) => ({
+      id,
+      x: startX + index * (participantWidth + horizontalGap),
+      width: participantWidth,
+      color: SEQUENCE_COLORS[parsed.participants[id].color || parsed.style?.default_color || 'blue'] || SEQUENCE_COLORS.blue,
+    })),
+    messages: sortedMessages.map((message, index) => ({
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      y: startY + headerHeight + index * messageSpacing,
+    })),
+  };
+}
+
+/**
+ * Render a sequence diagram: participants, lifelines, blocks and messages
+ */
+export function renderSequenceSvg(parsed: ParsedSequenceDiagram): string {
+  const geometry = layoutSequence(parsed);
+  const headerY = 80;
+  const headerHeight = 50;
+  const bottomY = geometry.height - 50;
+  const parts: string[] = [`<rect width="100%" height="100%" fill="${BACKGROUND}"/>`];
+
+  const participantById = new Map(geometry.participants.map((p) => [p.id, p]));
+  const messageById = new Map(geometry.messages.map((m) => [m.id, m]));
+  const centerOf = (id: string) => {
+    const participant = participantById.get(id);
+    return participant ? participant.x + participant.width / 2 : undefined;
+  };
+
+  // Lifelines and headers at both ends
+  for (const participant of geometry.participants) {
+    const center = participant.x + participant.width / 2;
+    const label = parsed.participants[participant.id].label;
+    if (parsed.style?.show_lifelines !== false) {
+      parts.push(`<line x1="${center}" y1="${headerY + headerHeight}" x2="${center}" y2="${bottomY - 20}" stroke="${EDGE_COLOR}" stroke-width="2" stroke-dasharray="6,4" opacity="0.6"/>`);
+    }
+    for (const [y, height] of [[headerY, headerHeight], [bottomY, 40]]) {
+      parts.push(`<rect x="${participant.x}" y="${y}" width="${participant.width}" height="${height}" rx="8" fill="${participant.color}" fill-opacity="0.15" stroke="${participant.color}" stroke-width="2"/>`);
+      parts.push(text(center, y + height / 2 + 5, label, { size: 14, weight: '600', fill: '#f8fafc', anchor: 'middle' }));
+    }
+  }
+
+  // Blocks frame the messages they contain
+  for (const block of parsed.blocks || []) {
+    const ys = (block.messages || []).map((id) => messageById.get(id)?.y).filter((y): y is number => y !== undefined);
+    const involved = (block.messages || [])
+      .map((id) => messageById.get(id))
+      .flatMap((message) => (message ? [message.from, message.to] : []))
+      .map((id) => participantById.get(id))
+      .filter((participant): participant is SequenceGeometry['participants'][number] => !!participant);
+    if (ys.length === 0 || involved.length === 0) continue;
+
+    const top = Math.min(...ys) - 30;
+    const bottom = Math.max(...ys) + 25;
+    const left = Math.min(...involved.map((p) => p.x)) - 20;
+    const right = Math.max(...involved.map((p) => p.x + p.width)) + 20;
+    const title = block.condition ? `${block.type} [${block.condition}]` : block.type;
+
+    parts.push(`<rect x="${left}" y="${top}" width="${right - left}" height="${bottom - top}" rx="4" fill="none" stroke="#94a3b8" stroke-dasharray="4,3"/>`);
+    parts.push(text(left + 8, top + 14, title, { size: 11, weight: '700', fill: '#cbd5e1' }));
+
+    // Alternative sections are separated where their first message starts
+    (block.alt_sections || []).slice(1).forEach((section) => {
+      const firstY = Math.min(...section.messages.map((id) => messageById.get(id)?.y ?? Infinity));
+      if (!isFinite(firstY)) return;
+      const dividerY = firstY - 30;
+      parts.push(`<line x1="${left}" y1="${dividerY}" x2="${right}" y2="${dividerY}" stroke="#94a3b8" stroke-dasharray="4,3"/>`);
+      if (section.condition) {
+        parts.push(text(left + 8, dividerY + 14, `[${section.condition}]`, { size: 11, fill: '#cbd5e1' }));
+      }
+    });
+  }
+
+  // Messages
+  for (const message of parsed.messages) {
+    const position = messageById.get(message.id);
+    const x1 = centerOf(message.from);
+    const x2 = centerOf(message.to);
+    if (!position || x1 === undefined || x2 === undefined) continue;
+
+    const arrowType = message.arrow_type || 'solid';
+    const dash = arrowType === 'dashed' || arrowType === 'open_dashed' ? ' stroke-dasharray="6,4"'
+      : arrowType === 'dot' ? ' stroke-dasharray="2,2"' : '';
+    parts.push(`<line x1="${x1}" y1="${position.y}" x2="${x2}" y2="${position.y}" stroke="#475569" stroke-width="2"${dash} marker-end="url(#arrow)"/>`);
+
+    if (message.label) {
+      const labelWidth = Math.max(estimateTextWidth(message.label, 12, '500') + 24, 60);
+      const labelX = (x1 + x2) / 2;
+      parts.push(`<rect x="${labelX - labelWidth / 2}" y="${position.y - 11}" width="${labelWidth}" height="22" rx="5" fill="#1e293b" stroke="#334155"/>`);
+      parts.push(text(labelX, position.y + 5, message.label, { size: 12, weight: '500', fill: '#f8fafc', anchor: 'middle' }));
+    }
+  }
+
+  return svgDocument(geometry.width, geometry.height, parts, '#94a3b8', false);
+}
+
+function renderField(field: PrismaField, rowY: number, width: number): string {
+  const parts: string[] = [`<line x1="0" y1="${rowY}" x2="${width}" y2="${rowY}" stroke="#3f3f46"/>`];
+  const badges: [string, string][] = [];
+  if (field.isId) badges.push(['PK', '#facc15']);
+  if (field.isForeignKey) badges.push(['FK', '#60a5fa']);
+  if (field.isUnique && !field.isId) badges.push(['U', '#4ade80']);
+
+  let x = 16;
+  for (const [badge, color] of badges) {
+    parts.push(text(x, rowY + 22, badge, { size: 10, weight: '700', fill: color }));
+    x += estimateTextWidth(badge, 10, '700') + 8;
+  }
+
+  const type = `${field.type}${field.isList ? '[]' : ''}${field.isRequired ? '' : '?'}`;
+  parts.push(text(x, rowY + 22, field.name, { size: 13, fill: '#e5e7eb' }));
+  parts.push(text(width - 16, rowY + 22, type, { size: 12, fill: '#9ca3af', anchor: 'end', family: 'monospace' }));
+  return parts.join('');
+}
+
+function renderFlowNode(node: Node, box: Box): string {
+  const type = node.data?.type || node.type || 'process';
+  const color: string = node.data?.color || '#3b82f6';
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const label: string = node.data?.label ?? node.id;
+  const description: string | undefined = node.data?.description;
+  const parts: string[] = [];
+
+  switch (type) {
+    case 'start':
+    case 'end': {
+      const fill = type === 'start' ? '#10b981' : '#ef4444';
+      parts.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="${box.height / 2}" fill="${fill}" fill-opacity="0.2" stroke="${fill}" stroke-width="2"/>`);
+      break;
+    }
+    case 'decision':
+      parts.push(`<polygon points="${centerX},${box.y} ${box.x + box.width},${centerY} ${centerX},${box.y + box.height} ${box.x},${centerY}" fill="#f59e0b" fill-opacity="0.15" stroke="#f59e0b" stroke-width="2"/>`);
+      break;
+    case 'note':
+      parts.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="6" fill="#fef3c7" fill-opacity="0.12" stroke="#fbbf24" stroke-width="2" stroke-dasharray="5,3"/>`);
+      break;
+    default:
+      parts.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" fill="${color}" fill-opacity="0.15" stroke="${color}" stroke-width="2"/>`);
+  }
+
+  const labelY = description ? centerY - 2 : centerY + 5;
+  parts.push(text(centerX, labelY, label, { size: 14, weight: '600', fill: '#f8fafc', anchor: 'middle' }));
+  if (description) {
+    parts.push(text(centerX, labelY + 18, description, { size: 12, fill: '#cbd5e1', anchor: 'middle' }));
+  }
+  return parts.join('');
+}
+
+/**
+ * Vertical center of an ERD row for a `<field>-source` / `<field>-target` handle
+ */
+function rowCenter(node: Node, handle?: string | null): number {
+  const fieldName = handle?.replace(/-(source|target)$/, '');
+  const index = (node.data?.fields || []).findIndex((field: PrismaField) => field.name === fieldName);
+  return index === -1
+    ? ERD_HEADER_HEIGHT / 2
+    : ERD_HEADER_HEIGHT + index * ERD_FIELD_HEIGHT + ERD_FIELD_HEIGHT / 2;
+}
+
+/**
+ * Position and size of a node, estimating the size when React Flow would measure it
+ */
+export function nodeBox(node: Node): Box {
+  const label: string = node.data?.label ?? node.id;
+  return {
+    x: node.position.x,
+    y: node.position.y,
+    width: Number(node.width ?? node.style?.width ?? Math.max(120, estimateTextWidth(label, 14, '600') + 48)),
+    height: Number(node.height ?? node.style?.height ?? 50),
+  };
+}
+
+function shift(box: Box, dx: number, dy: number): Box {
+  return { ...box, x: box.x + dx, y: box.y + dy };
+}
+
+/**
+ * Translate node coordinates so the drawing starts at the padding
+ */
+function fitNodes(nodes: Node[]): { offsetX: number; offsetY: number; width: number; height: number } {
+  if (nodes.length === 0) {
+    return { offsetX: PADDING, offsetY: PADDING, width: PADDING * 2, height: PADDING * 2 };
+  }
+
+  const boxes = nodes.map(nodeBox);
+  const minX = Math.min(...boxes.map((box) => box.x));
+  const minY = Math.min(...boxes.map((box) => box.y));
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width));
+  const maxY = Math.max(...boxes.map((box) => box.y + box.height));
+
+  return {
+    offsetX: PADDING - minX,
+    offsetY: PADDING - minY,
+    width: Math.ceil(maxX - minX + PADDING * 2),
+    height: Math.ceil(maxY - minY + PADDING * 2),
+  };
+}
+
+function svgDocument(width: number, height: number, parts: string[], arrowColor: string, withBackground = true): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<defs><marker id="arrow" markerWidth="10" markerHeight="10" refX="9" refY="5" orient="auto" markerUnits="userSpaceOnUse"><path d="M0,0 L10,5 L0,10 z" fill="${arrowColor}"/></marker></defs>`,
+    withBackground ? `<rect width="100%" height="100%" fill="${BACKGROUND}"/>` : '',
+    ...parts,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  options: { size: number; fill: string; weight?: string; anchor?: 'start' | 'middle' | 'end'; family?: string }
+): string {
+  const anchor = options.anchor && options.anchor !== 'start' ? ` text-anchor="${options.anchor}"` : '';
+  const weight = options.weight ? ` font-weight="${options.weight}"` : '';
+  const family = options.family ? ` font-family="${options.family}"` : '';
+  return `<text x="${x}" y="${y}" font-size="${options.size}" fill="${options.fill}"${weight}${anchor}${family}>${escapeXml(content)}</text>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
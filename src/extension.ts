@@ -1,6 +1,19 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { CrymlDiagnosticsProvider } from './providers/crymlDiagnostics';
+import { CrymlLanguageFeatures } from './providers/crymlLanguageFeatures';
+import { CrymlQuickFixProvider } from './providers/crymlQuickFixes';
+import { LAYOUT_SIDECAR_SUFFIX, getLayoutStorage } from './utils/layoutStorage';
+import { computeDiagramEdits, DiagramEdit, setTopLevelEntryEdit } from './utils/yamlEdits';
+import { findYamlPathAtOffset } from './webview/parsers/yamlPath';
+import { parsePrismaAst } from './webview/parsers/prismaAst';
+import { yamlToPrisma } from './webview/prismaGenerator';
+import { yamlToSql, SqlDialect, SQL_DIALECTS } from './webview/sqlGenerator';
+import { yamlToDbml } from './webview/dbmlGenerator';
+import { yamlToMermaid } from './webview/mermaidGenerator';
+import { mermaidToYaml } from './webview/parsers/mermaidParser';
+import { yamlToPlantUml } from './webview/plantumlGenerator';
 
 export function activate(context: vscode.ExtensionContext) {
   // Store context for FlowChartPanel to use
@@ -31,6 +44,14 @@ export function activate(context: vscode.ExtensionContext) {
       if (uri) {
         // Load from specific file path (from explorer context menu)
         const fileUri = typeof uri === 'string' ? vscode.Uri.file(uri) : uri;
+
+        // Folders and files inside a prisma/schema folder open the merged multi-file schema
+        const schemaFolder = await findPrismaSchemaFolder(fileUri);
+        if (schemaFolder) {
+          FlowChartPanel.createOrShow(context.extensionUri, await createPrismaFolderItem(schemaFolder));
+          return;
+        }
+
         const content = await vscode.workspace.fs.readFile(fileUri);
         schemaContent = Buffer.from(content).toString('utf8');
         actualFilePath = fileUri.fsPath;
@@ -50,6 +71,12 @@ export function activate(context: vscode.ExtensionContext) {
 
         const fileUri = await vscode.window.showOpenDialog(options);
         if (fileUri && fileUri[0]) {
+          const schemaFolder = await findPrismaSchemaFolder(fileUri[0]);
+          if (schemaFolder) {
+            FlowChartPanel.createOrShow(context.extensionUri, await createPrismaFolderItem(schemaFolder));
+            return;
+          }
+
           const content = await vscode.workspace.fs.readFile(fileUri[0]);
           schemaContent = Buffer.from(content).toString('utf8');
           actualFilePath = fileUri[0].fsPath;
@@ -69,6 +96,39 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register command to open a SQL DDL script as an ERD
+  const openSqlCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.openSql',
+    async (uri?: vscode.Uri) => {
+      let fileUri = typeof uri === 'string' ? vscode.Uri.file(uri) : uri;
+
+      if (!fileUri) {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          openLabel: 'Select SQL Schema',
+          defaultUri: workspaceFolder?.uri,
+          filters: {
+            'SQL Files': ['sql', 'ddl']
+          }
+        });
+        fileUri = picked?.[0];
+      }
+      if (!fileUri) {
+        return;
+      }
+
+      const content = await vscode.workspace.fs.readFile(fileUri);
+      FlowChartPanel.createOrShow(
+        context.extensionUri,
+        new ChartItemData('sql', `SQL: ${path.basename(fileUri.fsPath)}`, {
+          schema: Buffer.from(content).toString('utf8'),
+          filePath: fileUri.fsPath,
+        })
+      );
+    }
+  );
+
   // Register command to save current schema as YAML
   const saveYamlCommand = vscode.commands.registerCommand(
     'chart-vscode-ext.saveAsYaml',
@@ -101,6 +161,39 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register command to open a dbdiagram.io DBML file as an ERD
+  const openDbmlCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.openDbml',
+    async (uri?: vscode.Uri) => {
+      let fileUri = typeof uri === 'string' ? vscode.Uri.file(uri) : uri;
+
+      if (!fileUri) {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          openLabel: 'Select DBML Schema',
+          defaultUri: workspaceFolder?.uri,
+          filters: {
+            'DBML Files': ['dbml']
+          }
+        });
+        fileUri = picked?.[0];
+      }
+      if (!fileUri) {
+        return;
+      }
+
+      const content = await vscode.workspace.fs.readFile(fileUri);
+      FlowChartPanel.createOrShow(
+        context.extensionUri,
+        new ChartItemData('dbml', `DBML: ${path.basename(fileUri.fsPath)}`, {
+          schema: Buffer.from(content).toString('utf8'),
+          filePath: fileUri.fsPath,
+        })
+      );
+    }
+  );
+
   // Register command to open YAML schema
   const openYamlCommand = vscode.commands.registerCommand(
     'chart-vscode-ext.openYaml',
@@ -136,11 +229,16 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }
 
+      // .cryml files open in the diagram editor bound to the text document
+      if (actualFilePath?.endsWith('.cryml')) {
+        await vscode.commands.executeCommand('vscode.openWith', vscode.Uri.file(actualFilePath), DiagramEditorProvider.viewType);
+        return;
+      }
+
       if (yamlContent) {
-        // Create a unique label based on the file name and extension
+        // Create a unique label based on the file name
         const fileName = actualFilePath ? actualFilePath.split('/').pop() || actualFilePath.split('\\').pop() : 'Schema';
-        const isCryml = actualFilePath?.endsWith('.cryml');
-        const label = `${isCryml ? 'Cryml' : 'YAML'}: ${fileName}`;
+        const label = `YAML: ${fileName}`;
 
         FlowChartPanel.createOrShow(
           context.extensionUri,
@@ -150,80 +248,249 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register the diagram as a custom editor for .cryml and .prisma documents
+  const diagramEditorProvider = DiagramEditorProvider.register(context);
+
+  // Register command to open the diagram editor beside the text editor
+  const openDiagramToSideCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.openDiagramToSide',
+    async (uri?: vscode.Uri) => {
+      const fileUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!fileUri) {
+        vscode.window.showWarningMessage('No active file to open as a diagram');
+        return;
+      }
+
+      await vscode.commands.executeCommand('vscode.openWith', fileUri, DiagramEditorProvider.viewType, vscode.ViewColumn.Beside);
+    }
+  );
+
+  // Register command to export the focused diagram as SVG or PNG
+  const exportDiagramCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.exportDiagram',
+    async () => {
+      const panel = FlowChartPanel.getActivePanel();
+      if (!panel) {
+        vscode.window.showWarningMessage('Open a diagram to export it');
+        return;
+      }
+
+      await panel.exportDiagram();
+    }
+  );
+
+  // Validate .cryml documents on open/change/save and report in the Problems panel
+  const crymlDiagnostics = new CrymlDiagnosticsProvider();
+
+  // Completion, hover, go-to-definition, find-references and rename in .cryml documents
+  const crymlLanguageFeatures = new CrymlLanguageFeatures();
+
+  // Quick fixes for common validation findings
+  const crymlQuickFixes = new CrymlQuickFixProvider();
+
   // Register command to validate .cryml file
   const validateCrymlCommand = vscode.commands.registerCommand(
     'chart-vscode-ext.validateCryml',
-    async () => {
-      // Get active editor
-      const activeEditor = vscode.window.activeTextEditor;
-      if (!activeEditor) {
+    async (uri?: vscode.Uri) => {
+      let document: vscode.TextDocument | undefined;
+
+      if (uri) {
+        // Explorer context menu passes the file Uri
+        const fileUri = typeof uri === 'string' ? vscode.Uri.file(uri) : uri;
+        document = await vscode.workspace.openTextDocument(fileUri);
+      } else {
+        document = vscode.window.activeTextEditor?.document;
+      }
+
+      if (!document) {
         vscode.window.showWarningMessage('No active file to validate');
         return;
       }
 
-      const content = activeEditor.document.getText();
-
-      if (!content || content.trim().length === 0) {
+      if (document.getText().trim().length === 0) {
         vscode.window.showWarningMessage('No content to validate');
         return;
       }
 
-      // Simple validation - check for required fields
+      const diagnostics = await crymlDiagnostics.validateDocument(document);
+      if (!diagnostics) {
+        vscode.window.showWarningMessage('Active file is not a .cryml file');
+        return;
+      }
+
+      const errorCount = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
+      const warningCount = diagnostics.length - errorCount;
+
+      if (errorCount === 0 && warningCount === 0) {
+        vscode.window.showInformationMessage('✓ Valid .cryml diagram');
+        return;
+      }
+
+      const summary = `${errorCount} error(s), ${warningCount} warning(s) found`;
+      const showProblems = 'Show Problems';
+      const choice = errorCount > 0
+        ? await vscode.window.showErrorMessage(summary, showProblems)
+        : await vscode.window.showWarningMessage(summary, showProblems);
+
+      if (choice === showProblems) {
+        vscode.commands.executeCommand('workbench.actions.view.problems');
+      }
+    }
+  );
+
+  // Register command to generate a Prisma schema from a .cryml ERD
+  const generatePrismaCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.generatePrisma',
+    async (uri?: vscode.Uri) => {
+      const document = uri
+        ? await vscode.workspace.openTextDocument(typeof uri === 'string' ? vscode.Uri.file(uri) : uri)
+        : vscode.window.activeTextEditor?.document;
+
+      if (!document || document.languageId !== 'cryml') {
+        vscode.window.showWarningMessage('Open a .cryml ERD to generate a Prisma schema');
+        return;
+      }
+
+      let schema: string;
       try {
-        const yaml = require('yaml');
-        const parsed = yaml.parse(content);
+        schema = yamlToPrisma(document.getText());
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to generate Prisma schema: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
 
-        if (!parsed || typeof parsed !== 'object') {
-          vscode.window.showErrorMessage('Invalid YAML: Empty or not an object');
-          return;
-        }
+      const saveUri = await vscode.window.showSaveDialog({
+        filters: { 'Prisma Schema': ['prisma'] },
+        defaultUri: vscode.Uri.file(document.uri.fsPath.replace(/\.cryml$/, '.prisma')),
+        saveLabel: 'Generate'
+      });
+      if (!saveUri) {
+        return;
+      }
 
-        const diagramType = parsed.diagram_type || 'erd';
+      await vscode.workspace.fs.writeFile(saveUri, Buffer.from(schema, 'utf8'));
+      await vscode.window.showTextDocument(saveUri, { preview: false });
+    }
+  );
 
-        // Check for required metadata
-        if (!parsed.metadata) {
-          vscode.window.showErrorMessage('Missing required field: metadata');
-          return;
-        }
+  // Register command to generate SQL DDL from a .cryml ERD, or from the schema in the diagram panel
+  const generateSqlCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.generateSql',
+    async (uri?: vscode.Uri) => {
+      const source = await findDiagramSource(uri, 'SQL');
+      if (!source) {
+        return;
+      }
 
-        if (!parsed.metadata.name) {
-          vscode.window.showErrorMessage('Missing required field: metadata.name');
-          return;
-        }
+      const picked = await vscode.window.showQuickPick(
+        Object.entries(SQL_DIALECTS).map(([dialect, label]) => ({ label, dialect: dialect as SqlDialect })),
+        { placeHolder: 'SQL dialect' }
+      );
+      if (!picked) {
+        return;
+      }
 
-        // Check for required fields based on diagram type
-        if (diagramType === 'erd' && !parsed.models) {
-          vscode.window.showErrorMessage('Missing required field for ERD: models');
-          return;
-        }
+      await generateDiagramFile(source, {
+        name: 'SQL',
+        extension: 'sql',
+        generate: (content) => yamlToSql(content, picked.dialect),
+        request: { format: 'sql', dialect: picked.dialect },
+      });
+    }
+  );
 
-        if (diagramType === 'flow') {
-          if (!parsed.nodes) {
-            vscode.window.showErrorMessage('Missing required field for Flow: nodes');
-            return;
-          }
-          // Validate node structure
-          for (const [nodeId, node] of Object.entries(parsed.nodes)) {
-            const flowNode = node as { type?: string; label?: string };
-            if (!flowNode.type || !['start', 'end', 'process', 'decision', 'note'].includes(flowNode.type)) {
-              vscode.window.showErrorMessage(`Invalid node type for "${nodeId}": ${flowNode.type}`);
-              return;
-            }
-            if (!flowNode.label) {
-              vscode.window.showErrorMessage(`Missing label for node: "${nodeId}"`);
-              return;
-            }
-          }
-        }
+  // Register command to generate DBML from a .cryml ERD, or from the schema in the diagram panel
+  const generateDbmlCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.generateDbml',
+    async (uri?: vscode.Uri) => {
+      const source = await findDiagramSource(uri, 'DBML');
+      if (source) {
+        await generateDiagramFile(source, {
+          name: 'DBML',
+          extension: 'dbml',
+          generate: yamlToDbml,
+          request: { format: 'dbml' },
+        });
+      }
+    }
+  );
+
+  // Register command to generate Mermaid from a .cryml diagram, or from the schema in the diagram panel
+  const generateMermaidCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.generateMermaid',
+    async (uri?: vscode.Uri) => {
+      const source = await findDiagramSource(uri, 'Mermaid');
+      if (source) {
+        await generateDiagramFile(source, {
+          name: 'Mermaid',
+          extension: 'mmd',
+          generate: yamlToMermaid,
+          request: { format: 'mermaid' },
+        });
+      }
+    }
+  );
 
-        vscode.window.showInformationMessage(`✓ Valid ${diagramType.toUpperCase()} diagram`);
+  // Register command to generate PlantUML from a .cryml sequence or flow diagram
+  const generatePlantUmlCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.generatePlantUml',
+    async (uri?: vscode.Uri) => {
+      const source = await findDiagramSource(uri, 'PlantUML');
+      if (source) {
+        await generateDiagramFile(source, {
+          name: 'PlantUML',
+          extension: 'puml',
+          generate: yamlToPlantUml,
+        });
+      }
+    }
+  );
+
+  // Register command to turn a Mermaid block (a .mmd file, the selection, or a Markdown fence) into a .cryml file
+  const importMermaidCommand = vscode.commands.registerCommand(
+    'chart-vscode-ext.importMermaid',
+    async (uri?: vscode.Uri) => {
+      const editor = vscode.window.activeTextEditor;
+      const document = uri
+        ? await vscode.workspace.openTextDocument(typeof uri === 'string' ? vscode.Uri.file(uri) : uri)
+        : editor?.document;
+      if (!document) {
+        vscode.window.showWarningMessage('Open a Mermaid file or a Markdown file with a mermaid block to import');
+        return;
+      }
+
+      const selection = editor?.document === document ? editor.selection : undefined;
+      const block = selection && !selection.isEmpty
+        ? document.getText(selection)
+        : findMermaidBlock(document.getText(), selection ? document.offsetAt(selection.active) : 0, document.languageId === 'markdown');
+      if (!block) {
+        vscode.window.showWarningMessage('No ```mermaid block found in this file');
+        return;
+      }
+
+      const baseName = path.basename(document.uri.fsPath, path.extname(document.uri.fsPath));
+      let output: string;
+      try {
+        output = mermaidToYaml(block, baseName);
       } catch (error) {
-        vscode.window.showErrorMessage(`YAML parsing error: ${error}`);
+        vscode.window.showErrorMessage(`Failed to import Mermaid: ${error instanceof Error ? error.message : error}`);
+        return;
       }
+
+      const saveUri = await vscode.window.showSaveDialog({
+        filters: { 'CRYML Files': ['cryml'] },
+        defaultUri: vscode.Uri.file(path.join(path.dirname(document.uri.fsPath), `${baseName}.cryml`)),
+        saveLabel: 'Import'
+      });
+      if (!saveUri) {
+        return;
+      }
+      await vscode.workspace.fs.writeFile(saveUri, Buffer.from(output, 'utf8'));
+      await vscode.window.showTextDocument(saveUri, { preview: false });
     }
   );
 
-  context.subscriptions.push(openCommand, openPrismaCommand, saveYamlCommand, openYamlCommand, validateCrymlCommand);
+  context.subscriptions.push(openCommand, openPrismaCommand, openSqlCommand, openDbmlCommand, saveYamlCommand, openYamlCommand, validateCrymlCommand, generatePrismaCommand, generateSqlCommand, generateDbmlCommand, generateMermaidCommand, generatePlantUmlCommand, importMermaidCommand, crymlDiagnostics, crymlLanguageFeatures, crymlQuickFixes, diagramEditorProvider, openDiagramToSideCommand, exportDiagramCommand);
 }
 
 export function deactivate() {}
@@ -261,6 +528,24 @@ class FlowChartTreeProvider implements vscode.TreeDataProvider<ChartItem> {
           title: 'Open Prisma Schema',
         }
       ),
+      new ChartItem(
+        'Open SQL Schema',
+        vscode.TreeItemCollapsibleState.None,
+        'open-sql',
+        {
+          command: 'chart-vscode-ext.openSql',
+          title: 'Open SQL Schema',
+        }
+      ),
+      new ChartItem(
+        'Open DBML Schema',
+        vscode.TreeItemCollapsibleState.None,
+        'open-dbml',
+        {
+          command: 'chart-vscode-ext.openDbml',
+          title: 'Open DBML Schema',
+        }
+      ),
       new ChartItem(
         'Examples',
         vscode.TreeItemCollapsibleState.Collapsed,
@@ -298,6 +583,10 @@ class ChartItem extends vscode.TreeItem {
         return new vscode.ThemeIcon('graph');
       case 'prisma':
       case 'open-prisma':
+      case 'sql':
+      case 'open-sql':
+      case 'dbml':
+      case 'open-dbml':
         return new vscode.ThemeIcon('database');
       case 'yaml':
       case 'cryml':
@@ -411,6 +700,353 @@ class ChartItemData {
   ) {}
 }
 
+// Schema sources the webview parses itself; their layouts live in workspace state
+const SCHEMA_FILE_TYPES = ['prisma', 'sql', 'dbml'];
+
+const SOURCE_UPDATE_DEBOUNCE_MS = 300;
+const LAYOUT_STATE_PREFIX = 'layout:';
+
+interface PrismaSchemaFile {
+  filePath: string;
+  content: string;
+}
+
+// Prisma's multi-file schemas (prismaSchemaFolder) live in prisma/schema/
+const PRISMA_SCHEMA_FOLDER_NAME = 'schema';
+const PRISMA_SCHEMA_FOLDER_DEPTH = 4;
+
+/**
+ * The multi-file schema a .prisma file or folder belongs to: the folder itself, or the
+ * nearest enclosing "schema" folder that holds more than one .prisma file
+ */
+async function findPrismaSchemaFolder(uri: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const stat = await vscode.workspace.fs.stat(uri);
+  if (stat.type & vscode.FileType.Directory) {
+    return (await findPrismaFiles(uri)).length > 0 ? uri : undefined;
+  }
+
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+  let folder = path.dirname(uri.fsPath);
+  for (let depth = 0; depth < PRISMA_SCHEMA_FOLDER_DEPTH; depth++) {
+    if (path.basename(folder) === PRISMA_SCHEMA_FOLDER_NAME) {
+      const folderUri = vscode.Uri.file(folder);
+      return (await findPrismaFiles(folderUri)).length > 1 ? folderUri : undefined;
+    }
+
+    const parent = path.dirname(folder);
+    if (parent === folder || folder === workspaceFolder?.uri.fsPath) {
+      break;
+    }
+    folder = parent;
+  }
+  return undefined;
+}
+
+async function findPrismaFiles(folder: vscode.Uri): Promise<vscode.Uri[]> {
+  const files: vscode.Uri[] = [];
+  for (const [name, type] of await vscode.workspace.fs.readDirectory(folder)) {
+    const child = vscode.Uri.joinPath(folder, name);
+    if (type & vscode.FileType.Directory) {
+      if (name !== 'node_modules' && !name.startsWith('.')) {
+        files.push(...await findPrismaFiles(child));
+      }
+    } else if (name.endsWith('.prisma')) {
+      files.push(child);
+    }
+  }
+  return files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Read every file of a schema folder, preferring unsaved editor content over disk
+ */
+async function readPrismaSchemaFiles(folder: vscode.Uri): Promise<PrismaSchemaFile[]> {
+  const files = await findPrismaFiles(folder);
+  return Promise.all(files.map(async (file) => {
+    const document = vscode.workspace.textDocuments.find((doc) => doc.uri.fsPath === file.fsPath);
+    const content = document
+      ? document.getText()
+      : Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+    return { filePath: file.fsPath, content };
+  }));
+}
+
+async function createPrismaFolderItem(folder: vscode.Uri): Promise<ChartItemData> {
+  const files = await readPrismaSchemaFiles(folder);
+  return new ChartItemData('prisma', `Prisma: ${path.basename(folder.fsPath)}/`, {
+    files,
+    filePath: folder.fsPath,
+    schemaFolder: folder.fsPath,
+  });
+}
+
+/**
+ * A diagram element the user right-clicked in the webview
+ */
+interface DiagramElement {
+  kind: 'flowNode' | 'erdModel' | 'sequenceMessage';
+  id: string;
+  label?: string;
+  sourceFile?: string;
+  sourceRange?: SourceRange;
+}
+
+/**
+ * Character offsets of an element's declaration, as recorded by the webview parsers
+ */
+interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * The diagram node to select for the cursor position in the source
+ */
+interface SelectedElement {
+  kind: 'erdModel' | 'flowNode';
+  id: string;
+  field?: string;
+}
+
+type GenerateRequest = { format: 'sql'; dialect: SqlDialect } | { format: 'dbml' } | { format: 'mermaid' };
+
+// A file format generated from a diagram, e.g. SQL DDL, DBML or Mermaid
+interface GeneratedFormat {
+  name: string;
+  extension: string;
+  generate: (content: string) => string; // From .cryml text
+  request?: GenerateRequest; // For the webview, when the ERD comes from a schema panel
+}
+
+interface DiagramSource {
+  document?: vscode.TextDocument;
+  panel?: FlowChartPanel;
+}
+
+/**
+ * The .cryml diagram a generate command runs on: the given or active file, else the file
+ * shown in the most recent diagram panel, else the schema in that panel
+ */
+async function findDiagramSource(uri: vscode.Uri | undefined, formatName: string): Promise<DiagramSource | undefined> {
+  const document = uri
+    ? await vscode.workspace.openTextDocument(typeof uri === 'string' ? vscode.Uri.file(uri) : uri)
+    : vscode.window.activeTextEditor?.document;
+  if (document?.languageId === 'cryml') {
+    return { document };
+  }
+
+  const panel = Array.from(FlowChartPanel.panels.values()).pop();
+  if (!panel) {
+    vscode.window.showWarningMessage(`Open a .cryml diagram or a schema diagram to generate ${formatName}`);
+    return undefined;
+  }
+  if (panel.diagramFilePath) {
+    return { document: await vscode.workspace.openTextDocument(panel.diagramFilePath) };
+  }
+  return { panel };
+}
+
+/**
+ * Generate a file from a diagram and open it. Schemas shown in a panel (Prisma, SQL, DBML)
+ * are converted by the webview, which has their parsers.
+ */
+async function generateDiagramFile(source: DiagramSource, format: GeneratedFormat) {
+  if (!source.document && !format.request) {
+    vscode.window.showWarningMessage(`Open a .cryml diagram to generate ${format.name}`);
+    return;
+  }
+
+  let output: string | undefined;
+  if (source.document) {
+    try {
+      output = format.generate(source.document.getText());
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to generate ${format.name}: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+  }
+
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  const defaultName = `schema.${format.extension}`;
+  const saveUri = await vscode.window.showSaveDialog({
+    filters: { [`${format.name} Files`]: [format.extension] },
+    defaultUri: source.document
+      ? vscode.Uri.file(source.document.uri.fsPath.replace(/\.(cryml|ya?ml)$/, `.${format.extension}`))
+      : workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, defaultName) : vscode.Uri.file(defaultName),
+    saveLabel: 'Generate'
+  });
+  if (!saveUri) {
+    return;
+  }
+
+  if (output === undefined) {
+    source.panel!.sendGenerateRequest(format.request!, saveUri.fsPath);
+    return;
+  }
+  await vscode.workspace.fs.writeFile(saveUri, Buffer.from(output, 'utf8'));
+  await vscode.window.showTextDocument(saveUri, { preview: false });
+}
+
+/**
+ * The Mermaid source to import: in Markdown, the ```mermaid fence at the offset (else the first one),
+ * otherwise the whole file
+ */
+function findMermaidBlock(text: string, offset: number, isMarkdown: boolean): string | undefined {
+  if (!isMarkdown) {
+    return text;
+  }
+
+  const blocks = Array.from(text.matchAll(/^([ \t]*)(```|~~~)[ \t]*mermaid[^\n]*\n([\s\S]*?)^\1\2[ \t]*$/gm));
+  const block = blocks.find((match) => match.index! <= offset && offset <= match.index! + match[0].length) || blocks[0];
+  return block?.[3];
+}
+
+/**
+ * Resolve the model, enum, field or flow node declared at an offset of a .cryml file
+ */
+function findYamlElementAt(text: string, offset: number): SelectedElement | undefined {
+  const yaml = require('yaml');
+  const [section, id, child, childId] = findYamlPathAtOffset(yaml.parseDocument(text), offset);
+  if (typeof id !== 'string') {
+    return undefined;
+  }
+
+  switch (section) {
+    case 'nodes':
+      return { kind: 'flowNode', id };
+    case 'models':
+      return { kind: 'erdModel', id, field: child === 'fields' && typeof childId === 'string' ? childId : undefined };
+    case 'enums':
+      return { kind: 'erdModel', id };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve the model, enum or field declared at an offset of a .prisma file
+ */
+function findPrismaElementAt(text: string, offset: number): SelectedElement | undefined {
+  const contains = (span: { start: number; end: number }) => span.start <= offset && offset <= span.end;
+
+  for (const block of parsePrismaAst(text).blocks) {
+    if (!contains(block)) {
+      continue;
+    }
+    if (block.kind === 'enum') {
+      return { kind: 'erdModel', id: block.name };
+    }
+    if (block.kind === 'model' || block.kind === 'view' || block.kind === 'type') {
+      return { kind: 'erdModel', id: block.name, field: block.fields.find(contains)?.name };
+    }
+  }
+  return undefined;
+}
+
+interface DiagramAction extends vscode.QuickPickItem {
+  run: () => Promise<DiagramEdit | undefined>;
+}
+
+type ExportFormat = 'svg' | 'png' | 'dot';
+
+interface ExportOption extends vscode.QuickPickItem {
+  format: ExportFormat;
+  scale: number;
+}
+
+const EXPORT_OPTIONS: ExportOption[] = [
+  { label: 'SVG', description: 'Scalable vector image', format: 'svg', scale: 1 },
+  { label: 'PNG (1x)', format: 'png', scale: 1 },
+  { label: 'PNG (2x)', description: 'Sharp on high-DPI screens', format: 'png', scale: 2 },
+  { label: 'PNG (4x)', description: 'Print quality', format: 'png', scale: 4 },
+  { label: 'DOT (Graphviz)', description: 'Graph source for Graphviz layouts', format: 'dot', scale: 1 },
+];
+
+const EXPORT_FILTERS: Record<ExportFormat, Record<string, string[]>> = {
+  svg: { 'SVG Images': ['svg'] },
+  png: { 'PNG Images': ['png'] },
+  dot: { 'Graphviz Files': ['dot', 'gv'] },
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Source edits available for a diagram element
+ */
+function getDiagramActions(element: DiagramElement, editable: boolean): DiagramAction[] {
+  if (!editable) {
+    return [];
+  }
+
+  switch (element.kind) {
+    case 'flowNode':
+      return [{
+        label: '$(edit) Rename Label...',
+        run: async () => {
+          const label = await vscode.window.showInputBox({
+            prompt: `New label for node "${element.id}"`,
+            value: element.label,
+            validateInput: (value) => value.trim() ? undefined : 'Label cannot be empty'
+          });
+          return label === undefined ? undefined : { kind: 'renameFlowNode', nodeId: element.id, label: label.trim() };
+        }
+      }];
+    case 'erdModel':
+      return [{
+        label: '$(add) Add Field...',
+        run: async () => {
+          const field = await vscode.window.showInputBox({
+            prompt: `New field name for ${element.id}`,
+            validateInput: (value) => IDENTIFIER_PATTERN.test(value) ? undefined : 'Field names must be identifiers'
+          });
+          if (field === undefined) {
+            return undefined;
+          }
+          const fieldType = await vscode.window.showInputBox({
+            prompt: `Type of ${element.id}.${field}`,
+            value: 'String',
+            validateInput: (value) => IDENTIFIER_PATTERN.test(value) ? undefined : 'Field types must be identifiers'
+          });
+          return fieldType === undefined ? undefined : { kind: 'addModelField', model: element.id, field, fieldType };
+        }
+      }];
+    case 'sequenceMessage':
+      return [
+        {
+          label: '$(arrow-up) Move Message Earlier',
+          run: async () => ({ kind: 'moveSequenceMessage', messageId: element.id, offset: -1 })
+        },
+        {
+          label: '$(arrow-down) Move Message Later',
+          run: async () => ({ kind: 'moveSequenceMessage', messageId: element.id, offset: 1 })
+        }
+      ];
+    default:
+      return [];
+  }
+}
+
+class DiagramEditorProvider implements vscode.CustomTextEditorProvider {
+  public static readonly viewType = 'chart-vscode-ext.diagramEditor';
+
+  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+    return vscode.window.registerCustomEditorProvider(
+      DiagramEditorProvider.viewType,
+      new DiagramEditorProvider(context.extensionUri),
+      {
+        webviewOptions: { retainContextWhenHidden: true },
+        supportsMultipleEditorsPerDocument: true
+      }
+    );
+  }
+
+  constructor(private readonly _extensionUri: vscode.Uri) {}
+
+  public async resolveCustomTextEditor(document: vscode.TextDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+    await FlowChartPanel.attachToEditor(webviewPanel, this._extensionUri, document);
+  }
+}
+
 class FlowChartPanel {
   public static readonly panels = new Map<string, FlowChartPanel>();
   private readonly _panel: vscode.WebviewPanel;
@@ -418,6 +1054,11 @@ class FlowChartPanel {
   private _item?: ChartItemData;
   private _panelId: string;
   private _filePath: string;
+  private _lastSource?: string;
+  private _sourceUpdateTimer?: NodeJS.Timeout;
+  private _document?: vscode.TextDocument;
+  private _schemaFolder?: string;
+  private _selectedElementKey?: string;
   public static _context: vscode.ExtensionContext;
 
   public static createOrShow(extensionUri: vscode.Uri, item?: ChartItemData) {
@@ -450,11 +1091,51 @@ class FlowChartPanel {
     FlowChartPanel.panels.set(panelId, flowChartPanel);
   }
 
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, item?: ChartItemData, panelId?: string) {
+  /**
+   * The diagram panel or diagram editor the user is currently looking at
+   */
+  public static getActivePanel(): FlowChartPanel | undefined {
+    for (const panel of FlowChartPanel.panels.values()) {
+      if (panel._panel.active) {
+        return panel;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Render a diagram inside a custom editor webview bound to a text document.
+   * Edits from the diagram are applied to the document so they participate in
+   * dirty state and undo/redo instead of being written straight to disk.
+   */
+  public static async attachToEditor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, document: vscode.TextDocument) {
+    panel.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'dist')]
+    };
+
+    const fileName = path.basename(document.uri.fsPath);
+    const type = document.uri.fsPath.endsWith('.prisma') ? 'prisma' : 'yaml';
+
+    // A file of a multi-file Prisma schema shows the whole schema
+    const schemaFolder = type === 'prisma' ? await findPrismaSchemaFolder(document.uri) : undefined;
+    const item = schemaFolder
+      ? await createPrismaFolderItem(schemaFolder)
+      : new ChartItemData(type, fileName, { schema: document.getText(), filePath: document.uri.fsPath });
+
+    // Several editors can show the same document (e.g. split), so IDs must be unique per panel
+    const panelId = `editor-${document.uri.toString()}-${Date.now()}`;
+    const flowChartPanel = new FlowChartPanel(panel, extensionUri, item, panelId, document);
+    FlowChartPanel.panels.set(panelId, flowChartPanel);
+  }
+
+  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, item?: ChartItemData, panelId?: string, document?: vscode.TextDocument) {
     this._panel = panel;
     this._item = item;
     this._panelId = panelId || `default-${Date.now()}`;
     this._filePath = item?.metadata?.filePath || '';
+    this._document = document;
+    this._schemaFolder = item?.metadata?.schemaFolder;
 
     this._panel.webview.html = this._getHtmlForWebview(this._panel.webview, extensionUri, item);
 
@@ -497,9 +1178,90 @@ class FlowChartPanel {
           case 'saveYaml':
             await this.saveYaml(message.data, message.filePath);
             break;
+          case 'saveGenerated':
+            await this.saveGenerated(message.data, message.filePath);
+            break;
           case 'saveLayout':
-            await this.saveLayoutToYaml(message.data);
+            await this.saveLayout(message.data);
+            break;
+          case 'elementAction':
+            await this.showElementActions(message.element);
+            break;
+          case 'revealSource':
+            await this.revealSource(message.range, message.filePath);
+            break;
+          case 'editDiagram':
+            await this.applyDiagramEdit(message.edit);
+            break;
+          case 'requestExport':
+            await this.exportDiagram();
             break;
+          case 'exportComplete':
+            await this.writeExport(message.filePath, message.format, message.data);
+            break;
+          case 'exportError':
+            vscode.window.showErrorMessage(`Failed to export diagram: ${message.error}`);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    // Keep the diagram in sync with its source file
+    if (this._schemaFolder) {
+      this._lastSource = JSON.stringify(item?.metadata?.files);
+      this.watchSchemaFolder();
+    } else if (this._filePath) {
+      this._lastSource = item?.metadata?.schema;
+      this.watchSourceFile();
+    }
+    if (this._filePath) {
+      this.watchEditorSelection();
+    }
+  }
+
+  /**
+   * Select the diagram element under the cursor in the source editor
+   */
+  private watchEditorSelection() {
+    vscode.window.onDidChangeTextEditorSelection(
+      (event) => {
+        // Ignore selections made by edits or by revealing a diagram element
+        if (!event.kind || event.kind === vscode.TextEditorSelectionChangeKind.Command) {
+          return;
+        }
+
+        const document = event.textEditor.document;
+        const filePath = document.uri.fsPath;
+        const isSource = this._schemaFolder
+          ? filePath.endsWith('.prisma') && filePath.startsWith(this._schemaFolder + path.sep)
+          : filePath === this._filePath;
+        if (!isSource) {
+          return;
+        }
+
+        const offset = document.offsetAt(event.selections[0].active);
+        let element: SelectedElement | undefined;
+        try {
+          if (this._item?.type === 'prisma') {
+            element = findPrismaElementAt(document.getText(), offset);
+          } else if (this._item?.type === 'yaml') {
+            element = findYamlElementAt(document.getText(), offset);
+          }
+        } catch {
+          // Half-typed source; keep the current selection
+          return;
+        }
+
+        // Only pan when the cursor moves to another element
+        const key = element && `${element.kind}:${element.id}:${element.field ?? ''}`;
+        if (key === this._selectedElementKey) {
+          return;
+        }
+        this._selectedElementKey = key;
+        if (element) {
+          this._panel.webview.postMessage({ command: 'selectElement', element });
         }
       },
       null,
@@ -507,6 +1269,128 @@ class FlowChartPanel {
     );
   }
 
+  /**
+   * Watch the source file for edits in open editors and external changes on disk
+   */
+  private watchSourceFile() {
+    vscode.workspace.onDidChangeTextDocument(
+      (event) => {
+        if (event.document.uri.fsPath === this._filePath) {
+          this.scheduleSourceUpdate(event.document.getText());
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    // Custom editors are bound to the document, which VS Code already syncs with disk
+    if (this._document) {
+      return;
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.dirname(this._filePath)), path.basename(this._filePath))
+    );
+    watcher.onDidChange(() => this.scheduleSourceUpdate(), null, this._disposables);
+    watcher.onDidCreate(() => this.scheduleSourceUpdate(), null, this._disposables);
+    this._disposables.push(watcher);
+  }
+
+  /**
+   * Watch every .prisma file of a multi-file schema, in editors and on disk
+   */
+  private watchSchemaFolder() {
+    const folder = this._schemaFolder!;
+    const isSchemaFile = (uri: vscode.Uri) =>
+      uri.fsPath.endsWith('.prisma') && uri.fsPath.startsWith(folder + path.sep);
+
+    vscode.workspace.onDidChangeTextDocument(
+      (event) => {
+        if (isSchemaFile(event.document.uri)) {
+          this.scheduleSourceUpdate();
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(folder), '**/*.prisma')
+    );
+    watcher.onDidChange(() => this.scheduleSourceUpdate(), null, this._disposables);
+    watcher.onDidCreate(() => this.scheduleSourceUpdate(), null, this._disposables);
+    watcher.onDidDelete(() => this.scheduleSourceUpdate(), null, this._disposables);
+    this._disposables.push(watcher);
+  }
+
+  /**
+   * Debounce source updates so typing doesn't re-render the diagram on every keystroke.
+   * Without explicit content the file is re-read from disk.
+   */
+  private scheduleSourceUpdate(content?: string) {
+    if (this._sourceUpdateTimer) {
+      clearTimeout(this._sourceUpdateTimer);
+    }
+
+    this._sourceUpdateTimer = setTimeout(async () => {
+      this._sourceUpdateTimer = undefined;
+      try {
+        if (this._schemaFolder) {
+          await this.postSchemaFolderUpdate();
+          return;
+        }
+
+        const source = content ?? Buffer.from(
+          await vscode.workspace.fs.readFile(vscode.Uri.file(this._filePath))
+        ).toString('utf8');
+
+        // Editor changes and the file watcher often report the same content
+        if (source === this._lastSource) {
+          return;
+        }
+        this._lastSource = source;
+
+        this._panel.webview.postMessage({
+          command: 'updateSource',
+          type: this._item?.type,
+          content: source,
+        });
+      } catch (error) {
+        console.error('Error reading updated source file:', error);
+      }
+    }, SOURCE_UPDATE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Re-read all files of a multi-file schema and send them to the webview to merge
+   */
+  private async postSchemaFolderUpdate() {
+    const files = await readPrismaSchemaFiles(vscode.Uri.file(this._schemaFolder!));
+    const source = JSON.stringify(files);
+    if (source === this._lastSource) {
+      return;
+    }
+    this._lastSource = source;
+
+    this._panel.webview.postMessage({
+      command: 'updateSource',
+      type: 'prisma',
+      files,
+    });
+  }
+
+  /**
+   * Read the current source text, preferring the bound document over the file on disk
+   */
+  private async readSource(filePath: string): Promise<string> {
+    if (this._document && this._document.uri.fsPath === filePath) {
+      return this._document.getText();
+    }
+
+    const fileContent = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+    return Buffer.from(fileContent).toString('utf8');
+  }
+
   private async getSavedLayout(filePath: string) {
     try {
       if (!filePath) {
@@ -514,36 +1398,51 @@ class FlowChartPanel {
         return;
       }
 
-      // Read the YAML file
-      const fileUri = vscode.Uri.file(filePath);
-      const fileContent = await vscode.workspace.fs.readFile(fileUri);
-      const yamlText = Buffer.from(fileContent).toString('utf8');
+      // Sidecar layouts win when configured; otherwise use the layout section in the file itself
+      let layout = getLayoutStorage(vscode.Uri.file(filePath)) === 'sidecar'
+        ? await this.readSidecarLayout(filePath)
+        : undefined;
 
-      // Parse YAML to check for layout section
-      const yaml = require('yaml');
-      const parsed = yaml.parse(yamlText);
+      // Prisma, SQL and DBML files can't hold a layout section, so they fall back to workspace state
+      if (!layout && this._item?.type && SCHEMA_FILE_TYPES.includes(this._item.type)) {
+        layout = FlowChartPanel._context.workspaceState.get(LAYOUT_STATE_PREFIX + filePath);
+      } else if (!layout) {
+        const yaml = require('yaml');
+        const parsed = yaml.parse(await this.readSource(filePath));
+        layout = parsed?.layout;
+      }
 
-      if (parsed.layout && (parsed.layout.nodes || parsed.layout.edges)) {
-        console.log('Found saved layout in YAML file:', filePath);
+      // A layout may only set the direction, e.g. after a left-to-right Mermaid import
+      if (layout && (layout.nodes || layout.edges || layout.direction)) {
+        console.log('Found saved layout for:', filePath);
         this._panel.webview.postMessage({
           command: 'savedLayoutLoaded',
-          layout: parsed.layout,
+          layout,
         });
       } else {
-        console.log('No saved layout found in YAML file:', filePath);
+        console.log('No saved layout found for:', filePath);
         this._panel.webview.postMessage({
           command: 'noSavedLayout',
         });
       }
     } catch (error) {
-      console.error('Error loading saved layout from YAML:', error);
+      console.error('Error loading saved layout:', error);
       this._panel.webview.postMessage({
         command: 'noSavedLayout',
       });
     }
   }
 
-  private async saveLayoutToYaml(layoutData: any) {
+  private async readSidecarLayout(filePath: string): Promise<any | undefined> {
+    try {
+      const content = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath + LAYOUT_SIDECAR_SUFFIX));
+      return JSON.parse(Buffer.from(content).toString('utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async saveLayout(layoutData: any) {
     try {
       if (!this._filePath) {
         vscode.window.showErrorMessage('No file path available');
@@ -551,42 +1450,204 @@ class FlowChartPanel {
       }
 
       const fileUri = vscode.Uri.file(this._filePath);
-
-      // Read current YAML content
-      const fileContent = await vscode.workspace.fs.readFile(fileUri);
-      const yamlText = Buffer.from(fileContent).toString('utf8');
-
-      // Parse YAML
-      const yaml = require('yaml');
-      const parsed = yaml.parse(yamlText);
-
-      // Add or update layout section
-      parsed.layout = {
+      const layout = {
         version: '1.0',
+        kind: layoutData.kind,
         timestamp: new Date().toISOString(),
         direction: layoutData.direction,
         nodes: layoutData.nodes,
         edges: layoutData.edges,
       };
 
-      // Convert back to YAML
-      const updatedYaml = yaml.stringify(parsed, {
-        indent: 2,
-        lineWidth: 120,
-        sortMapEntries: false,
-      });
+      // Sidecar files keep hand-authored diagrams untouched
+      if (getLayoutStorage(fileUri) === 'sidecar') {
+        const sidecarUri = vscode.Uri.file(this._filePath + LAYOUT_SIDECAR_SUFFIX);
+        await vscode.workspace.fs.writeFile(
+          sidecarUri,
+          Buffer.from(JSON.stringify(layout, null, 2) + '\n', 'utf8')
+        );
+        vscode.window.showInformationMessage(`Layout saved to ${path.basename(sidecarUri.fsPath)}`);
+        return;
+      }
+
+      if (this._item?.type && SCHEMA_FILE_TYPES.includes(this._item.type)) {
+        await FlowChartPanel._context.workspaceState.update(LAYOUT_STATE_PREFIX + this._filePath, layout);
+        vscode.window.showInformationMessage(`Layout saved for ${path.basename(this._filePath)}`);
+        return;
+      }
+
+      // Only the layout section is rewritten, so comments and formatting elsewhere survive
+      const yamlText = await this.readSource(this._filePath);
+      const layoutEdit = setTopLevelEntryEdit(yamlText, 'layout', layout);
+
+      // Custom editors edit the document (dirty state, undo/redo); panels write back to file
+      if (this._document) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+          this._document.uri,
+          new vscode.Range(this._document.positionAt(layoutEdit.start), this._document.positionAt(layoutEdit.end)),
+          layoutEdit.text
+        );
+        await vscode.workspace.applyEdit(edit);
+        vscode.window.showInformationMessage(`Layout updated in ${path.basename(this._filePath)}`);
+        return;
+      }
 
-      // Write back to file
+      const updatedYaml = yamlText.slice(0, layoutEdit.start) + layoutEdit.text + yamlText.slice(layoutEdit.end);
       await vscode.workspace.fs.writeFile(
         fileUri,
-        Buffer.from(updatedYaml + '\n', 'utf8')
+        Buffer.from(updatedYaml, 'utf8')
       );
 
       vscode.window.showInformationMessage(`Layout saved to ${this._filePath}`);
       console.log('Layout saved to YAML file:', this._filePath);
     } catch (error) {
-      console.error('Error saving layout to YAML:', error);
-      vscode.window.showErrorMessage('Failed to save layout to file');
+      console.error('Error saving layout:', error);
+      vscode.window.showErrorMessage('Failed to save layout');
+    }
+  }
+
+  /**
+   * Let the user pick a source edit for a right-clicked diagram element
+   */
+  private async showElementActions(element: DiagramElement) {
+    const actions = getDiagramActions(element, this._item?.type === 'yaml');
+    if (element.sourceRange) {
+      const sourceRange = element.sourceRange;
+      actions.unshift({
+        label: '$(go-to-file) Go to Definition',
+        description: path.basename(element.sourceFile || this._filePath || ''),
+        run: async () => {
+          await this.revealSource(sourceRange, element.sourceFile);
+          return undefined;
+        }
+      });
+    }
+    if (actions.length === 0) {
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(actions, {
+      placeHolder: element.label ? `${element.label} (${element.id})` : element.id
+    });
+    const edit = await picked?.run();
+    if (edit) {
+      await this.applyDiagramEdit(edit);
+    }
+  }
+
+  /**
+   * Open the source file beside the diagram and select an element's declaration
+   */
+  private async revealSource(range: SourceRange, filePath = this._filePath) {
+    if (!filePath) {
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+    const selection = new vscode.Range(document.positionAt(range.start), document.positionAt(range.end));
+
+    const editor = await vscode.window.showTextDocument(document, {
+      selection,
+      preview: false,
+      viewColumn: this._panel.viewColumn === vscode.ViewColumn.One ? vscode.ViewColumn.Beside : vscode.ViewColumn.One,
+    });
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  /**
+   * Apply a diagram edit to the source as a minimal WorkspaceEdit.
+   * The resulting document change flows back to the webview through watchSourceFile.
+   */
+  private async applyDiagramEdit(edit: DiagramEdit) {
+    if (!this._filePath || this._item?.type !== 'yaml') {
+      vscode.window.showErrorMessage('Only YAML diagrams can be edited from the canvas');
+      return;
+    }
+
+    const document = this._document ?? await vscode.workspace.openTextDocument(vscode.Uri.file(this._filePath));
+    try {
+      const edits = computeDiagramEdits(document.getText(), edit);
+      if (edits.length === 0) {
+        return;
+      }
+
+      const wasDirty = document.isDirty;
+      const workspaceEdit = new vscode.WorkspaceEdit();
+      for (const sourceEdit of edits) {
+        workspaceEdit.replace(
+          document.uri,
+          new vscode.Range(document.positionAt(sourceEdit.start), document.positionAt(sourceEdit.end)),
+          sourceEdit.text
+        );
+      }
+
+      const applied = await vscode.workspace.applyEdit(workspaceEdit);
+      if (!applied) {
+        throw new Error('The edit was rejected');
+      }
+
+      // Panels have no editor of their own, so persist the change unless the user has pending edits
+      if (!this._document && !wasDirty) {
+        await document.save();
+      }
+    } catch (error) {
+      console.error('Error applying diagram edit:', error);
+      vscode.window.showErrorMessage(
+        `Failed to update ${path.basename(this._filePath)}: ${error instanceof Error ? error.message : error}`
+      );
+
+      // Put the canvas back in sync with the unchanged source
+      this._lastSource = document.getText();
+      this._panel.webview.postMessage({
+        command: 'updateSource',
+        type: this._item?.type,
+        content: this._lastSource,
+      });
+    }
+  }
+
+  /**
+   * Ask for a format and destination, then let the webview render the export
+   */
+  public async exportDiagram() {
+    const option = await vscode.window.showQuickPick(EXPORT_OPTIONS, { placeHolder: 'Export diagram as' });
+    if (!option) {
+      return;
+    }
+
+    const baseName = this._filePath
+      ? path.basename(this._filePath, path.extname(this._filePath))
+      : 'diagram';
+    const defaultDir = this._filePath
+      ? vscode.Uri.file(path.dirname(this._filePath))
+      : vscode.workspace.workspaceFolders?.[0]?.uri;
+
+    const saveUri = await vscode.window.showSaveDialog({
+      defaultUri: defaultDir ? vscode.Uri.joinPath(defaultDir, `${baseName}.${option.format}`) : undefined,
+      filters: EXPORT_FILTERS[option.format],
+      saveLabel: 'Export'
+    });
+    if (!saveUri) {
+      return;
+    }
+
+    this._panel.webview.postMessage({
+      command: 'exportDiagram',
+      format: option.format,
+      scale: option.scale,
+      filePath: saveUri.fsPath,
+    });
+  }
+
+  private async writeExport(filePath: string, format: ExportFormat, data: string) {
+    try {
+      const content = format === 'png' ? Buffer.from(data, 'base64') : Buffer.from(data, 'utf8');
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(filePath), content);
+      vscode.window.showInformationMessage(`Diagram exported to ${path.basename(filePath)}`);
+    } catch (error) {
+      console.error('Error writing exported diagram:', error);
+      vscode.window.showErrorMessage(`Failed to export diagram: ${error}`);
     }
   }
 
@@ -610,6 +1671,35 @@ class FlowChartPanel {
     }
   }
 
+  private async saveGenerated(content: string, filePath: string) {
+    try {
+      await vscode.workspace.fs.writeFile(vscode.Uri.file(filePath), Buffer.from(content, 'utf8'));
+      this._panel.webview.postMessage({ command: 'saveComplete' });
+      await vscode.window.showTextDocument(vscode.Uri.file(filePath), { preview: false, viewColumn: vscode.ViewColumn.Beside });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save ${path.basename(filePath)}: ${error}`);
+      this._panel.webview.postMessage({
+        command: 'saveError',
+        error: String(error)
+      });
+    }
+  }
+
+  /**
+   * The YAML diagram file the panel shows, if it isn't a Prisma, SQL or DBML schema
+   */
+  public get diagramFilePath(): string | undefined {
+    return this._item?.type === 'yaml' && this._filePath ? this._filePath : undefined;
+  }
+
+  public sendGenerateRequest(request: GenerateRequest, filePath: string) {
+    this._panel.webview.postMessage({
+      command: 'generateSchema',
+      ...request,
+      filePath
+    });
+  }
+
   public sendSaveYamlRequest(filePath: string) {
     this._panel.webview.postMessage({
       command: 'saveAsYaml',
@@ -626,6 +1716,9 @@ class FlowChartPanel {
     const initialData = {
       type: item?.type || 'default',
       prismaSchema: item?.type === 'prisma' ? item?.metadata?.schema : null,
+      prismaFiles: item?.metadata?.files ?? null,
+      sqlSchema: item?.type === 'sql' ? item?.metadata?.schema : null,
+      dbmlSchema: item?.type === 'dbml' ? item?.metadata?.schema : null,
       yamlSchema: item?.type === 'yaml' ? item?.metadata?.schema : null,
       filePath: item?.metadata?.filePath || ''
     };
@@ -663,6 +1756,9 @@ class FlowChartPanel {
 
   public dispose() {
     FlowChartPanel.panels.delete(this._panelId);
+    if (this._sourceUpdateTimer) {
+      clearTimeout(this._sourceUpdateTimer);
+    }
     this._panel.dispose();
     while (this._disposables.length) {
       const disposable = this._disposables.pop();
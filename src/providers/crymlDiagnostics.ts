@@ -0,0 +1,146 @@
+// Cryml Diagnostics
+// Runs DiagramValidator on .cryml documents and reports findings in the Problems panel
+
+import * as vscode from 'vscode';
+import * as yaml from 'yaml';
+import { DiagramValidator } from '../webview/validators/diagramValidator';
+import { ValidationError, ValidationWarning } from '../webview/validators/types';
+import { findYamlPathRange } from '../webview/parsers/yamlPath';
+
+const CHANGE_DEBOUNCE_MS = 300;
+
+export class CrymlDiagnosticsProvider implements vscode.Disposable {
+  private readonly _collection = vscode.languages.createDiagnosticCollection('cryml');
+  private readonly _validator = new DiagramValidator();
+  private readonly _pending = new Map<string, NodeJS.Timeout>();
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) => this.validateDocument(document)),
+      vscode.workspace.onDidSaveTextDocument((document) => this.validateDocument(document)),
+      vscode.workspace.onDidChangeTextDocument((event) => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument((document) => this.clear(document))
+    );
+
+    // Validate documents that were already open before activation
+    for (const document of vscode.workspace.textDocuments) {
+      this.validateDocument(document);
+    }
+  }
+
+  /**
+   * Validate a document and replace its diagnostics.
+   * Returns the diagnostics that were published, or undefined for non-cryml documents.
+   */
+  public async validateDocument(document: vscode.TextDocument): Promise<vscode.Diagnostic[] | undefined> {
+    if (!isCrymlDocument(document)) {
+      return undefined;
+    }
+
+    const version = document.version;
+    const diagnostics = await this.computeDiagnostics(document);
+
+    // Skip stale results if the document changed while validating
+    if (document.isClosed || document.version !== version) {
+      return undefined;
+    }
+
+    this._collection.set(document.uri, diagnostics);
+    return diagnostics;
+  }
+
+  private scheduleValidation(document: vscode.TextDocument) {
+    if (!isCrymlDocument(document)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    const pending = this._pending.get(key);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this._pending.set(key, setTimeout(() => {
+      this._pending.delete(key);
+      this.validateDocument(document);
+    }, CHANGE_DEBOUNCE_MS));
+  }
+
+  private clear(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    const pending = this._pending.get(key);
+    if (pending) {
+      clearTimeout(pending);
+      this._pending.delete(key);
+    }
+    this._collection.delete(document.uri);
+  }
+
+  private async computeDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+    const text = document.getText();
+    if (text.trim().length === 0) {
+      return [];
+    }
+
+    // Report YAML syntax errors at their exact position and skip semantic validation
+    const doc = yaml.parseDocument(text);
+    if (doc.errors.length > 0) {
+      return doc.errors.map((error) => {
+        const range = new vscode.Range(
+          document.positionAt(error.pos[0]),
+          document.positionAt(Math.max(error.pos[1], error.pos[0] + 1))
+        );
+        const diagnostic = new vscode.Diagnostic(range, error.message.split('\n')[0], vscode.DiagnosticSeverity.Error);
+        diagnostic.source = 'cryml';
+        diagnostic.code = error.code;
+        return diagnostic;
+      });
+    }
+
+    const result = await this._validator.validate(text);
+    return [...result.errors, ...result.warnings].map((finding) => toDiagnostic(document, doc, finding));
+  }
+
+  public dispose() {
+    for (const pending of this._pending.values()) {
+      clearTimeout(pending);
+    }
+    this._pending.clear();
+    this._collection.dispose();
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
+
+export function isCrymlDocument(document: vscode.TextDocument): boolean {
+  return document.languageId === 'cryml' || document.uri.path.endsWith('.cryml');
+}
+
+function toDiagnostic(
+  document: vscode.TextDocument,
+  doc: yaml.Document,
+  finding: ValidationError | ValidationWarning
+): vscode.Diagnostic {
+  const sourceRange = findYamlPathRange(doc, finding.path);
+  const range = sourceRange
+    ? new vscode.Range(document.positionAt(sourceRange.start), document.positionAt(sourceRange.end))
+    : document.lineAt(0).range;
+
+  const severity = finding.level === 'error'
+    ? vscode.DiagnosticSeverity.Error
+    : vscode.DiagnosticSeverity.Warning;
+
+  const message = finding.suggestion
+    ? `${finding.message}\nSuggestion: ${finding.suggestion}`
+    : finding.message;
+
+  const diagnostic = new vscode.Diagnostic(range, message, severity);
+  diagnostic.source = 'cryml';
+  diagnostic.code = finding.code;
+  return diagnostic;
+}
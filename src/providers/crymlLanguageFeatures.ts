@@ -0,0 +1,372 @@
+// Cryml Language Features
+// Completion, hover, go-to-definition, find-references and rename for .cryml documents
+
+import * as vscode from 'vscode';
+import * as yaml from 'yaml';
+import { DIAGRAM_SCHEMAS, ElementKind, FIELD_SCALAR_TYPES, SchemaNode, schemaAt } from '../webview/types/diagramSchema';
+import { CrymlSymbol, collectCrymlSymbols, collectLayoutSymbols, diagramTypeOf, findCrymlSymbolAt, isSameElement } from '../utils/crymlSymbols';
+import { computeCrymlRename, renameEdits } from '../utils/crymlRename';
+import { LAYOUT_SIDECAR_SUFFIX } from '../utils/layoutStorage';
+import { SourceEdit } from '../utils/yamlEdits';
+import { YamlPathSegment, findYamlCursorContext, findYamlPathAtOffset, findYamlPathRange } from '../webview/parsers/yamlPath';
+
+export const CRYML_SELECTOR: vscode.DocumentSelector = [{ language: 'cryml' }, { pattern: '**/*.cryml' }];
+
+const ELEMENT_LABELS: Record<ElementKind, string> = {
+  node: 'Node',
+  group: 'Group',
+  participant: 'Participant',
+  message: 'Message',
+  model: 'Model',
+  field: 'Field',
+};
+
+const NOT_RENAMEABLE = 'Only node, group, participant, message, model and field IDs can be renamed';
+
+interface AnalyzedDocument {
+  version: number;
+  doc: yaml.Document;
+  symbols: CrymlSymbol[];
+}
+
+export class CrymlLanguageFeatures implements
+  vscode.CompletionItemProvider, vscode.HoverProvider, vscode.DefinitionProvider, vscode.ReferenceProvider,
+  vscode.RenameProvider, vscode.Disposable {
+  private readonly _analyzed = new Map<string, AnalyzedDocument>();
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._disposables.push(
+      vscode.languages.registerCompletionItemProvider(CRYML_SELECTOR, this, ':', ' ', '-'),
+      vscode.languages.registerHoverProvider(CRYML_SELECTOR, this),
+      vscode.languages.registerDefinitionProvider(CRYML_SELECTOR, this),
+      vscode.languages.registerReferenceProvider(CRYML_SELECTOR, this),
+      vscode.languages.registerRenameProvider(CRYML_SELECTOR, this),
+      vscode.workspace.onDidCloseTextDocument((document) => this._analyzed.delete(document.uri.toString()))
+    );
+  }
+
+  /**
+   * Parsed document and its symbols, reused until the document changes
+   */
+  public analyze(document: vscode.TextDocument): AnalyzedDocument {
+    const key = document.uri.toString();
+    const cached = this._analyzed.get(key);
+    if (cached && cached.version === document.version) {
+      return cached;
+    }
+
+    const doc = yaml.parseDocument(document.getText());
+    const analyzed = { version: document.version, doc, symbols: collectCrymlSymbols(doc) };
+    this._analyzed.set(key, analyzed);
+    return analyzed;
+  }
+
+  public provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken,
+    context: vscode.CompletionContext
+  ): vscode.CompletionItem[] {
+    const cursor = findYamlCursorContext(document.getText(), document.offsetAt(position));
+    // Typing a space only completes right after "key: " or "- "
+    if (context.triggerCharacter === ' ' && (cursor.kind === 'key' || cursor.text.trim() !== '')) {
+      return [];
+    }
+
+    const { doc, symbols } = this.analyze(document);
+    const root = DIAGRAM_SCHEMAS[diagramTypeOf(doc)];
+    const schema = schemaAt(root, cursor.path);
+
+    if (cursor.kind === 'key' || (cursor.kind === 'item' && schema?.type === 'object')) {
+      return keyCompletions(doc, schema, cursor.path, cursor.text);
+    }
+    // Values of a list written inline, e.g. messages: [m1, m2]
+    const valueSchema = schema?.type === 'array' ? schema.items : schema;
+    return valueCompletions(doc, symbols, valueSchema, cursor.path);
+  }
+
+  public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const { doc, symbols } = this.analyze(document);
+    const offset = document.offsetAt(position);
+    const root = DIAGRAM_SCHEMAS[diagramTypeOf(doc)];
+
+    const symbol = findCrymlSymbolAt(symbols, offset);
+    if (symbol) {
+      const declaration = symbols.find((candidate) => candidate.isDeclaration && isSameElement(candidate, symbol));
+      const markdown = new vscode.MarkdownString();
+      markdown.appendMarkdown(`**${ELEMENT_LABELS[symbol.kind]}** \`${symbol.model ? `${symbol.model}.` : ''}${symbol.name}\``);
+      if (declaration) {
+        const details = describeElement(doc, declaration);
+        if (details) {
+          markdown.appendMarkdown(`\n\n${details}`);
+        }
+      } else {
+        markdown.appendMarkdown(`\n\nNot declared in this diagram`);
+      }
+      const count = symbols.filter((candidate) => !candidate.isDeclaration && isSameElement(candidate, symbol)).length;
+      markdown.appendMarkdown(`\n\n${count} reference${count === 1 ? '' : 's'}`);
+      return new vscode.Hover(markdown, toRange(document, symbol.range));
+    }
+
+    const path = findYamlPathAtOffset(doc, offset);
+    const schema = schemaAt(root, path);
+    const key = path[path.length - 1];
+    if (!schema || typeof key !== 'string') {
+      return undefined;
+    }
+
+    const keyRange = findYamlPathRange(doc, path);
+    if (keyRange && keyRange.start <= offset && offset <= keyRange.end) {
+      return new vscode.Hover(describeKey(key, schema), toRange(document, keyRange));
+    }
+
+    // Enumerated values explain themselves
+    const value = doc.getIn(path, true);
+    if (yaml.isScalar(value) && value.range && schema.enum) {
+      const index = schema.enum.indexOf(String(value.value));
+      const description = index >= 0 ? schema.enumDescriptions?.[index] : undefined;
+      if (description) {
+        return new vscode.Hover(new vscode.MarkdownString(`\`${value.value}\`: ${description}`), toRange(document, { start: value.range[0], end: value.range[1] }));
+      }
+    }
+    return undefined;
+  }
+
+  public provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] {
+    const { symbols } = this.analyze(document);
+    const symbol = findCrymlSymbolAt(symbols, document.offsetAt(position));
+    if (!symbol) {
+      return [];
+    }
+    return symbols
+      .filter((candidate) => candidate.isDeclaration && isSameElement(candidate, symbol))
+      .map((declaration) => new vscode.Location(document.uri, toRange(document, declaration.range)));
+  }
+
+  public provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): vscode.Location[] {
+    const { symbols } = this.analyze(document);
+    const symbol = findCrymlSymbolAt(symbols, document.offsetAt(position));
+    if (!symbol) {
+      return [];
+    }
+    return symbols
+      .filter((candidate) => isSameElement(candidate, symbol) && (context.includeDeclaration || !candidate.isDeclaration))
+      .map((reference) => new vscode.Location(document.uri, toRange(document, reference.range)));
+  }
+
+  public prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+    const { symbols } = this.analyze(document);
+    const symbol = findCrymlSymbolAt(symbols, document.offsetAt(position));
+    if (!symbol) {
+      throw new Error(NOT_RENAMEABLE);
+    }
+    return { range: toRange(document, symbol.range), placeholder: symbol.name };
+  }
+
+  public async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): Promise<vscode.WorkspaceEdit> {
+    const { doc, symbols } = this.analyze(document);
+    const target = findCrymlSymbolAt(symbols, document.offsetAt(position));
+    if (!target) {
+      throw new Error(NOT_RENAMEABLE);
+    }
+    if (doc.errors.length > 0) {
+      throw new Error(`Cannot rename in a document with YAML errors: ${doc.errors[0].message.split('\n')[0]}`);
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    const edits = computeCrymlRename(document.getText(), doc, symbols, target, newName);
+    addEdits(workspaceEdit, document, edits);
+
+    // .cryml files don't import each other; the only other file naming their elements is a sidecar layout
+    const sidecar = await openSidecarLayout(document);
+    if (sidecar && edits.length > 0) {
+      const layoutDoc = yaml.parseDocument(sidecar.getText());
+      const layoutSymbols = collectLayoutSymbols(layoutDoc, diagramTypeOf(doc));
+      addEdits(workspaceEdit, sidecar, renameEdits(layoutSymbols, target, newName.trim()));
+    }
+    return workspaceEdit;
+  }
+
+  public dispose() {
+    this._analyzed.clear();
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
+
+/**
+ * Keys of the map at path that aren't set yet, required ones first
+ */
+function keyCompletions(doc: yaml.Document, schema: SchemaNode | undefined, path: YamlPathSegment[], typed: string): vscode.CompletionItem[] {
+  if (!schema?.properties) {
+    return [];
+  }
+
+  const existing = doc.getIn(path, true);
+  const present = new Set(yaml.isMap(existing) ? existing.items.map((pair) => String(yaml.isScalar(pair.key) ? pair.key.value : pair.key)) : []);
+  present.delete(typed.trim());
+
+  return Object.entries(schema.properties)
+    .filter(([key]) => !present.has(key))
+    .map(([key, property]) => {
+      const required = schema.required?.includes(key) ?? false;
+      const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+      item.detail = `${property.type ?? 'value'}${required ? ' (required)' : ''}`;
+      item.documentation = new vscode.MarkdownString(property.description);
+      item.insertText = keySnippet(key, property);
+      item.sortText = `${required ? 0 : 1}${key}`;
+      return item;
+    });
+}
+
+function keySnippet(key: string, schema: SchemaNode): vscode.SnippetString {
+  if (schema.enum) {
+    return new vscode.SnippetString(`${key}: \${1|${schema.enum.join(',')}|}`);
+  }
+  switch (schema.type) {
+    case 'boolean':
+      return new vscode.SnippetString(`${key}: \${1|true,false|}`);
+    case 'object':
+      return new vscode.SnippetString(`${key}:\n\t$0`);
+    case 'array':
+      return new vscode.SnippetString(`${key}:\n\t- $0`);
+    default:
+      return new vscode.SnippetString(`${key}: $0`);
+  }
+}
+
+/**
+ * Allowed values, or the names of the elements a reference can point to
+ */
+function valueCompletions(
+  doc: yaml.Document,
+  symbols: CrymlSymbol[],
+  schema: SchemaNode | undefined,
+  path: YamlPathSegment[]
+): vscode.CompletionItem[] {
+  if (!schema) {
+    return [];
+  }
+
+  if (schema.enum) {
+    return schema.enum.map((value, index) => {
+      const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+      item.documentation = schema.enumDescriptions?.[index];
+      return item;
+    });
+  }
+  if (schema.type === 'boolean') {
+    return ['true', 'false'].map((value) => new vscode.CompletionItem(value, vscode.CompletionItemKind.Value));
+  }
+  if (!schema.reference) {
+    return [];
+  }
+
+  const declarations = (kind: ElementKind, model?: string) => symbols.filter((symbol) =>
+    symbol.isDeclaration && symbol.kind === kind && (model === undefined || symbol.model === model));
+  let targets: CrymlSymbol[];
+  switch (schema.reference) {
+    case 'fieldType':
+      targets = declarations('model');
+      break;
+    case 'referencedField': {
+      const foreignKeyPath = path.slice(0, path.lastIndexOf('foreign_key') + 1);
+      const table = doc.getIn([...foreignKeyPath, 'table']);
+      targets = typeof table === 'string' ? declarations('field', table) : [];
+      break;
+    }
+    case 'modelField':
+      targets = path[0] === 'models' && typeof path[1] === 'string' ? declarations('field', path[1]) : [];
+      break;
+    default:
+      targets = declarations(schema.reference);
+  }
+
+  const seen = new Set<string>();
+  const items = targets
+    .filter((symbol) => !seen.has(symbol.name) && seen.add(symbol.name))
+    .map((symbol) => {
+      const item = new vscode.CompletionItem(symbol.name, vscode.CompletionItemKind.Reference);
+      item.detail = describeElement(doc, symbol);
+      return item;
+    });
+
+  if (schema.reference === 'fieldType') {
+    items.push(...FIELD_SCALAR_TYPES.map((type) => {
+      const item = new vscode.CompletionItem(type, vscode.CompletionItemKind.TypeParameter);
+      item.sortText = `~${type}`; // After the models and enums of this diagram
+      return item;
+    }));
+  }
+  return items;
+}
+
+/**
+ * One line about a declared element, e.g. "decision: Payment Valid?"
+ */
+function describeElement(doc: yaml.Document, declaration: CrymlSymbol): string | undefined {
+  // Message IDs are declared by their id key; the rest by their map key
+  const entry = declaration.kind === 'message' ? declaration.path.slice(0, -1) : declaration.path;
+  const value = doc.getIn(entry);
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const get = (key: string) => (value as Record<string, unknown>)[key] ?? (yaml.isMap(value) ? value.get(key) : undefined);
+  const text = (key: string) => {
+    const found = get(key);
+    return found === undefined || found === null ? undefined : String(found);
+  };
+
+  switch (declaration.kind) {
+    case 'node':
+    case 'participant':
+      return [text('type'), text('label')].filter(Boolean).join(': ') || undefined;
+    case 'message':
+      return `${text('from') ?? '?'} → ${text('to') ?? '?'}${text('label') ? `: ${text('label')}` : ''}`;
+    case 'group':
+      return text('label');
+    case 'model':
+      return text('description') ?? (declaration.path[0] === 'enums' ? 'enum' : text('kind') ?? 'model');
+    case 'field':
+      return text('field_type');
+  }
+}
+
+function describeKey(key: string, schema: SchemaNode): vscode.MarkdownString {
+  const markdown = new vscode.MarkdownString(`**${key}**${schema.type ? `: ${schema.type}` : ''}\n\n${schema.description}`);
+  if (schema.enum) {
+    markdown.appendMarkdown(`\n\nOne of ${schema.enum.map((value) => `\`${value}\``).join(', ')}`);
+  }
+  return markdown;
+}
+
+function addEdits(workspaceEdit: vscode.WorkspaceEdit, document: vscode.TextDocument, edits: SourceEdit[]) {
+  for (const edit of edits) {
+    workspaceEdit.replace(document.uri, toRange(document, edit), edit.text);
+  }
+}
+
+async function openSidecarLayout(document: vscode.TextDocument): Promise<vscode.TextDocument | undefined> {
+  if (document.uri.scheme !== 'file') {
+    return undefined;
+  }
+  try {
+    return await vscode.workspace.openTextDocument(vscode.Uri.file(document.uri.fsPath + LAYOUT_SIDECAR_SUFFIX));
+  } catch {
+    return undefined;
+  }
+}
+
+function toRange(document: vscode.TextDocument, range: { start: number; end: number }): vscode.Range {
+  return new vscode.Range(document.positionAt(range.start), document.positionAt(range.end));
+}
@@ -0,0 +1,152 @@
+// Cryml Quick Fixes
+// Code actions that resolve the common validator findings reported by CrymlDiagnosticsProvider
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as yaml from 'yaml';
+import { ErrorCode, WarningCode } from '../webview/validators/types';
+import { CRYML_SELECTOR } from './crymlLanguageFeatures';
+import { computeDiagramEdits, DiagramEdit } from '../utils/yamlEdits';
+import { YamlPathSegment, findYamlPathAtOffset } from '../webview/parsers/yamlPath';
+
+interface QuickFix {
+  title: string;
+  edit: DiagramEdit;
+}
+
+/**
+ * Fix for a finding, given the YAML path its diagnostic points at (see findYamlPathRange).
+ * Returns undefined when the document no longer has the problem.
+ */
+type QuickFixFactory = (doc: yaml.Document, findingPath: YamlPathSegment[], document: vscode.TextDocument) => QuickFix | undefined;
+
+const QUICK_FIXES: Partial<Record<ErrorCode | WarningCode, QuickFixFactory>> = {
+  // Also reported for malformed sections; only act when metadata.name is really missing
+  MISSING_METADATA: (doc, _findingPath, document) => metadataNameFix(doc, document),
+  MISSING_METADATA_NAME: (doc, _findingPath, document) => metadataNameFix(doc, document),
+
+  NODE_NOT_FOUND: (doc, findingPath) => {
+    const nodeId = doc.getIn(findingPath);
+    return typeof nodeId === 'string'
+      ? { title: `Create node "${nodeId}"`, edit: { kind: 'addFlowNode', nodeId } }
+      : undefined;
+  },
+
+  PARTICIPANT_NOT_FOUND: (doc, findingPath) => {
+    const participantId = doc.getIn(findingPath);
+    return typeof participantId === 'string'
+      ? { title: `Add participant "${participantId}"`, edit: { kind: 'addParticipant', participantId } }
+      : undefined;
+  },
+
+  INVALID_SEQUENCE_ORDER: () => ({ title: 'Renumber sequence_order 1, 2, 3, ...', edit: { kind: 'renumberSequence' } }),
+
+  MISSING_PRIMARY_KEY: (doc, findingPath) => {
+    const model = findingPath[0] === 'models' ? findingPath[1] : undefined;
+    if (typeof model !== 'string') {
+      return undefined;
+    }
+    const hasIdField = yaml.isMap(doc.getIn(['models', model, 'fields', 'id'], true));
+    return {
+      title: hasIdField ? `Make ${model}.id the primary key` : `Add an id primary key to ${model}`,
+      edit: { kind: 'addPrimaryKey', model },
+    };
+  },
+
+  FK_WITHOUT_INDEX: (_doc, findingPath) => {
+    const [models, model, fields, field] = findingPath;
+    return models === 'models' && fields === 'fields' && typeof model === 'string' && typeof field === 'string'
+      ? { title: `Add an index on ${model}.${field}`, edit: { kind: 'addIndex', model, field } }
+      : undefined;
+  },
+};
+
+export class CrymlQuickFixProvider implements vscode.CodeActionProvider, vscode.Disposable {
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._disposables.push(
+      vscode.languages.registerCodeActionsProvider(CRYML_SELECTOR, this, {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+      })
+    );
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const findings = context.diagnostics.filter((diagnostic) =>
+      diagnostic.source === 'cryml' && typeof diagnostic.code === 'string' && diagnostic.code in QUICK_FIXES);
+    if (findings.length === 0) {
+      return [];
+    }
+
+    const source = document.getText();
+    const doc = yaml.parseDocument(source);
+    if (doc.errors.length > 0) {
+      return [];
+    }
+
+    // Several findings can share a fix (e.g. two edges to the same missing node)
+    const actions = new Map<string, vscode.CodeAction>();
+    for (const diagnostic of findings) {
+      const findingPath = findYamlPathAtOffset(doc, document.offsetAt(diagnostic.range.start));
+      const fix = QUICK_FIXES[diagnostic.code as ErrorCode | WarningCode]!(doc, findingPath, document);
+      if (!fix) {
+        continue;
+      }
+
+      const existing = actions.get(fix.title);
+      if (existing) {
+        existing.diagnostics!.push(diagnostic);
+        continue;
+      }
+
+      let edits;
+      try {
+        edits = computeDiagramEdits(source, fix.edit);
+      } catch {
+        continue; // The document changed under the diagnostic
+      }
+      if (edits.length === 0) {
+        continue;
+      }
+
+      const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      action.edit = new vscode.WorkspaceEdit();
+      for (const edit of edits) {
+        action.edit.replace(document.uri, new vscode.Range(document.positionAt(edit.start), document.positionAt(edit.end)), edit.text);
+      }
+      actions.set(fix.title, action);
+    }
+    return [...actions.values()];
+  }
+
+  public dispose() {
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
+
+function metadataNameFix(doc: yaml.Document, document: vscode.TextDocument): QuickFix | undefined {
+  const name = doc.getIn(['metadata', 'name']);
+  if (typeof name === 'string' && name.trim() !== '') {
+    return undefined;
+  }
+
+  // order-processing.cryml -> "Order Processing"
+  const title = path.basename(document.uri.path, path.extname(document.uri.path))
+    .split(/[-_\s.]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ') || 'Untitled Diagram';
+  return { title: `Add metadata.name "${title}"`, edit: { kind: 'setMetadataName', name: title } };
+}
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseDocument } from 'yaml';
+import { collectCrymlSymbols, findCrymlSymbolAt } from '../utils/crymlSymbols';
+import { computeCrymlRename } from '../utils/crymlRename';
+import { SourceEdit } from '../utils/yamlEdits';
+
+// Later edits first, so earlier offsets stay valid
+function applyEdits(source: string, edits: SourceEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), source);
+}
+
+// Renames the element named at the first occurrence of `at`
+function rename(source: string, at: string, newName: string): string {
+  const doc = parseDocument(source);
+  const symbols = collectCrymlSymbols(doc);
+  const target = findCrymlSymbolAt(symbols, source.indexOf(at));
+  assert.ok(target, `no element at "${at}"`);
+  return applyEdits(source, computeCrymlRename(source, doc, symbols, target, newName));
+}
+
+const FLOW = `diagram_type: flow
+metadata:
+  name: Orders
+nodes:
+  check:
+    type: decision
+    label: "check stock" # not an ID
+    group: warehouse
+  ship:
+    type: process
+    label: Ship
+    group: warehouse
+edges:
+  - from: check
+    to: ship
+groups:
+  warehouse:
+    label: Warehouse
+layout:
+  direction: DOWN
+  nodes:
+    - id: check
+      position:
+        x: 10
+        y: 20
+      data:
+        group: warehouse
+  edges:
+    - source: check
+      target: ship
+`;
+
+test('renaming a node renames its edges and saved layout, not its label', () => {
+  const renamed = rename(FLOW, 'check:', 'verify');
+  assert.equal(renamed, FLOW
+    .replace('  check:\n', '  verify:\n')
+    .replace('from: check', 'from: verify')
+    .replace('id: check', 'id: verify')
+    .replace('source: check', 'source: verify'));
+});
+
+test('renaming from a reference renames the declaration', () => {
+  assert.equal(rename(FLOW, 'ship\n', 'deliver'), rename(FLOW, 'ship:', 'deliver'));
+  assert.match(rename(FLOW, 'ship\n', 'deliver'), /^ {2}deliver:$/m);
+});
+
+test('renaming a group renames its members and the layout', () => {
+  const renamed = rename(FLOW, 'warehouse:', 'stock');
+  assert.equal(renamed.match(/warehouse/g), null);
+  assert.equal(renamed.match(/group: stock/g)?.length, 3);
+});
+
+const ERD = `diagram_type: erd
+metadata:
+  name: Shop
+models:
+  User:
+    fields:
+      id:
+        field_type: Int
+        attributes:
+          primary_key: true
+  Post:
+    fields:
+      author:
+        field_type: User
+      authorId:
+        field_type: Int
+        attributes:
+          foreign_key:
+            table: User
+            column: id
+colors:
+  rules:
+    - pattern: "^User$"
+      color: red
+    - pattern: "\\\\bUser"
+      color: yellow
+    - pattern: "Username"
+      color: teal
+`;
+
+test('renaming a model renames field types, foreign keys and color rules', () => {
+  const renamed = rename(ERD, 'User:', 'Account');
+  assert.match(renamed, /^ {2}Account:$/m);
+  assert.match(renamed, /field_type: Account$/m);
+  assert.match(renamed, /table: Account$/m);
+  assert.match(renamed, /pattern: "\^Account\$"/);
+  assert.match(renamed, /pattern: "\\\\bAccount"/);
+  assert.match(renamed, /pattern: "Username"/);
+});
+
+test('renaming a primary key renames the foreign keys that point at it', () => {
+  const renamed = rename(ERD, 'id:', 'userId');
+  assert.match(renamed, /^ {6}userId:$/m);
+  assert.match(renamed, /column: userId$/m);
+  assert.match(renamed, /^ {6}authorId:$/m);
+});
+
+test('names already taken are refused', () => {
+  assert.throws(() => rename(FLOW, 'check:', 'ship'), /A node named "ship" already exists/);
+  assert.throws(() => rename(ERD, 'User:', 'Post'), /A model or enum named "Post" already exists/);
+  assert.throws(() => rename(ERD, 'authorId:', 'author'), /A field named "author" already exists on Post/);
+});
+
+test('a field name may repeat on another model', () => {
+  assert.match(rename(ERD, 'authorId:', 'id'), /^ {6}id:\n {8}field_type: Int\n {8}attributes:\n {10}foreign_key/m);
+});
+
+test('names that are not identifiers are refused', () => {
+  assert.throws(() => rename(ERD, 'User:', 'user-account'), /"user-account" is not a valid model or enum name/);
+  assert.throws(() => rename(FLOW, 'check:', 'true'), /"true" is not a valid node name/);
+  assert.equal(rename(FLOW, 'check:', 'check-stock').includes('from: check-stock'), true);
+});
+
+test('quoted IDs with escapes are replaced whole', () => {
+  const source = `diagram_type: flow
+metadata:
+  name: Quotes
+nodes:
+  "say \\"hi\\"":
+    type: start
+    label: Hi
+  'it''s':
+    type: end
+    label: Done
+edges:
+  - from: 'say "hi"'
+    to: "it's"
+`;
+  assert.equal(
+    rename(source, 'say', 'greet'),
+    source.replace('"say \\"hi\\""', '"greet"').replace(`'say "hi"'`, "'greet'")
+  );
+  assert.equal(
+    rename(source, "it''s", 'done'),
+    source.replace("'it''s'", "'done'").replace('"it\'s"', '"done"')
+  );
+});
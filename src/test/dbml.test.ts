@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as yaml from 'yaml';
+import { parseDbmlSchema } from '../webview/parsers/dbmlParser';
+import { prismaToYaml } from '../webview/yamlTransformer';
+import { yamlToDbml } from '../webview/dbmlGenerator';
+import { ERDDiagram } from '../webview/types/diagrams';
+
+// The .cryml a DBML import is saved as, and the ERD the DBML export reads
+function toYaml(dbml: string): string {
+  return prismaToYaml(parseDbmlSchema(dbml), { name: 'DBML Schema' }, { inferredGroups: false });
+}
+
+function toErd(dbml: string): ERDDiagram {
+  return yaml.parse(toYaml(dbml)) as ERDDiagram;
+}
+
+const SHOP = `Project shop {
+  database_type: 'PostgreSQL'
+  Note: 'Online shop'
+}
+
+Enum order_status {
+  pending [note: 'Not paid']
+  shipped
+}
+
+Table users as U {
+  id integer [pk, increment]
+  email varchar(255) [not null, unique, note: 'Login address']
+  Note: 'People who order'
+}
+
+Table sales.orders {
+  id integer [pk]
+  user_id integer [ref: > U.id]
+  status order_status [default: 'pending']
+
+  indexes {
+    (user_id, status) [unique, name: 'orders_user_status']
+  }
+}
+
+Table tags {
+  id int [pk]
+}
+
+Ref: sales.orders.id <> tags.id [delete: cascade]
+
+TableGroup billing {
+  sales.orders
+}
+`;
+
+test('the Project names and describes the diagram', () => {
+  assert.deepEqual(toErd(SHOP).metadata, { name: 'shop', description: 'Online shop', schema_version: '1.0.0' });
+});
+
+test('without a Project the given name is used', () => {
+  assert.equal(toErd('Table a {\n  id int [pk]\n}\n').metadata.name, 'DBML Schema');
+});
+
+test('columns keep their type, settings and notes', () => {
+  const { users } = toErd(SHOP).models;
+  assert.equal(users.description, 'People who order');
+  assert.deepEqual(users.fields.id, {
+    field_type: 'Int',
+    db_type: 'INTEGER',
+    constraints: { not_null: true },
+    attributes: { primary_key: true, default_value: 'autoincrement()' },
+  });
+  assert.deepEqual(users.fields.email, {
+    field_type: 'String',
+    db_type: 'VARCHAR(255)',
+    description: 'Login address',
+    constraints: { not_null: true },
+    attributes: { unique: true },
+  });
+});
+
+test('refs through aliases and schemas become foreign keys, <> refs list relations', () => {
+  const { orders, tags } = toErd(SHOP).models;
+  assert.equal(orders.schema_name, 'sales');
+  assert.deepEqual(orders.fields.user_id.attributes?.foreign_key, { table: 'users', column: 'id' });
+  assert.deepEqual(orders.fields.tags, { field_type: 'tags', attributes: { is_list: true, virtual: true } });
+  assert.deepEqual(tags.fields.orders, { field_type: 'orders', attributes: { is_list: true, virtual: true } });
+});
+
+test('enums, enum defaults and unique indexes', () => {
+  const erd = toErd(SHOP);
+  assert.deepEqual(erd.enums?.order_status.values, [{ value_name: 'pending', description: 'Not paid' }, { value_name: 'shipped' }]);
+  assert.equal(erd.models.orders.fields.status.attributes?.default_value, 'pending');
+  assert.deepEqual(erd.models.orders.unique_constraints, [{ constraint_name: 'orders_user_status', columns: ['user_id', 'status'] }]);
+});
+
+test('only TableGroups set a group; guessed groups are left out', () => {
+  const { users, orders, tags } = toErd(SHOP).models;
+  assert.equal(orders.group, 'billing');
+  assert.equal(users.group, undefined);
+  assert.equal(tags.group, undefined);
+});
+
+test('the export writes the Project and only explicit TableGroups back', () => {
+  const dbml = yamlToDbml(toYaml(SHOP));
+  assert.ok(dbml.startsWith("Project shop {\n  Note: 'Online shop'\n}\n"));
+  assert.match(dbml, /TableGroup billing \{\n {2}sales\.orders\n\}/);
+  assert.equal(dbml.match(/TableGroup/g)?.length, 1);
+});
+
+test('the export round-trips through the import', () => {
+  const first = toYaml(SHOP);
+  assert.equal(toYaml(yamlToDbml(first)), first);
+});
@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as yaml from 'yaml';
+import { mermaidToYaml } from '../webview/parsers/mermaidParser';
+import { yamlToMermaid } from '../webview/mermaidGenerator';
+import { ERDDiagram, FlowDiagram, SequenceDiagram } from '../webview/types/diagrams';
+
+function parse<T>(mermaid: string): T {
+  return yaml.parse(mermaidToYaml(mermaid, 'Imported')) as T;
+}
+
+const FLOW = `flowchart LR
+  A((Start)) --> B[Check]
+  subgraph checks [Checks]
+    B
+    B -->|ok| C{Valid?}
+  end
+  C -- no --> D([Done])
+  C --> E(((Stop)))
+`;
+
+test('flowchart shapes, labels and edges', () => {
+  const flow = parse<FlowDiagram>(FLOW);
+  assert.equal(flow.metadata.name, 'Imported');
+  assert.deepEqual(flow.nodes.B, { type: 'process', label: 'Check', group: 'checks' });
+  assert.deepEqual(flow.nodes.C, { type: 'decision', label: 'Valid?', group: 'checks' });
+  assert.deepEqual(flow.edges, [
+    { from: 'A', to: 'B' },
+    { from: 'B', to: 'C', label: 'ok' },
+    { from: 'C', to: 'D', label: 'no' },
+    { from: 'C', to: 'E' },
+  ]);
+});
+
+test('a node first used outside a subgraph joins the subgraph that lists it', () => {
+  const flow = parse<FlowDiagram>(FLOW);
+  assert.equal(flow.nodes.B.group, 'checks');
+  assert.equal(flow.nodes.A.group, undefined);
+  assert.deepEqual(flow.groups, { checks: { label: 'Checks' } });
+});
+
+test('circles and stadiums become start or end nodes from their edges', () => {
+  const { nodes } = parse<FlowDiagram>(FLOW);
+  assert.equal(nodes.A.type, 'start');
+  assert.equal(nodes.D.type, 'end');
+  assert.equal(nodes.E.type, 'end');
+});
+
+test('LR and RL flowcharts are laid out left to right', () => {
+  assert.deepEqual(parse<FlowDiagram>(FLOW).layout, { direction: 'RIGHT' });
+  assert.deepEqual(parse<FlowDiagram>('flowchart RL\n  A --> B\n').layout, { direction: 'RIGHT' });
+  assert.equal(parse<FlowDiagram>('flowchart TD\n  A --> B\n').layout, undefined);
+});
+
+test('the flowchart export keeps the direction and subgraphs', () => {
+  const mermaid = yamlToMermaid(mermaidToYaml(FLOW, 'Imported'));
+  assert.match(mermaid, /^flowchart LR$/m);
+  assert.match(mermaid, /subgraph checks \["Checks"\]\n {4}B\["Check"\]\n {4}C\{"Valid\?"\}\n {2}end/);
+  assert.match(yamlToMermaid(mermaidToYaml('flowchart TD\n  A --> B\n')), /^flowchart TD$/m);
+});
+
+const SEQUENCE = `sequenceDiagram
+  actor U as User
+  participant S as Server
+  U->>S: Login
+  S-->>U: Token
+  Note over U,S: done
+`;
+
+test('sequence participants, messages and notes', () => {
+  const sequence = parse<SequenceDiagram>(SEQUENCE);
+  assert.deepEqual(sequence.participants, {
+    U: { type: 'actor', label: 'User', order: 0 },
+    S: { type: 'participant', label: 'Server', order: 1 },
+  });
+  assert.deepEqual(
+    sequence.messages.map(({ from, to, label, arrow_type, sequence_order }) => [from, to, label, arrow_type, sequence_order]),
+    [['U', 'S', 'Login', 'solid', 1], ['S', 'U', 'Token', 'dashed', 2]]
+  );
+  assert.deepEqual(sequence.notes?.[0].position, { over: ['U', 'S'], y: 2 });
+});
+
+test('the sequence export reads back to the same diagram', () => {
+  const first = mermaidToYaml(SEQUENCE, 'Imported');
+  assert.equal(mermaidToYaml(yamlToMermaid(first), 'Imported'), first);
+});
+
+const ERD = `erDiagram
+  CUSTOMER ||--o{ ORDER : places
+  CUSTOMER {
+    int id PK
+    string name "Full name"
+  }
+  ORDER {
+    int id PK
+    int customer_id FK
+  }
+`;
+
+test('entities, keys and relationships', () => {
+  const { models } = parse<ERDDiagram>(ERD);
+  assert.deepEqual(models.CUSTOMER.fields.id, { field_type: 'Int', attributes: { primary_key: true } });
+  assert.equal(models.CUSTOMER.fields.name.description, 'Full name');
+  assert.deepEqual(models.ORDER.fields.customer_id.attributes?.foreign_key, { table: 'CUSTOMER', column: 'id' });
+});
+
+test('the ERD export writes the relationship from the foreign key', () => {
+  assert.match(yamlToMermaid(mermaidToYaml(ERD)), /CUSTOMER \|\|--o\{ ORDER : customer_id/);
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as yaml from 'yaml';
+import { parsePrismaSchema } from '../webview/prismaParser';
+import { checkPrismaRoundTrip, prismaToYaml } from '../webview/yamlTransformer';
+import { yamlToPrisma } from '../webview/prismaGenerator';
+import { ERDDiagram } from '../webview/types/diagrams';
+
+const SCHEMA = `generator client {
+  provider = "prisma-client-js"
+}
+
+datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+/// Someone who can sign in
+model User {
+  /// Primary key
+  id        Int      @id @default(autoincrement())
+  email     String   @unique @db.VarChar(255) /// Login address
+  role      Role     @default(MEMBER)
+  posts     Post[]
+  createdAt DateTime @default(now()) @map("created_at")
+
+  @@map("users")
+}
+
+model Post {
+  id       Int    @id @default(autoincrement())
+  title    String
+  /// Written by
+  authorId Int /// Foreign key to User
+  author   User   @relation(fields: [authorId], references: [id], onDelete: Cascade)
+
+  @@index([authorId])
+}
+
+/// What a user may do
+enum Role {
+  /// Full access
+  ADMIN
+  MEMBER @map("member") /// Read and comment
+}
+`;
+
+test('Prisma -> YAML -> Prisma keeps every block', () => {
+  assert.deepEqual(checkPrismaRoundTrip(SCHEMA), []);
+});
+
+test('doc comments become descriptions', () => {
+  const diagram = yaml.parse(prismaToYaml(parsePrismaSchema(SCHEMA))) as ERDDiagram;
+  assert.equal(diagram.models.User.description, 'Someone who can sign in');
+  assert.equal(diagram.models.User.fields.id.description, 'Primary key');
+  assert.equal(diagram.models.User.fields.email.description, 'Login address');
+  assert.equal(diagram.models.Post.fields.authorId.description, 'Written by\nForeign key to User');
+  assert.equal(diagram.enums?.Role.description, 'What a user may do');
+});
+
+test('doc comments survive the round trip, trailing ones included', () => {
+  const regenerated = parsePrismaSchema(yamlToPrisma(prismaToYaml(parsePrismaSchema(SCHEMA))));
+  const user = regenerated.models.find((model) => model.name === 'User')!;
+  const post = regenerated.models.find((model) => model.name === 'Post')!;
+  const role = regenerated.enums.find((enumType) => enumType.name === 'Role')!;
+  const documentation = (fields: { name: string; documentation?: string }[], name: string) =>
+    fields.find((field) => field.name === name)?.documentation;
+
+  assert.equal(user.documentation, 'Someone who can sign in');
+  assert.equal(documentation(user.fields, 'id'), 'Primary key');
+  assert.equal(documentation(user.fields, 'email'), 'Login address');
+  assert.equal(documentation(post.fields, 'authorId'), 'Written by\nForeign key to User');
+  assert.equal(role.documentation, 'What a user may do');
+  assert.equal(documentation(role.values, 'ADMIN'), 'Full access');
+  assert.equal(documentation(role.values, 'MEMBER'), 'Read and comment');
+});
+
+test('a trailing doc comment does not attach to the next field', () => {
+  const schema = parsePrismaSchema('model A {\n  id Int @id /// Key\n  name String\n}\n');
+  assert.equal(schema.models[0].fields[0].documentation, 'Key');
+  assert.equal(schema.models[0].fields[1].documentation, undefined);
+});
+
+// A file of a split prisma/schema/ folder, without generator or datasource blocks
+const MODELS_ONLY = `model User {
+  id    Int    @id @default(autoincrement())
+  posts Post[]
+}
+
+model Post {
+  id       Int  @id @default(autoincrement())
+  authorId Int
+  author   User @relation(fields: [authorId], references: [id])
+}
+`;
+
+test('a models-only schema round-trips without generator or datasource blocks', () => {
+  assert.deepEqual(checkPrismaRoundTrip(MODELS_ONLY), []);
+  const regenerated = yamlToPrisma(prismaToYaml(parsePrismaSchema(MODELS_ONLY)));
+  assert.doesNotMatch(regenerated, /^(generator|datasource) /m);
+});
+
+test('.cryml files without a prisma section get the default blocks', () => {
+  const prisma = yamlToPrisma('models:\n  Tag:\n    fields:\n      id:\n        field_type: Int\n        attributes:\n          primary_key: true\n');
+  assert.match(prisma, /^generator client \{/m);
+  assert.match(prisma, /^datasource db \{/m);
+});
@@ -0,0 +1,114 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as yaml from 'yaml';
+import { parseSqlSchema } from '../webview/parsers/sqlParser';
+import { prismaToYaml } from '../webview/yamlTransformer';
+import { ERDDiagram } from '../webview/types/diagrams';
+
+// The .cryml an SQL import is saved as
+function toErd(sql: string): ERDDiagram {
+  return yaml.parse(prismaToYaml(parseSqlSchema(sql))) as ERDDiagram;
+}
+
+const POSTGRES = `-- pg_dump --schema-only
+CREATE TYPE order_status AS ENUM ('pending', 'shipped');
+
+CREATE TABLE customers (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE orders (
+  id BIGSERIAL,
+  customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  status order_status NOT NULL DEFAULT 'pending',
+  total NUMERIC(10, 2),
+  CONSTRAINT orders_pkey PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX orders_customer_status ON orders (customer_id, status);
+COMMENT ON TABLE orders IS 'Placed orders';
+COMMENT ON COLUMN orders.total IS 'Including tax';
+INSERT INTO customers (email) VALUES ('someone@example.com');
+GRANT SELECT ON orders TO reporting;
+`;
+
+const MYSQL = `CREATE TABLE \`orders\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  PRIMARY KEY (\`id\`)
+) ENGINE=InnoDB;
+
+CREATE TABLE \`items\` (
+  \`id\` int NOT NULL AUTO_INCREMENT,
+  \`order_id\` int,
+  \`size\` ENUM('s','m') COMMENT 'Shirt size',
+  PRIMARY KEY (\`id\`)
+) ENGINE=InnoDB;
+
+ALTER TABLE items ADD CONSTRAINT fk_items_order FOREIGN KEY (order_id) REFERENCES orders (id) ON UPDATE SET NULL;
+`;
+
+test('columns keep their SQL type, nullability, keys and defaults', () => {
+  const { customers } = toErd(POSTGRES).models;
+  assert.deepEqual(customers.fields.id, {
+    field_type: 'Int',
+    db_type: 'SERIAL',
+    constraints: { not_null: true },
+    attributes: { primary_key: true, default_value: 'autoincrement()' },
+  });
+  assert.deepEqual(customers.fields.email, {
+    field_type: 'String',
+    db_type: 'VARCHAR(255)',
+    constraints: { not_null: true },
+    attributes: { unique: true },
+  });
+  assert.equal(customers.fields.created_at.field_type, 'DateTime');
+  assert.equal(customers.fields.created_at.attributes?.default_value, 'now()');
+  assert.equal(customers.fields.created_at.constraints, undefined);
+});
+
+test('table constraints, indexes and comments apply to their table', () => {
+  const { orders } = toErd(POSTGRES).models;
+  assert.equal(orders.fields.id.attributes?.primary_key, true);
+  assert.equal(orders.fields.total.db_type, 'NUMERIC(10,2)');
+  assert.equal(orders.description, 'Placed orders');
+  assert.equal(orders.fields.total.description, 'Including tax');
+  assert.deepEqual(orders.indexes, [{ index_name: 'orders_customer_status', columns: ['customer_id', 'status'], unique: true }]);
+});
+
+test('inline REFERENCES become foreign keys with their actions', () => {
+  const { orders } = toErd(POSTGRES).models;
+  assert.deepEqual(orders.fields.customer_id.attributes?.foreign_key, { table: 'customers', column: 'id', on_delete: 'Cascade' });
+});
+
+test('CREATE TYPE ... AS ENUM becomes an enum used by its columns', () => {
+  const erd = toErd(POSTGRES);
+  assert.deepEqual(erd.enums?.order_status.values, [{ value_name: 'pending' }, { value_name: 'shipped' }]);
+  assert.equal(erd.models.orders.fields.status.field_type, 'order_status');
+  assert.equal(erd.models.orders.fields.status.attributes?.default_value, 'pending');
+});
+
+test('statements that are not schema are skipped', () => {
+  assert.deepEqual(Object.keys(toErd(POSTGRES).models), ['customers', 'orders']);
+});
+
+test('MySQL backticks, inline ENUM columns and ALTER TABLE foreign keys', () => {
+  const erd = toErd(MYSQL);
+  const { items } = erd.models;
+  assert.equal(items.fields.id.attributes?.default_value, 'autoincrement()');
+  assert.equal(items.fields.size.field_type, 'items_size');
+  assert.equal(items.fields.size.description, 'Shirt size');
+  assert.deepEqual(erd.enums?.items_size.values, [{ value_name: 's' }, { value_name: 'm' }]);
+  assert.deepEqual(items.fields.order_id.attributes?.foreign_key, {
+    table: 'orders',
+    column: 'id',
+    constraint_name: 'fk_items_order',
+    on_update: 'SetNull',
+  });
+});
+
+test('foreign keys may name tables declared later', () => {
+  const erd = toErd('CREATE TABLE a (b_id int REFERENCES b (id));\nCREATE TABLE b (id int PRIMARY KEY);\n');
+  assert.deepEqual(erd.models.a.fields.b_id.attributes?.foreign_key, { table: 'b', column: 'id' });
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseDocument } from 'yaml';
+import { validateSchemaStructure } from '../webview/validators/structureValidator';
+import { findYamlPathRange } from '../webview/parsers/yamlPath';
+
+const FLOW = `diagram_type: flow
+metadata:
+  name: Deploy
+nodes:
+  v1.2:
+    type: bogus
+    label: Release 1.2
+  start:
+    type: start
+    label: Start
+edges:
+  - from: start
+    to: v1.2
+`;
+
+test('findings on IDs containing dots resolve to their source', () => {
+  const doc = parseDocument(FLOW);
+  const [error] = validateSchemaStructure(doc.toJS(), 'flow');
+  assert.deepEqual(error.path, ['nodes', 'v1.2', 'type']);
+  assert.match(error.message, /type must be one of: /);
+
+  const range = findYamlPathRange(doc, error.path)!;
+  assert.equal(FLOW.slice(range.start, range.end), 'type');
+  assert.equal(range.start, FLOW.indexOf('type: bogus'));
+});
+
+test('array items and missing keys keep their names in messages', () => {
+  const errors = validateSchemaStructure({ diagram_type: 'flow', metadata: {}, nodes: {}, edges: [{ from: 'a' }] }, 'flow');
+  assert.deepEqual(errors.map((error) => [error.code, error.path]), [
+    ['MISSING_METADATA_NAME', ['metadata', 'name']],
+    ['INVALID_STRUCTURE', ['edges', 0, 'to']],
+  ]);
+  assert.match(errors[1].message, /to is required/);
+});
@@ -0,0 +1,219 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { computeDiagramEdits, DiagramEdit, SourceEdit, setTopLevelEntryEdit } from '../utils/yamlEdits';
+
+// Later edits first, so earlier offsets stay valid
+function applyEdits(source: string, edits: SourceEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), source);
+}
+
+function edit(source: string, diagramEdit: DiagramEdit): string {
+  return applyEdits(source, computeDiagramEdits(source, diagramEdit));
+}
+
+const FLOW = `# Order handling
+diagram_type: flow
+metadata:
+  name: Orders # shown in the title
+
+nodes:
+  start:
+    type: start
+    label: "Order placed"   # quoted on purpose
+  check:
+    type: decision
+    label: In stock?
+  ship:
+    type: process
+    label: Ship
+
+edges:
+  - from: start
+    to: check
+  - from: check
+    to: ship # happy path
+`;
+
+const SEQUENCE = `diagram_type: sequence
+metadata:
+  name: Login
+
+participants:
+  user:
+    type: actor
+    label: User
+  api:
+    type: participant
+    label: API
+
+messages:
+  - id: m1
+    from: user
+    to: api
+    label: POST /login
+    sequence_order: 1
+  - id: m2
+    from: api
+    to: user
+    label: token
+    sequence_order: 2
+`;
+
+const ERD = `diagram_type: erd
+metadata:
+  name: Shop
+
+models:
+  Customer:
+    fields:
+      id:
+        field_type: Int
+        attributes:
+          primary_key: true
+
+      email:
+        field_type: String
+`;
+
+test('renaming a flow node only rewrites its label, keeping quotes and comments', () => {
+  assert.equal(
+    edit(FLOW, { kind: 'renameFlowNode', nodeId: 'start', label: 'Order received' }),
+    FLOW.replace('"Order placed"', '"Order received"')
+  );
+});
+
+test('retargeting an edge rewrites only the ends that changed', () => {
+  const edits = computeDiagramEdits(FLOW, { kind: 'retargetFlowEdge', edgeIndex: 1, from: 'check', to: 'start' });
+  assert.equal(edits.length, 1);
+  assert.equal(applyEdits(FLOW, edits), FLOW.replace('to: ship # happy path', 'to: start # happy path'));
+});
+
+test('a new model field follows the blank-line layout of its siblings', () => {
+  assert.equal(
+    edit(ERD, { kind: 'addModelField', model: 'Customer', field: 'name', fieldType: 'String' }),
+    `${ERD}\n      name:\n        field_type: String\n`
+  );
+});
+
+test('adding a field that exists is refused', () => {
+  assert.throws(
+    () => computeDiagramEdits(ERD, { kind: 'addModelField', model: 'Customer', field: 'email', fieldType: 'String' }),
+    /already exists/
+  );
+});
+
+test('moving a message swaps sequence_order with its neighbour', () => {
+  const moved = edit(SEQUENCE, { kind: 'moveSequenceMessage', messageId: 'm2', offset: -1 });
+  assert.match(moved, /id: m1[\s\S]*?sequence_order: 2/);
+  assert.match(moved, /id: m2[\s\S]*?sequence_order: 1/);
+  assert.deepEqual(computeDiagramEdits(SEQUENCE, { kind: 'moveSequenceMessage', messageId: 'm1', offset: -1 }), []);
+});
+
+test('edits to a missing element or a broken document throw', () => {
+  assert.throws(() => computeDiagramEdits(FLOW, { kind: 'renameFlowNode', nodeId: 'nope', label: 'x' }), /not found/);
+  assert.throws(() => computeDiagramEdits('nodes: [', { kind: 'renameFlowNode', nodeId: 'a', label: 'x' }), /YAML errors/);
+});
+
+const LAYOUT = { version: '1.0', direction: 'DOWN', nodes: [{ id: 'start', position: { x: 10, y: 20 } }] };
+
+test('saving a layout appends a layout section and leaves the rest alone', () => {
+  const saved = applyEdits(FLOW, [setTopLevelEntryEdit(FLOW, 'layout', LAYOUT)]);
+  assert.ok(saved.startsWith(FLOW));
+  assert.equal(
+    saved.slice(FLOW.length),
+    '\nlayout:\n  version: "1.0"\n  direction: DOWN\n  nodes:\n    - id: start\n      position:\n        x: 10\n        y: 20\n'
+  );
+});
+
+test('saving again replaces only the layout section', () => {
+  const saved = applyEdits(FLOW, [setTopLevelEntryEdit(FLOW, 'layout', LAYOUT)]);
+  const moved = { ...LAYOUT, nodes: [{ id: 'start', position: { x: 30, y: 40 } }] };
+  const resaved = applyEdits(saved, [setTopLevelEntryEdit(saved, 'layout', moved)]);
+  assert.equal(resaved, saved.replace('x: 10', 'x: 30').replace('y: 20', 'y: 40'));
+});
+
+test('a layout section in the middle of the file stays in place', () => {
+  const source = 'diagram_type: flow\nlayout:\n  direction: DOWN\n# Nodes below\nnodes: {}\n';
+  assert.equal(
+    applyEdits(source, [setTopLevelEntryEdit(source, 'layout', { direction: 'RIGHT' })]),
+    'diagram_type: flow\nlayout:\n  direction: RIGHT\n# Nodes below\nnodes: {}\n'
+  );
+});
+
+test('a file without a final newline gets one before the layout', () => {
+  const source = 'diagram_type: flow\nnodes: {}';
+  assert.equal(
+    applyEdits(source, [setTopLevelEntryEdit(source, 'layout', { direction: 'RIGHT' })]),
+    'diagram_type: flow\nnodes: {}\n\nlayout:\n  direction: RIGHT\n'
+  );
+});
+
+test('setting the diagram name keeps the trailing comment', () => {
+  assert.equal(
+    edit(FLOW, { kind: 'setMetadataName', name: 'Fulfilment' }),
+    FLOW.replace('name: Orders # shown', 'name: Fulfilment # shown')
+  );
+});
+
+test('a missing metadata section is added after diagram_type', () => {
+  const source = 'diagram_type: flow\nnodes:\n  a:\n    type: start\n    label: A\n';
+  assert.equal(
+    edit(source, { kind: 'setMetadataName', name: 'New' }),
+    'diagram_type: flow\n\nmetadata:\n  name: New\nnodes:\n  a:\n    type: start\n    label: A\n'
+  );
+});
+
+test('a stub flow node is added with its ID as the label', () => {
+  assert.equal(
+    edit(FLOW, { kind: 'addFlowNode', nodeId: 'pack' }),
+    FLOW.replace('    label: Ship\n', '    label: Ship\n  pack:\n    type: process\n    label: pack\n')
+  );
+  assert.throws(() => computeDiagramEdits(FLOW, { kind: 'addFlowNode', nodeId: 'ship' }), /already exists/);
+});
+
+test('a missing participant is added, after the last one when participants are ordered', () => {
+  assert.equal(
+    edit(SEQUENCE, { kind: 'addParticipant', participantId: 'db' }),
+    SEQUENCE.replace('    label: API\n', '    label: API\n  db:\n    type: participant\n    label: db\n')
+  );
+  const ordered = SEQUENCE.replace('    label: User\n', '    label: User\n    order: 4\n');
+  assert.equal(
+    edit(ordered, { kind: 'addParticipant', participantId: 'db' }),
+    ordered.replace('    label: API\n', '    label: API\n  db:\n    type: participant\n    label: db\n    order: 5\n')
+  );
+});
+
+test('renumbering gives messages consecutive sequence_order values in their current order', () => {
+  const gapped = SEQUENCE.replace('sequence_order: 1', 'sequence_order: 5').replace('sequence_order: 2', 'sequence_order: 9');
+  assert.equal(edit(gapped, { kind: 'renumberSequence' }), SEQUENCE);
+  assert.equal(edit(SEQUENCE, { kind: 'renumberSequence' }), SEQUENCE);
+});
+
+test('a primary key copies the type of the other models\' keys', () => {
+  const source = `${ERD}  Order:\n    fields:\n      total:\n        field_type: Decimal\n`;
+  assert.equal(
+    edit(source, { kind: 'addPrimaryKey', model: 'Order' }),
+    source.replace('    fields:\n      total:', '    fields:\n      id:\n        field_type: Int\n        attributes:\n          primary_key: true\n      total:')
+  );
+});
+
+test('an existing id field is made the primary key', () => {
+  const source = 'diagram_type: erd\nmodels:\n  Tag:\n    fields:\n      id:\n        field_type: String\n';
+  assert.equal(
+    edit(source, { kind: 'addPrimaryKey', model: 'Tag' }),
+    `${source}        attributes:\n          primary_key: true\n`
+  );
+});
+
+test('indexes are named after the model and the field without its id suffix', () => {
+  const source = `${ERD}  Order:\n    fields:\n      customerId:\n        field_type: Int\n`;
+  const indexed = edit(source, { kind: 'addIndex', model: 'Order', field: 'customerId' });
+  assert.equal(indexed, `${source}    indexes:\n      - index_name: idx_order_customer\n        columns: [customerId]\n`);
+
+  const again = edit(indexed, { kind: 'addIndex', model: 'Order', field: 'customerId' });
+  assert.match(again, /index_name: idx_order_customer_id\n/);
+  assert.match(edit(again, { kind: 'addIndex', model: 'Order', field: 'customerId' }), /index_name: idx_order_customer_id_2\n/);
+  assert.throws(() => computeDiagramEdits(source, { kind: 'addIndex', model: 'Order', field: 'nope' }), /not found on Order/);
+});
@@ -0,0 +1,82 @@
+// Cryml JSON Schema
+// Publishes the key reference in diagramSchema.ts as a JSON Schema, so YAML and JSON editors
+// can check .cryml files against the same rules as the structure validator
+
+import { DIAGRAM_SCHEMAS, DIAGRAM_TYPES, SchemaNode } from '../webview/types/diagramSchema';
+
+// Bump when a change would reject files the previous schema accepted
+export const CRYML_SCHEMA_VERSION = '1.0';
+export const CRYML_SCHEMA_FILE = `schemas/cryml-${CRYML_SCHEMA_VERSION}.schema.json`;
+
+const SCHEMA_URL = `https://raw.githubusercontent.com/namnh240795/chart-vscode-ext/main/${CRYML_SCHEMA_FILE}`;
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema (draft-07) of all diagram types, picked by diagram_type (erd when omitted)
+ */
+export function buildCrymlJsonSchema(): JsonSchema {
+  const definitions: Record<string, JsonSchema> = {};
+  for (const diagramType of DIAGRAM_TYPES) {
+    definitions[diagramType] = toJsonSchema(DIAGRAM_SCHEMAS[diagramType]);
+  }
+
+  // Other types first, so files without diagram_type fall through to erd
+  const byType = DIAGRAM_TYPES.filter((diagramType) => diagramType !== 'erd').reduceRight<JsonSchema>(
+    (otherwise, diagramType) => ({
+      if: { properties: { diagram_type: { const: diagramType } }, required: ['diagram_type'] },
+      then: { $ref: `#/definitions/${diagramType}` },
+      else: otherwise,
+    }),
+    { $ref: '#/definitions/erd' }
+  );
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    $id: SCHEMA_URL,
+    $comment: 'Generated from src/webview/types/diagramSchema.ts by `pnpm run generate:schema`; do not edit',
+    title: `CRYML diagram ${CRYML_SCHEMA_VERSION}`,
+    description: 'Entity relationship, flow and sequence diagrams of the Chart & Flow Diagrams extension',
+    type: 'object',
+    ...byType,
+    definitions,
+  };
+}
+
+/**
+ * Optional keys may be left empty (null), as the structure validator allows;
+ * required strings must not be empty
+ */
+function toJsonSchema(schema: SchemaNode, options: { nullable?: boolean; nonEmpty?: boolean } = {}): JsonSchema {
+  const json: JsonSchema = { description: schema.description };
+  if (schema.type) {
+    json.type = options.nullable ? [schema.type, 'null'] : schema.type;
+  }
+  if (schema.enum) {
+    json.enum = options.nullable ? [...schema.enum, null] : schema.enum;
+  }
+  if (schema.enumDescriptions) {
+    json.enumDescriptions = schema.enumDescriptions;
+  }
+  if (options.nonEmpty && schema.type === 'string') {
+    json.minLength = 1;
+  }
+
+  if (schema.properties) {
+    const required = schema.required ?? [];
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [
+      key,
+      toJsonSchema(property, { nullable: !required.includes(key), nonEmpty: required.includes(key) }),
+    ]));
+    if (required.length > 0) {
+      json.required = required;
+    }
+  }
+  if (schema.items) {
+    json.items = toJsonSchema(schema.items);
+  }
+  if (schema.additionalProperties) {
+    json.additionalProperties = toJsonSchema(schema.additionalProperties);
+  }
+  return json;
+}
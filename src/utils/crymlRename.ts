@@ -0,0 +1,97 @@
+// Cryml rename
+// Renames a named element of a .cryml diagram together with every reference to it,
+// including saved layouts and the ERD color rule patterns that spell out a model name
+
+import { Document, isMap, isScalar, isSeq, parse } from 'yaml';
+import { ElementKind } from '../webview/types/diagramSchema';
+import { CrymlSymbol, isSameElement } from './crymlSymbols';
+import { SourceEdit } from './yamlEdits';
+
+// Models and fields end up as Prisma and SQL identifiers; other IDs may also use - and .
+const IDENTIFIER_PATTERN = /^[A-Za-z_]\w*$/;
+const ID_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+const ELEMENT_NOUNS: Record<ElementKind, string> = {
+  node: 'node',
+  group: 'group',
+  participant: 'participant',
+  message: 'message',
+  model: 'model or enum',
+  field: 'field',
+};
+
+/**
+ * Text edits renaming the element a symbol names. Throws when the new name is invalid
+ * or already taken by another element of the same kind (fields: of the same model).
+ */
+export function computeCrymlRename(
+  source: string,
+  doc: Document,
+  symbols: CrymlSymbol[],
+  target: CrymlSymbol,
+  newName: string
+): SourceEdit[] {
+  const name = newName.trim();
+  if (name === target.name) {
+    return [];
+  }
+  validateName(target.kind, name);
+
+  const renamed = { kind: target.kind, name, model: target.model };
+  if (symbols.some((symbol) => symbol.isDeclaration && isSameElement(symbol, renamed))) {
+    const owner = target.kind === 'field' ? ` on ${target.model}` : '';
+    throw new Error(`A ${ELEMENT_NOUNS[target.kind]} named "${name}" already exists${owner}`);
+  }
+
+  const edits = renameEdits(symbols, target, name);
+  if (target.kind === 'model') {
+    edits.push(...colorRuleEdits(source, doc, target.name, name));
+  }
+  return edits;
+}
+
+/**
+ * Edits replacing every mention of an element with a new name; also applied to the
+ * symbols of a layout sidecar, which can't declare anything itself
+ */
+export function renameEdits(symbols: CrymlSymbol[], target: CrymlSymbol, newName: string): SourceEdit[] {
+  return symbols
+    .filter((symbol) => isSameElement(symbol, target))
+    .map((symbol) => ({ start: symbol.range.start, end: symbol.range.end, text: newName }));
+}
+
+function validateName(kind: ElementKind, name: string) {
+  const pattern = kind === 'model' || kind === 'field' ? IDENTIFIER_PATTERN : ID_PATTERN;
+  // Names YAML would read as something else (true, null, ...) can't be written unquoted
+  if (!pattern.test(name) || parse(name) !== name) {
+    throw new Error(`"${name}" is not a valid ${ELEMENT_NOUNS[kind]} name`);
+  }
+}
+
+/**
+ * Color rules match model names by regular expression; occurrences of the old name as a
+ * whole word (^User$, User|Post, \bUser\b) are renamed, looser patterns are left alone
+ */
+function colorRuleEdits(source: string, doc: Document, oldName: string, newName: string): SourceEdit[] {
+  const rules = doc.getIn(['colors', 'rules'], true);
+  if (!isSeq(rules)) {
+    return [];
+  }
+
+  // A word character only ends a word when it isn't part of an escape such as \b
+  const escaped = oldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const word = new RegExp(`(?<=^|\\W|\\\\[A-Za-z])${escaped}(?=\\W|$)`, 'gi');
+  const edits: SourceEdit[] = [];
+  for (const rule of rules.items) {
+    const pattern = isMap(rule) ? rule.get('pattern', true) : undefined;
+    if (!isScalar(pattern) || typeof pattern.value !== 'string' || !pattern.range) {
+      continue;
+    }
+
+    const [start, end] = pattern.range;
+    for (const match of source.slice(start, end).matchAll(word)) {
+      edits.push({ start: start + match.index!, end: start + match.index! + oldName.length, text: newName });
+    }
+  }
+  return edits;
+}
@@ -0,0 +1,156 @@
+// Cryml symbols
+// Finds where the named elements of a .cryml diagram (flow nodes and groups, participants,
+// messages, models and fields) are declared and referenced, walking the document along
+// the key reference in diagramSchema.ts
+
+import { Document, isMap, isScalar, isSeq, Scalar } from 'yaml';
+import { DiagramType } from '../webview/types/diagrams';
+import { DIAGRAM_SCHEMAS, DIAGRAM_TYPES, ElementKind, SchemaNode } from '../webview/types/diagramSchema';
+import { SCALAR_TYPES } from '../webview/prismaGenerator';
+import { YamlPathSegment, YamlSourceRange } from '../webview/parsers/yamlPath';
+
+export interface CrymlSymbol {
+  kind: ElementKind;
+  name: string;
+  model?: string; // Model owning a field
+  range: YamlSourceRange; // The name itself, without quotes or type modifiers
+  path: YamlPathSegment[]; // Entry whose key (declarations) or value (references) holds the name
+  isDeclaration: boolean;
+}
+
+interface WalkContext {
+  model?: string; // Enclosing model
+  table?: string; // Model named by the enclosing foreign_key's table
+}
+
+/**
+ * diagram_type of a parsed document; ERDs may leave it out
+ */
+export function diagramTypeOf(doc: Document): DiagramType {
+  const diagramType = isMap(doc.contents) ? doc.get('diagram_type') : undefined;
+  return DIAGRAM_TYPES.includes(diagramType as DiagramType) ? diagramType as DiagramType : 'erd';
+}
+
+/**
+ * Every declaration of and reference to a named element, in document order
+ */
+export function collectCrymlSymbols(doc: Document): CrymlSymbol[] {
+  const symbols: CrymlSymbol[] = [];
+  walk(doc.contents, DIAGRAM_SCHEMAS[diagramTypeOf(doc)], [], {}, symbols);
+  return symbols;
+}
+
+/**
+ * References in a layout saved outside the diagram (a <file>.layout.json sidecar)
+ */
+export function collectLayoutSymbols(doc: Document, diagramType: DiagramType): CrymlSymbol[] {
+  const symbols: CrymlSymbol[] = [];
+  walk(doc.contents, DIAGRAM_SCHEMAS[diagramType].properties?.layout, [], {}, symbols);
+  return symbols;
+}
+
+/**
+ * The declaration or reference whose name contains an offset
+ */
+export function findCrymlSymbolAt(symbols: CrymlSymbol[], offset: number): CrymlSymbol | undefined {
+  return symbols.find((symbol) => symbol.range.start <= offset && offset <= symbol.range.end);
+}
+
+/**
+ * Whether two symbols name the same element (fields are told apart by their model)
+ */
+export function isSameElement(a: Pick<CrymlSymbol, 'kind' | 'name' | 'model'>, b: Pick<CrymlSymbol, 'kind' | 'name' | 'model'>): boolean {
+  return a.kind === b.kind && a.name === b.name && (a.kind !== 'field' || a.model === b.model);
+}
+
+function walk(node: unknown, schema: SchemaNode | undefined, path: YamlPathSegment[], context: WalkContext, symbols: CrymlSymbol[]) {
+  if (isMap(node)) {
+    // foreign_key maps: column and references name fields of the table model
+    const table = schema?.properties?.table?.reference === 'model' ? scalarName(node.get('table', true)) : context.table;
+
+    for (const pair of node.items) {
+      if (!isScalar(pair.key)) {
+        continue;
+      }
+      const key = scalarName(pair.key);
+      if (key === undefined) {
+        continue;
+      }
+      const childPath = [...path, key];
+      const declared = schema?.additionalProperties && !schema.properties?.[key] ? schema.defines : undefined;
+
+      let model = context.model;
+      if (declared) {
+        symbols.push(symbolFor(pair.key, key, declared, childPath, true, declared === 'field' ? model : undefined));
+        if (declared === 'model') {
+          model = key;
+        }
+      }
+      walk(pair.value, schema?.properties?.[key] ?? schema?.additionalProperties, childPath, { model, table }, symbols);
+    }
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => walk(item, schema?.items, [...path, index], context, symbols));
+  } else if (isScalar(node) && schema && (schema.defines || schema.reference)) {
+    const value = scalarName(node);
+    if (value === undefined || value === '') {
+      return;
+    }
+
+    if (schema.defines) {
+      symbols.push(symbolFor(node, value, schema.defines, path, true, schema.defines === 'field' ? context.model : undefined));
+      return;
+    }
+
+    switch (schema.reference) {
+      case 'fieldType': {
+        // Relations name a model or enum; scalar types aren't elements
+        const name = value.match(/^[A-Za-z_]\w*/)?.[0];
+        if (name && !SCALAR_TYPES[name.toLowerCase()]) {
+          symbols.push(symbolFor(node, name, 'model', path, false));
+        }
+        break;
+      }
+      case 'referencedField':
+        if (context.table) {
+          symbols.push(symbolFor(node, value, 'field', path, false, context.table));
+        }
+        break;
+      case 'modelField':
+        if (context.model) {
+          symbols.push(symbolFor(node, value, 'field', path, false, context.model));
+        }
+        break;
+      default:
+        symbols.push(symbolFor(node, value, schema.reference!, path, false));
+    }
+  }
+}
+
+function symbolFor(
+  scalar: Scalar,
+  name: string,
+  kind: ElementKind,
+  path: YamlPathSegment[],
+  isDeclaration: boolean,
+  model?: string
+): CrymlSymbol {
+  const quoted = scalar.type === Scalar.QUOTE_DOUBLE || scalar.type === Scalar.QUOTE_SINGLE;
+  const start = (scalar.range?.[0] ?? 0) + (quoted ? 1 : 0);
+  // Quoted names span their source, escapes included; field types end before their ? or [] modifier
+  const end = name === scalar.value ? (scalar.range?.[1] ?? start) - (quoted ? 1 : 0) : start + name.length;
+  return { kind, name, model, range: { start, end }, path, isDeclaration };
+}
+
+// Names as written: plain numbers keep their spelling (an ID of 01 stays "01")
+function scalarName(node: unknown): string | undefined {
+  if (!isScalar(node) || node.type === Scalar.BLOCK_LITERAL || node.type === Scalar.BLOCK_FOLDED) {
+    return undefined;
+  }
+  if (typeof node.value === 'string') {
+    return node.value;
+  }
+  if (typeof node.value === 'number' || typeof node.value === 'boolean') {
+    return node.source ?? String(node.value);
+  }
+  return undefined;
+}
@@ -0,0 +1,15 @@
+// Layout storage
+// Where "Save Layout" keeps node positions for a diagram file
+
+import * as vscode from 'vscode';
+
+export const LAYOUT_SIDECAR_SUFFIX = '.layout.json';
+
+export type LayoutStorage = 'inline' | 'sidecar';
+
+/**
+ * Where layouts for a diagram file are saved (`chart-vscode-ext.layout.storage`)
+ */
+export function getLayoutStorage(fileUri: vscode.Uri): LayoutStorage {
+  return vscode.workspace.getConfiguration('chart-vscode-ext', fileUri).get<LayoutStorage>('layout.storage', 'inline');
+}
@@ -0,0 +1,430 @@
+// YAML source edits
+// Turns semantic diagram edits (rename a node, re-target an edge, ...) into minimal
+// text replacements so comments, key order and formatting elsewhere survive
+
+import { Document, Node as YamlNode, Scalar, isMap, isScalar, isSeq, parseDocument, stringify } from 'yaml';
+import { YamlPathSegment } from '../webview/parsers/yamlPath';
+
+const INDENT = 2;
+
+export interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type DiagramEdit =
+  | { kind: 'renameFlowNode'; nodeId: string; label: string }
+  | { kind: 'retargetFlowEdge'; edgeIndex: number; from: string; to: string }
+  | { kind: 'addModelField'; model: string; field: string; fieldType: string }
+  | { kind: 'moveSequenceMessage'; messageId: string; offset: -1 | 1 }
+  | { kind: 'setMetadataName'; name: string }
+  | { kind: 'addFlowNode'; nodeId: string }
+  | { kind: 'addParticipant'; participantId: string }
+  | { kind: 'renumberSequence' }
+  | { kind: 'addPrimaryKey'; model: string }
+  | { kind: 'addIndex'; model: string; field: string };
+
+/**
+ * Compute the text edits that apply a diagram edit to a .cryml source.
+ * Returns an empty list when the edit is a no-op; throws when the target is missing.
+ */
+export function computeDiagramEdits(source: string, edit: DiagramEdit): SourceEdit[] {
+  const doc = parseDocument(source);
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot edit a document with YAML errors: ${doc.errors[0].message.split('\n')[0]}`);
+  }
+
+  switch (edit.kind) {
+    case 'renameFlowNode':
+      return renameFlowNode(doc, source, edit.nodeId, edit.label);
+    case 'retargetFlowEdge':
+      return retargetFlowEdge(doc, source, edit.edgeIndex, edit.from, edit.to);
+    case 'addModelField':
+      return addModelField(doc, source, edit.model, edit.field, edit.fieldType);
+    case 'moveSequenceMessage':
+      return moveSequenceMessage(doc, source, edit.messageId, edit.offset);
+    case 'setMetadataName':
+      return setMetadataName(doc, source, edit.name);
+    case 'addFlowNode':
+      return addFlowNode(doc, source, edit.nodeId);
+    case 'addParticipant':
+      return addParticipant(doc, source, edit.participantId);
+    case 'renumberSequence':
+      return renumberSequence(doc, source);
+    case 'addPrimaryKey':
+      return addPrimaryKey(doc, source, edit.model);
+    case 'addIndex':
+      return addIndex(doc, source, edit.model, edit.field);
+  }
+}
+
+/**
+ * Replace a top-level entry (or append it when missing) without touching the rest of the document.
+ * Used for generated sections such as `layout:` that live alongside hand-written content.
+ */
+export function setTopLevelEntryEdit(source: string, key: string, value: unknown): SourceEdit {
+  const doc = parseDocument(source);
+  if (doc.errors.length > 0) {
+    throw new Error(`Cannot edit a document with YAML errors: ${doc.errors[0].message.split('\n')[0]}`);
+  }
+
+  const entry = stringify({ [key]: value }, { indent: INDENT, lineWidth: 120 }).trimEnd();
+  const contents = doc.contents;
+  if (!isMap(contents)) {
+    return { start: 0, end: source.length, text: entry + '\n' };
+  }
+
+  const pair = contents.items.find(item => isScalar(item.key) && item.key.value === key);
+  const keyNode = pair?.key as YamlNode | undefined;
+  const valueNode = (pair?.value ?? pair?.key) as YamlNode | undefined;
+  if (keyNode?.range && valueNode?.range) {
+    // Block values end after their final newline, plain scalars don't
+    const end = valueNode.range[1];
+    const trailing = source[end - 1] === '\n' ? '\n' : '';
+    return { start: keyNode.range[0], end, text: entry + trailing };
+  }
+
+  const separator = source.length === 0 || source.endsWith('\n') ? '' : '\n';
+  return { start: source.length, end: source.length, text: `${separator}\n${entry}\n` };
+}
+
+function renameFlowNode(doc: Document, source: string, nodeId: string, label: string): SourceEdit[] {
+  if (!isMap(doc.getIn(['nodes', nodeId], true))) {
+    throw new Error(`Flow node "${nodeId}" not found`);
+  }
+  return [setScalarEdit(doc, source, ['nodes', nodeId, 'label'], label)];
+}
+
+function retargetFlowEdge(doc: Document, source: string, edgeIndex: number, from: string, to: string): SourceEdit[] {
+  const edge = doc.getIn(['edges', edgeIndex], true);
+  if (!isMap(edge)) {
+    throw new Error(`Edge #${edgeIndex} not found`);
+  }
+
+  const edits: SourceEdit[] = [];
+  if (String(edge.get('from')) !== from) {
+    edits.push(setScalarEdit(doc, source, ['edges', edgeIndex, 'from'], from));
+  }
+  if (String(edge.get('to')) !== to) {
+    edits.push(setScalarEdit(doc, source, ['edges', edgeIndex, 'to'], to));
+  }
+  return edits;
+}
+
+function addModelField(doc: Document, source: string, model: string, field: string, fieldType: string): SourceEdit[] {
+  if (!isMap(doc.getIn(['models', model], true))) {
+    throw new Error(`Model "${model}" not found`);
+  }
+  if (doc.hasIn(['models', model, 'fields', field])) {
+    throw new Error(`Field "${field}" already exists on ${model}`);
+  }
+  return [addMapEntryEdit(doc, source, ['models', model, 'fields'], field, { field_type: fieldType })];
+}
+
+/**
+ * Swap a message's sequence_order with its neighbour in rendering order
+ */
+function moveSequenceMessage(doc: Document, source: string, messageId: string, offset: -1 | 1): SourceEdit[] {
+  const messages = doc.get('messages', true);
+  if (!isSeq(messages)) {
+    throw new Error('Diagram has no messages');
+  }
+
+  const ordered = messages.items
+    .map((item, index) => ({
+      index,
+      id: isMap(item) ? String(item.get('id')) : '',
+      order: isMap(item) ? Number(item.get('sequence_order')) : NaN,
+    }))
+    .sort((a, b) => a.order - b.order || a.index - b.index);
+
+  const position = ordered.findIndex(message => message.id === messageId);
+  if (position === -1) {
+    throw new Error(`Message "${messageId}" not found`);
+  }
+
+  const current = ordered[position];
+  const neighbour = ordered[position + offset];
+  if (!neighbour || current.order === neighbour.order) {
+    return [];
+  }
+
+  return [
+    setScalarEdit(doc, source, ['messages', current.index, 'sequence_order'], neighbour.order),
+    setScalarEdit(doc, source, ['messages', neighbour.index, 'sequence_order'], current.order),
+  ];
+}
+
+/**
+ * Set metadata.name, adding the metadata section right after diagram_type when it's missing
+ */
+function setMetadataName(doc: Document, source: string, name: string): SourceEdit[] {
+  const metadata = doc.get('metadata', true);
+  if (isMap(metadata)) {
+    return [setScalarEdit(doc, source, ['metadata', 'name'], name)];
+  }
+
+  const contents = doc.contents;
+  if (metadata !== undefined || !isMap(contents) || contents.items.length === 0) {
+    doc.set('metadata', { name });
+    return [{ start: 0, end: source.length, text: doc.toString() }];
+  }
+
+  const entry = stringify({ metadata: { name } }, { indent: INDENT, lineWidth: 0 }).trimEnd();
+  const diagramType = contents.items.find(item => isScalar(item.key) && item.key.value === 'diagram_type');
+  const diagramTypeNode = diagramType?.value as YamlNode | undefined;
+  if (diagramTypeNode?.range) {
+    const insertAt = endOfLine(source, diagramTypeNode.range[1]);
+    return [{ start: insertAt, end: insertAt, text: `\n\n${entry}` }];
+  }
+
+  const firstKey = contents.items[0].key as YamlNode;
+  if (!firstKey.range) {
+    throw new Error('Cannot locate the first entry in the source');
+  }
+  return [{ start: firstKey.range[0], end: firstKey.range[0], text: `${entry}\n\n` }];
+}
+
+function addFlowNode(doc: Document, source: string, nodeId: string): SourceEdit[] {
+  if (!isMap(doc.get('nodes', true))) {
+    throw new Error('Diagram has no nodes');
+  }
+  if (doc.hasIn(['nodes', nodeId])) {
+    throw new Error(`Flow node "${nodeId}" already exists`);
+  }
+  return [addMapEntryEdit(doc, source, ['nodes'], nodeId, { type: 'process', label: nodeId })];
+}
+
+function addParticipant(doc: Document, source: string, participantId: string): SourceEdit[] {
+  const participants = doc.get('participants', true);
+  if (!isMap(participants)) {
+    throw new Error('Diagram has no participants');
+  }
+  if (participants.has(participantId)) {
+    throw new Error(`Participant "${participantId}" already exists`);
+  }
+
+  // New participants go to the right of the existing ones
+  const orders = participants.items.map(item => Number(isMap(item.value) ? item.value.get('order') : NaN)).filter(Number.isFinite);
+  const participant: Record<string, unknown> = { type: 'participant', label: participantId };
+  if (orders.length > 0) {
+    participant.order = Math.max(...orders) + 1;
+  }
+  return [addMapEntryEdit(doc, source, ['participants'], participantId, participant)];
+}
+
+/**
+ * Number messages 1, 2, 3, ... in their current order (ties keep source order)
+ */
+function renumberSequence(doc: Document, source: string): SourceEdit[] {
+  const messages = doc.get('messages', true);
+  if (!isSeq(messages)) {
+    throw new Error('Diagram has no messages');
+  }
+
+  const ordered = messages.items
+    .map((item, index) => ({ index, order: isMap(item) ? Number(item.get('sequence_order')) || 0 : NaN }))
+    .filter(message => !Number.isNaN(message.order))
+    .sort((a, b) => a.order - b.order || a.index - b.index);
+
+  const edits: SourceEdit[] = [];
+  ordered.forEach((message, position) => {
+    if (message.order !== position + 1) {
+      edits.push(setScalarEdit(doc, source, ['messages', message.index, 'sequence_order'], position + 1));
+    }
+  });
+  return edits;
+}
+
+/**
+ * Mark a model's id field as its primary key, or add one shaped like the other models' keys
+ */
+function addPrimaryKey(doc: Document, source: string, model: string): SourceEdit[] {
+  const fieldsPath = ['models', model, 'fields'];
+  if (!isMap(doc.getIn(fieldsPath, true))) {
+    throw new Error(`Model "${model}" has no fields`);
+  }
+
+  const idPath = [...fieldsPath, 'id'];
+  if (isMap(doc.getIn(idPath, true))) {
+    return isMap(doc.getIn([...idPath, 'attributes'], true))
+      ? [setScalarEdit(doc, source, [...idPath, 'attributes', 'primary_key'], true)]
+      : [addMapEntryEdit(doc, source, idPath, 'attributes', { primary_key: true })];
+  }
+  if (doc.hasIn(idPath)) {
+    throw new Error(`Field "id" of ${model} is not a mapping`);
+  }
+
+  return [addMapEntryEdit(doc, source, fieldsPath, 'id', primaryKeyTemplate(doc), true)];
+}
+
+// field_type and default_value of the first primary key in the diagram, else an autoincrementing Int
+function primaryKeyTemplate(doc: Document): Record<string, unknown> {
+  const models = doc.toJS()?.models;
+  for (const model of Object.values<any>(models && typeof models === 'object' ? models : {})) {
+    for (const field of Object.values<any>(model?.fields && typeof model.fields === 'object' ? model.fields : {})) {
+      if (field?.attributes?.primary_key === true && typeof field.field_type === 'string') {
+        const attributes: Record<string, unknown> = { primary_key: true };
+        if (typeof field.attributes.default_value === 'string') {
+          attributes.default_value = field.attributes.default_value;
+        }
+        return { field_type: field.field_type, attributes };
+      }
+    }
+  }
+  return { field_type: 'Int', attributes: { primary_key: true, default_value: 'autoincrement()' } };
+}
+
+function addIndex(doc: Document, source: string, model: string, field: string): SourceEdit[] {
+  if (!doc.hasIn(['models', model, 'fields', field])) {
+    throw new Error(`Field "${field}" not found on ${model}`);
+  }
+
+  // idx_order_customer for Order.customerId, as in the examples; the full field name if that's taken,
+  // then numbered
+  const taken = new Set<string>();
+  const indexes = doc.getIn(['models', model, 'indexes'], true);
+  if (isSeq(indexes)) {
+    indexes.items.forEach(item => isMap(item) && taken.add(String(item.get('index_name'))));
+  }
+  const shortName = `idx_${toSnakeCase(model)}_${toSnakeCase(field.replace(/_?id$/i, '') || field)}`;
+  const fullName = `idx_${toSnakeCase(model)}_${toSnakeCase(field)}`;
+  let indexName = taken.has(shortName) ? fullName : shortName;
+  for (let suffix = 2; taken.has(indexName); suffix++) {
+    indexName = `${fullName}_${suffix}`;
+  }
+  const columns = doc.createNode([field]);
+  columns.flow = true;
+  const index = { index_name: indexName, columns };
+  return [addSeqItemEdit(doc, source, ['models', model, 'indexes'], index)];
+}
+
+/**
+ * Replace a scalar in place, keeping its quoting style.
+ * Missing keys are added to their parent mapping instead.
+ */
+function setScalarEdit(doc: Document, source: string, path: YamlPathSegment[], value: string | number | boolean): SourceEdit {
+  const node = doc.getIn(path, true);
+  if (isScalar(node) && node.range) {
+    return { start: node.range[0], end: node.range[1], text: formatScalar(value, node) };
+  }
+  if (node === undefined) {
+    return addMapEntryEdit(doc, source, path.slice(0, -1), path[path.length - 1], value);
+  }
+  throw new Error(`Expected a scalar value at ${path.join('.')}`);
+}
+
+/**
+ * Append a key to a block mapping (or put it first), matching the indentation of its existing entries.
+ * Flow-style or empty mappings fall back to re-serializing the document,
+ * which the yaml Document API does without dropping comments.
+ */
+function addMapEntryEdit(
+  doc: Document,
+  source: string,
+  mapPath: YamlPathSegment[],
+  key: YamlPathSegment,
+  value: unknown,
+  atStart = false
+): SourceEdit {
+  const map = mapPath.length > 0 ? doc.getIn(mapPath, true) : doc.contents;
+  if (!isMap(map) || map.flow || map.items.length === 0) {
+    doc.setIn([...mapPath, key], value);
+    return { start: 0, end: source.length, text: doc.toString() };
+  }
+
+  const firstKey = map.items[0].key as YamlNode;
+  const last = map.items[map.items.length - 1];
+  const lastNode = (last.value ?? last.key) as YamlNode;
+  if (!firstKey.range || !lastNode.range) {
+    throw new Error(`Cannot locate ${mapPath.join('.')} in the source`);
+  }
+
+  const padding = ' '.repeat(firstKey.range[0] - source.lastIndexOf('\n', firstKey.range[0] - 1) - 1);
+  const entry = stringify({ [key]: value }, { indent: INDENT, lineWidth: 0, flowCollectionPadding: false })
+    .trimEnd()
+    .split('\n')
+    .map(line => padding + line)
+    .join('\n');
+
+  // Keep blank-line separated mappings (like ERD fields) visually consistent
+  const separator = map.items.length > 1 && hasBlankLineBetween(source, map.items[0].key as YamlNode, map.items[1].key as YamlNode)
+    ? '\n\n'
+    : '\n';
+
+  if (atStart) {
+    const lineStart = firstKey.range[0] - padding.length;
+    return { start: lineStart, end: lineStart, text: entry + separator };
+  }
+
+  // Insert at the end of the last entry's final line (block scalars already include their newline)
+  const insertAt = endOfLine(source, lastNode.range[1]);
+  return { start: insertAt, end: insertAt, text: separator + entry };
+}
+
+/**
+ * Append an item to a block sequence, creating the sequence when the key is missing
+ */
+function addSeqItemEdit(doc: Document, source: string, seqPath: YamlPathSegment[], value: unknown): SourceEdit {
+  const seq = doc.getIn(seqPath, true);
+  if (seq === undefined) {
+    return addMapEntryEdit(doc, source, seqPath.slice(0, -1), seqPath[seqPath.length - 1], [value]);
+  }
+  if (!isSeq(seq) || seq.flow || seq.items.length === 0) {
+    doc.addIn(seqPath, value);
+    return { start: 0, end: source.length, text: doc.toString() };
+  }
+
+  const first = seq.items[0] as YamlNode;
+  const last = seq.items[seq.items.length - 1] as YamlNode;
+  if (!first.range || !last.range) {
+    throw new Error(`Cannot locate ${seqPath.join('.')} in the source`);
+  }
+
+  const dash = source.lastIndexOf('-', first.range[0] - 1);
+  const padding = ' '.repeat(dash - source.lastIndexOf('\n', dash - 1) - 1);
+  const item = stringify([value], { indent: INDENT, lineWidth: 0, flowCollectionPadding: false })
+    .trimEnd()
+    .split('\n')
+    .map(line => padding + line)
+    .join('\n');
+
+  const insertAt = endOfLine(source, last.range[1]);
+  return { start: insertAt, end: insertAt, text: '\n' + item };
+}
+
+// End of the line a node ends on; block values end after their final newline already
+function endOfLine(source: string, offset: number): number {
+  const lineEnd = source[offset - 1] === '\n' ? offset - 1 : source.indexOf('\n', offset);
+  return lineEnd === -1 ? source.length : lineEnd;
+}
+
+function hasBlankLineBetween(source: string, first: YamlNode, second: YamlNode): boolean {
+  if (!first.range || !second.range) {
+    return false;
+  }
+  return /\n[ \t]*\n/.test(source.slice(first.range[0], second.range[0]));
+}
+
+function formatScalar(value: string | number | boolean, original: Scalar): string {
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+
+  switch (original.type) {
+    case Scalar.QUOTE_DOUBLE:
+      return JSON.stringify(value);
+    case Scalar.QUOTE_SINGLE:
+      return `'${value.replace(/'/g, "''")}'`;
+    default: {
+      // Let the library decide whether a plain scalar needs quoting (e.g. "yes", "123")
+      const plain = stringify(value, { lineWidth: 0 }).trimEnd();
+      return plain.includes('\n') ? JSON.stringify(value) : plain;
+    }
+  }
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
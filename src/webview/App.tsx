@@ -16,16 +16,25 @@ import ReactFlow, {
   applyEdgeChanges,
   MarkerType,
   ConnectionMode,
+  ReactFlowInstance,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import { parsePrismaSchema, convertPrismaToFlowChart, PrismaSchema } from './prismaParser';
+import { parsePrismaSchemaFiles, convertPrismaToFlowChart, PrismaSchema, PrismaSchemaFile } from './prismaParser';
+import { parseSqlSchema } from './parsers/sqlParser';
+import { parseDbmlSchema } from './parsers/dbmlParser';
 import { parseYamlSchema, parseYamlDiagram } from './yamlParser';
 import { prismaToYaml } from './yamlTransformer';
+import { yamlToSql, SqlDialect } from './sqlGenerator';
+import { yamlToDbml } from './dbmlGenerator';
+import { yamlToMermaid } from './mermaidGenerator';
 import PrismaModelNode from './components/PrismaModelNode';
 import PrismaEnumNode from './components/PrismaEnumNode';
 import { StartNode, EndNode, ProcessNode, DecisionNode, NoteNode } from './components/FlowNodes';
 import SequenceDiagramD3 from './components/SequenceDiagramD3';
-import { layoutFlowDiagram } from './elkLayout';
+import { layoutFlowDiagram, placeNewNodes } from './elkLayout';
+import { serializeFlowDiagram, serializeSequenceDiagram, rasterizeSvg } from './exportDiagram';
+import { toDot } from './dotGenerator';
+import { SourceRange } from './types/diagrams';
 
 // Declare the vscode API
 declare global {
@@ -33,6 +42,9 @@ declare global {
     vscodeInitialData?: {
       type: string;
       prismaSchema?: string | null;
+      prismaFiles?: PrismaSchemaFile[] | null;
+      sqlSchema?: string | null;
+      dbmlSchema?: string | null;
       yamlSchema?: string | null;
       filePath?: string;
     };
@@ -42,6 +54,16 @@ declare global {
 
 const vscode = window.vscode;
 
+// Names of the schema languages an ERD can be opened from
+const SCHEMA_TYPE_LABELS = { prisma: 'Prisma', sql: 'SQL', dbml: 'DBML', yaml: 'YAML' };
+
+// Formats the extension asks the webview to generate from the ERD it shows
+const GENERATED_FORMATS = {
+  sql: { name: 'SQL', generate: (yaml: string, dialect: SqlDialect) => yamlToSql(yaml, dialect) },
+  dbml: { name: 'DBML', generate: (yaml: string) => yamlToDbml(yaml) },
+  mermaid: { name: 'Mermaid', generate: (yaml: string) => yamlToMermaid(yaml) },
+};
+
 const initialNodes: Node[] = [
   {
     id: '1',
@@ -78,7 +100,7 @@ const App: React.FC = () => {
   const [nodes, setNodes] = useState<Node[]>(initialNodes);
   const [edges, setEdges] = useState<Edge[]>(initialEdges);
   const [isPrisma, setIsPrisma] = useState(false);
-  const [schemaType, setSchemaType] = useState<'prisma' | 'yaml' | null>(null);
+  const [schemaType, setSchemaType] = useState<'prisma' | 'sql' | 'dbml' | 'yaml' | null>(null);
   const [diagramKind, setDiagramKind] = useState<'erd' | 'flow' | 'sequence' | null>(null);
   const [schemaName, setSchemaName] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
@@ -90,6 +112,13 @@ const App: React.FC = () => {
   const [layoutSaveMessage, setLayoutSaveMessage] = useState<string>('');
   const currentSchemaRef = useRef<PrismaSchema | null>(null);
 
+  // Positions of nodes the user dragged, preserved across live source updates
+  const manualPositionsRef = useRef(new Map<string, { x: number; y: number }>());
+
+  // Used by export to read the rendered diagram outside of React state
+  const containerRef = useRef<HTMLDivElement>(null);
+  const reactFlowInstanceRef = useRef<ReactFlowInstance | null>(null);
+
   // Track selected field for highlighting (ERD)
   const [selectedField, setSelectedField] = useState<{ modelName: string; fieldName: string } | null>(null);
 
@@ -271,6 +300,13 @@ const App: React.FC = () => {
     return highlighted;
   }, [selectedFlowNode, selectedEdge, edges]);
 
+  // Ask the extension to select an element's declaration in its source file
+  const revealSource = useCallback((range?: SourceRange, filePath?: string) => {
+    if (range) {
+      vscode?.postMessage({ command: 'revealSource', range, filePath });
+    }
+  }, []);
+
   // Register custom node types with props
   const nodeTypes: NodeTypes = useMemo(() => ({
     prismaModel: (props) => (
@@ -286,6 +322,7 @@ const App: React.FC = () => {
           setSelectedModel(modelName);
           setSelectedField(null); // Clear field selection when model is clicked
         }}
+        onFieldDoubleClick={(field) => revealSource(field.sourceRange, props.data.sourceFile)}
         highlightedModels={highlightedModels}
       />
     ),
@@ -363,7 +400,7 @@ const App: React.FC = () => {
     ),
     // Sequence diagram node
     sequenceDiagram: SequenceDiagramD3,
-  }), [selectedField, selectedModel, highlightedModels, selectedFlowNode, highlightedFlowNodes, selectedEdge]);
+  }), [selectedField, selectedModel, highlightedModels, selectedFlowNode, highlightedFlowNodes, selectedEdge, revealSource]);
 
   // Register custom edge types (sequence diagrams don't use edges)
   const edgeTypes: EdgeTypes = useMemo(() => ({}), []);
@@ -405,91 +442,148 @@ const App: React.FC = () => {
     });
   }, [edges, highlightedEdges]);
 
-  // Load schema from initial data (Prisma or YAML)
-  useEffect(() => {
-    const initialData = window.vscodeInitialData;
-    if (!initialData) return;
+  // Apply preserved positions (manually dragged nodes) on top of freshly laid-out nodes
+  const applyManualPositions = useCallback((layoutedNodes: Node[]): Node[] => {
+    const manualPositions = manualPositionsRef.current;
+    if (manualPositions.size === 0) return layoutedNodes;
+
+    return layoutedNodes.map((node) => {
+      const position = manualPositions.get(node.id);
+      return position ? { ...node, position } : node;
+    });
+  }, []);
+
+  // Show converted nodes/edges; on live updates keep moved nodes and drop stale selections
+  const showDiagram = useCallback((newNodes: Node[], newEdges: Edge[], isUpdate: boolean) => {
+    if (!isUpdate) {
+      setNodes(newNodes);
+      setEdges(newEdges);
+      return;
+    }
+
+    setNodes(applyManualPositions(newNodes));
+    setEdges(newEdges);
+
+    const nodeIds = new Set(newNodes.map((n) => n.id));
+    const edgeIds = new Set(newEdges.map((e) => e.id));
+    setSelectedModel((prev) => (prev && nodeIds.has(prev) ? prev : null));
+    setSelectedField((prev) => (prev && nodeIds.has(prev.modelName) ? prev : null));
+    setSelectedFlowNode((prev) => (prev && nodeIds.has(prev) ? prev : null));
+    setSelectedEdge((prev) => (prev && edgeIds.has(prev) ? prev : null));
+  }, [applyManualPositions]);
+
+  // Parse and render a Prisma or YAML source. Live updates skip the loading overlay
+  // and keep the previous diagram if the source is temporarily invalid.
+  const loadSource = useCallback((source: {
+    prismaSchema?: string | null;
+    prismaFiles?: PrismaSchemaFile[] | null;
+    sqlSchema?: string | null;
+    dbmlSchema?: string | null;
+    yamlSchema?: string | null;
+    filePath?: string;
+  }, isUpdate: boolean) => {
+    // Lay out ERD nodes with ELK, then ask the extension for saved positions to restore
+    const showErd = (schema: PrismaSchema) => {
+      convertPrismaToFlowChart(schema).catch((error) => {
+        console.error('Error applying ELK layout:', error);
+        // Fallback to sync layout
+        const { convertPrismaToFlowChartSync } = require('./prismaParser');
+        return convertPrismaToFlowChartSync(schema) as { nodes: Node[]; edges: Edge[] };
+      }).then(({ nodes: prismaNodes, edges: prismaEdges }) => {
+        showDiagram(prismaNodes, prismaEdges, isUpdate);
+        setIsPrisma(true);
+        vscode?.postMessage({
+          command: 'getSavedLayout',
+          filePath: source.filePath || '',
+        });
+      });
+    };
 
     // Handle Prisma schema
-    if (initialData.prismaSchema) {
+    if (source.prismaSchema || source.prismaFiles) {
       try {
-        setIsLoading(true);
-        const schema = parsePrismaSchema(initialData.prismaSchema);
+        if (!isUpdate) setIsLoading(true);
+        // A schema folder arrives as several files; a single file is tagged with its own path
+        const schema = parsePrismaSchemaFiles(
+          source.prismaFiles || [{ filePath: source.filePath || '', content: source.prismaSchema || '' }]
+        );
         currentSchemaRef.current = schema;
         setSchemaType('prisma');
-        setSchemaName('Prisma Schema');
-        convertPrismaToFlowChart(schema).then(({ nodes: prismaNodes, edges: prismaEdges }) => {
-          setNodes(prismaNodes);
-          setEdges(prismaEdges);
-          setIsPrisma(true);
-          setIsLoading(false);
-        }).catch((error) => {
-          console.error('Error applying ELK layout:', error);
-          // Fallback to sync layout
-          const { convertPrismaToFlowChartSync } = require('./prismaParser');
-          const { nodes: prismaNodes, edges: prismaEdges } = convertPrismaToFlowChartSync(schema);
-          setNodes(prismaNodes);
-          setEdges(prismaEdges);
-          setIsPrisma(true);
-          setIsLoading(false);
-        });
+        setDiagramKind('erd');
+        setSchemaName(source.prismaFiles ? `Prisma Schema (${source.prismaFiles.length} files)` : 'Prisma Schema');
+        showErd(schema);
       } catch (error) {
         console.error('Error parsing Prisma schema:', error);
       }
     }
 
+    // Handle SQL DDL scripts
+    if (source.sqlSchema) {
+      try {
+        if (!isUpdate) setIsLoading(true);
+        const schema = parseSqlSchema(source.sqlSchema);
+        currentSchemaRef.current = schema;
+        setSchemaType('sql');
+        setDiagramKind('erd');
+        setSchemaName('SQL Schema');
+        showErd(schema);
+      } catch (error) {
+        console.error('Error parsing SQL schema:', error);
+      }
+    }
+
+    // Handle DBML (dbdiagram.io) schemas
+    if (source.dbmlSchema) {
+      try {
+        if (!isUpdate) setIsLoading(true);
+        const schema = parseDbmlSchema(source.dbmlSchema);
+        currentSchemaRef.current = schema;
+        setSchemaType('dbml');
+        setDiagramKind('erd');
+        setSchemaName(schema.project?.name || 'DBML Schema');
+        showErd(schema);
+      } catch (error) {
+        console.error('Error parsing DBML schema:', error);
+      }
+    }
+
     // Handle YAML schema
-    if (initialData.yamlSchema) {
+    if (source.yamlSchema) {
       try {
         // Use parseYamlDiagram to get the raw parsed data with diagram_type
-        const parsed = parseYamlDiagram(initialData.yamlSchema);
+        const parsed = parseYamlDiagram(source.yamlSchema);
         const diagramType = parsed.diagram_type || 'erd';
 
         console.log('Diagram type:', diagramType);
 
         if (diagramType === 'erd') {
           // Handle ERD diagrams (original YAML/Prisma format)
-          setIsLoading(true);
-          const schema = parseYamlSchema(initialData.yamlSchema);
+          if (!isUpdate) setIsLoading(true);
+          const schema = parseYamlSchema(source.yamlSchema);
           currentSchemaRef.current = schema;
           setSchemaType('yaml');
           setDiagramKind('erd');
           setSchemaName('YAML Schema (ERD)');
-          convertPrismaToFlowChart(schema).then(({ nodes: prismaNodes, edges: prismaEdges }) => {
-            setNodes(prismaNodes);
-            setEdges(prismaEdges);
-            setIsPrisma(true);
-            setIsLoading(false);
-          }).catch((error) => {
-            console.error('Error applying ELK layout:', error);
-            const { convertPrismaToFlowChartSync } = require('./prismaParser');
-            const { nodes: prismaNodes, edges: prismaEdges } = convertPrismaToFlowChartSync(schema);
-            setNodes(prismaNodes);
-            setEdges(prismaEdges);
-            setIsPrisma(true);
-            setIsLoading(false);
-          });
+          showErd(schema);
         } else if (diagramType === 'flow') {
           // Handle flow diagrams
           const { parseFlowYaml, convertFlowToReactFlow } = require('./parsers/flowParser');
-          const flowSchema = parseFlowYaml(initialData.yamlSchema);
+          const flowSchema = parseFlowYaml(source.yamlSchema);
 
           setSchemaType('yaml');
           setDiagramKind('flow');
           setSchemaName(`Flow: ${flowSchema.metadata.name}`);
-          setIsLoading(true);
-
-          // Request saved layout from extension before loading
-          vscode?.postMessage({
-            command: 'getSavedLayout',
-            filePath: initialData.filePath || '',
-          });
+          if (!isUpdate) setIsLoading(true);
 
           convertFlowToReactFlow(flowSchema).then(({ nodes: flowNodes, edges: flowEdges }: { nodes: Node[]; edges: Edge[] }) => {
-            setNodes(flowNodes);
-            setEdges(flowEdges);
+            showDiagram(flowNodes, flowEdges, isUpdate);
             setIsPrisma(false);
-            setIsLoading(false);
+
+            // Request saved layout from extension once the nodes exist
+            vscode?.postMessage({
+              command: 'getSavedLayout',
+              filePath: source.filePath || '',
+            });
           }).catch((error: unknown) => {
             console.error('Error applying flow layout:', error);
             setIsLoading(false);
@@ -497,15 +591,14 @@ const App: React.FC = () => {
         } else if (diagramType === 'sequence') {
           // Handle sequence diagrams - use React Flow
           const { parseSequenceYaml, convertSequenceToReactFlow } = require('./parsers/sequenceParser');
-          const sequenceSchema = parseSequenceYaml(initialData.yamlSchema);
+          const sequenceSchema = parseSequenceYaml(source.yamlSchema);
 
           setSchemaType('yaml');
           setDiagramKind('sequence');
           setSchemaName(`Sequence: ${sequenceSchema.metadata.name}`);
 
           convertSequenceToReactFlow(sequenceSchema).then(({ nodes: sequenceNodes, edges: sequenceEdges }: { nodes: Node[]; edges: Edge[] }) => {
-            setNodes(sequenceNodes);
-            setEdges(sequenceEdges);
+            showDiagram(sequenceNodes, sequenceEdges, isUpdate);
             setIsPrisma(false);
           }).catch((error: unknown) => {
             console.error('Error applying sequence layout:', error);
@@ -515,6 +608,62 @@ const App: React.FC = () => {
         console.error('Error parsing YAML schema:', error);
       }
     }
+  }, [showDiagram]);
+
+  // Load schema from initial data (Prisma or YAML)
+  useEffect(() => {
+    const initialData = window.vscodeInitialData;
+    if (!initialData) return;
+
+    loadSource(initialData, false);
+  }, [loadSource]);
+
+  // Serialize the rendered diagram and hand it back to the extension to write
+  const exportDiagram = useCallback(async (format: 'svg' | 'png' | 'dot', scale: number, filePath: string) => {
+    try {
+      if (format === 'dot') {
+        const instance = reactFlowInstanceRef.current;
+        const data = toDot(instance?.getNodes() || [], instance?.getEdges() || [], { name: schemaName, direction: layoutDirection });
+        vscode?.postMessage({ command: 'exportComplete', format, filePath, data });
+        return;
+      }
+
+      const sequenceSvg = containerRef.current?.querySelector<SVGSVGElement>('.sequence-diagram-svg');
+      const diagram = sequenceSvg
+        ? serializeSequenceDiagram(sequenceSvg)
+        : serializeFlowDiagram(containerRef.current!, reactFlowInstanceRef.current?.getNodes() || []);
+
+      const data = format === 'png' ? await rasterizeSvg(diagram, scale) : diagram.svg;
+      vscode?.postMessage({ command: 'exportComplete', format, filePath, data });
+    } catch (error) {
+      console.error('❌ Export failed:', error);
+      vscode?.postMessage({ command: 'exportError', error: String(error) });
+    }
+  }, [schemaName, layoutDirection]);
+
+  // Select and pan to the element under the cursor in the source editor
+  const selectElement = useCallback((element: { kind: 'erdModel' | 'flowNode'; id: string; field?: string }) => {
+    const instance = reactFlowInstanceRef.current;
+    const node = instance?.getNode(element.id);
+    if (!instance || !node) return;
+
+    if (element.kind === 'flowNode') {
+      setSelectedFlowNode(element.id);
+      setSelectedEdge(null);
+    } else if (element.field) {
+      setSelectedField({ modelName: element.id, fieldName: element.field });
+      setSelectedModel(null);
+    } else {
+      setSelectedModel(element.id);
+      setSelectedField(null);
+    }
+
+    const position = node.positionAbsolute ?? node.position;
+    instance.setCenter(
+      position.x + (node.width ?? 0) / 2,
+      position.y + (node.height ?? 0) / 2,
+      { zoom: instance.getZoom(), duration: 300 }
+    );
   }, []);
 
   // Handle messages from extension
@@ -526,13 +675,13 @@ const App: React.FC = () => {
       if (message.command === 'savedLayoutLoaded') {
         // Apply saved layout to nodes and edges
         console.log('Applying saved layout:', message.layout);
-        const { nodes: savedNodes, edges: savedEdges, direction } = message.layout;
+        const { nodes: savedNodes = [], edges: savedEdges = [], direction, kind } = message.layout;
 
         // Apply saved positions to nodes
         setNodes((currentNodes) => {
-          return currentNodes.map((node) => {
+          const positionedNodes = currentNodes.map((node) => {
             const savedNode = savedNodes.find((n: any) => n.id === node.id);
-            if (savedNode) {
+            if (savedNode && !manualPositionsRef.current.has(node.id)) {
               return {
                 ...node,
                 position: savedNode.position,
@@ -540,6 +689,15 @@ const App: React.FC = () => {
             }
             return node;
           });
+
+          if (kind !== 'erd') return positionedNodes;
+
+          // Models added since the layout was saved go next to the pinned ones
+          const pinnedIds = new Set<string>([
+            ...savedNodes.map((n: any) => n.id),
+            ...manualPositionsRef.current.keys(),
+          ]);
+          return placeNewNodes(positionedNodes, pinnedIds);
         });
 
         // Apply saved edge connection points and routing
@@ -569,6 +727,20 @@ const App: React.FC = () => {
 
         console.log('✅ Saved layout applied');
         setIsLoading(false);
+      } else if (message.command === 'updateSource') {
+        // Source file changed - re-parse and re-render in place
+        loadSource({
+          prismaSchema: message.type === 'prisma' ? message.content : null,
+          prismaFiles: message.files,
+          sqlSchema: message.type === 'sql' ? message.content : null,
+          dbmlSchema: message.type === 'dbml' ? message.content : null,
+          yamlSchema: message.type === 'yaml' ? message.content : null,
+          filePath: window.vscodeInitialData?.filePath,
+        }, true);
+      } else if (message.command === 'selectElement') {
+        selectElement(message.element);
+      } else if (message.command === 'exportDiagram') {
+        exportDiagram(message.format, message.scale, message.filePath);
       } else if (message.command === 'noSavedLayout') {
         console.log('No saved layout found, using default');
         setIsLoading(false);
@@ -580,7 +752,7 @@ const App: React.FC = () => {
         try {
           const yaml = prismaToYaml(currentSchemaRef.current, {
             name: schemaName,
-            description: 'Generated from Prisma schema',
+            description: `Generated from ${SCHEMA_TYPE_LABELS[schemaType ?? 'prisma']} schema`,
           });
           setSaveMessage('Saving...');
           vscode?.postMessage({
@@ -596,6 +768,29 @@ const App: React.FC = () => {
           // Clear error message after 3 seconds
           setTimeout(() => setSaveMessage(''), 3000);
         }
+      } else if (message.command === 'generateSchema') {
+        const format = GENERATED_FORMATS[message.format as keyof typeof GENERATED_FORMATS];
+        if (!currentSchemaRef.current) {
+          vscode?.postMessage({ command: 'exportError', error: `Only ERD diagrams can be exported as ${format.name}` });
+          return;
+        }
+        setIsSaving(true);
+        setSaveMessage(`Generating ${format.name}...`);
+
+        // The generators read the same ERD shape as a saved .cryml
+        try {
+          const yaml = prismaToYaml(currentSchemaRef.current, { name: schemaName }, { inferredGroups: false });
+          vscode?.postMessage({
+            command: 'saveGenerated',
+            data: format.generate(yaml, message.dialect),
+            filePath: message.filePath,
+          });
+        } catch (error) {
+          console.error(`Error generating ${format.name}:`, error);
+          setSaveMessage(`Error: ${error}`);
+          setIsSaving(false);
+          setTimeout(() => setSaveMessage(''), 3000);
+        }
       }
 
       if (message.command === 'saveCancelled') {
@@ -622,7 +817,7 @@ const App: React.FC = () => {
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [schemaName]);
+  }, [schemaName, schemaType, loadSource, exportDiagram, selectElement]);
 
   const handleSaveAsYaml = () => {
     if (isSaving) return;
@@ -645,6 +840,8 @@ const App: React.FC = () => {
 
     try {
       const result = await layoutFlowDiagram(nodes, edges, layoutDirection);
+      // Auto layout replaces manual positioning
+      manualPositionsRef.current.clear();
       setNodes(result.nodes);
       setEdges(result.edges);
       console.log('✅ Auto-layout complete!');
@@ -663,16 +860,22 @@ const App: React.FC = () => {
 
     try {
       // Create layout data with node positions, edge connection points, and edge routing
+      // ERD edges are derived from relations, so only model positions are stored
+      const isErd = diagramKind === 'erd';
       const layoutData = {
         version: '1.0',
+        kind: diagramKind,
         timestamp: new Date().toISOString(),
         direction: layoutDirection,
-        nodes: nodes.map(node => ({
+        nodes: nodes.map(node => (isErd ? {
+          id: node.id,
+          position: node.position,
+        } : {
           id: node.id,
           position: node.position,
           data: node.data,
         })),
-        edges: edges.map(edge => ({
+        edges: isErd ? [] : edges.map(edge => ({
           id: edge.id,
           source: edge.source,
           target: edge.target,
@@ -693,8 +896,8 @@ const App: React.FC = () => {
         data: layoutData,
       });
 
-      console.log('💾 Layout saved to YAML file:', layoutData);
-      setLayoutSaveMessage('✓ Layout saved to file!');
+      console.log('💾 Layout saved:', layoutData);
+      setLayoutSaveMessage('✓ Layout saved!');
 
       // Clear message after 3 seconds
       setTimeout(() => setLayoutSaveMessage(''), 3000);
@@ -709,6 +912,11 @@ const App: React.FC = () => {
 
   const onNodesChange = useCallback(
     (changes: NodeChange[]) => {
+      for (const change of changes) {
+        if (change.type === 'position' && change.dragging && change.position) {
+          manualPositionsRef.current.set(change.id, change.position);
+        }
+      }
       setNodes((nds) => applyNodeChanges(changes, nds));
     },
     [setNodes]
@@ -755,15 +963,66 @@ const App: React.FC = () => {
         newEdges[index] = updatedEdge;
         return newEdges;
       });
+
+      // Flow edges map to `edges[index]` in the source; write the new endpoints back
+      const edgeIndex = /^edge-(\d+)$/.exec(oldEdge.id);
+      const source = newConnection.source || oldEdge.source;
+      const target = newConnection.target || oldEdge.target;
+      if (
+        schemaType === 'yaml' &&
+        diagramKind === 'flow' &&
+        edgeIndex &&
+        (source !== oldEdge.source || target !== oldEdge.target)
+      ) {
+        vscode?.postMessage({
+          command: 'editDiagram',
+          edit: { kind: 'retargetFlowEdge', edgeIndex: Number(edgeIndex[1]), from: source, to: target },
+        });
+      }
+    },
+    [setEdges, schemaType, diagramKind]
+  );
+
+  // Double-click opens the element's definition in the source file
+  const onNodeDoubleClick = useCallback(
+    (_event: React.MouseEvent, node: Node) => revealSource(node.data?.sourceRange, node.data?.sourceFile),
+    [revealSource]
+  );
+
+  // Right-click offers source edits (rename, add field) for YAML-backed diagrams
+  const onNodeContextMenu = useCallback(
+    (event: React.MouseEvent, node: Node) => {
+      if (schemaType !== 'yaml' && schemaType !== 'prisma') return;
+
+      let element: { kind: string; id: string; label?: string; sourceFile?: string; sourceRange?: SourceRange } | null = null;
+      if (diagramKind === 'flow') {
+        element = { kind: 'flowNode', id: node.id, label: node.data?.label, sourceRange: node.data?.sourceRange };
+      } else if (diagramKind === 'erd' && node.type === 'prismaModel') {
+        element = { kind: 'erdModel', id: node.id, sourceFile: node.data?.sourceFile, sourceRange: node.data?.sourceRange };
+      }
+
+      if (element) {
+        event.preventDefault();
+        vscode?.postMessage({ command: 'elementAction', element });
+      }
     },
-    [setEdges]
+    [schemaType, diagramKind]
   );
 
   return (
-    <div className="w-screen h-screen bg-[#1e1e1e]">
+    <div ref={containerRef} className="w-screen h-screen bg-[#1e1e1e]">
       {(isPrisma || schemaType === 'yaml') && (
         <div className="absolute top-4 left-4 z-10 bg-[#2d2d2d] px-4 py-3 rounded-lg shadow-sm border border-gray-700">
-          <h2 className="text-sm font-bold text-gray-100 mb-1">🔷 {schemaName || 'Schema Visualization'}</h2>
+          <div className="flex items-center gap-2 mb-1">
+            <h2 className="text-sm font-bold text-gray-100">🔷 {schemaName || 'Schema Visualization'}</h2>
+            <button
+              onClick={() => vscode?.postMessage({ command: 'requestExport' })}
+              className="ml-auto px-2 py-0.5 text-white text-xs rounded bg-gray-600 hover:bg-gray-500"
+              title="Export the diagram as SVG or PNG"
+            >
+              🖼️ Export...
+            </button>
+          </div>
           {diagramKind === 'sequence' ? (
             <p className="text-xs text-gray-400">
               {Object.keys(nodes[0]?.data?.participants || {}).length} participants, {nodes[0]?.data?.messages?.length || 0} messages
@@ -787,12 +1046,29 @@ const App: React.FC = () => {
                   <span className="w-2 h-2 bg-green-400 rounded"></span>
                   <span className="text-gray-300">Unique</span>
                 </span>
-                {schemaType === 'prisma' && (
+                <button
+                  onClick={handleSaveLayout}
+                  disabled={isSavingLayout}
+                  className={`ml-auto px-2 py-1 text-white text-xs rounded ${
+                    isSavingLayout
+                      ? 'bg-gray-600 cursor-not-allowed'
+                      : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                  title="Save model positions so they are restored next time"
+                >
+                  💾 Save Layout
+                </button>
+                {layoutSaveMessage && (
+                  <span className={`text-xs ${layoutSaveMessage.startsWith('✓') ? 'text-green-400' : 'text-red-400'}`}>
+                    {layoutSaveMessage}
+                  </span>
+                )}
+                {(schemaType === 'prisma' || schemaType === 'sql' || schemaType === 'dbml') && (
                   <>
                     <button
                       onClick={handleSaveAsYaml}
                       disabled={isSaving}
-                      className={`ml-auto px-2 py-1 text-white text-xs rounded ${
+                      className={`px-2 py-1 text-white text-xs rounded ${
                         isSaving
                           ? 'bg-gray-600 cursor-not-allowed'
                           : 'bg-blue-600 hover:bg-blue-700'
@@ -898,6 +1174,9 @@ const App: React.FC = () => {
         onConnect={onConnect}
         onEdgeUpdateStart={onEdgeUpdateStart}
         onEdgeUpdate={onEdgeUpdate}
+        onNodeDoubleClick={onNodeDoubleClick}
+        onNodeContextMenu={onNodeContextMenu}
+        onInit={(instance) => { reactFlowInstanceRef.current = instance; }}
         connectionMode={ConnectionMode.Loose}
         onEdgeClick={(event, edge) => {
           setSelectedEdge(edge.id === selectedEdge ? null : edge.id);
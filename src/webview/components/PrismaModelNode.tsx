@@ -1,4 +1,4 @@
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import { Handle, Position, NodeProps } from "reactflow";
 
 export interface PrismaField {
@@ -13,20 +13,51 @@ export interface PrismaField {
   relationToModel?: string;
   referencesField?: string;  // Which field this FK references (e.g., "id")
   isEnum: boolean;
+  sourceRange?: { start: number; end: number };
+}
+
+export interface ModelConstraint {
+  kind: 'primaryKey' | 'unique' | 'index';
+  name?: string;
+  columns: string[];
+  unique: boolean;
 }
 
 export interface PrismaModelNodeData {
   label: string;
+  kind?: 'model' | 'view' | 'type';
   fields: PrismaField[];
+  constraints?: ModelConstraint[];
+  sourceFile?: string;
   color?: 'yellow' | 'red' | 'teal';
   group?: string;
 }
 
+const KIND_LABELS = {
+  model: 'Model',
+  view: 'View',
+  type: 'Type',
+};
+
+const getConstraintBadge = (constraint: ModelConstraint) => {
+  switch (constraint.kind) {
+    case 'primaryKey':
+      return { label: 'PK', className: 'text-yellow-400 bg-yellow-400/20' };
+    case 'unique':
+      return { label: 'UNIQUE', className: 'text-green-400 bg-green-400/20' };
+    default:
+      return constraint.unique
+        ? { label: 'UNIQUE INDEX', className: 'text-green-400 bg-green-400/20' }
+        : { label: 'INDEX', className: 'text-gray-300 bg-gray-400/20' };
+  }
+};
+
 interface PrismaModelNodeProps extends NodeProps<PrismaModelNodeData> {
   selectedField?: { modelName: string; fieldName: string } | null;
   onFieldClick?: (field: { modelName: string; fieldName: string } | null) => void;
   selectedModel?: string | null;
   onModelClick?: (modelName: string | null) => void;
+  onFieldDoubleClick?: (field: PrismaField) => void;
   highlightedModels?: Set<string>;
 }
 
@@ -37,6 +68,7 @@ const PrismaModelNode: React.FC<PrismaModelNodeProps> = ({
   onFieldClick,
   selectedModel,
   onModelClick,
+  onFieldDoubleClick,
   highlightedModels,
 }) => {
   // Color mapping for header bars
@@ -47,6 +79,8 @@ const PrismaModelNode: React.FC<PrismaModelNodeProps> = ({
   };
 
   const headerClass = colorClasses[data.color || 'yellow'];
+  const [showConstraints, setShowConstraints] = useState(false);
+  const constraints = data.constraints || [];
 
   // Calculate handle positions for each relation field
   const relationFields = useMemo(() => {
@@ -162,7 +196,7 @@ const PrismaModelNode: React.FC<PrismaModelNodeProps> = ({
         style={{ borderTopLeftRadius: '8px', borderTopRightRadius: '8px' }}
       >
         <div className="font-bold text-lg uppercase">{data.label}</div>
-        <div className="text-xs opacity-80">Model</div>
+        <div className="text-xs opacity-80">{KIND_LABELS[data.kind || 'model']}</div>
       </div>
 
       {/* Fields */}
@@ -176,6 +210,13 @@ const PrismaModelNode: React.FC<PrismaModelNodeProps> = ({
             <div
               key={field.name}
               onClick={() => handleFieldClick(field.name)}
+              onDoubleClick={(event) => {
+                // Reveal the field rather than the whole model
+                if (onFieldDoubleClick && field.sourceRange) {
+                  event.stopPropagation();
+                  onFieldDoubleClick(field);
+                }
+              }}
               className={`flex items-center justify-between px-4 py-2 border-b border-gray-700 last:border-b-0 relative min-w-0 cursor-pointer transition-all overflow-visible ${
                 index % 2 === 0 ? "bg-gray-900" : "bg-gray-800"
               }`}
@@ -270,6 +311,40 @@ const PrismaModelNode: React.FC<PrismaModelNodeProps> = ({
           </div>
             );
           })}
+
+        {/* Indexes & Constraints */}
+        {constraints.length > 0 && (
+          <div className="border-t border-gray-700 bg-gray-950">
+            <div
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowConstraints(!showConstraints);
+              }}
+              className="flex items-center gap-2 px-4 py-1.5 text-xs text-gray-400 hover:text-white cursor-pointer"
+            >
+              <span>{showConstraints ? '▾' : '▸'}</span>
+              <span>Indexes & Constraints ({constraints.length})</span>
+            </div>
+            {showConstraints && constraints.map((constraint, index) => {
+              const badge = getConstraintBadge(constraint);
+              return (
+                <div key={index} className="flex items-center gap-2 px-4 py-1 text-xs min-w-0">
+                  <span className={`font-bold px-1.5 py-0.5 rounded whitespace-nowrap ${badge.className}`}>
+                    {badge.label}
+                  </span>
+                  <span className="font-mono text-gray-300 truncate" title={constraint.columns.join(', ')}>
+                    ({constraint.columns.join(', ')})
+                  </span>
+                  {constraint.name && (
+                    <span className="text-gray-500 truncate ml-auto" title={constraint.name}>
+                      {constraint.name}
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     </div>
   );
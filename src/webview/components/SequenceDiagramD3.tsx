@@ -549,6 +549,21 @@ const SequenceDiagramD3: React.FC<NodeProps<SequenceDiagramData>> = ({ data }) =
         .on('click', function(event) {
           event.stopPropagation();
           setHighlighted({ elements: [{ type: 'message', id: message.id }] });
+        })
+        .on('dblclick', function(event) {
+          event.stopPropagation();
+          if (message.sourceRange) {
+            window.vscode?.postMessage({ command: 'revealSource', range: message.sourceRange });
+          }
+        })
+        .on('contextmenu', function(event) {
+          // Let the extension offer reordering actions for this message
+          event.preventDefault();
+          event.stopPropagation();
+          window.vscode?.postMessage({
+            command: 'elementAction',
+            element: { kind: 'sequenceMessage', id: message.id, label: message.label, sourceRange: message.sourceRange },
+          });
         });
 
       // Draw message line
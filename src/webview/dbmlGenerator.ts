@@ -0,0 +1,298 @@
+// ERD to DBML Generator
+// Converts a .cryml ERD (or a Prisma schema exported to one) to dbdiagram.io DBML
+
+import * as yaml from 'yaml';
+import { ERDDiagram, ERDModel, ERDField, ERDEnum } from './types/diagrams';
+import { SCALAR_TYPES } from './prismaGenerator';
+import { sqlTypeName } from './sqlGenerator';
+
+// Column types for fields without a db_type
+const DBML_TYPES: { [type: string]: string } = {
+  String: 'varchar',
+  Int: 'integer',
+  BigInt: 'bigint',
+  Float: 'float',
+  Decimal: 'decimal',
+  Boolean: 'boolean',
+  DateTime: 'timestamp',
+  Json: 'json',
+  Bytes: 'bytea',
+};
+
+const REFERENTIAL_ACTIONS: { [key: string]: string } = {
+  cascade: 'cascade',
+  restrict: 'restrict',
+  noaction: 'no action',
+  setnull: 'set null',
+  setdefault: 'set default',
+};
+
+interface GeneratorContext {
+  models: { [key: string]: ERDModel };
+  enums: { [key: string]: ERDEnum };
+}
+
+/**
+ * Generate DBML from an ERD .cryml document
+ */
+export function yamlToDbml(content: string): string {
+  const parsed = yaml.parse(content) as ERDDiagram;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Empty or invalid .cryml document');
+  }
+  if (parsed.diagram_type && parsed.diagram_type !== 'erd') {
+    throw new Error(`Only ERD diagrams can be converted to DBML (diagram_type is "${parsed.diagram_type}")`);
+  }
+
+  const context: GeneratorContext = {
+    models: parsed.models || {},
+    enums: parsed.enums || {},
+  };
+
+  // Views and composite types have no table to draw
+  const tables = Object.entries(context.models).filter(([, model]) => model.kind !== 'view' && model.kind !== 'type');
+  const skipped = Object.entries(context.models).filter(([, model]) => model.kind === 'view' || model.kind === 'type');
+
+  const header = skipped.map(([name, model]) => `// ${model.kind} ${name} is not exported (it has no table)`);
+
+  const refs = formatRefs(tables, context);
+  const sections = [
+    ...(parsed.metadata?.name ? [formatProject(parsed.metadata)] : []),
+    ...(header.length > 0 ? [header.join('\n')] : []),
+    ...Object.entries(context.enums).map(([name, enumType]) => formatEnum(name, enumType)),
+    ...tables.map(([name, model]) => formatTable(name, model, context)),
+    ...(refs.length > 0 ? [refs.join('\n')] : []),
+    ...formatTableGroups(tables),
+  ];
+  return sections.join('\n\n') + '\n';
+}
+
+// The diagram name and description become the Project and its note
+function formatProject(metadata: ERDDiagram['metadata']): string {
+  const note = metadata.description ? [`  Note: ${quoteString(String(metadata.description))}`] : [];
+  return [`Project ${quoteName(String(metadata.name))} {`, ...note, '}'].join('\n');
+}
+
+function formatEnum(name: string, enumType: ERDEnum): string {
+  // Values are either { value_name, description, map } entries or plain strings
+  const values = (enumType?.values || []).map((value: ERDEnum['values'][number] | string) => {
+    if (typeof value !== 'object') {
+      return `  ${quoteName(String(value))}`;
+    }
+    const note = value.description ? ` [note: ${quoteString(value.description)}]` : '';
+    return `  ${quoteName(value.map || value.value_name)}${note}`;
+  });
+  const note = enumType?.description ? [`  Note: ${quoteString(enumType.description)}`] : [];
+  return [`Enum ${quoteName(enumType?.map || name)} {`, ...values, ...note, '}'].join('\n');
+}
+
+function formatTable(name: string, model: ERDModel, context: GeneratorContext): string {
+  const fields = Object.entries(model.fields || {});
+  const primaryKey = fields.filter(([, field]) => field.attributes?.primary_key);
+  const columns = fields
+    .filter(([, field]) => !context.models[baseTypeOf(field.field_type)])
+    .map(([fieldName, field]) => formatColumn(columnName(field, fieldName), field, primaryKey.length === 1, context));
+
+  const toColumns = (names: string[]) => (names || []).map((fieldName) => columnName(model.fields[fieldName], fieldName));
+  const indexes = [
+    ...(primaryKey.length > 1 ? [`${formatColumnList(toColumns(primaryKey.map(([fieldName]) => fieldName)))} [pk]`] : []),
+    ...(model.unique_constraints || []).map((constraint) =>
+      `${formatColumnList(toColumns(constraint.columns))} [unique, name: ${quoteString(constraint.constraint_name)}]`
+    ),
+    ...(model.indexes || []).map((index) =>
+      `${formatColumnList(toColumns(index.columns))} [${index.unique ? 'unique, ' : ''}name: ${quoteString(index.index_name)}]`
+    ),
+  ];
+
+  const body = [
+    ...columns.map((column) => `  ${column}`),
+    ...(model.description ? ['', `  Note: ${quoteString(model.description)}`] : []),
+    ...(indexes.length > 0 ? ['', '  indexes {', ...indexes.map((index) => `    ${index}`), '  }'] : []),
+  ];
+  return [`Table ${tableName(name, model)} {`, ...body, '}'].join('\n');
+}
+
+function formatColumn(name: string, field: ERDField, hasSinglePrimaryKey: boolean, context: GeneratorContext): string {
+  const baseType = baseTypeOf(field.field_type);
+  const isList = String(field.field_type).trim().endsWith('[]') || !!field.attributes?.is_list;
+  const enumType = context.enums[baseType];
+  const scalarType = enumType ? baseType : SCALAR_TYPES[baseType.toLowerCase()] || baseType;
+
+  let type: string;
+  if (enumType) {
+    type = enumType.map || baseType;
+  } else if (/^Unsupported\(/.test(scalarType)) {
+    type = JSON.parse(scalarType.slice('Unsupported('.length, -1));
+  } else if (field.db_type) {
+    const match = String(field.db_type).trim().match(/^([A-Za-z][\w ]*?)\s*(\(.*\))?(\[\])?$/);
+    type = match
+      ? sqlTypeName(match[1]).toLowerCase() + (match[2] || '').replace(/\s+/g, '') + (match[3] || '')
+      : String(field.db_type).trim();
+  } else {
+    type = DBML_TYPES[scalarType] || scalarType.toLowerCase();
+  }
+  if (isList && !type.endsWith('[]')) {
+    type += '[]';
+  }
+
+  const settings: string[] = [];
+  const isId = !!field.attributes?.primary_key && hasSinglePrimaryKey;
+  const defaultValue = field.attributes?.default_value;
+  if (isId) {
+    settings.push('pk');
+  }
+  if (defaultValue === 'autoincrement()') {
+    settings.push('increment');
+  }
+  if (field.constraints?.not_null && !isId) {
+    settings.push('not null');
+  }
+  if (field.attributes?.unique && !isId) {
+    settings.push('unique');
+  }
+  if (defaultValue !== undefined && defaultValue !== null && defaultValue !== '' && defaultValue !== 'autoincrement()') {
+    settings.push(`default: ${formatDefault(String(defaultValue), scalarType, enumType)}`);
+  }
+  if (field.description) {
+    settings.push(`note: ${quoteString(field.description)}`);
+  }
+
+  const quotedType = /^\w+(\([\w, ]*\))?$/.test(type) ? type : JSON.stringify(type);
+  return `${quoteName(name)} ${quotedType}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`;
+}
+
+/**
+ * DBML default: 'text', a bare number or boolean, or a `function()` expression
+ */
+function formatDefault(value: string, scalarType: string, enumType: ERDEnum | undefined): string {
+  const generated = value.match(/^dbgenerated\((".*")\)$/);
+  if (generated) {
+    return `\`${JSON.parse(generated[1])}\``;
+  }
+  if (/^[\w.]+\(.*\)$/.test(value) || /^\[.*\]$/.test(value)) {
+    return `\`${value}\``;
+  }
+  if (enumType) {
+    const enumValue = enumType.values?.find((item) => typeof item === 'object' && item.value_name === value);
+    return quoteString(enumValue?.map || value);
+  }
+  if (scalarType === 'Boolean' && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase();
+  }
+  if (['Int', 'BigInt', 'Float', 'Decimal'].includes(scalarType) && !isNaN(Number(value))) {
+    return value;
+  }
+  return quoteString(value);
+}
+
+/**
+ * Ref statements for foreign keys, and <> for list fields pointing at each other (implicit many-to-many)
+ */
+function formatRefs(tables: [string, ERDModel][], context: GeneratorContext): string[] {
+  const refs: string[] = [];
+  const manyToMany = new Set<string>();
+
+  for (const [name, model] of tables) {
+    const fields = Object.entries(model.fields || {});
+    const primaryKey = fields.filter(([, field]) => field.attributes?.primary_key).map(([fieldName]) => fieldName);
+
+    for (const [fieldName, field] of fields) {
+      const foreignKey = field.attributes?.foreign_key;
+      const target = foreignKey && context.models[foreignKey.table];
+      const isRelationField = !!context.models[baseTypeOf(field.field_type)];
+
+      if (foreignKey && target && !field.attributes?.virtual) {
+        // Foreign keys sit on the scalar column (SQL imports) or on the relation field (Prisma exports)
+        const scalars = foreignKey.fields
+          || (isRelationField ? [`${fieldName}Id`, `${fieldName}_id`].filter((candidate) => model.fields[candidate]).slice(0, 1) : [fieldName]);
+        if (scalars.length === 0) {
+          continue;
+        }
+
+        const columns = scalars.map((scalar) => columnName(model.fields[scalar], scalar));
+        const references = (foreignKey.references || [foreignKey.column || 'id'])
+          .map((reference) => columnName(target.fields?.[reference], reference));
+        // A foreign key that is also unique (or the whole primary key) makes the relation one-to-one
+        const isUnique = scalars.length === 1
+          && (!!model.fields[scalars[0]]?.attributes?.unique || (primaryKey.length === 1 && primaryKey[0] === scalars[0]));
+        const settings = [
+          ...(toReferentialAction(foreignKey.on_delete) ? [`delete: ${toReferentialAction(foreignKey.on_delete)}`] : []),
+          ...(toReferentialAction(foreignKey.on_update) ? [`update: ${toReferentialAction(foreignKey.on_update)}`] : []),
+        ];
+        const refName = foreignKey.constraint_name && /^\w+$/.test(foreignKey.constraint_name) ? ` ${foreignKey.constraint_name}` : '';
+        refs.push(
+          `Ref${refName}: ${formatEndpoint(tableName(name, model), columns)} ${isUnique ? '-' : '>'} `
+          + `${formatEndpoint(tableName(foreignKey.table, target), references)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`
+        );
+        continue;
+      }
+
+      const targetName = baseTypeOf(field.field_type);
+      const targetModel = context.models[targetName];
+      const isList = String(field.field_type).trim().endsWith('[]') || !!field.attributes?.is_list;
+      const pair = [name, targetName].sort().join('/');
+      const backList = targetModel && Object.values(targetModel.fields || {}).some((candidate) =>
+        baseTypeOf(candidate.field_type) === name && !candidate.attributes?.foreign_key
+        && (String(candidate.field_type).trim().endsWith('[]') || !!candidate.attributes?.is_list)
+      );
+      if (isRelationField && isList && !foreignKey && backList && name !== targetName && !manyToMany.has(pair)) {
+        manyToMany.add(pair);
+        refs.push(`Ref: ${formatEndpoint(tableName(name, model), [primaryKeyColumn(model)])} <> ${formatEndpoint(tableName(targetName, targetModel), [primaryKeyColumn(targetModel)])}`);
+      }
+    }
+  }
+
+  return refs;
+}
+
+function formatTableGroups(tables: [string, ERDModel][]): string[] {
+  const groups = new Map<string, string[]>();
+  for (const [name, model] of tables) {
+    if (model.group) {
+      groups.set(model.group, [...(groups.get(model.group) || []), tableName(name, model)]);
+    }
+  }
+  return Array.from(groups.entries()).map(([group, names]) =>
+    [`TableGroup ${quoteName(group)} {`, ...names.map((name) => `  ${name}`), '}'].join('\n')
+  );
+}
+
+function formatEndpoint(table: string, columns: string[]): string {
+  return columns.length === 1 ? `${table}.${quoteName(columns[0])}` : `${table}.${formatColumnList(columns)}`;
+}
+
+function formatColumnList(columns: string[]): string {
+  return columns.length === 1 ? quoteName(columns[0]) : `(${columns.map(quoteName).join(', ')})`;
+}
+
+function primaryKeyColumn(model: ERDModel): string {
+  const [fieldName, field] = Object.entries(model.fields || {}).find(([, candidate]) => candidate.attributes?.primary_key) || ['id', undefined];
+  return columnName(field, fieldName);
+}
+
+function tableName(name: string, model: ERDModel): string {
+  const table = quoteName(model.table_name || name);
+  return model.schema_name ? `${quoteName(model.schema_name)}.${table}` : table;
+}
+
+// "Post[]" -> "Post", "String?" -> "String"
+function baseTypeOf(fieldType: string): string {
+  return String(fieldType).trim().replace(/(\[\]|\?)$/, '');
+}
+
+function columnName(field: ERDField | undefined, fieldName: string): string {
+  return field?.attributes?.map || fieldName;
+}
+
+function toReferentialAction(action?: string): string | undefined {
+  return action ? REFERENTIAL_ACTIONS[action.toLowerCase().replace(/[^a-z]/g, '')] : undefined;
+}
+
+function quoteName(name: string): string {
+  return /^[A-Za-z_]\w*$/.test(name) ? name : `"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function quoteString(value: string): string {
+  const escaped = String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  return escaped.includes('\n') ? `'''${value}'''` : `'${escaped}'`;
+}
@@ -0,0 +1,21 @@
+// Debug log
+// Progress output of the YAML parser and ELK layout and the statements schema imports skip,
+// shown in the webview devtools
+
+let enabled = true;
+
+/**
+ * Turn debug output on or off (the CLI only shows it with --verbose)
+ */
+export function setDebugLogging(on: boolean): void {
+  enabled = on;
+}
+
+/**
+ * Log a diagnostic message when debug output is enabled
+ */
+export function debugLog(...args: unknown[]): void {
+  if (enabled) {
+    console.log(...args);
+  }
+}
@@ -0,0 +1,175 @@
+// React Flow to Graphviz DOT Generator
+// Converts the rendered node/edge set of any diagram to DOT: ERD models become records with a
+// port per field, flow nodes keep their shapes with groups as clusters, and sequence diagrams
+// become participants joined by numbered messages
+
+import { Node, Edge } from 'reactflow';
+import { PrismaField } from './prismaParser';
+import { SequenceMessage, SequenceParticipant } from './types/diagrams';
+
+export interface DotOptions {
+  name?: string;
+  direction?: 'DOWN' | 'RIGHT';
+}
+
+const MODEL_COLORS: Record<string, string> = {
+  yellow: '#f59e0b',
+  red: '#ef4444',
+  teal: '#14b8a6',
+};
+
+const FLOW_SHAPES: Record<string, string> = {
+  start: 'shape=ellipse',
+  end: 'shape=ellipse, peripheries=2',
+  process: 'shape=box, style="rounded,filled"',
+  decision: 'shape=diamond',
+  note: 'shape=note',
+};
+
+/**
+ * Generate a DOT digraph from React Flow nodes and edges
+ */
+export function toDot(nodes: Node[], edges: Edge[], options: DotOptions = {}): string {
+  const sequence = nodes.find((node) => node.type === 'sequenceDiagram');
+  const isErd = nodes.some((node) => node.type === 'prismaModel' || node.type === 'prismaEnum');
+
+  let body: string[];
+  let rankdir: string;
+  if (sequence) {
+    body = sequenceBody(sequence);
+    rankdir = 'LR';
+  } else if (isErd) {
+    body = erdBody(nodes, edges);
+    rankdir = 'LR';
+  } else {
+    body = flowBody(nodes, edges);
+    rankdir = options.direction === 'RIGHT' ? 'LR' : 'TB';
+  }
+
+  return [
+    `digraph ${quote(options.name || 'diagram')} {`,
+    `  rankdir=${rankdir};`,
+    '  node [fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+    '',
+    ...body,
+    '}',
+  ].join('\n') + '\n';
+}
+
+// ============================================================================
+// ERDs
+// ============================================================================
+
+function erdBody(nodes: Node[], edges: Edge[]): string[] {
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    const color = MODEL_COLORS[node.data?.color] || (node.type === 'prismaEnum' ? MODEL_COLORS.teal : MODEL_COLORS.yellow);
+    const title = `${recordText(String(node.data?.label ?? node.id))}${node.type === 'prismaEnum' ? ' (enum)' : ''}`;
+    const rows = node.type === 'prismaEnum'
+      ? (node.data?.values || []).map((value: { name: string }) => `${recordText(value.name)}\\l`)
+      : (node.data?.fields || []).map((field: PrismaField) => `<${recordText(field.name)}> ${recordText(formatField(field))}\\l`);
+    // ERDs are laid out left to right, where a record's top-level fields already stack as rows
+    lines.push(`  ${quote(node.id)} [shape=record, color=${quote(color)}, label=${quote([title, ...rows].join('|'))}];`);
+  }
+
+  if (edges.length > 0) {
+    lines.push('');
+  }
+  for (const edge of edges) {
+    const source = portOf(edge.source, edge.sourceHandle, '-source');
+    const target = portOf(edge.target, edge.targetHandle, '-target');
+    const attributes = edge.style?.strokeDasharray ? ' [style=dashed]' : '';
+    lines.push(`  ${source} -> ${target}${attributes};`);
+  }
+  return lines;
+}
+
+function formatField(field: PrismaField): string {
+  const keys = [field.isId && 'PK', field.isForeignKey && 'FK', field.isUnique && 'UK'].filter(Boolean);
+  const type = `${field.type}${field.isList ? '[]' : !field.isRequired ? '?' : ''}`;
+  return `${field.name}: ${type}${keys.length > 0 ? ` ${keys.join(',')}` : ''}`;
+}
+
+// Handles are named <field>-source / <field>-target after the field row they sit on
+function portOf(nodeId: string, handle: string | null | undefined, suffix: string): string {
+  return handle && handle.endsWith(suffix) ? `${quote(nodeId)}:${quote(handle.slice(0, -suffix.length))}` : quote(nodeId);
+}
+
+// ============================================================================
+// Flow diagrams
+// ============================================================================
+
+function flowBody(nodes: Node[], edges: Edge[]): string[] {
+  const lines: string[] = [];
+  const groups = new Map<string | undefined, Node[]>();
+  for (const node of nodes) {
+    groups.set(node.data?.group, [...(groups.get(node.data?.group) || []), node]);
+  }
+
+  for (const [group, members] of groups) {
+    const indent = group ? '    ' : '  ';
+    if (group) {
+      lines.push(`  subgraph ${quote(`cluster_${group}`)} {`, `    label=${quote(members[0].data?.groupLabel || group)};`, '    style=dashed;');
+    }
+    for (const node of members) {
+      const color = node.data?.color ? `, color=${quote(node.data.color)}` : '';
+      const fill = node.type === 'process' && node.data?.color ? `, fillcolor=${quote(`${node.data.color}33`)}` : '';
+      const shape = FLOW_SHAPES[node.type || 'process'] || FLOW_SHAPES.process;
+      lines.push(`${indent}${quote(node.id)} [${shape}${color}${fill}, label=${quote(String(node.data?.label ?? node.id))}];`);
+    }
+    if (group) {
+      lines.push('  }');
+    }
+  }
+
+  if (edges.length > 0) {
+    lines.push('');
+  }
+  for (const edge of edges) {
+    const label = typeof edge.label === 'string' && edge.label ? ` [label=${quote(edge.label)}]` : '';
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)}${label};`);
+  }
+  return lines;
+}
+
+// ============================================================================
+// Sequence diagrams
+// ============================================================================
+
+function sequenceBody(node: Node): string[] {
+  const participants: Record<string, SequenceParticipant> = node.data?.participants || {};
+  const messages: SequenceMessage[] = [...(node.data?.messages || [])].sort((a, b) => Number(a.sequence_order) - Number(b.sequence_order));
+  const lines: string[] = [];
+
+  const ordered = Object.entries(participants).sort(([, a], [, b]) => (a.order ?? 0) - (b.order ?? 0));
+  for (const [id, participant] of ordered) {
+    const shape = participant.type === 'actor' ? 'shape=ellipse' : 'shape=box, style=rounded';
+    lines.push(`  ${quote(id)} [${shape}, label=${quote(String(participant.label ?? id))}];`);
+  }
+
+  if (messages.length > 0) {
+    lines.push('');
+  }
+  messages.forEach((message, index) => {
+    const dashed = message.arrow_type === 'dashed' || message.arrow_type === 'open_dashed' ? ', style=dashed' : '';
+    const label = `${index + 1}. ${message.label ?? ''}`.trim();
+    lines.push(`  ${quote(String(message.from))} -> ${quote(String(message.to))} [label=${quote(label)}${dashed}];`);
+  });
+  return lines;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+// Only quotes are escaped in DOT strings; backslashes are label escapes such as \l
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+// Characters that structure a record label
+function recordText(text: string): string {
+  return text.replace(/[{}|<>]/g, (character) => `\\${character}`);
+}
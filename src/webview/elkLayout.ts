@@ -1,6 +1,8 @@
 // ELK Layout for Prisma Schema
 import { Node, Edge } from 'reactflow';
 import ELK, { ElkNode, ElkExtendedEdge } from 'elkjs';
+import { estimateTextDimensions } from './textMetrics';
+import { debugLog } from './debugLog';
 
 const elk = new ELK();
 
@@ -8,7 +10,11 @@ const elk = new ELK();
  * Canvas for measuring text dimensions
  */
 let measureCanvas: HTMLCanvasElement | null = null;
-function getMeasureCanvas(): HTMLCanvasElement {
+function getMeasureCanvas(): HTMLCanvasElement | null {
+  // No DOM when running headless (CLI)
+  if (typeof document === 'undefined') {
+    return null;
+  }
   if (!measureCanvas) {
     measureCanvas = document.createElement('canvas');
   }
@@ -18,6 +24,7 @@ function getMeasureCanvas(): HTMLCanvasElement {
 /**
  * Measure text dimensions using Canvas API
  * This gives accurate measurements before rendering
+ * Falls back to font metrics when no canvas is available
  */
 function measureTextDimensions(
   text: string,
@@ -26,12 +33,9 @@ function measureTextDimensions(
   fontFamily: string = 'system-ui, -apple-system, sans-serif'
 ): { width: number; height: number } {
   try {
-    const canvas = getMeasureCanvas();
-    const ctx = canvas.getContext('2d');
+    const ctx = getMeasureCanvas()?.getContext('2d');
     if (!ctx) {
-      console.warn('Canvas 2D context not available, using fallback text measurement');
-      // Fallback to simple calculation
-      return { width: text.length * fontSize * 0.6, height: fontSize * 1.2 };
+      return estimateTextDimensions(text, fontSize, fontWeight);
     }
 
     ctx.font = `${fontWeight} ${fontSize}px ${fontFamily}`;
@@ -49,12 +53,11 @@ function measureTextDimensions(
       width: Math.ceil(maxWidth),
       height: Math.ceil(fontSize * 1.2 * lines.length),
     };
-    console.log(`Text measurement: "${text.substring(0, 20)}${text.length > 20 ? '...' : ''}" ->`, result);
+    debugLog(`Text measurement: "${text.substring(0, 20)}${text.length > 20 ? '...' : ''}" ->`, result);
     return result;
   } catch (error) {
     console.error('Error measuring text dimensions:', error);
-    // Fallback to simple calculation
-    return { width: text.length * fontSize * 0.6, height: fontSize * 1.2 };
+    return estimateTextDimensions(text, fontSize, fontWeight);
   }
 }
 
@@ -166,12 +169,12 @@ function calculateDynamicNodeDimensions(node: Node): { width: number; height: nu
   const label = data?.label || '';
   const description = data?.description || '';
 
-  console.log(`\n=== Calculating dimensions for node "${node.id}" (${type}) ===`);
-  console.log(`Label: "${label}"`);
-  console.log(`Description: "${description}"`);
+  debugLog(`\n=== Calculating dimensions for node "${node.id}" (${type}) ===`);
+  debugLog(`Label: "${label}"`);
+  debugLog(`Description: "${description}"`);
 
   const styles = getNodeStyles(type);
-  console.log(`Styles:`, styles);
+  debugLog(`Styles:`, styles);
 
   // Measure text dimensions using Canvas API
   const labelMetrics = measureTextDimensions(label, styles.fontSize.label, '600');
@@ -285,7 +288,7 @@ function calculateDynamicNodeDimensions(node: Node): { width: number; height: nu
     }
   }
 
-  console.log(`Final dimensions for node "${node.id}":`, result);
+  debugLog(`Final dimensions for node "${node.id}":`, result);
   return result;
 }
 
@@ -357,12 +360,12 @@ export async function layoutFlowDiagram(
     return outgoingEdges.length > 2;
   });
 
-  console.log('ELK Layout Calculations:');
-  console.log('  Max node height:', maxNodeHeight);
-  console.log('  Max node width:', maxNodeWidth);
-  console.log('  Average node height:', avgNodeHeight);
-  console.log('  Layer spacing:', baseLayerSpacing);
-  console.log('  Horizontal spacing:', horizontalNodeSpacing);
+  debugLog('ELK Layout Calculations:');
+  debugLog('  Max node height:', maxNodeHeight);
+  debugLog('  Max node width:', maxNodeWidth);
+  debugLog('  Average node height:', avgNodeHeight);
+  debugLog('  Layer spacing:', baseLayerSpacing);
+  debugLog('  Horizontal spacing:', horizontalNodeSpacing);
 
   // Build ELK graph optimized for flow diagrams
   const elkGraph: ElkNode = {
@@ -507,15 +510,15 @@ export async function layoutFlowDiagram(
   };
 
   try {
-    console.log('ELK: Starting enhanced layout with', nodes.length, 'nodes and', edges.length, 'edges');
-    console.log('ELK: Node dimensions:', Object.fromEntries(nodeDimensions));
-    console.log('ELK: Groups detected:', Array.from(nodeClusters.keys()));
-    console.log('ELK: Note nodes detected:', hasNoteNodes, 'count:', noteNodes.length);
+    debugLog('ELK: Starting enhanced layout with', nodes.length, 'nodes and', edges.length, 'edges');
+    debugLog('ELK: Node dimensions:', Object.fromEntries(nodeDimensions));
+    debugLog('ELK: Groups detected:', Array.from(nodeClusters.keys()));
+    debugLog('ELK: Note nodes detected:', hasNoteNodes, 'count:', noteNodes.length);
 
     // Apply layout
     const layoutedGraph = await elk.layout(elkGraph);
 
-    console.log('ELK: Layout result', layoutedGraph);
+    debugLog('ELK: Layout result', layoutedGraph);
 
     // Calculate bounding box for proper padding
     let maxX = 0, maxY = 0;
@@ -556,8 +559,8 @@ export async function layoutFlowDiagram(
       };
     });
 
-    console.log('ELK: Enhanced layout complete for', layoutedNodes.length, 'nodes');
-    console.log('ELK: Diagram bounds - width:', maxX + horizontalPadding * 2, 'height:', maxY + verticalPadding * 2);
+    debugLog('ELK: Enhanced layout complete for', layoutedNodes.length, 'nodes');
+    debugLog('ELK: Diagram bounds - width:', maxX + horizontalPadding * 2, 'height:', maxY + verticalPadding * 2);
 
     return {
       nodes: layoutedNodes,
@@ -570,3 +573,30 @@ export async function layoutFlowDiagram(
   }
 }
 
+
+/**
+ * Place nodes that have no saved position to the right of the pinned ones.
+ * The new nodes keep their relative ELK arrangement and pinned nodes never move.
+ */
+export function placeNewNodes(nodes: Node[], pinnedIds: Set<string>, gap = 120): Node[] {
+  const pinned = nodes.filter((node) => pinnedIds.has(node.id));
+  const added = nodes.filter((node) => !pinnedIds.has(node.id));
+  if (pinned.length === 0 || added.length === 0) {
+    return nodes;
+  }
+
+  const widthOf = (node: Node) => Number(node.width ?? node.style?.width ?? 250);
+  const pinnedRight = Math.max(...pinned.map((node) => node.position.x + widthOf(node)));
+  const pinnedTop = Math.min(...pinned.map((node) => node.position.y));
+  const addedLeft = Math.min(...added.map((node) => node.position.x));
+  const addedTop = Math.min(...added.map((node) => node.position.y));
+
+  const dx = pinnedRight + gap - addedLeft;
+  const dy = pinnedTop - addedTop;
+
+  return nodes.map((node) =>
+    pinnedIds.has(node.id)
+      ? node
+      : { ...node, position: { x: node.position.x + dx, y: node.position.y + dy } }
+  );
+}
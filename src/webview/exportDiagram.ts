@@ -0,0 +1,162 @@
+// Diagram export
+// Serializes the rendered diagram to a standalone SVG with inlined styles and rasterizes it to PNG
+
+import { Node, getNodesBounds } from 'reactflow';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+const EXPORT_PADDING = 40;
+const EXPORT_BACKGROUND = '#1e1e1e';
+
+// Handles are editing affordances, not part of the diagram
+const SKIPPED_CLASSES = ['react-flow__handle'];
+
+// Inherited properties only need to be written where they differ from the parent
+const INHERITED_PROPERTY = /^(color|cursor|direction|font|letter-spacing|line-height|list-style|quotes|tab-size|text-(align|anchor|indent|rendering|shadow|transform)|visibility|white-space|word-|overflow-wrap|hyphens|writing-mode|fill|stroke|marker|paint-order|clip-rule|-webkit-text|-webkit-font)/;
+
+export interface SerializedDiagram {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Serialize a React Flow diagram (flow or ERD). The whole graph is exported, not only
+ * the visible part, by re-positioning a copy of the viewport around the nodes' bounds.
+ */
+export function serializeFlowDiagram(root: HTMLElement, nodes: Node[]): SerializedDiagram {
+  const viewport = root.querySelector<HTMLElement>('.react-flow__viewport');
+  if (!viewport || nodes.length === 0) {
+    throw new Error('The diagram has not been rendered yet');
+  }
+
+  const bounds = getNodesBounds(nodes);
+  const width = Math.ceil(bounds.width + EXPORT_PADDING * 2);
+  const height = Math.ceil(bounds.height + EXPORT_PADDING * 2);
+
+  const clone = withDefaultStyles((defaults) => cloneWithInlineStyles(viewport, defaults)) as HTMLElement;
+  clone.style.transform = `translate(${EXPORT_PADDING - bounds.x}px, ${EXPORT_PADDING - bounds.y}px) scale(1)`;
+
+  const wrapper = document.createElementNS(XHTML_NS, 'div') as HTMLElement;
+  wrapper.setAttribute(
+    'style',
+    `position:relative;overflow:hidden;width:${width}px;height:${height}px;background:${EXPORT_BACKGROUND}`
+  );
+  wrapper.appendChild(clone);
+
+  const svg = `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">` +
+    new XMLSerializer().serializeToString(wrapper) +
+    '</foreignObject></svg>';
+
+  return { svg, width, height };
+}
+
+/**
+ * Serialize the D3-rendered sequence diagram, which is already plain SVG
+ */
+export function serializeSequenceDiagram(source: SVGSVGElement): SerializedDiagram {
+  const width = Math.ceil(parseFloat(source.style.width) || source.getBBox().width);
+  const height = Math.ceil(parseFloat(source.style.height) || source.getBBox().height);
+
+  const clone = withDefaultStyles((defaults) => cloneWithInlineStyles(source, defaults)) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', EXPORT_BACKGROUND);
+  clone.insertBefore(background, clone.firstChild);
+
+  return { svg: new XMLSerializer().serializeToString(clone), width, height };
+}
+
+/**
+ * Draw a serialized diagram onto a canvas and return the PNG as base64
+ */
+export async function rasterizeSvg(diagram: SerializedDiagram, scale: number): Promise<string> {
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(diagram.width * scale);
+  canvas.height = Math.round(diagram.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, diagram.width, diagram.height);
+
+  return canvas.toDataURL('image/png').split(',')[1];
+}
+
+type DefaultStyles = (element: Element) => CSSStyleDeclaration;
+
+/**
+ * Provide browser default styles per tag from an unstyled iframe, so only meaningful
+ * declarations are inlined and page stylesheets (Tailwind) are not assumed
+ */
+function withDefaultStyles<T>(run: (defaults: DefaultStyles) => T): T {
+  const iframe = document.createElement('iframe');
+  iframe.style.display = 'none';
+  document.body.appendChild(iframe);
+
+  try {
+    const sandbox = iframe.contentDocument!;
+    const svgRoot = sandbox.createElementNS(SVG_NS, 'svg');
+    sandbox.body.appendChild(svgRoot);
+    const cache = new Map<string, CSSStyleDeclaration>();
+
+    return run((element) => {
+      const key = `${element.namespaceURI}:${element.localName}`;
+      let style = cache.get(key);
+      if (!style) {
+        const probe = sandbox.createElementNS(element.namespaceURI, element.localName);
+        (element.namespaceURI === SVG_NS ? svgRoot : sandbox.body).appendChild(probe);
+        style = iframe.contentWindow!.getComputedStyle(probe);
+        cache.set(key, style);
+      }
+      return style;
+    });
+  } finally {
+    iframe.remove();
+  }
+}
+
+function cloneWithInlineStyles(source: Element, defaults: DefaultStyles, parentStyle?: CSSStyleDeclaration): Element {
+  const clone = source.cloneNode(false) as Element;
+  const computed = getComputedStyle(source);
+  const fallback = defaults(source);
+
+  const declarations: string[] = [];
+  for (let i = 0; i < computed.length; i++) {
+    const name = computed[i];
+    const value = computed.getPropertyValue(name);
+    const reference = parentStyle && INHERITED_PROPERTY.test(name)
+      ? parentStyle.getPropertyValue(name)
+      : fallback.getPropertyValue(name);
+    if (value !== reference) {
+      declarations.push(`${name}:${value}`);
+    }
+  }
+  clone.setAttribute('style', declarations.join(';'));
+  clone.removeAttribute('class');
+
+  source.childNodes.forEach((child) => {
+    if (child instanceof Element) {
+      if (!SKIPPED_CLASSES.some((className) => child.classList.contains(className))) {
+        clone.appendChild(cloneWithInlineStyles(child, defaults, computed));
+      }
+    } else if (child instanceof Text) {
+      clone.appendChild(child.cloneNode());
+    }
+  });
+
+  return clone;
+}
@@ -0,0 +1,430 @@
+// Diagram to Mermaid Generator
+// Converts a .cryml flow, sequence or ERD diagram to Mermaid, which Markdown on GitHub and GitLab renders natively
+
+import * as yaml from 'yaml';
+import {
+  AnyDiagram,
+  ERDDiagram,
+  ERDModel,
+  ERDField,
+  FlowDiagram,
+  FlowNode,
+  SequenceDiagram,
+  SequenceMessage,
+  SequenceNote,
+  SequenceBlock,
+  ArrowType,
+  BlockType,
+} from './types/diagrams';
+
+// Node shapes as [open, close]; start/end use (( )) and ((( ))) so an import can tell them apart
+const FLOW_SHAPES: { [type in FlowNode['type']]: [string, string] } = {
+  start: ['((', '))'],
+  end: ['(((', ')))'],
+  process: ['[', ']'],
+  decision: ['{', '}'],
+  note: ['>', ']'],
+};
+
+const SEQUENCE_ARROWS: { [type in ArrowType]: string } = {
+  solid: '->>',
+  dashed: '-->>',
+  open_solid: '->',
+  open_dashed: '-->',
+  dot: '-)',
+};
+
+// Mermaid has no negative block; break ("the rest is skipped") is the closest
+const BLOCK_KEYWORDS: { [type in BlockType]: string } = {
+  alt: 'alt',
+  opt: 'opt',
+  loop: 'loop',
+  par: 'par',
+  critical: 'critical',
+  neg: 'break',
+};
+
+// Keyword that starts the next section of a block
+const SECTION_KEYWORDS: { [type in BlockType]?: string } = {
+  alt: 'else',
+  par: 'and',
+  critical: 'option',
+};
+
+const ENTITIES: { [character: string]: string } = {
+  '#': '#35;',
+  ';': '#59;',
+  '"': '#quot;',
+};
+
+// Words Mermaid reads as keywords when used as a node or participant ID
+const RESERVED_IDS = new Set([
+  'end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'class', 'classdef', 'click', 'linkstyle',
+  'participant', 'actor', 'note', 'loop', 'alt', 'else', 'opt', 'par', 'and', 'critical', 'option', 'break',
+  'rect', 'box', 'activate', 'deactivate', 'create', 'destroy', 'autonumber', 'title',
+]);
+
+/**
+ * Generate a Mermaid diagram from a .cryml document of any diagram type
+ */
+export function yamlToMermaid(content: string): string {
+  const parsed = yaml.parse(content) as AnyDiagram;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Empty or invalid .cryml document');
+  }
+
+  const header = frontMatter(parsed.metadata);
+  switch (parsed.diagram_type || 'erd') {
+    case 'flow':
+      return header + formatFlow(parsed as FlowDiagram);
+    case 'sequence':
+      return header + formatSequence(parsed as SequenceDiagram);
+    case 'erd':
+      return header + formatErd(parsed as ERDDiagram);
+    default:
+      throw new Error(`Unsupported diagram_type "${parsed.diagram_type}"`);
+  }
+}
+
+// The diagram name becomes the Mermaid title; the description is kept as comments
+function frontMatter(metadata: AnyDiagram['metadata'] | undefined): string {
+  const lines = [
+    ...(metadata?.name ? ['---', `title: ${JSON.stringify(String(metadata.name))}`, '---'] : []),
+    ...(metadata?.description ? String(metadata.description).split('\n').map((line) => `%% ${line}`.trimEnd()) : []),
+  ];
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+// ============================================================================
+// Flow diagrams
+// ============================================================================
+
+function formatFlow(diagram: FlowDiagram): string {
+  const nodes = Object.entries(diagram.nodes || {});
+  const ids = new MermaidIds();
+  const lines = [`flowchart ${diagram.layout?.direction === 'RIGHT' ? 'LR' : 'TD'}`];
+
+  // Nodes are declared inside the subgraph of their group, in the order the groups are defined
+  const groupIds = [
+    ...Object.keys(diagram.groups || {}),
+    ...nodes.map(([, node]) => node.group).filter((group): group is string => !!group),
+  ].filter((group, index, all) => all.indexOf(group) === index);
+
+  for (const [nodeId, node] of nodes.filter(([, node]) => !node.group)) {
+    lines.push(`  ${formatFlowNode(ids.get(nodeId), node)}`);
+  }
+  for (const groupId of groupIds) {
+    const members = nodes.filter(([, node]) => node.group === groupId);
+    if (members.length === 0) {
+      continue;
+    }
+    const label = diagram.groups?.[groupId]?.label || groupId;
+    lines.push(
+      `  subgraph ${ids.get(`group:${groupId}`, groupId)} [${quoteLabel(label)}]`,
+      ...members.map(([nodeId, node]) => `    ${formatFlowNode(ids.get(nodeId), node)}`),
+      '  end'
+    );
+  }
+
+  for (const edge of diagram.edges || []) {
+    const label = edge.label ?? edge.condition;
+    const link = label !== undefined && label !== null && String(label) !== '' ? `-->|${quoteLabel(String(label))}|` : '-->';
+    lines.push(`  ${ids.get(String(edge.from))} ${link} ${ids.get(String(edge.to))}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function formatFlowNode(id: string, node: FlowNode): string {
+  const [open, close] = FLOW_SHAPES[node.type] || FLOW_SHAPES.process;
+  return `${id}${open}${quoteLabel(String(node.label ?? id))}${close}`;
+}
+
+// ============================================================================
+// Sequence diagrams
+// ============================================================================
+
+export interface BlockSpan {
+  block: SequenceBlock;
+  start: number;
+  end: number;
+  sections: Map<number, string>; // Message index -> condition of the section starting there
+}
+
+function formatSequence(diagram: SequenceDiagram): string {
+  const ids = new MermaidIds();
+  const lines = ['sequenceDiagram'];
+
+  // Participants in their horizontal order; neighbours in the same group share a box
+  const participants = Object.entries(diagram.participants || {})
+    .sort(([, a], [, b]) => (a.order ?? 0) - (b.order ?? 0));
+  let box: string | undefined;
+  for (const [participantId, participant] of participants) {
+    if (participant.group !== box) {
+      if (box) {
+        lines.push('  end');
+      }
+      box = participant.group;
+      if (box) {
+        lines.push(`  box ${escapeText(box)}`);
+      }
+    }
+    const id = ids.get(participantId);
+    const label = participant.label !== undefined && String(participant.label) !== id ? ` as ${escapeText(String(participant.label))}` : '';
+    lines.push(`${box ? '    ' : '  '}${participant.type === 'actor' ? 'actor' : 'participant'} ${id}${label}`);
+  }
+  if (box) {
+    lines.push('  end');
+  }
+
+  const messages = [...(diagram.messages || [])].sort((a, b) => Number(a.sequence_order) - Number(b.sequence_order));
+  const spans = findBlockSpans(diagram.blocks || [], messages);
+  const notesAfter = groupNotes(diagram.notes || [], messages);
+  const open: BlockSpan[] = [];
+  const indent = () => '  '.repeat(open.length + 1);
+
+  lines.push(...(notesAfter.get(-1) || []).map((note) => `  ${formatNote(note, ids)}`));
+  messages.forEach((message, index) => {
+    for (const span of spans.filter((candidate) => candidate.start === index)) {
+      const condition = span.sections.get(index) ?? span.block.condition ?? span.block.label;
+      lines.push(`${indent()}${BLOCK_KEYWORDS[span.block.type] || 'opt'}${condition ? ` ${escapeText(String(condition))}` : ''}`);
+      open.push(span);
+    }
+    for (const [depth, span] of open.entries()) {
+      const condition = span.start !== index ? span.sections.get(index) : undefined;
+      if (condition !== undefined) {
+        lines.push(`${'  '.repeat(depth + 1)}${SECTION_KEYWORDS[span.block.type]}${condition ? ` ${escapeText(condition)}` : ''}`);
+      }
+    }
+
+    lines.push(`${indent()}${formatMessage(message, ids)}`);
+    if (message.note) {
+      const over = message.from === message.to ? ids.get(message.from) : `${ids.get(message.from)},${ids.get(message.to)}`;
+      lines.push(`${indent()}Note over ${over}: ${escapeText(String(message.note))}`);
+    }
+
+    // Blocks that don't nest stay open until the block inside them ends
+    while (open.length > 0 && open[open.length - 1].end <= index) {
+      open.pop();
+      lines.push(`${indent()}end`);
+    }
+    lines.push(...(notesAfter.get(index) || []).map((note) => `${indent()}${formatNote(note, ids)}`));
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function formatMessage(message: SequenceMessage, ids: MermaidIds): string {
+  const arrow = SEQUENCE_ARROWS[message.arrow_type || 'solid'] || SEQUENCE_ARROWS.solid;
+  return `${ids.get(String(message.from))}${arrow}${ids.get(String(message.to))}: ${escapeText(String(message.label ?? ''))}`;
+}
+
+function formatNote(note: SequenceNote, ids: MermaidIds): string {
+  const over = note.position?.over?.length
+    ? note.position.over.map((participant) => ids.get(participant)).join(',')
+    : ids.get(String(note.position?.participant ?? ''));
+  return `Note over ${over}: ${escapeText(String(note.text ?? ''))}`;
+}
+
+/**
+ * Message range of each block, outer blocks first. Sections of alt, par and critical blocks
+ * start at the first message of each section. Messages must be sorted by sequence_order.
+ */
+export function findBlockSpans(blocks: SequenceBlock[], messages: SequenceMessage[]): BlockSpan[] {
+  const indexOf = new Map(messages.map((message, index) => [String(message.id), index]));
+  const spans: BlockSpan[] = [];
+
+  for (const block of [...blocks].sort((a, b) => Number(a.sequence_order) - Number(b.sequence_order))) {
+    const sections = SECTION_KEYWORDS[block.type] ? block.alt_sections || [] : [];
+    const indexes = [...(block.messages || []), ...sections.flatMap((section) => section.messages || [])]
+      .map((messageId) => indexOf.get(String(messageId)))
+      .filter((index): index is number => index !== undefined);
+    if (indexes.length === 0) {
+      continue;
+    }
+
+    const sectionStarts = new Map<number, string>();
+    for (const section of sections) {
+      const first = Math.min(...(section.messages || []).map((messageId) => indexOf.get(String(messageId)) ?? Infinity));
+      if (first !== Infinity && !sectionStarts.has(first)) {
+        sectionStarts.set(first, section.condition ? String(section.condition) : '');
+      }
+    }
+    spans.push({ block, start: Math.min(...indexes), end: Math.max(...indexes), sections: sectionStarts });
+  }
+
+  return spans.sort((a, b) => a.start - b.start || b.end - a.end);
+}
+
+// Notes are placed after the last message at or before their y position (a sequence_order), -1 for the top
+export function groupNotes(notes: SequenceNote[], messages: SequenceMessage[]): Map<number, SequenceNote[]> {
+  const grouped = new Map<number, SequenceNote[]>();
+  for (const note of notes) {
+    const y = Number(note.position?.y ?? 0);
+    let after = -1;
+    messages.forEach((message, index) => {
+      if (Number(message.sequence_order) <= y) {
+        after = index;
+      }
+    });
+    grouped.set(after, [...(grouped.get(after) || []), note]);
+  }
+  return grouped;
+}
+
+// ============================================================================
+// ERDs
+// ============================================================================
+
+function formatErd(diagram: ERDDiagram): string {
+  const models = diagram.models || {};
+  const lines = ['erDiagram'];
+
+  for (const [name, model] of Object.entries(models)) {
+    const foreignKeys = foreignKeyFields(model, models);
+    const attributes = Object.entries(model.fields || {})
+      .filter(([, field]) => !models[baseTypeOf(field.field_type)])
+      .map(([fieldName, field]) => `    ${formatAttribute(fieldName, field, foreignKeys.has(fieldName))}`);
+    lines.push(attributes.length > 0 ? `  ${entityName(name)} {\n${attributes.join('\n')}\n  }` : `  ${entityName(name)}`);
+  }
+
+  lines.push(...formatRelationships(models).map((relationship) => `  ${relationship}`));
+  return lines.join('\n') + '\n';
+}
+
+function formatAttribute(fieldName: string, field: ERDField, isForeignKey: boolean): string {
+  const isList = String(field.field_type).trim().endsWith('[]') || !!field.attributes?.is_list;
+  // Database types Mermaid can spell (varchar(255), uuid) say more than the Prisma scalar
+  const dbType = field.db_type && /^\w+(\(\d*\))?$/.test(field.db_type) ? field.db_type : undefined;
+  const type = (dbType || baseTypeOf(field.field_type)).replace(/[^\w()-]/g, '_') + (isList ? '[]' : '');
+  const keys = [
+    ...(field.attributes?.primary_key ? ['PK'] : []),
+    ...(isForeignKey ? ['FK'] : []),
+    ...(field.attributes?.unique ? ['UK'] : []),
+  ];
+  const comment = field.description ? ` "${String(field.description).replace(/"/g, "'").replace(/\n/g, ' ')}"` : '';
+  return `${type} ${fieldName.replace(/[^\w-]/g, '_')}${keys.length > 0 ? ` ${keys.join(', ')}` : ''}${comment}`;
+}
+
+// Fields holding a foreign key: the scalar itself (SQL imports) or the fields of a relation field (Prisma exports)
+function foreignKeyFields(model: ERDModel, models: { [key: string]: ERDModel }): Set<string> {
+  const fields = new Set<string>();
+  for (const [fieldName, field] of Object.entries(model.fields || {})) {
+    const foreignKey = field.attributes?.foreign_key;
+    if (!foreignKey || field.attributes?.virtual) {
+      continue;
+    }
+    if (!models[baseTypeOf(field.field_type)]) {
+      fields.add(fieldName);
+    }
+    for (const scalar of foreignKey.fields || []) {
+      fields.add(scalar);
+    }
+  }
+  return fields;
+}
+
+/**
+ * One relationship per foreign key, from the referenced entity to the one holding the key:
+ * ||--o{ for required keys, |o--o{ for optional ones, o| instead of o{ when the key is unique.
+ * Models that list each other without a key are many-to-many.
+ */
+function formatRelationships(models: { [key: string]: ERDModel }): string[] {
+  const relationships: string[] = [];
+  const manyToMany = new Set<string>();
+
+  for (const [name, model] of Object.entries(models)) {
+    const fields = model.fields || {};
+    const primaryKey = Object.keys(fields).filter((fieldName) => fields[fieldName].attributes?.primary_key);
+
+    for (const [fieldName, field] of Object.entries(fields)) {
+      const foreignKey = field.attributes?.foreign_key;
+      const targetName = baseTypeOf(field.field_type);
+      const isRelationField = !!models[targetName];
+
+      if (foreignKey && models[foreignKey.table] && !field.attributes?.virtual) {
+        const scalars = foreignKey.fields
+          || (isRelationField ? [`${fieldName}Id`, `${fieldName}_id`].filter((candidate) => fields[candidate]).slice(0, 1) : [fieldName]);
+        const keyFields = scalars.map((scalar) => fields[scalar]).filter((scalar): scalar is ERDField => !!scalar);
+        const isRequired = keyFields.length > 0
+          ? keyFields.every((scalar) => scalar.constraints?.not_null || scalar.attributes?.primary_key)
+          : !!field.constraints?.not_null;
+        const isUnique = scalars.length === 1
+          && (!!fields[scalars[0]]?.attributes?.unique || (primaryKey.length === 1 && primaryKey[0] === scalars[0]));
+        relationships.push(
+          `${entityName(foreignKey.table)} ${isRequired ? '||' : '|o'}--${isUnique ? 'o|' : 'o{'} ${entityName(name)} : ${relationshipLabel(fieldName)}`
+        );
+        continue;
+      }
+
+      const isList = String(field.field_type).trim().endsWith('[]') || !!field.attributes?.is_list;
+      const pair = [name, targetName].sort().join('/');
+      const backList = isRelationField && Object.values(models[targetName].fields || {}).some((candidate) =>
+        baseTypeOf(candidate.field_type) === name && !candidate.attributes?.foreign_key
+        && (String(candidate.field_type).trim().endsWith('[]') || !!candidate.attributes?.is_list)
+      );
+      if (isRelationField && isList && !foreignKey && backList && name !== targetName && !manyToMany.has(pair)) {
+        manyToMany.add(pair);
+        relationships.push(`${entityName(name)} }o--o{ ${entityName(targetName)} : ${relationshipLabel(fieldName)}`);
+      }
+    }
+  }
+
+  return relationships;
+}
+
+function entityName(name: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(name) ? name : `"${name.replace(/"/g, "'")}"`;
+}
+
+function relationshipLabel(label: string): string {
+  return /^[A-Za-z_]\w*$/.test(label) ? label : `"${label.replace(/"/g, "'")}"`;
+}
+
+// "Post[]" -> "Post", "String?" -> "String"
+function baseTypeOf(fieldType: string): string {
+  return String(fieldType).trim().replace(/(\[\]|\?)$/, '');
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+/**
+ * Mermaid-safe IDs for .cryml keys. Keys that are keywords or contain other characters get
+ * a suffix or underscores, and stay unique.
+ */
+class MermaidIds {
+  private readonly ids = new Map<string, string>();
+  private readonly used = new Set<string>();
+
+  get(key: string, name: string = key): string {
+    const existing = this.ids.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    let id = name.replace(/[^\w]/g, '_') || '_';
+    if (RESERVED_IDS.has(id.toLowerCase())) {
+      id += '_';
+    }
+    for (let suffix = 2; this.used.has(id); suffix++) {
+      id = `${id.replace(/_\d+$/, '')}_${suffix}`;
+    }
+    this.ids.set(key, id);
+    this.used.add(id);
+    return id;
+  }
+}
+
+// Quoted flowchart label; Mermaid has no escape for " inside quotes, only the #quot; entity
+function quoteLabel(text: string): string {
+  return `"${escapeText(text)}"`;
+}
+
+// # and ; start entities and statements, and line breaks are written as <br>
+function escapeText(text: string): string {
+  return text
+    .replace(/[#;"]/g, (character) => ENTITIES[character])
+    .replace(/\r?\n/g, '<br>');
+}
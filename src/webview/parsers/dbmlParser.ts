@@ -0,0 +1,772 @@
+// DBML Parser
+// Reads dbdiagram.io DBML (Table, Enum, Ref, TableGroup and their notes) into the
+// PrismaSchema shape the ERD view renders. The Project names the schema; sticky Note blocks are skipped.
+
+import { PrismaSchema, PrismaModel, PrismaField, PrismaEnum, categorizeModels } from '../prismaParser';
+import { setSqlType, convertStringDefault, convertExpressionDefault, setDefault, enumValueName } from './sqlParser';
+import { SourceRange } from '../types/diagrams';
+import { debugLog } from '../debugLog';
+
+type TokenKind = 'word' | 'identifier' | 'string' | 'expression' | 'number' | 'punct';
+
+interface Token extends SourceRange {
+  kind: TokenKind; // identifier: "quoted name"; expression: `backtick`
+  value: string;
+}
+
+interface TableName {
+  schema?: string;
+  name: string;
+}
+
+// One side of a relationship: users.id, or users.(id, country) for composite keys
+interface Endpoint {
+  table: TableName;
+  columns: string[];
+}
+
+// Resolved once every table is known, since refs may come before the tables they connect
+interface RefDraft {
+  name?: string;
+  left: Endpoint;
+  operator: string; // > many-to-one, < one-to-many, - one-to-one, <> many-to-many
+  right: Endpoint;
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+// Column types wait for every enum to be declared
+interface ColumnType {
+  field: PrismaField;
+  name: string;
+  args: string[];
+}
+
+interface Setting {
+  key: string; // Lowercase, e.g. "not null", "default", "ref"
+  value: Token[];
+}
+
+const REFERENTIAL_ACTIONS: { [key: string]: string } = {
+  'cascade': 'Cascade',
+  'restrict': 'Restrict',
+  'no action': 'NoAction',
+  'set null': 'SetNull',
+  'set default': 'SetDefault',
+};
+
+const TOP_LEVEL_KEYWORDS = new Set(['table', 'enum', 'ref', 'tablegroup', 'project', 'note', 'tablepartial']);
+
+// DBML's default schema, left off model names
+const DEFAULT_SCHEMA = 'public';
+
+/**
+ * Parse a DBML document into models, enums and relations
+ */
+export function parseDbmlSchema(content: string): PrismaSchema {
+  const reader = new DbmlSchemaReader(content, tokenize(content));
+  const schema = reader.read();
+  categorizeModels(schema);
+  reader.applyTableGroups();
+  return schema;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (kind: TokenKind, value: string, start: number) => {
+    tokens.push({ kind, value, start, end: i });
+  };
+
+  // Quoted text with backslash escapes ('it\'s', "a \"b\"")
+  const readQuoted = (quote: string) => {
+    let value = '';
+    i++;
+    while (i < content.length && content[i] !== quote) {
+      if (content[i] === '\\' && i + 1 < content.length) {
+        i++;
+      }
+      value += content[i++];
+    }
+    i++;
+    return value;
+  };
+
+  while (i < content.length) {
+    const start = i;
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (content.startsWith('//', i)) {
+      const lineEnd = content.indexOf('\n', i);
+      i = lineEnd === -1 ? content.length : lineEnd;
+    } else if (content.startsWith('/*', i)) {
+      const commentEnd = content.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? content.length : commentEnd + 2;
+    } else if (content.startsWith("'''", i)) {
+      // Multi-line strings drop the indentation of their first line from every line
+      const stringEnd = content.indexOf("'''", i + 3);
+      i = stringEnd === -1 ? content.length : stringEnd + 3;
+      push('string', dedent(content.slice(start + 3, stringEnd === -1 ? i : stringEnd)), start);
+    } else if (char === "'") {
+      push('string', readQuoted("'"), start);
+    } else if (char === '"') {
+      push('identifier', readQuoted('"'), start);
+    } else if (char === '`') {
+      push('expression', readQuoted('`'), start);
+    } else if (/[A-Za-z_]/.test(char)) {
+      while (i < content.length && /\w/.test(content[i])) i++;
+      push('word', content.slice(start, i), start);
+    } else if (/\d/.test(char)) {
+      while (i < content.length && /[\d.]/.test(content[i])) i++;
+      push('number', content.slice(start, i), start);
+    } else if (content.startsWith('<>', i)) {
+      i += 2;
+      push('punct', '<>', start);
+    } else {
+      i++;
+      push('punct', char, start);
+    }
+  }
+
+  return tokens;
+}
+
+function dedent(text: string): string {
+  const lines = text.replace(/^\s*\n/, '').replace(/\n\s*$/, '').split('\n');
+  const indent = lines[0].match(/^\s*/)![0].length;
+  return lines.map((line) => line.slice(Math.min(indent, line.match(/^\s*/)![0].length))).join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+
+class DbmlSchemaReader {
+  private readonly models: PrismaModel[] = [];
+  private readonly enums: PrismaEnum[] = [];
+  private readonly tables = new Map<string, PrismaModel>(); // By [schema.]name and alias
+  private readonly refs: RefDraft[] = [];
+  private readonly columnTypes: ColumnType[] = [];
+  private readonly pendingDefaults = new Map<PrismaField, Token[]>(); // Enum and boolean defaults need the type
+  private readonly tableGroups: { name: string; tables: TableName[] }[] = [];
+  private project?: PrismaSchema['project'];
+  private index = 0;
+
+  constructor(private readonly content: string, private readonly tokens: Token[]) {}
+
+  read(): PrismaSchema {
+    while (this.index < this.tokens.length) {
+      const start = this.index;
+      try {
+        this.readElement();
+      } catch (error) {
+        // An element we can't follow shouldn't hide the rest of the schema
+        debugLog('Skipping DBML element:', error instanceof Error ? error.message : error);
+        this.index = start + 1;
+        this.skipToNextElement();
+      }
+    }
+
+    this.resolveColumnTypes();
+    for (const ref of this.refs) {
+      this.resolveRef(ref);
+    }
+    return { models: this.models, enums: this.enums, ...(this.project && { project: this.project }) };
+  }
+
+  /**
+   * TableGroups name the model group, after categorizeModels has guessed the others
+   */
+  applyTableGroups() {
+    for (const group of this.tableGroups) {
+      for (const tableName of group.tables) {
+        const model = this.findTable(tableName);
+        if (model) {
+          model.group = group.name;
+          model.groupInferred = false;
+        }
+      }
+    }
+  }
+
+  private readElement() {
+    const keyword = this.next();
+    switch (keyword.kind === 'word' ? keyword.value.toLowerCase() : '') {
+      case 'table':
+        this.readTable(keyword.start);
+        break;
+      case 'enum':
+        this.readEnum(keyword.start);
+        break;
+      case 'ref':
+        this.readRef();
+        break;
+      case 'tablegroup':
+        this.readTableGroup();
+        break;
+      case 'project':
+        this.readProject();
+        break;
+      default:
+        // Sticky notes, TablePartial and anything newer: skip the name, settings and block
+        while (this.index < this.tokens.length && !this.isPunct('{') && !this.isTopLevelKeyword()) {
+          this.next();
+        }
+        if (this.isPunct('{')) {
+          this.skipBlock();
+        }
+    }
+  }
+
+  private readTable(start: number) {
+    const tableName = this.readTableName();
+    let alias: string | undefined;
+    if (this.acceptKeyword('as')) {
+      alias = this.readName();
+    }
+    const settings = this.isPunct('[') ? this.readSettings() : [];
+
+    const model = this.addModel(tableName, alias);
+    model.documentation = noteOf(settings);
+    this.expectPunct('{');
+
+    while (!this.isPunct('}')) {
+      if (this.isNote()) {
+        model.documentation = this.readNote();
+      } else if (this.isKeyword('indexes') && this.isPunct('{', 1)) {
+        this.next();
+        this.readIndexes(model);
+      } else if (this.acceptPunct('~')) {
+        // TablePartial injection; its columns aren't known here
+        this.readName();
+      } else {
+        this.readColumn(model, tableName);
+      }
+    }
+    model.sourceRange = { start, end: this.expectPunct('}').end };
+  }
+
+  private readColumn(model: PrismaModel, tableName: TableName) {
+    const start = this.peek().start;
+    const field: PrismaField = {
+      name: this.readName(),
+      type: 'String',
+      isId: false,
+      isUnique: false,
+      isRequired: false,
+      isList: false,
+      hasDefault: false,
+      isForeignKey: false,
+      isEnum: false,
+    };
+    model.fields.push(field);
+
+    // Type: word, schema.enum, "quoted type", with optional (args) and []
+    let typeName = this.readName();
+    while (this.acceptPunct('.')) {
+      typeName = this.readName();
+    }
+    let args: string[] = [];
+    if (this.isPunct('(')) {
+      args = this.readGroup().filter((token) => token.kind !== 'punct').map((token) => token.value);
+    }
+    if (this.isPunct('[') && this.isPunct(']', 1)) {
+      this.next();
+      this.next();
+      field.isList = true;
+    }
+    if (typeName.endsWith('[]')) {
+      typeName = typeName.slice(0, -2);
+      field.isList = true;
+    }
+    this.columnTypes.push({ field, name: typeName, args });
+
+    for (const setting of this.isPunct('[') ? this.readSettings() : []) {
+      switch (setting.key) {
+        case 'pk':
+        case 'primary key':
+          field.isId = true;
+          field.isRequired = true;
+          model.primaryKey = [field.name];
+          break;
+        case 'not null':
+          field.isRequired = true;
+          break;
+        case 'null':
+          field.isRequired = false;
+          break;
+        case 'unique':
+          field.isUnique = true;
+          break;
+        case 'increment':
+          setDefault(field, 'autoincrement()');
+          break;
+        case 'note':
+          field.documentation = setting.value[0]?.value;
+          break;
+        case 'default':
+          this.pendingDefaults.set(field, setting.value);
+          break;
+        case 'ref': {
+          const [operator, ...endpoint] = setting.value;
+          this.refs.push({
+            left: { table: tableName, columns: [field.name] },
+            operator: operator.value,
+            right: this.parseEndpoint(endpoint),
+          });
+          break;
+        }
+      }
+    }
+
+    field.sourceRange = { start, end: this.tokens[this.index - 1].end };
+  }
+
+  private readIndexes(model: PrismaModel) {
+    this.expectPunct('{');
+    while (!this.acceptPunct('}')) {
+      // (a, b) composite, a single column, or a `expression` index the diagram can't show
+      const columns = this.isPunct('(')
+        ? this.readGroup().filter((token) => token.kind === 'word' || token.kind === 'identifier').map((token) => token.value)
+        : this.peek().kind === 'expression' ? (this.next(), []) : [this.readName()];
+      const settings = this.isPunct('[') ? this.readSettings() : [];
+      if (columns.length === 0) {
+        continue;
+      }
+
+      const name = settings.find((setting) => setting.key === 'name')?.value[0]?.value;
+      if (settings.some((setting) => setting.key === 'pk')) {
+        model.primaryKey = columns;
+        for (const field of model.fields.filter((candidate) => columns.includes(candidate.name))) {
+          field.isId = true;
+          field.isRequired = true;
+        }
+      } else if (settings.some((setting) => setting.key === 'unique')) {
+        const field = columns.length === 1 && !name ? model.fields.find((candidate) => candidate.name === columns[0]) : undefined;
+        if (field) {
+          field.isUnique = true;
+        } else {
+          (model.uniqueConstraints ??= []).push({ name, columns });
+        }
+      } else {
+        (model.indexes ??= []).push({ name, columns, unique: false });
+      }
+    }
+  }
+
+  private readEnum(start: number) {
+    const { name } = this.readTableName();
+    const settings = this.isPunct('[') ? this.readSettings() : [];
+    const enumType: PrismaEnum = { name, values: [], documentation: noteOf(settings) };
+    this.enums.push(enumType);
+
+    this.expectPunct('{');
+    while (!this.isPunct('}')) {
+      if (this.isNote()) {
+        enumType.documentation = this.readNote();
+        continue;
+      }
+      const value = this.readName();
+      const valueName = enumValueName(value);
+      const valueSettings = this.isPunct('[') ? this.readSettings() : [];
+      enumType.values.push({
+        name: valueName,
+        ...(valueName !== value && { map: value }),
+        ...(noteOf(valueSettings) && { documentation: noteOf(valueSettings) }),
+      });
+    }
+    enumType.sourceRange = { start, end: this.expectPunct('}').end };
+  }
+
+  private readRef() {
+    // Ref name: a.b > c.d [settings]  or  Ref name { a.b > c.d [settings] }
+    const name = this.isPunct(':') || this.isPunct('{') ? undefined : this.readName();
+    if (this.acceptPunct(':')) {
+      this.readRelationship(name);
+      return;
+    }
+
+    this.expectPunct('{');
+    while (!this.acceptPunct('}')) {
+      this.readRelationship(name);
+    }
+  }
+
+  private readRelationship(name?: string) {
+    const left = this.readEndpoint();
+    const operator = this.next();
+    if (!['<', '>', '-', '<>'].includes(operator.value)) {
+      throw new Error(`Unknown relationship "${operator.value}"`);
+    }
+    const right = this.readEndpoint();
+    const settings = this.isPunct('[') ? this.readSettings() : [];
+    const action = (key: string) => {
+      const value = settings.find((setting) => setting.key === key)?.value.map((token) => token.value).join(' ');
+      return value ? REFERENTIAL_ACTIONS[value.toLowerCase()] : undefined;
+    };
+    this.refs.push({ name, left, operator: operator.value, right, onDelete: action('delete'), onUpdate: action('update') });
+  }
+
+  private readTableGroup() {
+    const name = this.readName();
+    if (this.isPunct('[')) {
+      this.readSettings();
+    }
+
+    const tables: TableName[] = [];
+    this.expectPunct('{');
+    while (!this.acceptPunct('}')) {
+      if (this.isNote()) {
+        this.readNote();
+      } else {
+        tables.push(this.readTableName());
+      }
+    }
+    this.tableGroups.push({ name, tables });
+  }
+
+  // Project shop { database_type: 'PostgreSQL' Note: '...' }; only the name and note are kept
+  private readProject() {
+    const name = this.isPunct('{') ? undefined : this.readName();
+    let documentation: string | undefined;
+    this.expectPunct('{');
+    while (!this.acceptPunct('}')) {
+      if (this.isNote()) {
+        documentation = this.readNote();
+      } else {
+        this.next();
+        if (this.acceptPunct(':')) {
+          this.next();
+        }
+      }
+    }
+    if (name) {
+      this.project = { name, ...(documentation && { documentation }) };
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Resolution
+
+  private resolveColumnTypes() {
+    for (const { field, name, args } of this.columnTypes) {
+      const enumType = this.enums.find((candidate) => candidate.name === name);
+      if (enumType) {
+        field.type = enumType.name;
+        field.isEnum = true;
+      } else {
+        setSqlType(field, name, args);
+      }
+
+      const value = this.pendingDefaults.get(field);
+      if (value) {
+        this.applyDefault(field, value);
+      }
+    }
+  }
+
+  private applyDefault(field: PrismaField, tokens: Token[]) {
+    const text = tokens.map((token) => token.value).join('');
+    const token = tokens[0];
+    if (!token || /^null$/i.test(text)) {
+      return;
+    }
+
+    if (token.kind === 'string') {
+      setDefault(field, convertStringDefault(token.value, field));
+    } else if (token.kind === 'expression') {
+      setDefault(field, convertExpressionDefault(token.value.trim()));
+    } else if (/^[-+]?\d+(\.\d+)?$/.test(text)) {
+      setDefault(field, field.type === 'Boolean' ? String(Number(text) !== 0) : text);
+    } else if (/^(true|false)$/i.test(text)) {
+      setDefault(field, text.toLowerCase());
+    } else if (field.isEnum) {
+      // Unquoted enum value
+      setDefault(field, enumValueName(text));
+    }
+  }
+
+  private resolveRef(ref: RefDraft) {
+    const left = this.findTable(ref.left.table);
+    const right = this.findTable(ref.right.table);
+    if (!left || !right) {
+      return;
+    }
+
+    if (ref.operator === '<>') {
+      // Many-to-many: list fields on both sides, like a Prisma implicit relation
+      addListRelation(left, right);
+      addListRelation(right, left);
+      return;
+    }
+
+    // The "many" side (and the left side of a one-to-one) holds the foreign key
+    const [model, endpoint, target, targetEndpoint] = ref.operator === '<'
+      ? [right, ref.right, left, ref.left]
+      : [left, ref.left, right, ref.right];
+    const field = model.fields.find((candidate) => candidate.name === endpoint.columns[0]);
+    if (!field) {
+      return;
+    }
+
+    field.isForeignKey = true;
+    field.relationToModel = target.name;
+    field.referencesField = targetEndpoint.columns[0];
+    field.relationReferences = targetEndpoint.columns;
+    if (endpoint.columns.length > 1) {
+      field.relationFields = endpoint.columns;
+    }
+    field.relationMap = ref.name;
+    field.onDelete = ref.onDelete;
+    field.onUpdate = ref.onUpdate;
+
+    if (ref.operator === '-') {
+      if (endpoint.columns.length === 1) {
+        field.isUnique = true;
+      } else {
+        (model.uniqueConstraints ??= []).push({ columns: endpoint.columns });
+      }
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Schema bookkeeping
+
+  private addModel(tableName: TableName, alias?: string): PrismaModel {
+    // Tables with the same name in different schemas get the schema as a prefix
+    const taken = this.models.some((model) => model.name === tableName.name);
+    const model: PrismaModel = {
+      name: taken && tableName.schema ? `${tableName.schema}_${tableName.name}` : tableName.name,
+      fields: [],
+    };
+    if (model.name !== tableName.name) {
+      model.map = tableName.name;
+    }
+    if (tableName.schema) {
+      model.schema = tableName.schema;
+    }
+
+    this.models.push(model);
+    if (tableName.schema) {
+      this.tables.set(`${tableName.schema}.${tableName.name}`, model);
+    }
+    if (!this.tables.has(tableName.name)) {
+      this.tables.set(tableName.name, model);
+    }
+    if (alias) {
+      this.tables.set(alias, model);
+    }
+    return model;
+  }
+
+  private findTable(tableName: TableName): PrismaModel | undefined {
+    return (tableName.schema && this.tables.get(`${tableName.schema}.${tableName.name}`)) || this.tables.get(tableName.name);
+  }
+
+  // -------------------------------------------------------------------------
+  // Token helpers
+
+  private peek(offset = 0): Token {
+    const token = this.tokens[this.index + offset];
+    if (!token && offset === 0) {
+      throw new Error('Unexpected end of file');
+    }
+    return token;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.tokens[this.index + offset];
+    return token?.kind === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.tokens[this.index + offset];
+    return token?.kind === 'punct' && token.value === value;
+  }
+
+  private acceptPunct(value: string): Token | undefined {
+    return this.isPunct(value) ? this.next() : undefined;
+  }
+
+  private expectPunct(value: string): Token {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.value !== value) {
+      throw new Error(`Expected "${value}" but found "${token.value}"`);
+    }
+    return token;
+  }
+
+  private isTopLevelKeyword(): boolean {
+    const token = this.tokens[this.index];
+    return token?.kind === 'word' && TOP_LEVEL_KEYWORDS.has(token.value.toLowerCase());
+  }
+
+  // Note: 'text' or Note { 'text' } inside a table, enum or group
+  private isNote(): boolean {
+    return this.isKeyword('note') && (this.isPunct(':', 1) || this.isPunct('{', 1));
+  }
+
+  private readNote(): string {
+    this.next();
+    if (this.acceptPunct(':')) {
+      return this.next().value;
+    }
+    this.expectPunct('{');
+    const note = this.next().value;
+    this.expectPunct('}');
+    return note;
+  }
+
+  private readName(): string {
+    const token = this.next();
+    if (token.kind !== 'word' && token.kind !== 'identifier') {
+      throw new Error(`Expected a name but found "${token.value}"`);
+    }
+    return token.value;
+  }
+
+  private readTableName(): TableName {
+    const first = this.readName();
+    return this.acceptPunct('.') ? { schema: schemaName(first), name: this.readName() } : { name: first };
+  }
+
+  private readEndpoint(): Endpoint {
+    const start = this.index;
+    this.readName();
+    while (this.acceptPunct('.')) {
+      if (this.isPunct('(')) {
+        this.readGroup();
+        break;
+      }
+      this.readName();
+    }
+    return this.parseEndpoint(this.tokens.slice(start, this.index));
+  }
+
+  /**
+   * [schema.]table.column or [schema.]table.(a, b)
+   */
+  private parseEndpoint(tokens: Token[]): Endpoint {
+    const group = tokens.findIndex((token) => token.kind === 'punct' && token.value === '(');
+    const path = (group === -1 ? tokens : tokens.slice(0, group))
+      .filter((token) => token.kind === 'word' || token.kind === 'identifier')
+      .map((token) => token.value);
+    const columns = group === -1
+      ? path.splice(-1)
+      : tokens.slice(group).filter((token) => token.kind === 'word' || token.kind === 'identifier').map((token) => token.value);
+    if (path.length === 0 || columns.length === 0) {
+      throw new Error(`Invalid relationship endpoint "${tokens.map((token) => token.value).join('')}"`);
+    }
+    return {
+      table: path.length > 1 ? { schema: schemaName(path[0]), name: path[1] } : { name: path[0] },
+      columns,
+    };
+  }
+
+  private readGroup(): Token[] {
+    const tokens = [this.expectPunct('(')];
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'punct' && token.value === '(') depth++;
+      if (token.kind === 'punct' && token.value === ')') depth--;
+      tokens.push(token);
+    }
+    return tokens;
+  }
+
+  /**
+   * [pk, not null, default: 'x', ref: > users.id] as lowercase keys and value tokens
+   */
+  private readSettings(): Setting[] {
+    this.expectPunct('[');
+    const settings: Setting[] = [];
+    while (!this.acceptPunct(']')) {
+      const keyWords: string[] = [];
+      while (this.peek().kind === 'word') {
+        keyWords.push(this.next().value.toLowerCase());
+      }
+
+      const value: Token[] = [];
+      if (this.acceptPunct(':')) {
+        while (!this.isPunct(',') && !this.isPunct(']')) {
+          value.push(this.next());
+        }
+      }
+      if (keyWords.length === 0 && value.length === 0) {
+        // Something we don't understand, e.g. a color (#3498DB) without a key
+        this.next();
+      }
+      settings.push({ key: keyWords.join(' '), value });
+      this.acceptPunct(',');
+    }
+    return settings;
+  }
+
+  private skipBlock() {
+    this.expectPunct('{');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind === 'punct' && token.value === '{') depth++;
+      if (token.kind === 'punct' && token.value === '}') depth--;
+    }
+  }
+
+  // Elements start unindented, unlike the columns and values inside them
+  private skipToNextElement() {
+    while (this.index < this.tokens.length) {
+      const start = this.peek().start;
+      if (this.isTopLevelKeyword() && (start === 0 || this.content[start - 1] === '\n')) {
+        return;
+      }
+      this.next();
+    }
+  }
+}
+
+function noteOf(settings: Setting[]): string | undefined {
+  return settings.find((setting) => setting.key === 'note')?.value[0]?.value;
+}
+
+function schemaName(schema: string): string | undefined {
+  return schema === DEFAULT_SCHEMA ? undefined : schema;
+}
+
+function addListRelation(model: PrismaModel, target: PrismaModel) {
+  let name = target.name;
+  for (let i = 2; model.fields.some((field) => field.name === name); i++) {
+    name = `${target.name}${i}`;
+  }
+  model.fields.push({
+    name,
+    type: target.name,
+    isId: false,
+    isUnique: false,
+    isRequired: false,
+    isList: true,
+    hasDefault: false,
+    isForeignKey: false,
+    relationToModel: target.name,
+    isEnum: false,
+  });
+}
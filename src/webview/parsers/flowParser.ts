@@ -1,12 +1,14 @@
 import { Node, Edge, MarkerType } from 'reactflow';
 import { FlowDiagram, FlowNode as FlowNodeType, FlowEdge as FlowEdgeType, FlowGroup, FlowStyle, FlowColor } from '../types/diagrams';
 import { layoutFlowDiagram } from '../elkLayout';
+import { findYamlEntryRanges } from './yamlPath';
 
 export interface ParsedFlowDiagram {
   nodes: Record<string, FlowNodeType>;
   edges: FlowEdgeType[];
   groups?: Record<string, FlowGroup>;
   style?: FlowStyle;
+  direction?: 'DOWN' | 'RIGHT'; // Auto-layout direction from the layout section
   metadata: {
     name: string;
     description?: string;
@@ -15,7 +17,11 @@ export interface ParsedFlowDiagram {
 
 export function parseFlowYaml(content: string): ParsedFlowDiagram {
   const yaml = require('yaml');
-  const parsed = yaml.parse(content) as FlowDiagram;
+  const doc = yaml.parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw doc.errors[0];
+  }
+  const parsed = doc.toJS() as FlowDiagram;
 
   // Validate required fields
   if (!parsed.diagram_type || parsed.diagram_type !== 'flow') {
@@ -32,6 +38,7 @@ export function parseFlowYaml(content: string): ParsedFlowDiagram {
 
   // Coerce types to ensure proper string/number values
   const nodes: Record<string, FlowNodeType> = {};
+  const nodeRanges = findYamlEntryRanges(doc, content, ['nodes']);
   for (const [nodeId, node] of Object.entries(parsed.nodes)) {
     nodes[nodeId] = {
       ...node,
@@ -43,6 +50,7 @@ export function parseFlowYaml(content: string): ParsedFlowDiagram {
         x: Number(node.position.x),
         y: Number(node.position.y),
       } : undefined,
+      sourceRange: nodeRanges.get(nodeId),
     };
   }
 
@@ -65,6 +73,7 @@ export function parseFlowYaml(content: string): ParsedFlowDiagram {
     edges,
     groups: parsed.groups,
     style: parsed.style,
+    direction: parsed.layout?.direction === 'RIGHT' ? 'RIGHT' : undefined,
     metadata,
   };
 }
@@ -91,6 +100,7 @@ export async function convertFlowToReactFlow(
         group: flowNode.group,
         groupLabel: groupLabel,
         color: color,
+        sourceRange: flowNode.sourceRange,
       },
       // Let nodes auto-size based on content
       draggable: true,
@@ -164,7 +174,7 @@ export async function convertFlowToReactFlow(
 
   // Apply ELK layout only if no manual positions are set
   if (!hasManualPositions) {
-    return layoutFlowDiagram(nodes, edges);
+    return layoutFlowDiagram(nodes, edges, parsed.direction);
   }
 
   return { nodes, edges };
@@ -253,6 +263,8 @@ function colorToHex(color: FlowColor): string {
     orange: '#f97316',
     purple: '#8b5cf6',
     gray: '#6b7280',
+    yellow: '#fbbf24',
+    teal: '#14b8a6',
   };
 
   return colorMap[color] || '#3b82f6';
@@ -0,0 +1,704 @@
+// Mermaid Parser
+// Turns a Mermaid flowchart, sequenceDiagram or erDiagram block into a .cryml diagram
+
+import * as yaml from 'yaml';
+import {
+  AnyDiagram,
+  DiagramMetadata,
+  ERDDiagram,
+  ERDModel,
+  ERDField,
+  FlowDiagram,
+  FlowNode,
+  SequenceDiagram,
+  SequenceParticipant,
+  SequenceBlock,
+  SequenceNote,
+  ArrowType,
+  BlockType,
+} from '../types/diagrams';
+import { debugLog } from '../debugLog';
+
+// Node shapes, longest opening first; circles and stadiums become start or end nodes depending on their edges
+const FLOW_SHAPES: { open: string; close: string[]; type: FlowNode['type'] | 'terminal' }[] = [
+  { open: '(((', close: [')))'], type: 'end' },
+  { open: '((', close: ['))'], type: 'terminal' },
+  { open: '([', close: ['])'], type: 'terminal' },
+  { open: '[(', close: [')]'], type: 'process' },
+  { open: '[[', close: [']]'], type: 'process' },
+  { open: '[/', close: ['/]', '\\]'], type: 'process' },
+  { open: '[\\', close: ['\\]', '/]'], type: 'process' },
+  { open: '{{', close: ['}}'], type: 'process' },
+  { open: '[', close: [']'], type: 'process' },
+  { open: '(', close: [')'], type: 'process' },
+  { open: '{', close: ['}'], type: 'decision' },
+  { open: '>', close: [']'], type: 'note' },
+];
+
+// Longest first, so -->> isn't read as -->
+const SEQUENCE_ARROWS: [string, ArrowType][] = [
+  ['<<-->>', 'dashed'],
+  ['<<->>', 'solid'],
+  ['-->>', 'dashed'],
+  ['->>', 'solid'],
+  ['--)', 'dot'],
+  ['-)', 'dot'],
+  ['--x', 'dashed'],
+  ['-x', 'solid'],
+  ['-->', 'open_dashed'],
+  ['->', 'open_solid'],
+];
+
+const BLOCK_TYPES: { [keyword: string]: BlockType } = {
+  alt: 'alt',
+  opt: 'opt',
+  loop: 'loop',
+  par: 'par',
+  critical: 'critical',
+  break: 'neg',
+};
+
+// Prisma scalar for common Mermaid / SQL attribute types
+const ERD_TYPES: { [type: string]: string } = {
+  string: 'String',
+  text: 'String',
+  varchar: 'String',
+  char: 'String',
+  uuid: 'String',
+  int: 'Int',
+  integer: 'Int',
+  smallint: 'Int',
+  serial: 'Int',
+  bigint: 'BigInt',
+  long: 'BigInt',
+  bigserial: 'BigInt',
+  float: 'Float',
+  double: 'Float',
+  real: 'Float',
+  decimal: 'Decimal',
+  numeric: 'Decimal',
+  money: 'Decimal',
+  bool: 'Boolean',
+  boolean: 'Boolean',
+  date: 'DateTime',
+  datetime: 'DateTime',
+  timestamp: 'DateTime',
+  timestamptz: 'DateTime',
+  time: 'DateTime',
+  json: 'Json',
+  jsonb: 'Json',
+  bytes: 'Bytes',
+  blob: 'Bytes',
+  bytea: 'Bytes',
+  binary: 'Bytes',
+};
+
+/**
+ * Convert a Mermaid block to .cryml YAML. The Mermaid title names the diagram, else defaultName.
+ */
+export function mermaidToYaml(content: string, defaultName = 'Mermaid Diagram'): string {
+  return yaml.stringify(parseMermaid(content, defaultName));
+}
+
+/**
+ * Parse a Mermaid flowchart (or graph), sequenceDiagram or erDiagram
+ */
+export function parseMermaid(content: string, defaultName = 'Mermaid Diagram'): AnyDiagram {
+  const { title, body } = splitFrontMatter(content);
+  const rawLines = body.split(/\r?\n/).map((line) => line.trim());
+
+  // Comments above the diagram keyword describe the diagram
+  const firstStatement = rawLines.findIndex((line) => line.length > 0 && !line.startsWith('%%'));
+  const description = rawLines.slice(0, Math.max(firstStatement, 0))
+    .filter((line) => line.startsWith('%%') && !line.startsWith('%%{'))
+    .map((line) => line.replace(/^%%\s?/, ''))
+    .join('\n')
+    .trim();
+
+  const lines = rawLines
+    .map((line) => line.replace(/%%.*$/, '').trim())
+    .filter((line) => line.length > 0);
+  if (lines.length === 0) {
+    throw new Error('Empty Mermaid diagram');
+  }
+
+  const [keyword, direction] = lines[0].split(/\s+/);
+  const metadata: DiagramMetadata = { name: title || defaultName, ...(description && { description }) };
+  switch (keyword) {
+    case 'flowchart':
+    case 'graph':
+      return new FlowReader(metadata, direction).read(lines.slice(1).flatMap(splitStatements));
+    case 'sequenceDiagram':
+      return new SequenceReader(metadata).read(lines.slice(1));
+    case 'erDiagram':
+      return new ErdReader(metadata).read(lines.slice(1));
+    default:
+      throw new Error(`Unsupported Mermaid diagram "${keyword}" (expected flowchart, sequenceDiagram or erDiagram)`);
+  }
+}
+
+function splitFrontMatter(content: string): { title?: string; body: string } {
+  const match = content.match(/^\s*---\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/);
+  if (!match) {
+    return { body: content };
+  }
+  const frontMatter = yaml.parse(match[1]);
+  return {
+    title: frontMatter?.title !== undefined ? String(frontMatter.title) : undefined,
+    body: content.slice(match[0].length),
+  };
+}
+
+// ============================================================================
+// Flowcharts
+// ============================================================================
+
+class FlowReader {
+  private readonly nodes: Record<string, Omit<FlowNode, 'type'> & { type: FlowNode['type'] | 'terminal' }> = {};
+  private readonly diagram: FlowDiagram;
+  private readonly subgraphs: string[] = [];
+
+  constructor(metadata: DiagramMetadata, private readonly direction?: string) {
+    this.diagram = { diagram_type: 'flow', metadata, nodes: {}, edges: [] };
+  }
+
+  read(statements: string[]): FlowDiagram {
+    for (const statement of statements) {
+      const [keyword] = statement.split(/\s+/);
+      if (keyword === 'subgraph') {
+        this.openSubgraph(statement.slice(keyword.length).trim());
+      } else if (keyword === 'end') {
+        this.subgraphs.pop();
+      } else if (!['direction', 'style', 'classDef', 'class', 'click', 'linkStyle'].includes(keyword)) {
+        try {
+          this.readChain(statement);
+        } catch (error) {
+          debugLog('Skipping Mermaid statement:', statement, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    // Terminals are start when nothing leads to them, otherwise end (or a step in between)
+    for (const [id, node] of Object.entries(this.nodes)) {
+      if (node.type === 'terminal') {
+        const hasIncoming = this.diagram.edges.some((edge) => edge.to === id);
+        const hasOutgoing = this.diagram.edges.some((edge) => edge.from === id);
+        node.type = !hasIncoming ? 'start' : !hasOutgoing ? 'end' : 'process';
+      }
+    }
+    this.diagram.nodes = this.nodes as Record<string, FlowNode>;
+    if (this.diagram.groups && Object.keys(this.diagram.groups).length === 0) {
+      delete this.diagram.groups;
+    }
+
+    // flowchart LR / RL is kept as a left-to-right layout; TD, TB and BT are the default top-down one
+    if (this.direction === 'LR' || this.direction === 'RL') {
+      this.diagram.layout = { direction: 'RIGHT' };
+    }
+    return this.diagram;
+  }
+
+  // subgraph id [label], subgraph id["label"], subgraph "label" or subgraph some title
+  private openSubgraph(header: string) {
+    const match = header.match(/^([\w-]+)\s*\[\s*(.*?)\s*\]$/);
+    const label = decodeText(unquote(match ? match[2] : header));
+    const id = match ? match[1] : label.replace(/[^\w-]+/g, '_');
+    this.diagram.groups = this.diagram.groups || {};
+    this.diagram.groups[id] = label !== id ? { label } : {};
+    this.subgraphs.push(id);
+  }
+
+  // A --> B{Label} -->|yes| C & D
+  private readChain(statement: string) {
+    const cursor = { text: statement, index: 0 };
+    let sources = this.readNodeGroup(cursor);
+
+    while (cursor.index < cursor.text.length) {
+      const label = readLink(cursor);
+      const targets = this.readNodeGroup(cursor);
+      for (const from of sources) {
+        for (const to of targets) {
+          this.diagram.edges.push({ from, to, ...(label && { label }) });
+        }
+      }
+      sources = targets;
+    }
+  }
+
+  private readNodeGroup(cursor: Cursor): string[] {
+    const ids = [this.readNode(cursor)];
+    while (skipSpace(cursor) && cursor.text[cursor.index] === '&') {
+      cursor.index++;
+      ids.push(this.readNode(cursor));
+    }
+    return ids;
+  }
+
+  private readNode(cursor: Cursor): string {
+    skipSpace(cursor);
+    const idMatch = cursor.text.slice(cursor.index).match(/^\w+(?:-(?=\w)\w+)*/);
+    if (!idMatch) {
+      throw new Error(`Expected a node at "${cursor.text.slice(cursor.index)}"`);
+    }
+    const id = idMatch[0];
+    cursor.index += id.length;
+
+    const rest = cursor.text.slice(cursor.index);
+    const shape = FLOW_SHAPES.find((candidate) => rest.startsWith(candidate.open));
+    let label: string | undefined;
+    if (shape) {
+      cursor.index += shape.open.length;
+      label = readShapeText(cursor, shape.close);
+    }
+    cursor.index += (cursor.text.slice(cursor.index).match(/^:::[\w-]+/) || [''])[0].length;
+
+    if (!this.nodes[id]) {
+      this.nodes[id] = { type: shape?.type ?? 'process', label: label ?? id };
+    } else if (shape) {
+      this.nodes[id].type = shape.type;
+      this.nodes[id].label = label ?? id;
+    }
+
+    // A node belongs to the innermost subgraph it was last referenced in, even when declared before it
+    const group = this.subgraphs[this.subgraphs.length - 1];
+    if (group) {
+      this.nodes[id].group = group;
+    }
+    return id;
+  }
+}
+
+interface Cursor {
+  text: string;
+  index: number;
+}
+
+// Text inside a node shape, either quoted or up to the closing bracket
+function readShapeText(cursor: Cursor, closers: string[]): string {
+  const rest = cursor.text.slice(cursor.index);
+  const quoted = rest.match(/^\s*"([^"]*)"\s*/);
+  if (quoted) {
+    const closer = closers.find((candidate) => rest.startsWith(candidate, quoted[0].length));
+    if (closer) {
+      cursor.index += quoted[0].length + closer.length;
+      return decodeText(quoted[1]);
+    }
+  }
+
+  const end = Math.min(...closers.map((closer) => rest.indexOf(closer)).filter((index) => index >= 0));
+  if (end === Infinity) {
+    throw new Error(`Unclosed node shape at "${rest}"`);
+  }
+  const closer = closers.find((candidate) => rest.startsWith(candidate, end))!;
+  cursor.index += end + closer.length;
+  return decodeText(rest.slice(0, end).trim());
+}
+
+/**
+ * Read a link and return its label: -->, ---, -.->, ==>, --o, --x, <-->, with |text| after
+ * the arrow or "-- text -->" inside it
+ */
+function readLink(cursor: Cursor): string | undefined {
+  skipSpace(cursor);
+  const rest = cursor.text.slice(cursor.index);
+  const inline = rest.match(/^<?(--|==|-\.)\s+(.+?)\s+(-{2,}|={2,}|\.-+)[>ox]?(?=[\s\w])/);
+  if (inline) {
+    cursor.index += inline[0].length;
+    return decodeText(unquote(inline[2]));
+  }
+
+  const arrow = rest.match(/^<?(-{2,}|={2,}|-\.+-)[>ox]?/);
+  if (!arrow) {
+    throw new Error(`Expected a link at "${rest}"`);
+  }
+  cursor.index += arrow[0].length;
+  const piped = cursor.text.slice(cursor.index).match(/^\s*\|([^|]*)\|/);
+  if (piped) {
+    cursor.index += piped[0].length;
+    return decodeText(unquote(piped[1].trim()));
+  }
+  return undefined;
+}
+
+function skipSpace(cursor: Cursor): true {
+  while (/\s/.test(cursor.text[cursor.index] || '')) {
+    cursor.index++;
+  }
+  return true;
+}
+
+// Flowchart statements can be separated by ; outside quotes and brackets
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let start = 0;
+  for (let index = 0; index < line.length; index++) {
+    const character = line[index];
+    if (character === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && '[({'.includes(character)) {
+      depth++;
+    } else if (!inQuotes && '])}'.includes(character)) {
+      depth = Math.max(0, depth - 1);
+    } else if (!inQuotes && depth === 0 && character === ';') {
+      statements.push(line.slice(start, index));
+      start = index + 1;
+    }
+  }
+  statements.push(line.slice(start));
+  return statements.map((statement) => statement.trim()).filter((statement) => statement.length > 0);
+}
+
+// ============================================================================
+// Sequence diagrams
+// ============================================================================
+
+interface OpenBlock {
+  block?: SequenceBlock; // Undefined for rect highlights, which only group visually
+  sections: { condition: string; messages: string[] }[];
+}
+
+class SequenceReader {
+  private readonly diagram: SequenceDiagram;
+  private readonly open: OpenBlock[] = [];
+  private readonly blockCounts = new Map<BlockType, number>();
+  private blockOrder = 0;
+  private box?: string;
+
+  constructor(metadata: DiagramMetadata) {
+    this.diagram = { diagram_type: 'sequence', metadata, participants: {}, messages: [] };
+  }
+
+  read(lines: string[]): SequenceDiagram {
+    for (const line of lines) {
+      try {
+        this.readLine(line);
+      } catch (error) {
+        debugLog('Skipping Mermaid statement:', line, error instanceof Error ? error.message : error);
+      }
+    }
+    return this.diagram;
+  }
+
+  private readLine(line: string) {
+    const [keyword] = line.split(/\s+/);
+    const rest = line.slice(keyword.length).trim();
+
+    if (keyword === 'participant' || keyword === 'actor') {
+      const match = rest.match(/^(\S+?)(?:@\{.*\})?(?:\s+as\s+(.+))?$/);
+      if (match) {
+        this.addParticipant(match[1], keyword, match[2] ? decodeText(match[2]) : undefined);
+      }
+    } else if (keyword === 'create') {
+      this.readLine(rest);
+    } else if (keyword === 'box') {
+      this.box = decodeText(rest.replace(/^(rgba?\([^)]*\)|transparent|#[0-9a-fA-F]{3,8})\s*/, '')) || undefined;
+    } else if (keyword === 'title' || keyword === 'title:') {
+      this.diagram.metadata.name = decodeText(rest);
+    } else if (keyword in BLOCK_TYPES || keyword === 'rect') {
+      this.openBlock(keyword, rest);
+    } else if (['else', 'and', 'option'].includes(keyword)) {
+      this.open[this.open.length - 1]?.sections.push({ condition: decodeText(rest), messages: [] });
+    } else if (keyword === 'end') {
+      this.closeBlock();
+    } else if (/^note$/i.test(keyword)) {
+      this.readNote(rest);
+    } else if (!['autonumber', 'activate', 'deactivate', 'destroy', 'links', 'link', 'accTitle:', 'accDescr:'].includes(keyword)) {
+      this.readMessage(line);
+    }
+  }
+
+  private addParticipant(id: string, type: SequenceParticipant['type'], label?: string) {
+    if (!this.diagram.participants[id]) {
+      this.diagram.participants[id] = {
+        type,
+        label: label ?? id,
+        ...(this.box && { group: this.box }),
+        order: Object.keys(this.diagram.participants).length,
+      };
+    } else if (label) {
+      this.diagram.participants[id].label = label;
+    }
+  }
+
+  private readMessage(line: string) {
+    const colon = line.indexOf(':');
+    const head = colon >= 0 ? line.slice(0, colon) : line;
+    const arrowMatch = SEQUENCE_ARROWS
+      .map(([arrow, type]) => ({ arrow, type, index: head.indexOf(arrow) }))
+      .filter((candidate) => candidate.index > 0)
+      .sort((a, b) => a.index - b.index || b.arrow.length - a.arrow.length)[0];
+    if (!arrowMatch) {
+      throw new Error('Unrecognized statement');
+    }
+
+    // Activation shorthands: A->>+B, B-->>-A
+    const from = head.slice(0, arrowMatch.index).trim();
+    const to = head.slice(arrowMatch.index + arrowMatch.arrow.length).trim().replace(/^[+-]\s*/, '');
+    if (!from || !to) {
+      throw new Error('Message without a sender or receiver');
+    }
+    this.addParticipant(from, 'participant');
+    this.addParticipant(to, 'participant');
+
+    const id = `msg${this.diagram.messages.length + 1}`;
+    this.diagram.messages.push({
+      id,
+      from,
+      to,
+      label: colon >= 0 ? decodeText(line.slice(colon + 1).trim()) : '',
+      arrow_type: arrowMatch.type,
+      sequence_order: this.diagram.messages.length + 1,
+    });
+    for (const block of this.open) {
+      block.sections[block.sections.length - 1].messages.push(id);
+    }
+  }
+
+  // Note left of A: text, Note right of A: text, Note over A,B: text
+  private readNote(rest: string) {
+    const match = rest.match(/^(?:left of|right of|over)\s+([^:]+?)\s*:\s*(.*)$/i);
+    if (!match) {
+      throw new Error('Unrecognized note');
+    }
+    const participants = match[1].split(',').map((participant) => participant.trim());
+    const note: SequenceNote = {
+      id: `note${(this.diagram.notes?.length ?? 0) + 1}`,
+      text: decodeText(match[2]),
+      position: {
+        ...(participants.length > 1 ? { over: participants } : { participant: participants[0] }),
+        y: this.diagram.messages.length,
+      },
+    };
+    this.diagram.notes = [...(this.diagram.notes || []), note];
+  }
+
+  private openBlock(keyword: string, condition: string) {
+    if (keyword === 'rect') {
+      this.open.push({ sections: [{ condition: '', messages: [] }] });
+      return;
+    }
+
+    const type = BLOCK_TYPES[keyword];
+    const count = (this.blockCounts.get(type) ?? 0) + 1;
+    this.blockCounts.set(type, count);
+    const block: SequenceBlock = {
+      id: `${type}${count}`,
+      type,
+      messages: [],
+      sequence_order: ++this.blockOrder,
+    };
+    this.open.push({ block, sections: [{ condition: decodeText(condition), messages: [] }] });
+  }
+
+  private closeBlock() {
+    // end also closes a participant box
+    const closed = this.open.pop();
+    if (!closed) {
+      this.box = undefined;
+      return;
+    }
+    if (!closed.block) {
+      return;
+    }
+
+    const block = closed.block;
+    block.messages = closed.sections.flatMap((section) => section.messages);
+    if (closed.sections[0].condition) {
+      block.condition = closed.sections[0].condition;
+    }
+    if (closed.sections.length > 1) {
+      block.alt_sections = closed.sections.map((section) => ({
+        ...(section.condition && { condition: section.condition }),
+        messages: section.messages,
+      }));
+    }
+    this.diagram.blocks = [...(this.diagram.blocks || []), block]
+      .sort((a, b) => a.sequence_order - b.sequence_order);
+  }
+}
+
+// ============================================================================
+// ERDs
+// ============================================================================
+
+class ErdReader {
+  private readonly diagram: ERDDiagram;
+  private entity?: ERDModel;
+
+  constructor(metadata: DiagramMetadata) {
+    this.diagram = { diagram_type: 'erd', metadata, models: {} };
+  }
+
+  read(lines: string[]): ERDDiagram {
+    const relationships: string[] = [];
+    for (const line of lines) {
+      if (this.entity) {
+        if (line === '}') {
+          this.entity = undefined;
+        } else {
+          this.readAttribute(line);
+        }
+        continue;
+      }
+
+      // Entity, Entity {, Entity["Alias"] {
+      const entity = line.match(/^("[^"]+"|[\w-]+)\s*(?:\[[^\]]*\])?\s*(\{\s*(\}\s*)?)?$/);
+      if (entity) {
+        const model = this.model(unquote(entity[1]));
+        this.entity = entity[2] && !entity[3] ? model : undefined;
+      } else if (!/^(direction|style|classDef|class)\s/.test(line)) {
+        relationships.push(line);
+      }
+    }
+
+    // Keys are added once every entity has its attributes
+    for (const line of relationships) {
+      try {
+        this.readRelationship(line);
+      } catch (error) {
+        debugLog('Skipping Mermaid statement:', line, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // FK attributes no relationship points at
+    for (const model of Object.values(this.diagram.models)) {
+      for (const field of Object.values(model.fields)) {
+        if (field.attributes?.foreign_key?.table === '') {
+          delete field.attributes.foreign_key;
+        }
+      }
+    }
+    return this.diagram;
+  }
+
+  private model(name: string): ERDModel {
+    this.diagram.models[name] = this.diagram.models[name] || { fields: {} };
+    return this.diagram.models[name];
+  }
+
+  // type name [PK, FK, UK] ["comment"]
+  private readAttribute(line: string) {
+    const match = line.match(/^([\w()\[\],-]+?)\s+([\w\-\[\]*]+)((?:\s*(?:PK|FK|UK)\s*,?)*)\s*(?:"([^"]*)")?$/);
+    if (!match) {
+      debugLog('Skipping Mermaid attribute:', line);
+      return;
+    }
+
+    const [, type, name, keyList, comment] = match;
+    const keys = keyList.split(/[\s,]+/).filter((key) => key.length > 0);
+    const field = convertAttributeType(type);
+    if (keys.includes('PK')) {
+      field.attributes = { ...field.attributes, primary_key: true };
+    }
+    if (keys.includes('UK')) {
+      field.attributes = { ...field.attributes, unique: true };
+    }
+    if (keys.includes('FK')) {
+      // Resolved to a foreign_key once the relationships are read
+      field.attributes = { ...field.attributes, foreign_key: { table: '', column: '' } };
+    }
+    if (comment) {
+      field.description = decodeText(comment);
+    }
+    this.entity!.fields[name.replace(/^\*/, '')] = field;
+  }
+
+  /**
+   * A ||--o{ B : label. The entity on the "many" side (or the right one, one-to-one) holds the key,
+   * using its FK attribute that names the other entity, else its first unresolved FK, else a new
+   * <entity>_id field. Many-to-many relationships become list relations on both entities.
+   */
+  private readRelationship(line: string) {
+    const match = line.match(/^("[^"]+"|[\w-]+)\s*(\|o|\|\||\}o|\}\|)(?:--|\.\.)(o\||\|\||o\{|\|\{)\s*("[^"]+"|[\w-]+)\s*(?::.*)?$/);
+    if (!match) {
+      throw new Error('Unrecognized statement');
+    }
+    const [, leftName, leftCardinality, rightCardinality, rightName] = match;
+    const left = unquote(leftName);
+    const right = unquote(rightName);
+    this.model(left);
+    this.model(right);
+
+    const leftMany = leftCardinality.startsWith('}');
+    const rightMany = rightCardinality.endsWith('{');
+    if (leftMany && rightMany) {
+      this.addListRelation(left, right);
+      this.addListRelation(right, left);
+      return;
+    }
+
+    // The "one" side's cardinality says whether the key is required: || exactly one, |o zero or one
+    const [child, parent, parentCardinality] = leftMany ? [left, right, rightCardinality] : [right, left, leftCardinality];
+    const isRequired = parentCardinality === '||';
+    const fields = this.diagram.models[child].fields;
+    const parentKey = Object.entries(this.diagram.models[parent].fields).find(([, field]) => field.attributes?.primary_key);
+    const unresolved = Object.keys(fields).filter((fieldName) => fields[fieldName].attributes?.foreign_key?.table === '');
+    const fieldName = unresolved.find((candidate) => candidate.toLowerCase().replace(/_/g, '').startsWith(parent.toLowerCase().replace(/_/g, '')))
+      ?? unresolved[0]
+      ?? uniqueFieldName(fields, `${toFieldName(parent)}_id`);
+
+    const field = fields[fieldName] || { field_type: parentKey ? parentKey[1].field_type : 'Int' };
+    field.attributes = {
+      ...field.attributes,
+      foreign_key: { table: parent, column: parentKey ? parentKey[0] : 'id' },
+      ...(!leftMany && !rightMany && { unique: true }),
+    };
+    if (isRequired) {
+      field.constraints = { ...field.constraints, not_null: true };
+    }
+    fields[fieldName] = field;
+  }
+
+  private addListRelation(model: string, target: string) {
+    const fields = this.diagram.models[model].fields;
+    const name = toFieldName(target) + (/s$/i.test(target) ? '' : 's');
+    fields[uniqueFieldName(fields, name)] = { field_type: target, attributes: { is_list: true, virtual: true } };
+  }
+}
+
+// "varchar(255)" -> String with db_type VARCHAR(255); exact Prisma scalars and plain known types need no db_type
+function convertAttributeType(type: string): ERDField {
+  const isList = type.endsWith('[]');
+  const baseType = type.replace(/\[\]$/, '');
+  const name = baseType.replace(/\(.*\)$/, '');
+  const scalar = ERD_TYPES[name.toLowerCase()];
+  const field: ERDField = { field_type: scalar || 'String' };
+  if (!scalar || baseType !== name) {
+    field.db_type = baseType.toUpperCase();
+  }
+  if (isList) {
+    field.attributes = { is_list: true };
+  }
+  return field;
+}
+
+// CUSTOMER -> customer, LineItem -> lineItem
+function toFieldName(entity: string): string {
+  return /^[A-Z0-9_]+$/.test(entity) ? entity.toLowerCase() : `${entity.charAt(0).toLowerCase()}${entity.slice(1)}`;
+}
+
+function uniqueFieldName(fields: Record<string, ERDField>, name: string): string {
+  let candidate = name;
+  for (let suffix = 2; fields[candidate]; suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  return candidate;
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function unquote(text: string): string {
+  return /^".*"$/.test(text) ? text.slice(1, -1) : text;
+}
+
+// #quot;, #35; and <br> back to text
+function decodeText(text: string): string {
+  return text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)));
+}
@@ -0,0 +1,620 @@
+// Prisma AST
+// Tokenizer and parser for the Prisma schema language. Produces a typed AST with source
+// offsets; syntax errors are collected (like the yaml library's doc.errors) and parsing
+// resumes at the next line so a half-edited schema still yields its valid blocks.
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type PrismaValue = SourceSpan & (
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: string } // As written, so 1.50 stays 1.50
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'function'; name: string; args: PrismaArgument[] }
+  | { kind: 'array'; items: PrismaValue[] }
+);
+
+export interface PrismaArgument extends SourceSpan {
+  name?: string; // Undefined for positional arguments
+  value: PrismaValue;
+}
+
+export interface PrismaAttribute extends SourceSpan {
+  name: string; // Without the @ / @@ prefix, e.g. "relation", "db.VarChar"
+  args: PrismaArgument[];
+}
+
+export interface PrismaFieldNode extends SourceSpan {
+  name: string;
+  type: string; // Unsupported types keep their argument, e.g. Unsupported("circle")
+  isOptional: boolean;
+  isList: boolean;
+  attributes: PrismaAttribute[];
+  documentation?: string;
+}
+
+export interface PrismaModelBlock extends SourceSpan {
+  kind: 'model' | 'view' | 'type';
+  name: string;
+  fields: PrismaFieldNode[];
+  attributes: PrismaAttribute[];
+  documentation?: string;
+}
+
+export interface PrismaEnumValueNode extends SourceSpan {
+  name: string;
+  attributes: PrismaAttribute[];
+  documentation?: string;
+}
+
+export interface PrismaEnumBlock extends SourceSpan {
+  kind: 'enum';
+  name: string;
+  values: PrismaEnumValueNode[];
+  attributes: PrismaAttribute[];
+  documentation?: string;
+}
+
+export interface PrismaProperty extends SourceSpan {
+  name: string;
+  value: PrismaValue;
+}
+
+export interface PrismaConfigBlock extends SourceSpan {
+  kind: 'datasource' | 'generator';
+  name: string;
+  properties: PrismaProperty[];
+  documentation?: string;
+}
+
+export type PrismaBlock = PrismaModelBlock | PrismaEnumBlock | PrismaConfigBlock;
+
+export interface PrismaSchemaAst {
+  blocks: PrismaBlock[];
+  errors: PrismaSyntaxError[];
+}
+
+export class PrismaSyntaxError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+    this.name = 'PrismaSyntaxError';
+  }
+}
+
+/**
+ * Parse a Prisma schema into an AST
+ */
+export function parsePrismaAst(content: string): PrismaSchemaAst {
+  const errors: PrismaSyntaxError[] = [];
+  const parser = new Parser(tokenize(content, errors), errors);
+  return { blocks: parser.parseSchema(), errors };
+}
+
+/**
+ * Find an attribute by name (e.g. "id", "relation", "db.VarChar")
+ */
+export function getAttribute(attributes: PrismaAttribute[], name: string): PrismaAttribute | undefined {
+  return attributes.find((attribute) => attribute.name === name);
+}
+
+/**
+ * Get an argument by name, or by its position among the unnamed arguments
+ * (@relation("Name") and @relation(name: "Name") are equivalent)
+ */
+export function getArgument(attribute: PrismaAttribute, name: string, position?: number): PrismaValue | undefined {
+  const named = attribute.args.find((arg) => arg.name === name);
+  if (named || position === undefined) {
+    return named?.value;
+  }
+  return attribute.args.filter((arg) => arg.name === undefined)[position]?.value;
+}
+
+/**
+ * Field names in a field list such as [authorId] or [title(sort: Desc), createdAt]
+ */
+export function getFieldNames(value: PrismaValue | undefined): string[] {
+  if (!value) return [];
+  switch (value.kind) {
+    case 'array':
+      return value.items.flatMap(getFieldNames);
+    case 'identifier':
+      return [value.value];
+    case 'function':
+      return [value.name];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Print a value back as Prisma source, e.g. env("DATABASE_URL") or [title(sort: Desc)]
+ */
+export function formatValue(value: PrismaValue): string {
+  switch (value.kind) {
+    case 'string':
+      return JSON.stringify(value.value);
+    case 'number':
+    case 'identifier':
+      return value.value;
+    case 'boolean':
+      return String(value.value);
+    case 'function':
+      return `${value.name}(${value.args.map(formatArgument).join(', ')})`;
+    case 'array':
+      return `[${value.items.map(formatValue).join(', ')}]`;
+  }
+}
+
+/**
+ * Print an attribute back as Prisma source with normalized spacing, e.g. @@index([a, b], map: "idx")
+ */
+export function formatAttribute(attribute: PrismaAttribute, prefix: '@' | '@@'): string {
+  const args = attribute.args.length > 0 ? `(${attribute.args.map(formatArgument).join(', ')})` : '';
+  return `${prefix}${attribute.name}${args}`;
+}
+
+function formatArgument(arg: PrismaArgument): string {
+  return arg.name ? `${arg.name}: ${formatValue(arg.value)}` : formatValue(arg.value);
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+type TokenKind = 'identifier' | 'string' | 'number' | 'punct' | 'docComment' | 'newline' | 'eof';
+
+interface Token extends SourceSpan {
+  kind: TokenKind;
+  value: string;
+}
+
+const PUNCTUATION = new Set(['{', '}', '(', ')', '[', ']', ',', ':', '=', '?', '.']);
+const STRING_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+function tokenize(content: string, errors: PrismaSyntaxError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (kind: TokenKind, value: string, start: number) => {
+    tokens.push({ kind, value, start, end: i });
+  };
+
+  while (i < content.length) {
+    const start = i;
+    const char = content[i];
+
+    if (char === '\n') {
+      i++;
+      push('newline', '\n', start);
+    } else if (char === ' ' || char === '\t' || char === '\r') {
+      i++;
+    } else if (content.startsWith('//', i)) {
+      const lineEnd = content.indexOf('\n', i);
+      i = lineEnd === -1 ? content.length : lineEnd;
+      if (content.startsWith('///', start)) {
+        push('docComment', content.slice(start + 3, i).replace(/^ /, '').trimEnd(), start);
+      }
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < content.length && content[i] !== '"' && content[i] !== '\n') {
+        if (content[i] === '\\' && i + 1 < content.length) {
+          value += STRING_ESCAPES[content[i + 1]] ?? content[i + 1];
+          i += 2;
+        } else {
+          value += content[i++];
+        }
+      }
+      if (content[i] === '"') {
+        i++;
+      } else {
+        errors.push(new PrismaSyntaxError('Unterminated string', start, i));
+      }
+      push('string', value, start);
+    } else if (/[A-Za-z_]/.test(char)) {
+      while (i < content.length && /\w/.test(content[i])) i++;
+      push('identifier', content.slice(start, i), start);
+    } else if (/\d/.test(char) || (char === '-' && /\d/.test(content[i + 1] ?? ''))) {
+      i++;
+      while (i < content.length && /[\d.]/.test(content[i])) i++;
+      push('number', content.slice(start, i), start);
+    } else if (content.startsWith('@@', i)) {
+      i += 2;
+      push('punct', '@@', start);
+    } else {
+      i++;
+      if (char !== '@' && !PUNCTUATION.has(char)) {
+        errors.push(new PrismaSyntaxError(`Unexpected character "${char}"`, start, i));
+        continue;
+      }
+      push('punct', char, start);
+    }
+  }
+
+  tokens.push({ kind: 'eof', value: '', start: content.length, end: content.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+const MODEL_KEYWORDS = ['model', 'view', 'type'];
+const CONFIG_KEYWORDS = ['datasource', 'generator'];
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly errors: PrismaSyntaxError[]) {}
+
+  parseSchema(): PrismaBlock[] {
+    const blocks: PrismaBlock[] = [];
+
+    for (;;) {
+      const documentation = this.readDocumentation();
+      if (this.peek().kind === 'eof') break;
+
+      try {
+        blocks.push(this.parseBlock(documentation));
+      } catch (error) {
+        this.report(error);
+        this.skipBlock();
+      }
+    }
+
+    return blocks;
+  }
+
+  private parseBlock(documentation: string | undefined): PrismaBlock {
+    const keyword = this.expect('identifier', 'Expected a block declaration (model, enum, datasource, ...)');
+    if (![...MODEL_KEYWORDS, 'enum', ...CONFIG_KEYWORDS].includes(keyword.value)) {
+      throw new PrismaSyntaxError(`Unknown block type "${keyword.value}"`, keyword.start, keyword.end);
+    }
+    const name = this.expect('identifier', `Expected a name after "${keyword.value}"`);
+    this.expectPunct('{');
+
+    if (MODEL_KEYWORDS.includes(keyword.value)) {
+      const block: PrismaModelBlock = {
+        kind: keyword.value as PrismaModelBlock['kind'],
+        name: name.value,
+        fields: [],
+        attributes: [],
+        documentation,
+        start: keyword.start,
+        end: keyword.end,
+      };
+      block.end = this.parseBody(block, (fieldDocumentation) => {
+        if (this.isPunct('@@')) {
+          block.attributes.push(this.parseAttribute());
+        } else {
+          block.fields.push(this.parseField(fieldDocumentation));
+        }
+      });
+      return block;
+    }
+
+    if (keyword.value === 'enum') {
+      const block: PrismaEnumBlock = {
+        kind: 'enum',
+        name: name.value,
+        values: [],
+        attributes: [],
+        documentation,
+        start: keyword.start,
+        end: keyword.end,
+      };
+      block.end = this.parseBody(block, (valueDocumentation) => {
+        if (this.isPunct('@@')) {
+          block.attributes.push(this.parseAttribute());
+        } else {
+          block.values.push(this.parseEnumValue(valueDocumentation));
+        }
+      });
+      return block;
+    }
+
+    const block: PrismaConfigBlock = {
+      kind: keyword.value as PrismaConfigBlock['kind'],
+      name: name.value,
+      properties: [],
+      documentation,
+      start: keyword.start,
+      end: keyword.end,
+    };
+    block.end = this.parseBody(block, () => {
+      block.properties.push(this.parseProperty());
+    });
+    return block;
+  }
+
+  /**
+   * Parse one declaration per line until the closing brace; returns the block's end offset
+   */
+  private parseBody(block: { kind: string; name: string }, parseLine: (documentation?: string) => void): number {
+    for (;;) {
+      const documentation = this.readDocumentation();
+      const token = this.peek();
+
+      if (token.kind === 'eof') {
+        this.errors.push(new PrismaSyntaxError(`Missing "}" to close ${block.kind} ${block.name}`, token.start, token.end));
+        return token.start;
+      }
+      if (this.isPunct('}')) {
+        return this.next().end;
+      }
+
+      try {
+        parseLine(documentation);
+        this.expectLineEnd();
+      } catch (error) {
+        this.report(error);
+        this.skipLine();
+      }
+    }
+  }
+
+  private parseField(documentation: string | undefined): PrismaFieldNode {
+    const name = this.expect('identifier', 'Expected a field name');
+    const typeToken = this.expect('identifier', `Expected a type for field "${name.value}"`);
+
+    // Unsupported("...") carries the database type as an argument
+    let typeEnd = typeToken.end;
+    if (this.isPunct('(')) {
+      typeEnd = this.parseArguments().end;
+    }
+    const type = this.source(typeToken.start, typeEnd);
+
+    let isList = false;
+    let isOptional = false;
+    if (this.isPunct('[')) {
+      this.next();
+      this.expectPunct(']');
+      isList = true;
+    }
+    if (this.isPunct('?')) {
+      this.next();
+      isOptional = true;
+    }
+
+    const attributes = this.parseFieldAttributes();
+    const end = this.previous().end;
+    return {
+      name: name.value,
+      type,
+      isOptional,
+      isList,
+      attributes,
+      documentation: this.readTrailingDocumentation(documentation),
+      start: name.start,
+      end,
+    };
+  }
+
+  private parseEnumValue(documentation: string | undefined): PrismaEnumValueNode {
+    const name = this.expect('identifier', 'Expected an enum value');
+    const attributes = this.parseFieldAttributes();
+    const end = this.previous().end;
+    return { name: name.value, attributes, documentation: this.readTrailingDocumentation(documentation), start: name.start, end };
+  }
+
+  private parseProperty(): PrismaProperty {
+    const name = this.expect('identifier', 'Expected a property name');
+    this.expectPunct('=');
+    const value = this.parseValue();
+    return { name: name.value, value, start: name.start, end: value.end };
+  }
+
+  private parseFieldAttributes(): PrismaAttribute[] {
+    const attributes: PrismaAttribute[] = [];
+    while (this.isPunct('@')) {
+      attributes.push(this.parseAttribute());
+    }
+    return attributes;
+  }
+
+  /**
+   * @name, @namespace.name, @@name, each with optional arguments
+   */
+  private parseAttribute(): PrismaAttribute {
+    const prefix = this.next();
+    let name = this.expect('identifier', `Expected an attribute name after "${prefix.value}"`).value;
+    while (this.isPunct('.')) {
+      this.next();
+      name += '.' + this.expect('identifier', 'Expected an attribute name after "."').value;
+    }
+
+    const args = this.isPunct('(') ? this.parseArguments().args : [];
+    return { name, args, start: prefix.start, end: this.previous().end };
+  }
+
+  private parseArguments(): { args: PrismaArgument[]; end: number } {
+    this.expectPunct('(');
+    const args: PrismaArgument[] = [];
+
+    this.skipNewlines();
+    while (!this.isPunct(')')) {
+      const start = this.peek().start;
+      let name: string | undefined;
+      if (this.peek().kind === 'identifier' && this.isPunct(':', 1)) {
+        name = this.next().value;
+        this.next();
+      }
+      const value = this.parseValue();
+      args.push({ name, value, start, end: value.end });
+
+      this.skipNewlines();
+      if (!this.isPunct(',')) break;
+      this.next();
+      this.skipNewlines();
+    }
+
+    return { args, end: this.expectPunct(')').end };
+  }
+
+  private parseValue(): PrismaValue {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'string':
+        this.next();
+        return { kind: 'string', value: token.value, start: token.start, end: token.end };
+      case 'number':
+        this.next();
+        return { kind: 'number', value: token.value, start: token.start, end: token.end };
+      case 'identifier': {
+        this.next();
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'boolean', value: token.value === 'true', start: token.start, end: token.end };
+        }
+        let name = token.value;
+        while (this.isPunct('.')) {
+          this.next();
+          name += '.' + this.expect('identifier', 'Expected a name after "."').value;
+        }
+        if (this.isPunct('(')) {
+          const { args, end } = this.parseArguments();
+          return { kind: 'function', name, args, start: token.start, end };
+        }
+        return { kind: 'identifier', value: name, start: token.start, end: this.previous().end };
+      }
+      case 'punct':
+        if (token.value === '[') {
+          this.next();
+          const items: PrismaValue[] = [];
+          this.skipNewlines();
+          while (!this.isPunct(']')) {
+            items.push(this.parseValue());
+            this.skipNewlines();
+            if (!this.isPunct(',')) break;
+            this.next();
+            this.skipNewlines();
+          }
+          return { kind: 'array', items, start: token.start, end: this.expectPunct(']').end };
+        }
+    }
+
+    throw this.unexpected(token, 'Expected a value');
+  }
+
+  // --- Token helpers ---
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(this.index - 1, 0)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === 'punct' && token.value === value;
+  }
+
+  private expect(kind: TokenKind, message: string): Token {
+    const token = this.peek();
+    if (token.kind !== kind) {
+      throw this.unexpected(token, message);
+    }
+    return this.next();
+  }
+
+  private expectPunct(value: string): Token {
+    if (!this.isPunct(value)) {
+      throw this.unexpected(this.peek(), `Expected "${value}"`);
+    }
+    return this.next();
+  }
+
+  /**
+   * A declaration ends at a newline, or right before the closing brace
+   */
+  private expectLineEnd(): void {
+    if (this.peek().kind === 'docComment') this.next();
+
+    const token = this.peek();
+    if (token.kind === 'newline') {
+      this.next();
+    } else if (token.kind !== 'eof' && !this.isPunct('}')) {
+      throw this.unexpected(token, 'Expected a new line');
+    }
+  }
+
+  private unexpected(token: Token, message: string): PrismaSyntaxError {
+    const found = token.kind === 'eof' ? 'end of file' : token.kind === 'newline' ? 'end of line' : `"${token.value}"`;
+    return new PrismaSyntaxError(`${message}, found ${found}`, token.start, token.end);
+  }
+
+  private source(start: number, end: number): string {
+    let text = '';
+    for (const token of this.tokens) {
+      if (token.start >= end) break;
+      if (token.start >= start) text += token.kind === 'string' ? JSON.stringify(token.value) : token.value;
+    }
+    return text;
+  }
+
+  /**
+   * Collect leading /// comments, skipping blank lines
+   */
+  private readDocumentation(): string | undefined {
+    const lines: string[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token.kind === 'docComment') {
+        lines.push(token.value);
+      } else if (token.kind !== 'newline') {
+        break;
+      }
+      this.next();
+    }
+    return lines.length > 0 ? lines.join('\n') : undefined;
+  }
+
+  /**
+   * A /// comment at the end of a field or enum value line documents it too, after any leading lines
+   */
+  private readTrailingDocumentation(documentation: string | undefined): string | undefined {
+    if (this.peek().kind !== 'docComment') {
+      return documentation;
+    }
+    const trailing = this.next().value;
+    return documentation ? `${documentation}\n${trailing}` : trailing;
+  }
+
+  private skipNewlines(): void {
+    while (this.peek().kind === 'newline' || this.peek().kind === 'docComment') this.next();
+  }
+
+  private skipLine(): void {
+    while (this.peek().kind !== 'newline' && this.peek().kind !== 'eof' && !this.isPunct('}')) this.next();
+  }
+
+  /**
+   * Recover from a broken block header by skipping the rest of the line, or the
+   * whole block when it has a body
+   */
+  private skipBlock(): void {
+    while (this.peek().kind !== 'newline' && this.peek().kind !== 'eof' && !this.isPunct('{')) this.next();
+    if (!this.isPunct('{')) return;
+
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token.kind === 'punct' && token.value === '{') depth++;
+      if (token.kind === 'punct' && token.value === '}') depth--;
+    } while (depth > 0 && this.peek().kind !== 'eof');
+  }
+
+  private report(error: unknown): void {
+    if (!(error instanceof PrismaSyntaxError)) throw error;
+    this.errors.push(error);
+  }
+}
@@ -1,5 +1,6 @@
 import { Node, Edge, MarkerType } from 'reactflow';
 import { SequenceDiagram, SequenceParticipant, SequenceMessage, SequenceColor, SequenceBlock } from '../types/diagrams';
+import { findYamlItemRanges } from './yamlPath';
 
 export interface ParsedSequenceDiagram {
   participants: Record<string, SequenceParticipant>;
@@ -19,7 +20,11 @@ export interface ParsedSequenceDiagram {
 
 export function parseSequenceYaml(content: string): ParsedSequenceDiagram {
   const yaml = require('yaml');
-  const parsed = yaml.parse(content) as SequenceDiagram;
+  const doc = yaml.parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw doc.errors[0];
+  }
+  const parsed = doc.toJS() as SequenceDiagram;
 
   // Validate required fields
   if (!parsed.diagram_type || parsed.diagram_type !== 'sequence') {
@@ -49,7 +54,8 @@ export function parseSequenceYaml(content: string): ParsedSequenceDiagram {
   }
 
   // Coerce message types
-  const messages: SequenceMessage[] = (parsed.messages || []).map((msg) => ({
+  const messageRanges = findYamlItemRanges(doc, content, ['messages']);
+  const messages: SequenceMessage[] = (parsed.messages || []).map((msg, index) => ({
     ...msg,
     id: String(msg.id),
     from: String(msg.from),
@@ -58,6 +64,7 @@ export function parseSequenceYaml(content: string): ParsedSequenceDiagram {
     arrow_type: msg.arrow_type || 'solid',
     note: msg.note ? String(msg.note) : undefined,
     sequence_order: Number(msg.sequence_order),
+    sourceRange: messageRanges[index],
   }));
 
   // Coerce metadata types
@@ -0,0 +1,895 @@
+// SQL DDL Parser
+// Reads PostgreSQL, MySQL and SQLite schema scripts (CREATE TABLE, ALTER TABLE ... ADD
+// CONSTRAINT, CREATE INDEX, CREATE TYPE ... AS ENUM) into the PrismaSchema shape the ERD
+// view renders. Statements it doesn't model (inserts, functions, grants, ...) are skipped.
+
+import { PrismaSchema, PrismaModel, PrismaField, PrismaEnum, categorizeModels } from '../prismaParser';
+import { SourceRange } from '../types/diagrams';
+import { debugLog } from '../debugLog';
+
+type TokenKind = 'word' | 'identifier' | 'string' | 'number' | 'punct';
+
+interface Token extends SourceRange {
+  kind: TokenKind; // identifier: quoted with "" or ``; word: bare name or keyword
+  value: string;
+}
+
+interface TableName {
+  schema?: string;
+  name: string;
+}
+
+// Resolved once every table is known, since ALTER TABLE may reference tables declared later
+interface ForeignKeyDraft {
+  model: PrismaModel;
+  columns: string[];
+  target: TableName;
+  targetColumns: string[];
+  name?: string;
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+// SQL type names (lowercase, without arguments) to Prisma scalar types
+const SQL_SCALAR_TYPES: { [key: string]: string } = {
+  'char': 'String',
+  'character': 'String',
+  'character varying': 'String',
+  'varchar': 'String',
+  'nchar': 'String',
+  'nvarchar': 'String',
+  'text': 'String',
+  'tinytext': 'String',
+  'mediumtext': 'String',
+  'longtext': 'String',
+  'clob': 'String',
+  'citext': 'String',
+  'uuid': 'String',
+  'inet': 'String',
+  'cidr': 'String',
+  'macaddr': 'String',
+  'xml': 'String',
+  'set': 'String',
+  'int': 'Int',
+  'integer': 'Int',
+  'int2': 'Int',
+  'int4': 'Int',
+  'smallint': 'Int',
+  'tinyint': 'Int',
+  'mediumint': 'Int',
+  'serial': 'Int',
+  'smallserial': 'Int',
+  'bigint': 'BigInt',
+  'int8': 'BigInt',
+  'bigserial': 'BigInt',
+  'real': 'Float',
+  'float': 'Float',
+  'float4': 'Float',
+  'float8': 'Float',
+  'double': 'Float',
+  'double precision': 'Float',
+  'decimal': 'Decimal',
+  'numeric': 'Decimal',
+  'money': 'Decimal',
+  'bool': 'Boolean',
+  'boolean': 'Boolean',
+  'bit': 'Boolean',
+  'date': 'DateTime',
+  'datetime': 'DateTime',
+  'time': 'DateTime',
+  'timetz': 'DateTime',
+  'timestamp': 'DateTime',
+  'timestamptz': 'DateTime',
+  'year': 'Int',
+  'json': 'Json',
+  'jsonb': 'Json',
+  'bytea': 'Bytes',
+  'blob': 'Bytes',
+  'tinyblob': 'Bytes',
+  'mediumblob': 'Bytes',
+  'longblob': 'Bytes',
+  'binary': 'Bytes',
+  'varbinary': 'Bytes',
+};
+
+const SERIAL_TYPES = new Set(['serial', 'smallserial', 'bigserial']);
+
+const REFERENTIAL_ACTIONS: { [key: string]: string } = {
+  'CASCADE': 'Cascade',
+  'RESTRICT': 'Restrict',
+  'NO ACTION': 'NoAction',
+  'SET NULL': 'SetNull',
+  'SET DEFAULT': 'SetDefault',
+};
+
+// Words that end a column's type and start its constraints
+const COLUMN_CONSTRAINT_KEYWORDS = new Set([
+  'CONSTRAINT', 'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'DEFAULT', 'REFERENCES', 'CHECK', 'AUTO_INCREMENT',
+  'AUTOINCREMENT', 'COLLATE', 'GENERATED', 'COMMENT', 'ON', 'KEY', 'AS', 'CHARSET', 'IDENTITY', 'VISIBLE', 'INVISIBLE',
+]);
+
+// Words that start a table constraint instead of a column inside CREATE TABLE (...)
+const TABLE_CONSTRAINT_KEYWORDS = new Set([
+  'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE',
+]);
+
+const TIMESTAMP_DEFAULTS = /^(CURRENT_TIMESTAMP|LOCALTIMESTAMP|CURRENT_DATE|NOW\s*\(|DATETIME\s*\(\s*'NOW'\s*\))/i;
+
+/**
+ * Parse a SQL schema script into models, enums and relations
+ */
+export function parseSqlSchema(content: string): PrismaSchema {
+  const reader = new SqlSchemaReader(content);
+  for (const statement of splitStatements(tokenize(content))) {
+    reader.readStatement(statement);
+  }
+
+  const schema = reader.finish();
+  categorizeModels(schema);
+  return schema;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+function tokenize(content: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (kind: TokenKind, value: string, start: number) => {
+    tokens.push({ kind, value, start, end: i });
+  };
+
+  // Quoted text where the quote character is escaped by doubling it ('it''s', "a""b")
+  const readQuoted = (quote: string) => {
+    let value = '';
+    i++;
+    while (i < content.length) {
+      if (content[i] === quote) {
+        if (content[i + 1] !== quote) break;
+        i++;
+      }
+      value += content[i++];
+    }
+    i++;
+    return value;
+  };
+
+  while (i < content.length) {
+    const start = i;
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (content.startsWith('--', i) || char === '#') {
+      const lineEnd = content.indexOf('\n', i);
+      i = lineEnd === -1 ? content.length : lineEnd;
+    } else if (content.startsWith('/*', i)) {
+      const commentEnd = content.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? content.length : commentEnd + 2;
+    } else if (char === "'") {
+      push('string', readQuoted("'"), start);
+    } else if (char === '"' || char === '`') {
+      push('identifier', readQuoted(char), start);
+    } else if (char === '$' && /^\$\w*\$/.test(content.slice(i))) {
+      // PostgreSQL dollar-quoted bodies ($$ ... $$, $fn$ ... $fn$)
+      const tag = /^\$\w*\$/.exec(content.slice(i))![0];
+      const bodyEnd = content.indexOf(tag, i + tag.length);
+      i = bodyEnd === -1 ? content.length : bodyEnd + tag.length;
+      push('string', content.slice(start + tag.length, bodyEnd === -1 ? i : bodyEnd), start);
+    } else if (/[A-Za-z_]/.test(char)) {
+      while (i < content.length && /[\w$]/.test(content[i])) i++;
+      push('word', content.slice(start, i), start);
+    } else if (/\d/.test(char)) {
+      while (i < content.length && /[\d.]/.test(content[i])) i++;
+      push('number', content.slice(start, i), start);
+    } else if (content.startsWith('::', i)) {
+      i += 2;
+      push('punct', '::', start);
+    } else {
+      i++;
+      push('punct', char, start);
+    }
+  }
+
+  return tokens;
+}
+
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.kind === 'punct' && token.value === ';') {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1].push(token);
+    }
+  }
+  return statements.filter((statement) => statement.length > 0);
+}
+
+// ---------------------------------------------------------------------------
+// Statements
+
+class SqlSchemaReader {
+  private readonly models: PrismaModel[] = [];
+  private readonly enums: PrismaEnum[] = [];
+  private readonly tables = new Map<string, PrismaModel>(); // By lowercase [schema.]name
+  private readonly enumsByName = new Map<string, PrismaEnum>();
+  private readonly foreignKeys: ForeignKeyDraft[] = [];
+  private tokens: Token[] = [];
+  private index = 0;
+
+  constructor(private readonly content: string) {}
+
+  readStatement(tokens: Token[]) {
+    this.tokens = tokens;
+    this.index = 0;
+
+    try {
+      if (this.acceptKeyword('CREATE')) {
+        this.acceptKeywords('OR', 'REPLACE');
+        while (this.acceptKeyword('GLOBAL') || this.acceptKeyword('LOCAL') || this.acceptKeyword('TEMP')
+          || this.acceptKeyword('TEMPORARY') || this.acceptKeyword('UNLOGGED')) {
+          // Table persistence doesn't show in the diagram
+        }
+
+        if (this.acceptKeyword('TABLE')) {
+          this.readCreateTable();
+        } else if (this.isKeyword('UNIQUE') || this.isKeyword('INDEX')) {
+          this.readCreateIndex();
+        } else if (this.acceptKeyword('TYPE')) {
+          this.readCreateType();
+        }
+      } else if (this.acceptKeywords('ALTER', 'TABLE')) {
+        this.readAlterTable();
+      } else if (this.acceptKeywords('COMMENT', 'ON')) {
+        this.readComment();
+      }
+    } catch (error) {
+      // A statement we can't follow shouldn't hide the rest of the schema
+      debugLog('Skipping SQL statement:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Resolve foreign keys against the declared tables
+   */
+  finish(): PrismaSchema {
+    for (const foreignKey of this.foreignKeys) {
+      const target = this.findTable(foreignKey.target);
+      const field = foreignKey.model.fields.find((candidate) => sameName(candidate.name, foreignKey.columns[0]));
+      if (!target || !field) {
+        continue;
+      }
+
+      const references = foreignKey.targetColumns.length > 0 ? foreignKey.targetColumns : target.primaryKey || ['id'];
+      field.isForeignKey = true;
+      field.relationToModel = target.name;
+      field.referencesField = references[0];
+      field.relationReferences = references;
+      if (foreignKey.columns.length > 1) {
+        field.relationFields = foreignKey.columns;
+      }
+      field.relationMap = foreignKey.name;
+      field.onDelete = foreignKey.onDelete;
+      field.onUpdate = foreignKey.onUpdate;
+    }
+
+    return { models: this.models, enums: this.enums };
+  }
+
+  private readCreateTable() {
+    const start = this.tokens[0].start;
+    this.acceptKeywords('IF', 'NOT', 'EXISTS');
+    const tableName = this.readTableName();
+    if (!this.isPunct('(')) {
+      // CREATE TABLE ... AS SELECT / LIKE copies have no column list to show
+      return;
+    }
+
+    const model = this.addModel(tableName);
+    this.expectPunct('(');
+    while (!this.isPunct(')')) {
+      const itemStart = this.peek().start;
+      if (this.peek().kind === 'word' && TABLE_CONSTRAINT_KEYWORDS.has(this.peek().value.toUpperCase())) {
+        this.readTableConstraint(model);
+      } else {
+        this.readColumn(model, tableName, itemStart);
+      }
+      this.skipToListEnd();
+      this.acceptPunct(',');
+    }
+    model.sourceRange = { start, end: this.expectPunct(')').end };
+
+    // Table options (ENGINE=InnoDB, COMMENT='...', WITHOUT ROWID)
+    while (this.index < this.tokens.length) {
+      if (this.acceptKeyword('COMMENT')) {
+        this.acceptPunct('=');
+        model.documentation = this.next().value;
+      } else {
+        this.next();
+      }
+    }
+  }
+
+  private readColumn(model: PrismaModel, tableName: TableName, start: number) {
+    const name = this.readName();
+    const field: PrismaField = {
+      name,
+      type: 'String',
+      isId: false,
+      isUnique: false,
+      isRequired: false,
+      isList: false,
+      hasDefault: false,
+      isForeignKey: false,
+      isEnum: false,
+    };
+    model.fields.push(field);
+
+    this.readColumnType(field, tableName);
+
+    while (!this.isListEnd()) {
+      let constraintName: string | undefined;
+      if (this.acceptKeyword('CONSTRAINT')) {
+        constraintName = this.readName();
+      }
+
+      if (this.acceptKeywords('NOT', 'NULL')) {
+        field.isRequired = true;
+      } else if (this.acceptKeyword('NULL')) {
+        field.isRequired = false;
+      } else if (this.acceptKeyword('PRIMARY')) {
+        this.acceptKeyword('KEY');
+        field.isId = true;
+        field.isRequired = true;
+        model.primaryKey = [name];
+      } else if (this.acceptKeyword('UNIQUE')) {
+        this.acceptKeyword('KEY');
+        field.isUnique = true;
+      } else if (this.acceptKeyword('DEFAULT')) {
+        this.readDefault(field);
+      } else if (this.acceptKeyword('AUTO_INCREMENT') || this.acceptKeyword('AUTOINCREMENT')) {
+        setDefault(field, 'autoincrement()');
+      } else if (this.acceptKeyword('GENERATED')) {
+        // GENERATED ALWAYS|BY DEFAULT AS IDENTITY, or a computed column (AS (expr) STORED)
+        while (!this.isKeyword('AS') && !this.isListEnd()) this.next();
+        this.acceptKeyword('AS');
+        if (this.acceptKeyword('IDENTITY')) {
+          setDefault(field, 'autoincrement()');
+        }
+      } else if (this.acceptKeyword('REFERENCES')) {
+        const target = this.readTableName();
+        const targetColumns = this.isPunct('(') ? this.readColumnList() : [];
+        this.foreignKeys.push({ model, columns: [name], target, targetColumns, name: constraintName, ...this.readReferentialActions() });
+      } else if (this.acceptKeywords('ON', 'UPDATE')) {
+        // MySQL's ON UPDATE CURRENT_TIMESTAMP is Prisma's @updatedAt
+        const expression = this.readExpression();
+        if (TIMESTAMP_DEFAULTS.test(this.sourceText(expression))) {
+          field.extraAttributes = ['@updatedAt'];
+        }
+      } else if (this.acceptKeyword('COMMENT')) {
+        field.documentation = this.next().value;
+      } else {
+        this.skipTerm();
+      }
+    }
+
+    field.sourceRange = { start, end: this.tokens[this.index - 1].end };
+  }
+
+  private readColumnType(field: PrismaField, tableName: TableName) {
+    const words: string[] = [];
+    let args: Token[] = [];
+
+    while (!this.isListEnd()) {
+      const token = this.peek();
+      if (token.kind === 'punct' && token.value === '(') {
+        args = this.readGroup();
+      } else if (token.kind === 'punct' && token.value === '[') {
+        // PostgreSQL arrays: text[], integer[3]
+        while (!this.acceptPunct(']')) this.next();
+        field.isList = true;
+      } else if (token.kind === 'punct' && token.value === '.') {
+        // Schema-qualified type (public.status); the type name follows
+        this.next();
+        words.length = 0;
+      } else if (token.kind === 'identifier' && words.length === 0) {
+        words.push(this.next().value);
+      } else if (
+        token.kind === 'word'
+        && !COLUMN_CONSTRAINT_KEYWORDS.has(token.value.toUpperCase())
+        && !(token.value.toUpperCase() === 'CHARACTER' && this.peek(1)?.value.toUpperCase() === 'SET')
+      ) {
+        words.push(this.next().value);
+      } else {
+        break;
+      }
+    }
+
+    if (words.length === 0) {
+      // SQLite allows columns without a type
+      return;
+    }
+
+    const typeName = words.join(' ');
+    const lowerName = typeName.toLowerCase();
+    const argText = args.filter((arg) => arg.kind !== 'punct').map((arg) => arg.value);
+    const enumType = this.enumsByName.get(lowerName);
+
+    if (enumType) {
+      field.type = enumType.name;
+      field.isEnum = true;
+    } else if (lowerName === 'enum') {
+      // MySQL inline enums become a <table>_<column> enum, like `prisma db pull`
+      const inlineEnum = this.addEnum(`${tableName.name}_${field.name}`, argText);
+      field.type = inlineEnum.name;
+      field.isEnum = true;
+    } else {
+      setSqlType(field, typeName, argText);
+    }
+  }
+
+  private readDefault(field: PrismaField) {
+    let expression = this.readExpression();
+    // Parenthesized defaults (MySQL 8, SQLite): DEFAULT ('draft')
+    while (expression.length > 2 && expression[0].value === '(' && expression[expression.length - 1].value === ')') {
+      expression = expression.slice(1, -1);
+    }
+
+    // Casts don't change the value: 'pending'::order_status, '{}'::jsonb
+    const castIndex = expression.findIndex((token) => token.kind === 'punct' && token.value === '::');
+    const literalTokens = castIndex === -1 ? expression : expression.slice(0, castIndex);
+    const literal = this.sourceText(literalTokens);
+    let value: string | undefined;
+
+    if (literalTokens.length === 0 || /^NULL$/i.test(literal)) {
+      value = undefined;
+    } else if (literalTokens.length === 1 && literalTokens[0].kind === 'string') {
+      value = convertStringDefault(literalTokens[0].value, field);
+    } else if (/^[-+]?\d+(\.\d+)?$/.test(literal)) {
+      value = field.type === 'Boolean' ? String(Number(literal) !== 0) : literal;
+    } else if (/^(TRUE|FALSE)$/i.test(literal)) {
+      value = literal.toLowerCase();
+    } else {
+      value = convertExpressionDefault(literal, this.sourceText(expression));
+    }
+
+    if (value) {
+      setDefault(field, value);
+    }
+  }
+
+  private readTableConstraint(model: PrismaModel) {
+    let name: string | undefined;
+    if (this.acceptKeyword('CONSTRAINT')) {
+      name = this.readName();
+    }
+    this.readConstraintBody(model, name);
+  }
+
+  /**
+   * PRIMARY KEY / UNIQUE / FOREIGN KEY / INDEX clauses of CREATE TABLE and ALTER TABLE ... ADD
+   */
+  private readConstraintBody(model: PrismaModel, name?: string) {
+    if (this.acceptKeywords('PRIMARY', 'KEY')) {
+      const columns = this.readIndexColumns();
+      model.primaryKey = columns;
+      for (const field of model.fields.filter((candidate) => columns.some((column) => sameName(column, candidate.name)))) {
+        field.isId = true;
+        field.isRequired = true;
+      }
+    } else if (this.acceptKeyword('UNIQUE')) {
+      if (!this.acceptKeyword('KEY')) {
+        this.acceptKeyword('INDEX');
+      }
+      name = this.readOptionalIndexName() ?? name;
+      const columns = this.readIndexColumns();
+      const field = columns.length === 1 && !name && model.fields.find((candidate) => sameName(candidate.name, columns[0]));
+      if (field) {
+        field.isUnique = true;
+      } else {
+        (model.uniqueConstraints ??= []).push({ name, columns });
+      }
+    } else if (this.acceptKeywords('FOREIGN', 'KEY')) {
+      this.readOptionalIndexName();
+      const columns = this.readColumnList();
+      this.expectKeyword('REFERENCES');
+      const target = this.readTableName();
+      const targetColumns = this.isPunct('(') ? this.readColumnList() : [];
+      this.foreignKeys.push({ model, columns, target, targetColumns, name, ...this.readReferentialActions() });
+    } else if (this.acceptKeyword('KEY') || this.acceptKeyword('INDEX')) {
+      // MySQL inline indexes: KEY idx_name (columns)
+      const indexName = this.readOptionalIndexName();
+      (model.indexes ??= []).push({ name: indexName, columns: this.readIndexColumns(), unique: false });
+    }
+    // CHECK, EXCLUDE, FULLTEXT and SPATIAL constraints aren't shown
+  }
+
+  private readReferentialActions(): { onDelete?: string; onUpdate?: string } {
+    const actions: { onDelete?: string; onUpdate?: string } = {};
+    while (!this.isListEnd()) {
+      if (this.acceptKeywords('ON', 'DELETE')) {
+        actions.onDelete = this.readReferentialAction();
+      } else if (this.acceptKeywords('ON', 'UPDATE')) {
+        actions.onUpdate = this.readReferentialAction();
+      } else if (this.acceptKeyword('MATCH') || this.acceptKeyword('INITIALLY')) {
+        this.next();
+      } else if (this.acceptKeyword('DEFERRABLE') || this.acceptKeywords('NOT', 'DEFERRABLE')) {
+        // Deferral doesn't change the relation
+      } else {
+        break;
+      }
+    }
+    return actions;
+  }
+
+  private readReferentialAction(): string | undefined {
+    const words = [this.next().value.toUpperCase()];
+    if (words[0] === 'SET' || words[0] === 'NO') {
+      words.push(this.next().value.toUpperCase());
+    }
+    return REFERENTIAL_ACTIONS[words.join(' ')];
+  }
+
+  private readCreateIndex() {
+    const unique = this.acceptKeyword('UNIQUE');
+    this.expectKeyword('INDEX');
+    this.acceptKeyword('CONCURRENTLY');
+    this.acceptKeywords('IF', 'NOT', 'EXISTS');
+    const name = this.isKeyword('ON') ? undefined : this.readTableName().name;
+    this.expectKeyword('ON');
+    this.acceptKeyword('ONLY');
+    const model = this.findTable(this.readTableName());
+    if (this.acceptKeyword('USING')) {
+      this.next();
+    }
+    const columns = this.readIndexColumns();
+    if (model) {
+      (model.indexes ??= []).push({ name, columns, unique });
+    }
+  }
+
+  private readCreateType() {
+    const typeName = this.readTableName();
+    if (!this.acceptKeywords('AS', 'ENUM')) {
+      // Composite and range types aren't shown
+      return;
+    }
+    const start = this.tokens[0].start;
+    const values = this.readGroup().filter((token) => token.kind === 'string').map((token) => token.value);
+    const enumType = this.addEnum(typeName.name, values);
+    enumType.sourceRange = { start, end: this.tokens[this.index - 1].end };
+  }
+
+  private readAlterTable() {
+    this.acceptKeywords('IF', 'EXISTS');
+    this.acceptKeyword('ONLY');
+    const model = this.findTable(this.readTableName());
+    if (!model) {
+      return;
+    }
+
+    // MySQL allows several comma-separated changes per statement
+    while (this.index < this.tokens.length) {
+      if (this.acceptKeyword('ADD')) {
+        if (this.acceptKeyword('CONSTRAINT')) {
+          this.readConstraintBody(model, this.readName());
+        } else if (this.peek().kind === 'word' && TABLE_CONSTRAINT_KEYWORDS.has(this.peek().value.toUpperCase())) {
+          this.readConstraintBody(model);
+        } else {
+          this.acceptKeyword('COLUMN');
+          this.acceptKeywords('IF', 'NOT', 'EXISTS');
+          const start = this.peek().start;
+          this.readColumn(model, { name: model.map || model.name }, start);
+        }
+      } else if (this.acceptKeyword('ALTER')) {
+        // pg_dump sets serial defaults separately: ALTER COLUMN id SET DEFAULT nextval(...)
+        this.acceptKeyword('COLUMN');
+        const column = this.readName();
+        const field = model.fields.find((candidate) => sameName(candidate.name, column));
+        if (field && this.acceptKeywords('SET', 'DEFAULT')) {
+          this.readDefault(field);
+        }
+      }
+      this.skipToListEnd();
+      if (!this.acceptPunct(',')) break;
+    }
+  }
+
+  private readComment() {
+    const target = this.next().value.toUpperCase();
+    const path = [this.readName()];
+    while (this.acceptPunct('.')) {
+      path.push(this.readName());
+    }
+    this.expectKeyword('IS');
+    const comment = this.next();
+    const text = comment.kind === 'string' ? comment.value : undefined;
+
+    if (target === 'TABLE') {
+      const model = this.findTable(path.length > 1 ? { schema: path[0], name: path[1] } : { name: path[0] });
+      if (model) model.documentation = text;
+    } else if (target === 'COLUMN') {
+      const column = path.pop()!;
+      const model = this.findTable(path.length > 1 ? { schema: path[0], name: path[1] } : { name: path[0] });
+      const field = model?.fields.find((candidate) => sameName(candidate.name, column));
+      if (field) field.documentation = text;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Schema bookkeeping
+
+  private addModel(tableName: TableName): PrismaModel {
+    // Tables with the same name in different schemas get the schema as a prefix
+    const taken = this.models.some((model) => sameName(model.name, tableName.name));
+    const model: PrismaModel = {
+      name: taken && tableName.schema ? `${tableName.schema}_${tableName.name}` : tableName.name,
+      fields: [],
+    };
+    if (model.name !== tableName.name) {
+      model.map = tableName.name;
+    }
+    if (tableName.schema) {
+      model.schema = tableName.schema;
+    }
+
+    this.models.push(model);
+    const key = tableName.name.toLowerCase();
+    if (tableName.schema) {
+      this.tables.set(`${tableName.schema.toLowerCase()}.${key}`, model);
+    }
+    if (!this.tables.has(key)) {
+      this.tables.set(key, model);
+    }
+    return model;
+  }
+
+  private findTable(tableName: TableName): PrismaModel | undefined {
+    const key = tableName.name.toLowerCase();
+    return (tableName.schema && this.tables.get(`${tableName.schema.toLowerCase()}.${key}`)) || this.tables.get(key);
+  }
+
+  private addEnum(name: string, values: string[]): PrismaEnum {
+    const enumType: PrismaEnum = {
+      name,
+      values: values.map((value) => {
+        const valueName = enumValueName(value);
+        return valueName === value ? { name: value } : { name: valueName, map: value };
+      }),
+    };
+    this.enums.push(enumType);
+    this.enumsByName.set(name.toLowerCase(), enumType);
+    return enumType;
+  }
+
+  // -------------------------------------------------------------------------
+  // Token helpers
+
+  private peek(offset = 0): Token {
+    const token = this.tokens[this.index + offset];
+    if (!token && offset === 0) {
+      throw new Error('Unexpected end of statement');
+    }
+    return token;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.tokens[this.index + offset];
+    return token?.kind === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  // Accept a keyword sequence (e.g. IF NOT EXISTS) only when all of it is present
+  private acceptKeywords(...keywords: string[]): boolean {
+    if (!keywords.every((keyword, offset) => this.isKeyword(keyword, offset))) return false;
+    this.index += keywords.length;
+    return true;
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.acceptKeyword(keyword)) {
+      throw new Error(`Expected ${keyword} at offset ${this.tokens[this.index]?.start ?? this.content.length}`);
+    }
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.tokens[this.index];
+    return token?.kind === 'punct' && token.value === value;
+  }
+
+  private acceptPunct(value: string): Token | undefined {
+    return this.isPunct(value) ? this.tokens[this.index++] : undefined;
+  }
+
+  private expectPunct(value: string): Token {
+    const token = this.acceptPunct(value);
+    if (!token) {
+      throw new Error(`Expected "${value}" at offset ${this.tokens[this.index]?.start ?? this.content.length}`);
+    }
+    return token;
+  }
+
+  // End of a column or constraint inside a list: "," or the closing ")" (or the statement end)
+  private isListEnd(): boolean {
+    return this.index >= this.tokens.length || this.isPunct(',') || this.isPunct(')');
+  }
+
+  private skipToListEnd() {
+    while (!this.isListEnd()) this.skipTerm();
+  }
+
+  // Skip one token, or a whole parenthesized group
+  private skipTerm() {
+    if (this.isPunct('(')) {
+      this.readGroup();
+    } else {
+      this.next();
+    }
+  }
+
+  /**
+   * The tokens inside a parenthesized group, which is consumed with its parentheses
+   */
+  private readGroup(): Token[] {
+    this.expectPunct('(');
+    const start = this.index;
+    for (let depth = 1; ; ) {
+      const token = this.next();
+      if (token.kind === 'punct' && token.value === '(') depth++;
+      if (token.kind === 'punct' && token.value === ')' && --depth === 0) break;
+    }
+    return this.tokens.slice(start, this.index - 1);
+  }
+
+  /**
+   * A default or ON UPDATE expression: a literal or call, with optional sign and ::casts
+   */
+  private readExpression(): Token[] {
+    const start = this.index;
+    if (this.isPunct('-') || this.isPunct('+')) this.next();
+    this.skipTerm();
+    if (this.isPunct('(')) this.readGroup();
+    if (this.acceptPunct('[')) {
+      // ARRAY['a', 'b']
+      while (!this.acceptPunct(']')) this.next();
+    }
+    while (this.acceptPunct('::')) {
+      this.next();
+      while (this.tokens[this.index]?.kind === 'word' && !COLUMN_CONSTRAINT_KEYWORDS.has(this.peek().value.toUpperCase())) {
+        this.next();
+      }
+      if (this.isPunct('(')) this.readGroup();
+      if (this.acceptPunct('[')) this.expectPunct(']');
+    }
+    return this.tokens.slice(start, this.index);
+  }
+
+  private readName(): string {
+    const token = this.next();
+    if (token.kind !== 'word' && token.kind !== 'identifier') {
+      throw new Error(`Expected a name at offset ${token.start}`);
+    }
+    return token.value;
+  }
+
+  private readTableName(): TableName {
+    const name = this.readName();
+    if (this.acceptPunct('.')) {
+      return { schema: name, name: this.readName() };
+    }
+    return { name };
+  }
+
+  // MySQL allows an index name before the column list: UNIQUE KEY uq_email (email)
+  private readOptionalIndexName(): string | undefined {
+    return this.isPunct('(') ? undefined : this.readName();
+  }
+
+  private readColumnList(): string[] {
+    return this.splitGroup(this.readGroup()).map((item) => item[0]?.value).filter(Boolean);
+  }
+
+  /**
+   * Index columns, ignoring lengths, sort orders and operator classes (name(10) DESC)
+   */
+  private readIndexColumns(): string[] {
+    const columns = this.splitGroup(this.readGroup())
+      .filter((item) => item[0]?.kind === 'word' || item[0]?.kind === 'identifier')
+      .map((item) => item[0].value);
+    while (this.acceptKeyword('USING') || this.acceptKeyword('INCLUDE') || this.acceptKeyword('WITH')) {
+      this.skipTerm();
+    }
+    return columns;
+  }
+
+  private splitGroup(tokens: Token[]): Token[][] {
+    const items: Token[][] = [[]];
+    let depth = 0;
+    for (const token of tokens) {
+      if (token.kind === 'punct' && token.value === '(') depth++;
+      if (token.kind === 'punct' && token.value === ')') depth--;
+      if (depth === 0 && token.kind === 'punct' && token.value === ',') {
+        items.push([]);
+      } else {
+        items[items.length - 1].push(token);
+      }
+    }
+    return items;
+  }
+
+  private sourceText(tokens: Token[]): string {
+    return tokens.length > 0 ? this.content.slice(tokens[0].start, tokens[tokens.length - 1].end) : '';
+  }
+}
+
+/**
+ * Set a column's Prisma type and native type from its SQL type, e.g. varchar(255) or tinyint(1)
+ */
+export function setSqlType(field: PrismaField, typeName: string, args: string[]) {
+  const baseName = typeName.toLowerCase().replace(/\s+(unsigned|signed|zerofill)$/g, '');
+  const isFlag = (baseName === 'tinyint' || baseName === 'bit') && args[0] === '1';
+  const scalar = isFlag ? 'Boolean' : SQL_SCALAR_TYPES[baseName] || SQL_SCALAR_TYPES[baseName.split(' ')[0]];
+  field.type = scalar || `Unsupported(${JSON.stringify(typeName)})`;
+  field.nativeType = typeName.toUpperCase() + (args.length > 0 ? `(${args.join(',')})` : '');
+  if (SERIAL_TYPES.has(baseName)) {
+    setDefault(field, 'autoincrement()');
+  }
+}
+
+/**
+ * A quoted default; MySQL quotes numbers and flags too (DEFAULT '0')
+ */
+export function convertStringDefault(value: string, field: PrismaField): string {
+  if (field.isEnum) {
+    return enumValueName(value);
+  }
+  if (field.type === 'Boolean' && /^(0|1|t|f|true|false)$/i.test(value)) {
+    return String(/^(1|t|true)$/i.test(value));
+  }
+  if (['Int', 'BigInt', 'Float', 'Decimal'].includes(field.type) && /^[-+]?\d+(\.\d+)?$/.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * An unquoted default: CURRENT_TIMESTAMP -> now(), nextval(...) -> autoincrement(), anything else dbgenerated
+ */
+export function convertExpressionDefault(literal: string, expression = literal): string {
+  if (TIMESTAMP_DEFAULTS.test(literal)) {
+    return 'now()';
+  }
+  if (/^nextval\s*\(/i.test(literal)) {
+    return 'autoincrement()';
+  }
+  return `dbgenerated(${JSON.stringify(expression)})`;
+}
+
+export function setDefault(field: PrismaField, value: string) {
+  field.hasDefault = true;
+  field.defaultValue = value;
+}
+
+// Unquoted SQL identifiers are case-insensitive
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Enum values must be identifiers in Prisma; others keep their database value as @map
+export function enumValueName(value: string): string {
+  const name = value.replace(/\W+/g, '_');
+  return /^\d/.test(name) || name === '' ? `_${name}` : name;
+}
@@ -0,0 +1,304 @@
+// YAML path utilities
+// Resolves validator-style paths (e.g. "models.User.fields.id", "messages[2].from")
+// to source offsets using the yaml library's document model. Diagnostics, quick fixes
+// and revealing diagram elements in their source all locate entries here.
+
+import { Document, Node as YamlNode, isMap, isSeq, isScalar } from 'yaml';
+
+export type YamlPathSegment = string | number;
+
+export interface YamlSourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a dotted path with array indexes into segments
+ * "participants[0].id" -> ['participants', 0, 'id']
+ */
+export function parseYamlPath(path: string): YamlPathSegment[] {
+  const segments: YamlPathSegment[] = [];
+  if (!path) {
+    return segments;
+  }
+
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^\[]*)((?:\[\d+\])*)$/);
+    if (!match) {
+      segments.push(part);
+      continue;
+    }
+
+    if (match[1]) {
+      segments.push(match[1]);
+    }
+
+    const indexes = match[2].match(/\d+/g) || [];
+    for (const index of indexes) {
+      segments.push(Number(index));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Join segments back into a dotted path for messages
+ * ['participants', 0, 'id'] -> "participants[0].id"
+ */
+export function formatYamlPath(segments: YamlPathSegment[]): string {
+  return segments.reduce<string>(
+    (path, segment) => (typeof segment === 'number' ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment),
+    ''
+  );
+}
+
+/**
+ * Find the source range for a path inside a parsed YAML document.
+ *
+ * Map entries resolve to their key so squiggles sit on the entry name.
+ * When part of the path does not exist (e.g. a missing required field),
+ * the deepest existing ancestor is returned instead.
+ */
+export function findYamlPathRange(doc: Document, path: string | YamlPathSegment[]): YamlSourceRange | undefined {
+  const segments = typeof path === 'string' ? parseYamlPath(path) : path;
+
+  let current: unknown = doc.contents;
+  let range = toRange(current);
+
+  // Document-level findings point at the first top-level key rather than the whole file
+  if (segments.length === 0 && isMap(current) && current.items.length > 0) {
+    return toRange(current.items[0].key) || range;
+  }
+
+  for (const segment of segments) {
+    const child = childAt(current, segment);
+    if (!child) {
+      break;
+    }
+    range = toRange(child.key) || toRange(child.value) || range;
+    current = child.value;
+  }
+
+  return range;
+}
+
+/**
+ * Ranges of the entries of the map at a path, keyed by entry name. Each range spans
+ * the key through the end of its value, for selecting the whole element.
+ */
+export function findYamlEntryRanges(doc: Document, content: string, path: YamlPathSegment[]): Map<string, YamlSourceRange> {
+  const ranges = new Map<string, YamlSourceRange>();
+  const map = findYamlNode(doc, path);
+  if (!isMap(map)) {
+    return ranges;
+  }
+
+  for (const pair of map.items) {
+    const key = toRange(pair.key);
+    const end = toRange(pair.value)?.end ?? key?.end;
+    if (isScalar(pair.key) && key && end !== undefined) {
+      ranges.set(String(pair.key.value), trimRange(content, key.start, end));
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Ranges of the items of the sequence at a path, in order
+ */
+export function findYamlItemRanges(doc: Document, content: string, path: YamlPathSegment[]): (YamlSourceRange | undefined)[] {
+  const seq = findYamlNode(doc, path);
+  if (!isSeq(seq)) {
+    return [];
+  }
+
+  return seq.items.map((item) => {
+    const range = toRange(item);
+    return range ? trimRange(content, range.start, range.end) : undefined;
+  });
+}
+
+/**
+ * Find the path of the innermost map entry or sequence item containing an offset,
+ * e.g. the cursor in a field's attributes gives ['models', 'User', 'fields', 'email', 'attributes'].
+ */
+export function findYamlPathAtOffset(doc: Document, offset: number): YamlPathSegment[] {
+  const segments: YamlPathSegment[] = [];
+  let current: unknown = doc.contents;
+
+  for (;;) {
+    if (isMap(current)) {
+      const pair = current.items.find(item => {
+        const start = toRange(item.key)?.start;
+        const end = toRange(item.value)?.end ?? toRange(item.key)?.end;
+        return start !== undefined && end !== undefined && start <= offset && offset <= end;
+      });
+      if (!pair || !isScalar(pair.key)) {
+        break;
+      }
+      segments.push(String(pair.key.value));
+      current = pair.value;
+    } else if (isSeq(current)) {
+      const index = current.items.findIndex(item => {
+        const range = toRange(item);
+        return range !== undefined && range.start <= offset && offset <= range.end;
+      });
+      if (index < 0) {
+        break;
+      }
+      segments.push(index);
+      current = current.items[index];
+    } else {
+      break;
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * What is being typed at an offset:
+ * - key: a key of the map at path
+ * - value: the value of the entry at path
+ * - item: a sequence item at path, either a scalar or the first key of a new map
+ */
+export interface YamlCursorContext {
+  kind: 'key' | 'value' | 'item';
+  path: YamlPathSegment[];
+  text: string; // Typed so far on the line after the key, colon or dash
+}
+
+interface YamlLine {
+  indent: number;
+  dashes: number[]; // Columns of "- " sequence markers
+  keyColumn: number; // Where the content after the markers starts
+  key?: string;
+}
+
+const KEY_PATTERN = /^(["']?)([^"':#\s][^"':#]*?)\1\s*:(?:\s|$)/;
+
+/**
+ * Find what is being typed at an offset from indentation alone, so it also works while the
+ * document doesn't parse (a key without its colon yet, an empty value). Sequence items get
+ * their index, e.g. ['edges', 2] for the third edge.
+ */
+export function findYamlCursorContext(text: string, offset: number): YamlCursorContext {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  const lines = text.slice(0, lineStart).split('\n');
+  const current = parseYamlLine(text.slice(lineStart, offset));
+
+  // The key or value being typed, from the line up to the cursor
+  const rest = text.slice(lineStart + current.keyColumn, offset);
+  const keyMatch = rest.match(KEY_PATTERN);
+  const entry: Pick<YamlCursorContext, 'kind' | 'text'> & { key?: string } = keyMatch
+    ? { kind: 'value', key: keyMatch[2].trim(), text: rest.slice(keyMatch[0].length).trimStart() }
+    : { kind: current.dashes.length > 0 ? 'item' : 'key', text: rest };
+
+  // Walk up through the lines for the enclosing keys and sequence indexes, innermost first
+  const reversed: YamlPathSegment[] = [];
+  let state: { kind: 'map'; column: number } | { kind: 'seq'; column: number; index: number } | undefined =
+    current.dashes.length > 0
+      ? { kind: 'seq', column: current.dashes[current.dashes.length - 1], index: 0 }
+      : { kind: 'map', column: current.keyColumn };
+
+  for (let i = lines.length - 2; i >= 0 && state; i--) {
+    const line = parseYamlLine(lines[i]);
+    if (line.key === undefined && line.dashes.length === 0) {
+      continue; // Blank lines, comments and continuation lines
+    }
+
+    if (state.kind === 'map') {
+      if (line.keyColumn >= state.column) {
+        // A sibling key, or the "- " line that starts this map as a sequence item
+        if (line.keyColumn === state.column && line.dashes.length > 0) {
+          state = { kind: 'seq', column: line.dashes[line.dashes.length - 1], index: 0 };
+        }
+        continue;
+      }
+    } else {
+      if (line.dashes.includes(state.column)) {
+        state.index++;
+        continue;
+      }
+      // Content of an earlier item; a key at the dash column holds an unindented sequence
+      if (line.keyColumn > state.column) {
+        continue;
+      }
+      reversed.push(state.index);
+    }
+
+    // The line holds the entry the current map or sequence is the value of
+    state = line.key === undefined ? undefined
+      : line.dashes.length > 0 ? { kind: 'seq', column: line.dashes[line.dashes.length - 1], index: 0 }
+      : { kind: 'map', column: line.keyColumn };
+    if (line.key !== undefined) {
+      reversed.push(line.key);
+    }
+  }
+  if (state?.kind === 'seq') {
+    reversed.push(state.index);
+  }
+
+  const path = reversed.reverse();
+  if (entry.key !== undefined) {
+    path.push(entry.key);
+  }
+  return { kind: entry.kind, path, text: entry.text };
+}
+
+function parseYamlLine(line: string): YamlLine {
+  const match = line.match(/^(\s*)((?:-(?:\s+|$))*)(.*)$/)!;
+  const indent = match[1].length;
+  const dashes: number[] = [];
+  for (let column = indent; column < indent + match[2].length; column++) {
+    if (line[column] === '-') {
+      dashes.push(column);
+    }
+  }
+  const content = match[3];
+  const key = content.startsWith('#') ? undefined : content.match(KEY_PATTERN)?.[2].trim();
+  return { indent, dashes, keyColumn: indent + match[2].length, key };
+}
+
+// The node at a path, when all of it exists
+function findYamlNode(doc: Document, segments: YamlPathSegment[]): unknown {
+  let current: unknown = doc.contents;
+  for (const segment of segments) {
+    const child = childAt(current, segment);
+    if (!child) {
+      return undefined;
+    }
+    current = child.value;
+  }
+  return current;
+}
+
+// One step along a path: a map entry by key or a sequence item by index
+function childAt(node: unknown, segment: YamlPathSegment): { key?: unknown; value: unknown } | undefined {
+  if (isMap(node)) {
+    const pair = node.items.find(item => isScalar(item.key) && String(item.key.value) === String(segment));
+    return pair ? { key: pair.key, value: pair.value } : undefined;
+  }
+  if (isSeq(node) && typeof segment === 'number') {
+    const item = node.items[segment];
+    return item ? { value: item } : undefined;
+  }
+  return undefined;
+}
+
+// Block values end after their trailing newline; selections shouldn't
+function trimRange(content: string, start: number, end: number): YamlSourceRange {
+  while (end > start && /\s/.test(content[end - 1])) {
+    end--;
+  }
+  return { start, end };
+}
+
+function toRange(node: unknown): YamlSourceRange | undefined {
+  const range = (node as YamlNode | null | undefined)?.range;
+  if (!range) {
+    return undefined;
+  }
+  return { start: range[0], end: range[1] };
+}
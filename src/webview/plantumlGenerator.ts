@@ -0,0 +1,394 @@
+// Diagram to PlantUML Generator
+// Converts sequence diagrams to PlantUML sequence syntax and flow diagrams to PlantUML activity syntax
+
+import * as yaml from 'yaml';
+import { AnyDiagram, FlowDiagram, FlowEdge, FlowNode, SequenceDiagram, SequenceNote, ArrowType, BlockType } from './types/diagrams';
+import { BlockSpan, findBlockSpans, groupNotes } from './mermaidGenerator';
+
+const SEQUENCE_ARROWS: { [type in ArrowType]: string } = {
+  solid: '->',
+  dashed: '-->',
+  open_solid: '->>',
+  open_dashed: '-->>',
+  dot: '->o',
+};
+
+// PlantUML has no negative fragment; a named group keeps the label
+const BLOCK_KEYWORDS: { [type in BlockType]: string } = {
+  alt: 'alt',
+  opt: 'opt',
+  loop: 'loop',
+  par: 'par',
+  critical: 'critical',
+  neg: 'group neg',
+};
+
+// Labels that just name the terminal; anything else is kept as an activity next to it
+const TERMINAL_LABELS = /^(start|begin|end|stop|done|finish)$/i;
+
+/**
+ * Generate PlantUML from a .cryml sequence or flow diagram
+ */
+export function yamlToPlantUml(content: string): string {
+  const parsed = yaml.parse(content) as AnyDiagram;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Empty or invalid .cryml document');
+  }
+
+  switch (parsed.diagram_type) {
+    case 'sequence':
+      return sequenceToPlantUml(parsed);
+    case 'flow':
+      return flowToPlantUml(parsed);
+    default:
+      throw new Error(`Only sequence and flow diagrams can be converted to PlantUML (diagram_type is "${parsed.diagram_type || 'erd'}")`);
+  }
+}
+
+// ============================================================================
+// Sequence diagrams
+// ============================================================================
+
+/**
+ * PlantUML sequence diagram. Participants of the same group share a box; blocks become
+ * alt / opt / loop / par / critical fragments with their alt_sections as else branches.
+ */
+export function sequenceToPlantUml(diagram: Omit<SequenceDiagram, 'diagram_type'>): string {
+  const ids = new PlantUmlIds();
+  const lines = ['@startuml', ...titleLines(diagram.metadata)];
+
+  const participants = Object.entries(diagram.participants || {})
+    .sort(([, a], [, b]) => (a.order ?? 0) - (b.order ?? 0));
+  let box: string | undefined;
+  for (const [id, participant] of participants) {
+    if (participant.group !== box) {
+      if (box) {
+        lines.push('end box');
+      }
+      box = participant.group;
+      if (box) {
+        lines.push(`box ${quote(box)}`);
+      }
+    }
+    lines.push(`${participant.type === 'actor' ? 'actor' : 'participant'} ${quote(String(participant.label ?? id))} as ${ids.get(id)}`);
+  }
+  if (box) {
+    lines.push('end box');
+  }
+  lines.push('');
+
+  const messages = [...(diagram.messages || [])].sort((a, b) => Number(a.sequence_order) - Number(b.sequence_order));
+  const spans = findBlockSpans(diagram.blocks || [], messages);
+  const notesAfter = groupNotes(diagram.notes || [], messages);
+  const open: BlockSpan[] = [];
+  const indent = () => '  '.repeat(open.length);
+
+  lines.push(...(notesAfter.get(-1) || []).map((note) => formatNote(note, ids)));
+  messages.forEach((message, index) => {
+    for (const span of spans.filter((candidate) => candidate.start === index)) {
+      const condition = span.sections.get(index) ?? span.block.condition ?? span.block.label;
+      lines.push(`${indent()}${BLOCK_KEYWORDS[span.block.type] || 'group'}${condition ? ` ${singleLine(String(condition))}` : ''}`);
+      open.push(span);
+    }
+    for (const [depth, span] of open.entries()) {
+      const condition = span.start !== index ? span.sections.get(index) : undefined;
+      if (condition !== undefined) {
+        lines.push(`${'  '.repeat(depth)}else${condition ? ` ${singleLine(condition)}` : ''}`);
+      }
+    }
+
+    const arrow = SEQUENCE_ARROWS[message.arrow_type || 'solid'] || SEQUENCE_ARROWS.solid;
+    lines.push(`${indent()}${ids.get(String(message.from))} ${arrow} ${ids.get(String(message.to))} : ${singleLine(String(message.label ?? ''))}`);
+    if (message.note) {
+      lines.push(`${indent()}note right : ${singleLine(String(message.note))}`);
+    }
+
+    while (open.length > 0 && open[open.length - 1].end <= index) {
+      open.pop();
+      lines.push(`${indent()}end`);
+    }
+    lines.push(...(notesAfter.get(index) || []).map((note) => indent() + formatNote(note, ids)));
+  });
+
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+function formatNote(note: SequenceNote, ids: PlantUmlIds): string {
+  const over = note.position?.over?.length
+    ? note.position.over.map((participant) => ids.get(participant)).join(', ')
+    : ids.get(String(note.position?.participant ?? ''));
+  const keyword = note.style === 'warning' || note.style === 'error' ? 'hnote' : 'note';
+  return `${keyword} over ${over} : ${singleLine(String(note.text ?? ''))}`;
+}
+
+// ============================================================================
+// Flow diagrams
+// ============================================================================
+
+interface FlowContext {
+  nodes: Record<string, FlowNode>;
+  outgoing: Map<string, FlowEdge[]>;
+  incoming: Map<string, number>;
+  groups: FlowDiagram['groups'];
+  visited: Set<string>;
+  connectors: Map<string, number>; // Nodes reached again after they were drawn -> connector number
+  reachedAgain: Set<string>; // Connector targets found during this walk
+  lines: string[];
+}
+
+/**
+ * PlantUML activity diagram. Activity syntax is structured, so the graph is walked from its
+ * start nodes: decisions become if / switch blocks whose branches continue after endif where
+ * they meet, processes with several exits split, groups become partitions, and edges back to
+ * an activity already drawn end in a numbered connector repeated in front of that activity.
+ */
+export function flowToPlantUml(diagram: Omit<FlowDiagram, 'diagram_type'>): string {
+  const nodes = diagram.nodes || {};
+  const edges = (diagram.edges || []).filter((edge) => nodes[edge.from] && nodes[edge.to]);
+  const outgoing = new Map<string, FlowEdge[]>();
+  const incoming = new Map<string, number>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge]);
+    incoming.set(edge.to, (incoming.get(edge.to) ?? 0) + 1);
+  }
+
+  // Walk from the start nodes, then from anything they don't reach
+  const roots = Array.from(new Set([
+    ...Object.keys(nodes).filter((id) => nodes[id].type === 'start'),
+    ...Object.keys(nodes).filter((id) => nodes[id].type !== 'start' && !incoming.has(id)),
+    ...Object.keys(nodes),
+  ]));
+
+  // Connector targets are only known once the walk reaches them again, so a first walk finds
+  // them and a second one draws the connectors in front of their activities as well
+  let connectors = new Map<string, number>();
+  for (;;) {
+    const context: FlowContext = {
+      nodes, outgoing, incoming, groups: diagram.groups, visited: new Set(), connectors, reachedAgain: new Set(), lines: [],
+    };
+    for (const root of roots.filter((id) => nodes[id].type !== 'note')) {
+      if (!context.visited.has(root)) {
+        if (context.lines.length > 0) {
+          context.lines.push('');
+        }
+        walkChain(root, undefined, context, '');
+      }
+    }
+    // Notes nothing points to float next to the diagram
+    for (const id of roots.filter((id) => nodes[id].type === 'note' && !context.visited.has(id))) {
+      context.visited.add(id);
+      context.lines.push(`floating note right: ${singleLine(String(nodes[id].label ?? id))}`);
+    }
+
+    const missing = [...context.reachedAgain].filter((id) => !connectors.has(id));
+    if (missing.length === 0) {
+      return ['@startuml', ...titleLines(diagram.metadata), ...context.lines, '@enduml'].join('\n') + '\n';
+    }
+    connectors = new Map([...connectors, ...missing.map((id, index): [string, number] => [id, connectors.size + index + 1])]);
+  }
+}
+
+// The if / switch / split block a chain is a branch of
+interface Branch {
+  partition?: string; // Group whose partition the block is drawn in
+}
+
+/**
+ * Draw activities from id until the chain ends or reaches a drawn activity. A branch also stops
+ * where branches meet and returns that node, so its block can continue from it after the end.
+ */
+function walkChain(
+  id: string | undefined,
+  edgeLabel: string | undefined,
+  context: FlowContext,
+  indent: string,
+  branch?: Branch
+): string | undefined {
+  const enclosing = branch?.partition;
+  let partition: string | undefined;
+  const closePartition = () => {
+    if (partition) {
+      indent = indent.slice(2);
+      context.lines.push(`${indent}}`);
+      partition = undefined;
+    }
+  };
+  const jump = (target: string) => {
+    context.reachedAgain.add(target);
+    pushArrow(context, indent, edgeLabel);
+    context.lines.push(`${indent}(${context.connectors.get(target) ?? '?'})`, `${indent}detach`);
+    closePartition();
+    return undefined;
+  };
+
+  let first = true;
+  while (id) {
+    const node = context.nodes[id];
+    if (context.visited.has(id)) {
+      return jump(id);
+    }
+    if (branch && !first && (context.incoming.get(id) ?? 0) > 1) {
+      // Branches meet here; a node other chains also jump to is reached through its connector
+      if (context.connectors.has(id)) {
+        return jump(id);
+      }
+      closePartition();
+      return id;
+    }
+    first = false;
+
+    if (node.group !== (partition ?? enclosing)) {
+      closePartition();
+      if (node.group && node.group !== enclosing) {
+        partition = node.group;
+        context.lines.push(`${indent}partition ${quote(context.groups?.[node.group]?.label || node.group)} {`);
+        indent += '  ';
+      }
+    }
+
+    context.visited.add(id);
+    pushArrow(context, indent, edgeLabel);
+    if (context.connectors.has(id)) {
+      context.lines.push(`${indent}(${context.connectors.get(id)})`);
+    }
+
+    const edges = context.outgoing.get(id) || [];
+    const nextEdges = edges.filter((edge) => context.nodes[edge.to].type !== 'note');
+    const label = activityText(String(node.label ?? id));
+    switch (node.type) {
+      case 'start':
+        context.lines.push(`${indent}start`);
+        if (!TERMINAL_LABELS.test(label)) {
+          context.lines.push(`${indent}:${label};`);
+        }
+        break;
+      case 'end':
+        if (!TERMINAL_LABELS.test(label)) {
+          context.lines.push(`${indent}:${label};`);
+        }
+        context.lines.push(`${indent}stop`);
+        break;
+      default:
+        if (node.type !== 'decision' || nextEdges.length < 2) {
+          context.lines.push(`${indent}:${label};`);
+        }
+    }
+
+    // Notes hang off the activity before them
+    for (const noteEdge of edges.filter((edge) => context.nodes[edge.to].type === 'note')) {
+      if (!context.visited.has(noteEdge.to)) {
+        context.visited.add(noteEdge.to);
+        const text = activityText(String(context.nodes[noteEdge.to].label ?? noteEdge.to));
+        context.lines.push(`${indent}note right`, ...text.split('\n').map((line) => `${indent}  ${line}`), `${indent}end note`);
+      }
+    }
+
+    if (nextEdges.length >= 2) {
+      id = walkBranches(node.type === 'decision' ? label : undefined, nextEdges, context, indent, { partition: partition ?? enclosing });
+      edgeLabel = undefined;
+      first = true;
+      continue;
+    }
+    id = nextEdges[0]?.to;
+    edgeLabel = nextEdges[0]?.label || nextEdges[0]?.condition;
+  }
+
+  closePartition();
+  return undefined;
+}
+
+// if / else for a decision with two exits, switch for more, split for other nodes;
+// returns where the branches meet
+function walkBranches(
+  condition: string | undefined,
+  edges: FlowEdge[],
+  context: FlowContext,
+  indent: string,
+  branch: Branch
+): string | undefined {
+  const edgeText = (edge: FlowEdge) => singleLine(edge.label || edge.condition || '');
+  const joins: (string | undefined)[] = [];
+  const inner = indent + '  ';
+
+  if (condition === undefined) {
+    edges.forEach((edge, index) => {
+      context.lines.push(`${indent}${index === 0 ? 'split' : 'split again'}`);
+      joins.push(walkChain(edge.to, edge.label || edge.condition, context, inner, branch));
+    });
+    context.lines.push(`${indent}end split`);
+  } else if (edges.length === 2) {
+    context.lines.push(`${indent}if (${singleLine(condition)}) then (${edgeText(edges[0])})`);
+    joins.push(walkChain(edges[0].to, undefined, context, inner, branch));
+    context.lines.push(`${indent}else (${edgeText(edges[1])})`);
+    joins.push(walkChain(edges[1].to, undefined, context, inner, branch));
+    context.lines.push(`${indent}endif`);
+  } else {
+    context.lines.push(`${indent}switch (${singleLine(condition)})`);
+    for (const edge of edges) {
+      context.lines.push(`${indent}case (${edgeText(edge)})`);
+      joins.push(walkChain(edge.to, undefined, context, inner, branch));
+    }
+    context.lines.push(`${indent}endswitch`);
+  }
+
+  // Only one meeting point can follow the block; branches that stopped at another one
+  // reach it through a connector on the next walk
+  const [join, ...others] = joins.filter((candidate): candidate is string => !!candidate);
+  for (const other of others.filter((candidate) => candidate !== join)) {
+    context.reachedAgain.add(other);
+  }
+  return join;
+}
+
+function pushArrow(context: FlowContext, indent: string, label: string | undefined) {
+  if (label) {
+    context.lines.push(`${indent}-> ${singleLine(label)};`);
+  }
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function titleLines(metadata: SequenceDiagram['metadata'] | undefined): string[] {
+  return [
+    ...(metadata?.name ? [`title ${singleLine(String(metadata.name))}`] : []),
+    ...(metadata?.description ? String(metadata.description).split('\n').map((line) => `' ${line}`.trimEnd()) : []),
+  ];
+}
+
+// Participant aliases: word characters only, unique after replacing the rest
+class PlantUmlIds {
+  private readonly ids = new Map<string, string>();
+  private readonly used = new Set<string>();
+
+  get(key: string): string {
+    const existing = this.ids.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    let id = key.replace(/[^\w]/g, '_') || '_';
+    for (let suffix = 2; this.used.has(id); suffix++) {
+      id = `${id.replace(/_\d+$/, '')}_${suffix}`;
+    }
+    this.ids.set(key, id);
+    this.used.add(id);
+    return id;
+  }
+}
+
+function quote(text: string): string {
+  return `"${singleLine(text).replace(/"/g, "'")}"`;
+}
+
+// Line breaks are written as \n inside a PlantUML line
+function singleLine(text: string): string {
+  return text.replace(/\r?\n/g, '\\n');
+}
+
+// Activity text ends at ; so semicolons in labels are swapped for a lookalike
+function activityText(text: string): string {
+  return text.replace(/;/g, '\u037e');
+}
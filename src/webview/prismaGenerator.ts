@@ -0,0 +1,622 @@
+// YAML to Prisma Generator
+// Converts a .cryml ERD back to a Prisma schema (the reverse of yamlTransformer)
+
+import * as yaml from 'yaml';
+import { ERDDiagram, ERDModel, ERDField, ERDEnum } from './types/diagrams';
+
+// field_type spellings accepted in .cryml files, by lowercase name
+export const SCALAR_TYPES: { [key: string]: string } = {
+  string: 'String',
+  text: 'String',
+  varchar: 'String',
+  uuid: 'String',
+  int: 'Int',
+  integer: 'Int',
+  bigint: 'BigInt',
+  float: 'Float',
+  double: 'Float',
+  decimal: 'Decimal',
+  boolean: 'Boolean',
+  bool: 'Boolean',
+  datetime: 'DateTime',
+  timestamp: 'DateTime',
+  date: 'DateTime',
+  json: 'Json',
+  jsonb: 'Json',
+  bytes: 'Bytes',
+};
+
+// SQL db_type names to PostgreSQL native type attributes (@db.*); Prisma names are kept as written
+const NATIVE_TYPES: { [key: string]: string } = {
+  'VARCHAR': 'VarChar',
+  'CHARACTER VARYING': 'VarChar',
+  'CHAR': 'Char',
+  'CHARACTER': 'Char',
+  'TEXT': 'Text',
+  'UUID': 'Uuid',
+  'INT': 'Integer',
+  'INTEGER': 'Integer',
+  'SMALLINT': 'SmallInt',
+  'BIGINT': 'BigInt',
+  'SERIAL': 'Integer',
+  'DECIMAL': 'Decimal',
+  'NUMERIC': 'Decimal',
+  'MONEY': 'Money',
+  'REAL': 'Real',
+  'DOUBLE PRECISION': 'DoublePrecision',
+  'BOOLEAN': 'Boolean',
+  'TIMESTAMP': 'Timestamp',
+  'TIMESTAMPTZ': 'Timestamptz',
+  'TIMESTAMP WITH TIME ZONE': 'Timestamptz',
+  'TIMESTAMP WITHOUT TIME ZONE': 'Timestamp',
+  'DATE': 'Date',
+  'TIME': 'Time',
+  'JSON': 'Json',
+  'JSONB': 'JsonB',
+  'BYTEA': 'ByteA',
+};
+
+const REFERENTIAL_ACTIONS: { [key: string]: string } = {
+  cascade: 'Cascade',
+  restrict: 'Restrict',
+  noaction: 'NoAction',
+  setnull: 'SetNull',
+  setdefault: 'SetDefault',
+};
+
+// Used when the .cryml has no prisma: section
+const DEFAULT_GENERATORS = { client: { provider: 'prisma-client-js' } };
+const DEFAULT_DATASOURCES = { db: { provider: 'postgresql', url: 'env("DATABASE_URL")' } };
+
+interface GeneratorContext {
+  models: { [key: string]: ERDModel };
+  enumNames: Set<string>;
+  datasource: string; // Native type prefix, e.g. "db" in @db.VarChar
+  legacyDefaults: boolean;
+}
+
+interface FieldLine {
+  name: string;
+  type: string;
+  attributes: string[];
+  rawAttributes: string[]; // prisma_attributes, written after the structured ones
+  documentation?: string;
+}
+
+interface ModelBlock {
+  kind: string;
+  name: string;
+  documentation?: string;
+  lines: FieldLine[];
+  blockAttributes: string[];
+  comments: string[];
+  usedNames: Set<string>;
+}
+
+// A relation field declared by a foreign_key, which needs a back-relation on the target
+interface Relation {
+  line: FieldLine;
+  model: string;
+  target: string;
+  fields: string[];
+  references: string[];
+  map?: string;
+  onDelete?: string;
+  onUpdate?: string;
+  unique: boolean;
+  name?: string;
+}
+
+// A relation field without a foreign key (the back-relation side)
+interface VirtualRelation {
+  line: FieldLine;
+  target: string;
+  name?: string;
+  consumed: boolean;
+}
+
+/**
+ * Generate a Prisma schema from an ERD .cryml document
+ */
+export function yamlToPrisma(content: string): string {
+  const parsed = yaml.parse(content) as ERDDiagram;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Empty or invalid .cryml document');
+  }
+  if (parsed.diagram_type && parsed.diagram_type !== 'erd') {
+    throw new Error(`Only ERD diagrams can be converted to Prisma (diagram_type is "${parsed.diagram_type}")`);
+  }
+
+  const yamlEnums = parsed.enums || {};
+  const generators = parsed.prisma ? parsed.prisma.generators ?? {} : DEFAULT_GENERATORS;
+  const datasources = parsed.prisma ? parsed.prisma.datasources ?? {} : DEFAULT_DATASOURCES;
+  const context: GeneratorContext = {
+    models: parsed.models || {},
+    enumNames: new Set(Object.keys(yamlEnums)),
+    datasource: Object.keys(datasources)[0] || 'db',
+    // Exports from before the prisma: section wrote auto() for every default
+    legacyDefaults: !parsed.prisma,
+  };
+
+  const blocks = new Map<string, ModelBlock>();
+  const relations: Relation[] = [];
+  const virtuals: { [model: string]: VirtualRelation[] } = {};
+
+  for (const [name, yamlModel] of Object.entries(context.models)) {
+    virtuals[name] = [];
+    blocks.set(name, convertModel(name, yamlModel, context, relations, virtuals[name]));
+  }
+
+  // Named relations pair first so unnamed ones can't take their back-relation
+  const ambiguous = findAmbiguousRelations(relations);
+  for (const relation of [...relations].sort((a, b) => Number(!a.name) - Number(!b.name))) {
+    addBackRelation(relation, blocks.get(relation.target)!, virtuals[relation.target], ambiguous.has(relation));
+  }
+  warnUnpairedRelations(blocks, virtuals);
+
+  const sections = [
+    ...metadataComments(parsed.metadata),
+    ...Object.entries(generators).map(([name, properties]) => formatConfig('generator', name, properties)),
+    ...Object.entries(datasources).map(([name, properties]) => formatConfig('datasource', name, properties)),
+    ...Array.from(blocks.values()).map(formatModel),
+    ...Object.entries(yamlEnums).map(([name, yamlEnum]) => formatEnum(name, yamlEnum)),
+  ];
+  return sections.join('\n\n') + '\n';
+}
+
+function metadataComments(metadata?: ERDDiagram['metadata']): string[] {
+  if (!metadata?.name) {
+    return [];
+  }
+  const lines = [metadata.name, ...(metadata.description ? String(metadata.description).split('\n') : [])];
+  return [lines.map((line) => `// ${line}`.trimEnd()).join('\n')];
+}
+
+function convertModel(
+  name: string,
+  yamlModel: ERDModel,
+  context: GeneratorContext,
+  relations: Relation[],
+  virtuals: VirtualRelation[]
+): ModelBlock {
+  const fields = Object.entries(yamlModel.fields || {});
+  const rawBlockAttributes = yamlModel.block_attributes || [];
+  const block: ModelBlock = {
+    kind: yamlModel.kind || 'model',
+    name,
+    documentation: yamlModel.description,
+    lines: [],
+    blockAttributes: [],
+    comments: [],
+    usedNames: new Set(fields.map(([fieldName]) => fieldName)),
+  };
+
+  // Several primary_key fields form a composite key, unless block_attributes spells out the @@id
+  const primaryKey = hasAttribute(rawBlockAttributes, '@@id')
+    ? []
+    : fields.filter(([, field]) => field.attributes?.primary_key).map(([fieldName]) => fieldName);
+
+  for (const [fieldName, field] of fields) {
+    if (!field?.field_type) {
+      throw new Error(`Field ${name}.${fieldName} is missing field_type`);
+    }
+
+    const { baseType, isList } = splitFieldType(field);
+    const foreignKey = field.attributes?.foreign_key;
+
+    if (context.models[baseType]) {
+      const line: FieldLine = {
+        name: fieldName,
+        type: baseType + (isList ? '[]' : isRequired(field) ? '' : '?'),
+        attributes: [],
+        rawAttributes: field.attributes?.prisma_attributes || [],
+        documentation: field.description,
+      };
+      block.lines.push(line);
+
+      if (foreignKey && !field.attributes?.virtual) {
+        // Relation field exported by prismaToYaml; without fields its scalar is usually <field>Id
+        const column = foreignKey.column || 'id';
+        const scalarType = context.models[baseType].fields?.[column]?.field_type || 'String';
+        const scalars = foreignKey.fields
+          || [findForeignKeyScalar(block, fields, fieldName, SCALAR_TYPES[scalarType.toLowerCase()] || scalarType)];
+        relations.push(createRelation(line, name, baseType, scalars, field, false));
+        continue;
+      }
+
+      // Older exports left e.g. user: User unlinked next to its userId column; that model holds the key
+      const keyScalar = isList ? undefined : fields.find(([candidate]) => candidate === `${fieldName}Id` || candidate === `${fieldName}_id`);
+      if (keyScalar && !keyScalar[1]?.attributes?.foreign_key && !context.models[splitFieldType(keyScalar[1]).baseType]) {
+        const targetKey = Object.entries(context.models[baseType].fields || {}).find(([, targetField]) => targetField?.attributes?.primary_key);
+        const linked = { ...field, attributes: { ...field.attributes, foreign_key: { table: baseType, column: targetKey?.[0] || 'id' } } };
+        relations.push(createRelation(line, name, baseType, [keyScalar[0]], linked, false));
+      } else {
+        // Model-typed fields without a foreign key are the back-relation side
+        const relationName = field.attributes?.relation_name;
+        if (relationName && !hasAttribute(line.rawAttributes, '@relation')) {
+          line.attributes.push(`@relation(${JSON.stringify(relationName)})`);
+        }
+        virtuals.push({ line, target: baseType, name: relationName, consumed: false });
+      }
+      continue;
+    }
+
+    block.lines.push(convertScalarField(fieldName, field, baseType, isList, context, primaryKey.length === 1));
+
+    if (foreignKey) {
+      if (!context.models[foreignKey.table]) {
+        block.comments.push(`// ${fieldName} references unknown model "${foreignKey.table}"`);
+        continue;
+      }
+      const line: FieldLine = {
+        name: uniqueName(block.usedNames, relationFieldName(fieldName, foreignKey.table)),
+        type: foreignKey.table + (isRequired(field) ? '' : '?'),
+        attributes: [],
+        rawAttributes: [],
+      };
+      block.lines.push(line);
+      const isKey = !!field.attributes?.primary_key && primaryKey.length === 1;
+      relations.push(createRelation(line, name, foreignKey.table, foreignKey.fields || [fieldName], field, isKey));
+    }
+  }
+
+  if (primaryKey.length > 1) {
+    block.blockAttributes.push(`@@id([${primaryKey.join(', ')}])`);
+  }
+
+  for (const constraint of yamlModel.unique_constraints || []) {
+    block.blockAttributes.push(formatBlockIndex('unique', name, constraint.columns || [], constraint.constraint_name));
+  }
+  for (const index of yamlModel.indexes || []) {
+    block.blockAttributes.push(formatBlockIndex(index.unique ? 'unique' : 'index', name, index.columns || [], index.index_name));
+  }
+
+  if (yamlModel.table_name && yamlModel.table_name !== name) {
+    block.blockAttributes.push(`@@map(${JSON.stringify(yamlModel.table_name)})`);
+  }
+  if (yamlModel.schema_name) {
+    block.blockAttributes.push(`@@schema(${JSON.stringify(yamlModel.schema_name)})`);
+  }
+  block.blockAttributes.push(...rawBlockAttributes);
+
+  return block;
+}
+
+function convertScalarField(
+  name: string,
+  field: ERDField,
+  baseType: string,
+  isList: boolean,
+  context: GeneratorContext,
+  hasSinglePrimaryKey: boolean
+): FieldLine {
+  const isEnum = context.enumNames.has(baseType);
+  const type = isEnum ? baseType : SCALAR_TYPES[baseType.toLowerCase()] || baseType;
+  const rawAttributes = field.attributes?.prisma_attributes || [];
+  const isId = !!field.attributes?.primary_key && hasSinglePrimaryKey;
+  const attributes: string[] = [];
+
+  if (isId && !hasAttribute(rawAttributes, '@id')) {
+    attributes.push('@id');
+  }
+
+  const defaultValue = field.attributes?.default_value;
+  if (defaultValue !== undefined && defaultValue !== null && defaultValue !== '' && !hasAttribute(rawAttributes, '@default')) {
+    const value = formatDefault(String(defaultValue), type, isEnum, isList, context.legacyDefaults, isId);
+    if (value) {
+      attributes.push(`@default(${value})`);
+    }
+  }
+
+  if (field.attributes?.unique && !isId && !hasAttribute(rawAttributes, '@unique')) {
+    attributes.push('@unique');
+  }
+
+  if (field.attributes?.map) {
+    attributes.push(`@map(${JSON.stringify(field.attributes.map)})`);
+  }
+
+  if (field.db_type && !isEnum) {
+    attributes.push(formatNativeType(field.db_type, context.datasource));
+  }
+
+  const suffix = isList ? '[]' : isRequired(field) ? '' : '?';
+  return { name, type: type + suffix, attributes, rawAttributes, documentation: field.description };
+}
+
+function splitFieldType(field: ERDField): { baseType: string; isList: boolean } {
+  const fieldType = String(field.field_type).trim();
+  const isList = fieldType.endsWith('[]') || !!field.attributes?.is_list;
+  return { baseType: fieldType.replace(/(\[\]|\?)$/, ''), isList };
+}
+
+// Primary keys are implicitly required; other fields need not_null
+function isRequired(field: ERDField): boolean {
+  return !!field.constraints?.not_null || !!field.attributes?.primary_key;
+}
+
+// Whether verbatim attributes include e.g. @default(...), which then replaces the structured one
+function hasAttribute(rawAttributes: string[], name: string): boolean {
+  return rawAttributes.some((attribute) => attribute === name || attribute.startsWith(`${name}(`));
+}
+
+/**
+ * Prisma literal for a default_value: functions and enum values stay bare, text is quoted.
+ * A legacy auto() only generates keys on the primary key; elsewhere it stood for a lost default.
+ */
+function formatDefault(
+  value: string,
+  type: string,
+  isEnum: boolean,
+  isList: boolean,
+  legacyDefaults: boolean,
+  isId: boolean
+): string | undefined {
+  if (value === 'auto()' && legacyDefaults) {
+    switch (type) {
+      case 'Int':
+      case 'BigInt':
+        return isId ? 'autoincrement()' : undefined;
+      case 'String':
+        return isId ? 'cuid()' : undefined;
+      case 'DateTime':
+        return 'now()';
+      default:
+        return undefined;
+    }
+  }
+
+  if (/^[\w.]+\(.*\)$/.test(value) || isEnum || (isList && /^\[.*\]$/.test(value))) {
+    return value;
+  }
+  if (type === 'Boolean' && /^(true|false)$/.test(value)) {
+    return value;
+  }
+  if (['Int', 'BigInt', 'Float', 'Decimal'].includes(type) && !isNaN(Number(value))) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * "VARCHAR(255)" -> "@db.VarChar(255)", "DECIMAL(10,2)" -> "@db.Decimal(10, 2)", "Timestamptz(6)" as is
+ */
+function formatNativeType(dbType: string, datasource: string): string {
+  const match = String(dbType).trim().match(/^([A-Za-z ]+?)\s*(?:\((.*)\))?$/);
+  if (!match) {
+    return `@${datasource}.${dbType}`;
+  }
+
+  const typeName = match[1];
+  const nativeType = NATIVE_TYPES[typeName.toUpperCase()]
+    || (typeName.includes(' ')
+      ? typeName.toLowerCase().replace(/(?:^|\s+)(\w)/g, (_, letter: string) => letter.toUpperCase())
+      : typeName);
+  const args = match[2]?.split(',').map((arg) => arg.trim()).join(', ');
+  return `@${datasource}.${nativeType}${args ? `(${args})` : ''}`;
+}
+
+/**
+ * @@index / @@unique, keeping the constraint name unless it's Prisma's default
+ */
+function formatBlockIndex(kind: 'unique' | 'index', model: string, columns: string[], name?: string): string {
+  const defaultName = `${model}_${columns.join('_')}_${kind === 'unique' ? 'key' : 'idx'}`;
+  const map = name && name !== defaultName ? `, map: ${JSON.stringify(name)}` : '';
+  return `@@${kind}([${columns.join(', ')}]${map})`;
+}
+
+function createRelation(
+  line: FieldLine,
+  model: string,
+  target: string,
+  fields: string[],
+  field: ERDField,
+  isKey: boolean
+): Relation {
+  const foreignKey = field.attributes!.foreign_key!;
+  return {
+    line,
+    model,
+    target,
+    fields,
+    references: foreignKey.references || [foreignKey.column || 'id'],
+    map: foreignKey.constraint_name,
+    onDelete: toReferentialAction(foreignKey.on_delete),
+    onUpdate: toReferentialAction(foreignKey.on_update),
+    // A one-to-one relation needs a unique foreign key; part of a composite key isn't
+    unique: !!field.attributes?.unique || isKey,
+    name: field.attributes?.relation_name,
+  };
+}
+
+/**
+ * Scalar column behind a relation field, added to the model when the .cryml doesn't declare it
+ */
+function findForeignKeyScalar(block: ModelBlock, fields: [string, ERDField][], relationField: string, type: string): string {
+  const candidates = [`${relationField}Id`, `${relationField}_id`];
+  const existing = candidates.find((candidate) => fields.some(([name]) => name === candidate));
+  if (existing) {
+    return existing;
+  }
+
+  const name = uniqueName(block.usedNames, candidates[0]);
+  const index = block.lines.findIndex((line) => line.name === relationField);
+  block.lines.splice(index, 0, { name, type, attributes: [], rawAttributes: [] });
+  return name;
+}
+
+/**
+ * Prisma needs a relation name when two models are related more than once
+ */
+function findAmbiguousRelations(relations: Relation[]): Set<Relation> {
+  const pairKey = (relation: Relation) => [relation.model, relation.target].sort().join('/');
+  const counts = new Map<string, number>();
+  for (const relation of relations) {
+    counts.set(pairKey(relation), (counts.get(pairKey(relation)) || 0) + 1);
+  }
+  return new Set(relations.filter((relation) => counts.get(pairKey(relation))! > 1));
+}
+
+/**
+ * Pair a relation with a back-relation field on the target model, or generate one.
+ * Unnamed relations take the back-relation's name (older exports only wrote it there).
+ */
+function addBackRelation(relation: Relation, target: ModelBlock, targetVirtuals: VirtualRelation[], needsName: boolean) {
+  const candidates = targetVirtuals.filter((candidate) =>
+    !candidate.consumed && candidate.line !== relation.line && candidate.target === relation.model
+  );
+  const virtual = candidates.find((candidate) => relation.name && candidate.name === relation.name)
+    || candidates.find((candidate) => !relation.name || !candidate.name);
+
+  if (!relation.name) {
+    relation.name = virtual?.name ?? (needsName ? `${relation.model}${capitalize(relation.line.name)}` : undefined);
+  }
+
+  if (!hasAttribute(relation.line.rawAttributes, '@relation')) {
+    const args = [
+      ...(relation.name ? [JSON.stringify(relation.name)] : []),
+      `fields: [${relation.fields.join(', ')}]`,
+      `references: [${relation.references.join(', ')}]`,
+      ...(relation.map ? [`map: ${JSON.stringify(relation.map)}`] : []),
+      ...(relation.onDelete ? [`onDelete: ${relation.onDelete}`] : []),
+      ...(relation.onUpdate ? [`onUpdate: ${relation.onUpdate}`] : []),
+    ];
+    relation.line.attributes.unshift(`@relation(${args.join(', ')})`);
+  }
+
+  const backAttributes = relation.name ? [`@relation(${JSON.stringify(relation.name)})`] : [];
+  if (virtual) {
+    virtual.consumed = true;
+    if (!hasAttribute(virtual.line.rawAttributes, '@relation')) {
+      virtual.line.attributes = backAttributes;
+    }
+    return;
+  }
+
+  const baseName = relation.unique ? lowerFirst(relation.model) : pluralize(lowerFirst(relation.model));
+  target.lines.push({
+    name: uniqueName(target.usedNames, baseName),
+    type: relation.model + (relation.unique ? '?' : '[]'),
+    attributes: backAttributes,
+    rawAttributes: [],
+  });
+}
+
+/**
+ * Back-relation fields no foreign key points at. Prisma rejects them, except for list fields
+ * on both models, which form an implicit many-to-many relation.
+ */
+function warnUnpairedRelations(blocks: Map<string, ModelBlock>, virtuals: { [model: string]: VirtualRelation[] }) {
+  const isList = (virtual: VirtualRelation) => virtual.line.type.endsWith('[]');
+  for (const [model, modelVirtuals] of Object.entries(virtuals)) {
+    for (const virtual of modelVirtuals.filter((candidate) => !candidate.consumed)) {
+      const isManyToMany = isList(virtual) && virtuals[virtual.target].some((other) =>
+        !other.consumed && other !== virtual && other.target === model && isList(other)
+      );
+      if (!isManyToMany) {
+        blocks.get(model)!.comments.push(
+          `// ${virtual.line.name} has no foreign_key on either side; add one to the .cryml so Prisma can resolve the relation`
+        );
+      }
+    }
+  }
+}
+
+function toReferentialAction(action?: string): string | undefined {
+  return action ? REFERENTIAL_ACTIONS[action.toLowerCase().replace(/[^a-z]/g, '')] : undefined;
+}
+
+// customerId -> customer, author_id -> author
+function relationFieldName(scalar: string, target: string): string {
+  const stripped = scalar.replace(/(_id|Id|ID)$/, '');
+  return stripped && stripped !== scalar ? stripped : lowerFirst(target);
+}
+
+function uniqueName(usedNames: Set<string>, name: string): string {
+  let candidate = name;
+  for (let i = 2; usedNames.has(candidate); i++) {
+    candidate = `${name}${i}`;
+  }
+  usedNames.add(candidate);
+  return candidate;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function pluralize(value: string): string {
+  // Table names like "orders" are plural already
+  if (/[^s]s$/.test(value)) {
+    return value;
+  }
+  if (/[^aeiou]y$/.test(value)) {
+    return value.slice(0, -1) + 'ies';
+  }
+  return /(s|x|z|ch|sh)$/.test(value) ? value + 'es' : value + 's';
+}
+
+// /// doc comment lines for a description
+function documentationLines(description: string | undefined, indent: string): string[] {
+  return description ? String(description).split('\n').map((line) => `${indent}/// ${line}`.trimEnd()) : [];
+}
+
+/**
+ * Format a model with aligned name, type and attribute columns like `prisma format`
+ */
+function formatModel(block: ModelBlock): string {
+  const nameWidth = Math.max(0, ...block.lines.map((line) => line.name.length));
+  const typeWidth = Math.max(0, ...block.lines.map((line) => line.type.length));
+
+  const lines = block.lines.flatMap((line) => {
+    const attributes = [...line.attributes, ...line.rawAttributes];
+    const columns = attributes.length > 0
+      ? `${line.name.padEnd(nameWidth)} ${line.type.padEnd(typeWidth)} ${attributes.join(' ')}`
+      : `${line.name.padEnd(nameWidth)} ${line.type}`;
+    return [...documentationLines(line.documentation, '  '), `  ${columns.trimEnd()}`];
+  });
+
+  const body = [
+    ...block.comments.map((comment) => `  ${comment}`),
+    ...lines,
+    ...(block.blockAttributes.length > 0 ? ['', ...block.blockAttributes.map((attribute) => `  ${attribute}`)] : []),
+  ];
+  return [...documentationLines(block.documentation, ''), `${block.kind} ${block.name} {`, ...body, '}'].join('\n');
+}
+
+function formatEnum(name: string, yamlEnum: ERDEnum): string {
+  // Values are either { value_name, description, map } entries or plain strings
+  const values = (yamlEnum?.values || []).flatMap((value: ERDEnum['values'][number] | string) => {
+    if (typeof value !== 'object') {
+      return [`  ${value}`];
+    }
+    const map = value.map ? ` @map(${JSON.stringify(value.map)})` : '';
+    return [...documentationLines(value.description, '  '), `  ${value.value_name}${map}`];
+  });
+
+  const blockAttributes = [
+    ...(yamlEnum?.map ? [`@@map(${JSON.stringify(yamlEnum.map)})`] : []),
+    ...(yamlEnum?.block_attributes || []),
+  ];
+  const body = [...values, ...(blockAttributes.length > 0 ? ['', ...blockAttributes.map((attribute) => `  ${attribute}`)] : [])];
+  return [...documentationLines(yamlEnum?.description, ''), `enum ${name} {`, ...body, '}'].join('\n');
+}
+
+/**
+ * generator / datasource block; plain strings are quoted, expressions like env("...") kept bare
+ */
+function formatConfig(kind: 'generator' | 'datasource', name: string, properties: { [key: string]: unknown }): string {
+  const entries = Object.entries(properties || {});
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+  const lines = entries.map(([key, value]) => {
+    const text = Array.isArray(value) ? `[${value.map((item) => JSON.stringify(String(item))).join(', ')}]` : String(value);
+    const isExpression = Array.isArray(value) || /^[\w.]+\(.*\)$/.test(text) || /^\[.*\]$/.test(text)
+      || /^(true|false|-?\d+(\.\d+)?)$/.test(text);
+    return `  ${key.padEnd(width)} = ${isExpression ? text : JSON.stringify(text)}`;
+  });
+  return [`${kind} ${name} {`, ...lines, '}'].join('\n');
+}
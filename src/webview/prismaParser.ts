@@ -3,6 +3,21 @@
 
 import { Node, Edge, MarkerType } from 'reactflow';
 import { layoutWithElk } from './elkLayout';
+import {
+  parsePrismaAst,
+  getAttribute,
+  getArgument,
+  getFieldNames,
+  formatValue,
+  formatAttribute,
+  PrismaModelBlock,
+  PrismaEnumBlock,
+  PrismaConfigBlock,
+  PrismaFieldNode,
+  PrismaAttribute,
+  PrismaValue,
+} from './parsers/prismaAst';
+import { SourceRange } from './types/diagrams';
 
 export interface PrismaField {
   name: string;
@@ -17,186 +32,359 @@ export interface PrismaField {
   relationName?: string;
   referencesField?: string;  // Which field this FK references (e.g., "id")
   isEnum: boolean;
+  sourceRange?: SourceRange;
+  // Source details kept so the schema can be exported without loss (prismaToYaml)
+  defaultValue?: string; // Prisma expression, e.g. autoincrement() or "pending"
+  nativeType?: string; // @db.VarChar(255) -> VarChar(255); as written for SQL imports (VARCHAR(255))
+  map?: string;
+  documentation?: string;
+  relationFields?: string[];
+  relationReferences?: string[];
+  onDelete?: string;
+  onUpdate?: string;
+  relationMap?: string;
+  extraAttributes?: string[]; // Attributes with no structured equivalent, as Prisma source
+}
+
+export interface PrismaIndex {
+  name?: string;
+  columns: string[];
+  unique: boolean;
+  verbatim?: boolean; // Has options beyond columns and map, so it's also in extraAttributes
+}
+
+export interface PrismaUniqueConstraint {
+  name?: string;
+  columns: string[];
+  verbatim?: boolean;
 }
 
 export interface PrismaModel {
   name: string;
+  kind?: 'model' | 'view' | 'type';
   fields: PrismaField[];
   primaryKey?: string[];
+  indexes?: PrismaIndex[];
+  uniqueConstraints?: PrismaUniqueConstraint[];
+  sourceFile?: string; // Declaring file, for multi-file schemas
+  sourceRange?: SourceRange;
+  map?: string;
+  schema?: string;
+  documentation?: string;
+  extraAttributes?: string[];
   group?: string;
+  groupInferred?: boolean; // group was guessed from the model name by categorizeModels
   color?: 'yellow' | 'red' | 'teal';
 }
 
 export interface PrismaEnum {
   name: string;
-  values: { name: string }[];
+  values: { name: string; map?: string; documentation?: string }[];
+  sourceFile?: string;
+  sourceRange?: SourceRange;
+  map?: string;
+  documentation?: string;
+  extraAttributes?: string[];
   group?: string;
   color?: 'yellow' | 'red' | 'teal';
 }
 
+/**
+ * A datasource or generator block; property values are Prisma expressions
+ */
+export interface PrismaConfig {
+  kind: 'datasource' | 'generator';
+  name: string;
+  properties: { [key: string]: string };
+}
+
 export interface PrismaSchema {
   models: PrismaModel[];
   enums: PrismaEnum[];
+  configBlocks?: PrismaConfig[]; // Prisma schemas only, possibly empty (split schema files)
+  project?: { name: string; documentation?: string }; // DBML Project block
 }
 
+export interface PrismaSchemaFile {
+  filePath: string;
+  content: string;
+}
+
+/**
+ * A model-level key or index, listed in the node's "Indexes & Constraints" section
+ */
+export interface ModelConstraint {
+  kind: 'primaryKey' | 'unique' | 'index';
+  name?: string;
+  columns: string[];
+  unique: boolean;
+}
+
+// Height of the collapsed "Indexes & Constraints" row
+const CONSTRAINTS_ROW_HEIGHT = 30;
+
 export function parsePrismaSchema(content: string): PrismaSchema {
-  const lines = content.split('\n');
+  return parsePrismaSchemaFiles([{ filePath: '', content }]);
+}
+
+/**
+ * Parse a schema split across several files (prismaSchemaFolder). All files share one
+ * namespace, so relations resolve across files; models and enums record their file.
+ */
+export function parsePrismaSchemaFiles(files: PrismaSchemaFile[]): PrismaSchema {
+  const blocks = files.flatMap((file) =>
+    parsePrismaAst(file.content).blocks.map((block) => ({ block, sourceFile: file.filePath || undefined }))
+  );
+  const configBlocks: PrismaConfig[] = [];
   const schema: PrismaSchema = {
     models: [],
     enums: [],
+    configBlocks,
   };
 
-  let currentModel: PrismaModel | null = null;
-  let currentEnum: PrismaEnum | null = null;
-  let inDatasource = false;
-  let inGenerator = false;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith('//')) continue;
-
-    // Check for datasource block
-    if (trimmed.startsWith('datasource')) {
-      inDatasource = true;
-      continue;
-    }
-
-    // Check for generator block
-    if (trimmed.startsWith('generator')) {
-      inGenerator = true;
-      continue;
-    }
-
-    // End blocks
-    if (trimmed === '}') {
-      if (currentModel) {
-        schema.models.push(currentModel);
-        currentModel = null;
-      } else if (currentEnum) {
-        schema.enums.push(currentEnum);
-        currentEnum = null;
-      }
-      inDatasource = false;
-      inGenerator = false;
-      continue;
+  const enumNames = new Set(blocks.filter(({ block }) => block.kind === 'enum').map(({ block }) => block.name));
+  const modelNames = new Set(
+    blocks.filter(({ block }) => block.kind === 'model' || block.kind === 'view').map(({ block }) => block.name)
+  );
+
+  for (const { block, sourceFile } of blocks) {
+    switch (block.kind) {
+      case 'model':
+      case 'view':
+      case 'type':
+        schema.models.push({ ...convertModelBlock(block, enumNames, modelNames), sourceFile });
+        break;
+      case 'enum':
+        schema.enums.push({ ...convertEnumBlock(block), sourceFile });
+        break;
+      default:
+        // datasource and generator blocks don't appear in the diagram, but are kept for export
+        configBlocks.push(convertConfigBlock(block));
     }
+  }
 
-    // Parse datasource
-    if (inDatasource) continue;
+  // Build relation graph
+  buildRelations(schema);
 
-    // Skip generator content
-    if (inGenerator) continue;
+  // Categorize models into groups
+  categorizeModels(schema);
 
-    // Parse model
-    const modelMatch = trimmed.match(/^model\s+(\w+)\s*{/);
-    if (modelMatch) {
-      currentModel = { name: modelMatch[1], fields: [] };
-      continue;
-    }
+  return schema;
+}
 
-    // Parse enum
-    const enumMatch = trimmed.match(/^enum\s+(\w+)\s*{/);
-    if (enumMatch) {
-      currentEnum = { name: enumMatch[1], values: [] };
-      continue;
-    }
+function convertModelBlock(block: PrismaModelBlock, enumNames: Set<string>, modelNames: Set<string>): PrismaModel {
+  const fields = block.fields.map((field) => convertField(field, enumNames, modelNames));
 
-    // Parse enum values
-    if (currentEnum) {
-      const valueMatch = trimmed.match(/^(\w+)$/);
-      if (valueMatch) {
-        currentEnum.values.push({ name: valueMatch[1] });
-      }
-      continue;
-    }
+  // @@id([a, b]) declares a composite key, otherwise the key is the @id field
+  const compositeId = getAttribute(block.attributes, 'id');
+  const primaryKey = compositeId
+    ? getFieldNames(getArgument(compositeId, 'fields', 0))
+    : fields.filter((field) => field.isId).map((field) => field.name);
+  for (const field of fields) {
+    if (primaryKey.includes(field.name)) field.isId = true;
+  }
 
-    // Parse model fields
-    if (currentModel) {
-      const field = parseField(trimmed);
-      if (field) {
-        currentModel.fields.push(field);
+  const uniqueConstraints = block.attributes
+    .filter((attribute) => attribute.name === 'unique')
+    .map((attribute) => ({
+      name: getConstraintName(attribute),
+      columns: getFieldNames(getArgument(attribute, 'fields', 0)),
+      ...(!isSimpleIndex(attribute) && { verbatim: true }),
+    }));
+  const indexes = block.attributes
+    .filter((attribute) => attribute.name === 'index')
+    .map((attribute) => ({
+      name: getConstraintName(attribute),
+      columns: getFieldNames(getArgument(attribute, 'fields', 0)),
+      unique: false,
+      ...(!isSimpleIndex(attribute) && { verbatim: true }),
+    }));
+
+  // Everything else that has no structured equivalent is kept as Prisma source
+  const declaredKey = block.fields.map((field) => field.name).filter((name) => primaryKey.includes(name));
+  const extraAttributes = block.attributes
+    .filter((attribute) => {
+      switch (attribute.name) {
+        case 'id':
+          // Key fields are flagged in declaration order, and a single one becomes @id
+          return !isSimpleIndex(attribute) || primaryKey.length < 2 || primaryKey.join() !== declaredKey.join();
+        case 'unique':
+        case 'index':
+          return !isSimpleIndex(attribute);
+        case 'map':
+        case 'schema':
+          return getStringArgument(attribute) === undefined;
+        default:
+          return true;
       }
-    }
-  }
+    })
+    .map((attribute) => formatAttribute(attribute, '@@'));
+
+  return {
+    name: block.name,
+    kind: block.kind,
+    fields,
+    primaryKey: primaryKey.length > 0 ? primaryKey : undefined,
+    indexes: indexes.length > 0 ? indexes : undefined,
+    uniqueConstraints: uniqueConstraints.length > 0 ? uniqueConstraints : undefined,
+    sourceRange: { start: block.start, end: block.end },
+    map: getStringArgument(getAttribute(block.attributes, 'map')),
+    schema: getStringArgument(getAttribute(block.attributes, 'schema')),
+    documentation: block.documentation,
+    extraAttributes: extraAttributes.length > 0 ? extraAttributes : undefined,
+  };
+}
 
-  // Build relation graph
-  buildRelations(schema);
+function convertEnumBlock(block: PrismaEnumBlock): PrismaEnum {
+  const extraAttributes = block.attributes
+    .filter((attribute) => attribute.name !== 'map' || getStringArgument(attribute) === undefined)
+    .map((attribute) => formatAttribute(attribute, '@@'));
+
+  return {
+    name: block.name,
+    values: block.values.map((value) => ({
+      name: value.name,
+      map: getStringArgument(getAttribute(value.attributes, 'map')),
+      documentation: value.documentation,
+    })),
+    sourceRange: { start: block.start, end: block.end },
+    map: getStringArgument(getAttribute(block.attributes, 'map')),
+    documentation: block.documentation,
+    extraAttributes: extraAttributes.length > 0 ? extraAttributes : undefined,
+  };
+}
 
-  // Categorize models into groups
-  categorizeModels(schema);
+function convertConfigBlock(block: PrismaConfigBlock): PrismaConfig {
+  const properties: { [key: string]: string } = {};
+  for (const property of block.properties) {
+    properties[property.name] = formatValue(property.value);
+  }
+  return { kind: block.kind, name: block.name, properties };
+}
 
-  return schema;
+/**
+ * @@id / @@unique / @@index that lists plain columns and at most a map: name,
+ * which the YAML indexes and unique_constraints can represent
+ */
+function isSimpleIndex(attribute: PrismaAttribute): boolean {
+  const fields = getArgument(attribute, 'fields', 0);
+  const isPlainList = fields?.kind === 'array' && fields.items.every((item) => item.kind === 'identifier');
+  const otherArgs = attribute.args.filter((arg) => arg.value !== fields);
+  return isPlainList && otherArgs.every((arg) => arg.name === 'map' && arg.value.kind === 'string')
+    && (attribute.name !== 'id' || otherArgs.length === 0);
 }
 
-function parseField(line: string): PrismaField | null {
-  // Remove comments
-  const cleanLine = line.split('//')[0].trim();
-  if (!cleanLine) return null;
+/**
+ * The single string argument of attributes like @map("name") or @@schema("auth")
+ */
+function getStringArgument(attribute: PrismaAttribute | undefined): string | undefined {
+  if (attribute?.args.length !== 1) return undefined;
+  const value = getArgument(attribute, 'name', 0);
+  return value?.kind === 'string' ? value.value : undefined;
+}
 
-  // Match field definition: name type[modifiers]
-  const match = cleanLine.match(/^(\w+)\s+([\w\[\]!?]+)(.*)$/);
-  if (!match) return null;
+/**
+ * The client name (name:) of @@unique / @@index, falling back to the database name (map:)
+ */
+function getConstraintName(attribute: PrismaAttribute): string | undefined {
+  const name = getArgument(attribute, 'name') ?? getArgument(attribute, 'map');
+  return name?.kind === 'string' ? name.value : undefined;
+}
 
-  const [, name, type, rest] = match;
-  const baseType = type.replace(/\?/, '').replace(/\[\]/, '');
+function convertField(node: PrismaFieldNode, enumNames: Set<string>, modelNames: Set<string>): PrismaField {
   const field: PrismaField = {
-    name,
-    type: baseType,
-    isId: false,
-    isUnique: false,
-    isRequired: !type.includes('?'),
-    isList: type.includes('[]'),
-    hasDefault: false,
+    name: node.name,
+    type: node.type,
+    isId: !!getAttribute(node.attributes, 'id'),
+    isUnique: !!getAttribute(node.attributes, 'unique'),
+    isRequired: !node.isOptional,
+    isList: node.isList,
+    hasDefault: !!getAttribute(node.attributes, 'default'),
     isForeignKey: false,
-    isEnum: false,
+    isEnum: enumNames.has(node.type),
+    sourceRange: { start: node.start, end: node.end },
+    documentation: node.documentation,
   };
 
-  // Parse attributes and modifiers
-  const parts = rest.trim().split(/\s+/);
-  for (const part of parts) {
-    if (!part) continue;
-
-    // Check for relation attribute
-    const relationMatch = part.match(/@relation/);
-    if (relationMatch) {
-      // Extract relation name if present: @relation("Name")
-      const nameMatch = part.match(/@relation\("([^"]+)"\)/);
-      if (nameMatch) {
-        field.relationName = nameMatch[1];
-      }
+  const defaultAttribute = getAttribute(node.attributes, 'default');
+  const defaultValue = defaultAttribute && getArgument(defaultAttribute, 'value', 0);
+  if (defaultValue) {
+    field.defaultValue = formatValue(defaultValue);
+  }
+  field.map = getStringArgument(getAttribute(node.attributes, 'map'));
 
-      // Check for fields: @relation(fields: [authorId], references: [id])
-      const fieldsMatch = part.match(/fields:\s*\[([\w\s,]+)\]/);
-      if (fieldsMatch) {
-        // This is the foreign key side of the relation
-        field.isForeignKey = true;
-      }
+  const nativeType = node.attributes.find((attribute) => attribute.name.includes('.'));
+  if (nativeType) {
+    // Drop the datasource prefix: @db.VarChar(255) -> VarChar(255)
+    field.nativeType = formatAttribute(nativeType, '@').replace(/^@[^.]+\./, '');
+  }
 
-      // Check for references: @relation(fields: [authorId], references: [id])
-      const referencesMatch = part.match(/references:\s*\[([\w\s,]+)\]/);
-      if (referencesMatch) {
-        // Store the referenced field name (usually "id")
-        field.referencesField = referencesMatch[1].trim();
-      }
+  const extraAttributes = node.attributes
+    .filter((attribute) => !isStructuredFieldAttribute(attribute))
+    .map((attribute) => formatAttribute(attribute, '@'));
+  if (extraAttributes.length > 0) {
+    field.extraAttributes = extraAttributes;
+  }
+
+  const relation = getAttribute(node.attributes, 'relation');
+  if (relation || modelNames.has(node.type)) {
+    // The type is the related model name
+    field.relationToModel = node.type;
+  }
+
+  if (relation) {
+    // @relation("Name") or @relation(name: "Name")
+    const name = getArgument(relation, 'name', 0);
+    if (name?.kind === 'string') {
+      field.relationName = name.value;
+    }
 
-      // The type is the related model name
-      field.relationToModel = baseType;
-      continue;
+    // @relation(fields: [authorId], references: [id]) marks the foreign key side
+    if (getArgument(relation, 'fields')) {
+      field.isForeignKey = true;
+      field.relationFields = getFieldNames(getArgument(relation, 'fields'));
+      field.relationReferences = getFieldNames(getArgument(relation, 'references'));
+      field.referencesField = field.relationReferences[0];
     }
 
-    // Check for other attributes
-    if (part === '@id') field.isId = true;
-    if (part === '@unique') field.isUnique = true;
-    if (part === '@default') field.hasDefault = true;
-    if (part.startsWith('@default(')) field.hasDefault = true;
-    if (part === '@updatedAt') field.type = 'DateTime';
+    field.onDelete = getIdentifierArgument(getArgument(relation, 'onDelete'));
+    field.onUpdate = getIdentifierArgument(getArgument(relation, 'onUpdate'));
+    const map = getArgument(relation, 'map');
+    if (map?.kind === 'string') {
+      field.relationMap = map.value;
+    }
   }
 
   return field;
 }
 
+const RELATION_ARGUMENTS = ['name', 'fields', 'references', 'onDelete', 'onUpdate', 'map'];
+
+/**
+ * Whether a field attribute is fully captured by the PrismaField properties
+ */
+function isStructuredFieldAttribute(attribute: PrismaAttribute): boolean {
+  switch (attribute.name) {
+    case 'id':
+    case 'unique':
+      return attribute.args.length === 0;
+    case 'default':
+      return attribute.args.length === 1 && !attribute.args[0].name;
+    case 'map':
+      return getStringArgument(attribute) !== undefined;
+    case 'relation':
+      return attribute.args.every((arg, index) =>
+        arg.name ? RELATION_ARGUMENTS.includes(arg.name) : index === 0 && arg.value.kind === 'string'
+      );
+    default:
+      return attribute.name.includes('.');
+  }
+}
+
+function getIdentifierArgument(value: PrismaValue | undefined): string | undefined {
+  return value?.kind === 'identifier' ? value.value : undefined;
+}
+
 function buildRelations(schema: PrismaSchema) {
   // Build a map of all relations
   const relations = new Map<string, { fromModel: string; fromField: string; toModel: string; toField?: string }[]>();
@@ -236,7 +424,10 @@ function buildRelations(schema: PrismaSchema) {
   }
 }
 
-function categorizeModels(schema: PrismaSchema) {
+/**
+ * Assign models a group and color from their names, and enums the color of a model using them
+ */
+export function categorizeModels(schema: PrismaSchema) {
   // Define common patterns for grouping
   const groupPatterns: { pattern: RegExp; group: string; color: 'yellow' | 'red' | 'teal' }[] = [
     // Core/auth models (User, Account, Session) - yellow
@@ -252,6 +443,7 @@ function categorizeModels(schema: PrismaSchema) {
   for (const model of schema.models) {
     const nameLower = model.name.toLowerCase();
     let grouped = false;
+    model.groupInferred = true;
 
     // Check against predefined patterns
     for (const { pattern, group, color } of groupPatterns) {
@@ -306,6 +498,26 @@ function categorizeModels(schema: PrismaSchema) {
   }
 }
 
+/**
+ * Composite primary keys, unique constraints and indexes of a model. Single-column
+ * keys are left out; they are already shown as PK badges on the field.
+ */
+export function getModelConstraints(model: PrismaModel): ModelConstraint[] {
+  const constraints: ModelConstraint[] = [];
+
+  if (model.primaryKey && model.primaryKey.length > 1) {
+    constraints.push({ kind: 'primaryKey', columns: model.primaryKey, unique: true });
+  }
+  for (const constraint of model.uniqueConstraints || []) {
+    constraints.push({ kind: 'unique', name: constraint.name, columns: constraint.columns, unique: true });
+  }
+  for (const index of model.indexes || []) {
+    constraints.push({ kind: 'index', name: index.name, columns: index.columns, unique: index.unique });
+  }
+
+  return constraints;
+}
+
 export async function convertPrismaToFlowChart(schema: PrismaSchema): Promise<{
   nodes: Node[];
   edges: Edge[];
@@ -321,7 +533,9 @@ export async function convertPrismaToFlowChart(schema: PrismaSchema): Promise<{
     // Calculate node height based on number of fields
     const headerHeight = 50;
     const fieldHeight = 35;
-    const height = headerHeight + (model.fields.length * fieldHeight) + 20;
+    const constraints = getModelConstraints(model);
+    const height = headerHeight + (model.fields.length * fieldHeight) + 20 +
+      (constraints.length > 0 ? CONSTRAINTS_ROW_HEIGHT : 0);
 
     // Calculate dynamic width based on field content
     // Base width + padding
@@ -353,7 +567,11 @@ export async function convertPrismaToFlowChart(schema: PrismaSchema): Promise<{
       data: {
         label: model.name,
         type: 'model',
+        kind: model.kind || 'model',
         fields: model.fields,
+        constraints,
+        sourceFile: model.sourceFile,
+        sourceRange: model.sourceRange,
         color: model.color || 'yellow',
         group: model.group || 'Other',
       },
@@ -385,6 +603,8 @@ export async function convertPrismaToFlowChart(schema: PrismaSchema): Promise<{
         label: enumType.name,
         type: 'enum',
         values: enumType.values,
+        sourceFile: enumType.sourceFile,
+        sourceRange: enumType.sourceRange,
         color: enumType.color || 'teal',
         group: enumType.group || 'Configuration',
       },
@@ -484,7 +704,9 @@ export function convertPrismaToFlowChartSync(schema: PrismaSchema): {
     // Calculate node height based on number of fields
     const headerHeight = 50;
     const fieldHeight = 35;
-    const height = headerHeight + (model.fields.length * fieldHeight) + 20;
+    const constraints = getModelConstraints(model);
+    const height = headerHeight + (model.fields.length * fieldHeight) + 20 +
+      (constraints.length > 0 ? CONSTRAINTS_ROW_HEIGHT : 0);
 
     // Calculate dynamic width based on field content
     let maxWidth = 200;
@@ -507,7 +729,11 @@ export function convertPrismaToFlowChartSync(schema: PrismaSchema): {
       data: {
         label: model.name,
         type: 'model',
+        kind: model.kind || 'model',
         fields: model.fields,
+        constraints,
+        sourceFile: model.sourceFile,
+        sourceRange: model.sourceRange,
         color: model.color || 'yellow',
         group: model.group || 'Other',
       },
@@ -539,6 +765,8 @@ export function convertPrismaToFlowChartSync(schema: PrismaSchema): {
         label: enumType.name,
         type: 'enum',
         values: enumType.values,
+        sourceFile: enumType.sourceFile,
+        sourceRange: enumType.sourceRange,
         color: enumType.color || 'teal',
         group: enumType.group || 'Configuration',
       },
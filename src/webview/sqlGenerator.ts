@@ -0,0 +1,634 @@
+// ERD to SQL DDL Generator
+// Converts a .cryml ERD (or a Prisma schema exported to one) to CREATE TABLE scripts
+
+import * as yaml from 'yaml';
+import { ERDDiagram, ERDModel, ERDField, ERDEnum } from './types/diagrams';
+import { SCALAR_TYPES } from './prismaGenerator';
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+export const SQL_DIALECTS: { [dialect in SqlDialect]: string } = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+};
+
+// Column types for fields without a db_type, the ones Prisma Migrate uses
+const DEFAULT_TYPES: { [dialect in SqlDialect]: { [type: string]: string } } = {
+  postgresql: {
+    String: 'TEXT',
+    Int: 'INTEGER',
+    BigInt: 'BIGINT',
+    Float: 'DOUBLE PRECISION',
+    Decimal: 'DECIMAL(65,30)',
+    Boolean: 'BOOLEAN',
+    DateTime: 'TIMESTAMP(3)',
+    Json: 'JSONB',
+    Bytes: 'BYTEA',
+  },
+  mysql: {
+    String: 'VARCHAR(191)',
+    Int: 'INT',
+    BigInt: 'BIGINT',
+    Float: 'DOUBLE',
+    Decimal: 'DECIMAL(65,30)',
+    Boolean: 'BOOLEAN',
+    DateTime: 'DATETIME(3)',
+    Json: 'JSON',
+    Bytes: 'LONGBLOB',
+  },
+  sqlite: {
+    String: 'TEXT',
+    Int: 'INTEGER',
+    BigInt: 'BIGINT',
+    Float: 'REAL',
+    Decimal: 'DECIMAL',
+    Boolean: 'BOOLEAN',
+    DateTime: 'DATETIME',
+    Json: 'TEXT',
+    Bytes: 'BLOB',
+  },
+};
+
+// Prisma native type names (@db.DoublePrecision) that aren't the SQL name uppercased
+const PRISMA_NATIVE_TYPES: { [key: string]: string } = {
+  DOUBLEPRECISION: 'DOUBLE PRECISION',
+  UNSIGNEDINT: 'INT UNSIGNED',
+  UNSIGNEDBIGINT: 'BIGINT UNSIGNED',
+  UNSIGNEDSMALLINT: 'SMALLINT UNSIGNED',
+  UNSIGNEDMEDIUMINT: 'MEDIUMINT UNSIGNED',
+  UNSIGNEDTINYINT: 'TINYINT UNSIGNED',
+};
+
+// db_type names from another dialect; entries with arguments replace the db_type's own
+const DIALECT_TYPES: { [dialect in SqlDialect]: { [key: string]: string } } = {
+  postgresql: {
+    'DATETIME': 'TIMESTAMP',
+    'TINYINT': 'SMALLINT',
+    'MEDIUMINT': 'INTEGER',
+    'INT UNSIGNED': 'BIGINT',
+    'DOUBLE': 'DOUBLE PRECISION',
+    'TINYTEXT': 'TEXT',
+    'MEDIUMTEXT': 'TEXT',
+    'LONGTEXT': 'TEXT',
+    'BLOB': 'BYTEA',
+    'TINYBLOB': 'BYTEA',
+    'MEDIUMBLOB': 'BYTEA',
+    'LONGBLOB': 'BYTEA',
+    'BINARY': 'BYTEA',
+    'VARBINARY': 'BYTEA',
+  },
+  mysql: {
+    'TIMESTAMPTZ': 'TIMESTAMP',
+    'TIMESTAMP WITH TIME ZONE': 'TIMESTAMP',
+    'TIMESTAMP WITHOUT TIME ZONE': 'TIMESTAMP',
+    'TIMETZ': 'TIME',
+    'CHARACTER VARYING': 'VARCHAR',
+    'JSONB': 'JSON',
+    'BYTEA': 'LONGBLOB',
+    'UUID': 'CHAR(36)',
+    'SERIAL': 'INT',
+    'BIGSERIAL': 'BIGINT',
+    'SMALLSERIAL': 'SMALLINT',
+    'MONEY': 'DECIMAL(19,4)',
+    'INET': 'VARCHAR(45)',
+    'CITEXT': 'TEXT',
+    'XML': 'TEXT',
+  },
+  // SQLite takes any type name, but AUTOINCREMENT only works on INTEGER
+  sqlite: {
+    'SERIAL': 'INTEGER',
+    'BIGSERIAL': 'INTEGER',
+    'SMALLSERIAL': 'INTEGER',
+  },
+};
+
+const SERIAL_TYPES: { [key: string]: string } = {
+  SMALLINT: 'SMALLSERIAL',
+  INT: 'SERIAL',
+  INTEGER: 'SERIAL',
+  BIGINT: 'BIGSERIAL',
+};
+
+const REFERENTIAL_ACTIONS: { [key: string]: string } = {
+  cascade: 'CASCADE',
+  restrict: 'RESTRICT',
+  noaction: 'NO ACTION',
+  setnull: 'SET NULL',
+  setdefault: 'SET DEFAULT',
+};
+
+// Defaults Prisma Client fills in, which have no database equivalent
+const CLIENT_DEFAULTS = ['cuid', 'nanoid', 'ulid', 'auto', 'sequence'];
+
+interface GeneratorContext {
+  dialect: SqlDialect;
+  models: { [key: string]: ERDModel };
+  enums: { [key: string]: ERDEnum };
+}
+
+interface Column {
+  name: string;
+  type: string;
+  notNull: boolean;
+  unique: boolean;
+  autoincrement: boolean;
+  defaultValue?: string;
+  onUpdate?: string;
+  comment?: string;
+}
+
+interface ForeignKey {
+  name: string;
+  columns: string[];
+  target: string; // Model name
+  references: string[];
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+interface Table {
+  model: string;
+  name: string;
+  schema?: string;
+  comment?: string;
+  columns: Column[];
+  primaryKey: string[];
+  uniqueConstraints: { name: string; columns: string[] }[];
+  indexes: { name: string; columns: string[]; unique: boolean }[];
+  foreignKeys: ForeignKey[];
+}
+
+/**
+ * Generate a SQL DDL script from an ERD .cryml document
+ */
+export function yamlToSql(content: string, dialect: SqlDialect): string {
+  const parsed = yaml.parse(content) as ERDDiagram;
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Empty or invalid .cryml document');
+  }
+  if (parsed.diagram_type && parsed.diagram_type !== 'erd') {
+    throw new Error(`Only ERD diagrams can be converted to SQL (diagram_type is "${parsed.diagram_type}")`);
+  }
+
+  const context: GeneratorContext = {
+    dialect,
+    models: parsed.models || {},
+    enums: parsed.enums || {},
+  };
+
+  // Views and composite types have no table to create
+  const skipped = Object.entries(context.models).filter(([, model]) => model.kind === 'view' || model.kind === 'type');
+  const tables = Object.entries(context.models)
+    .filter(([, model]) => model.kind !== 'view' && model.kind !== 'type')
+    .map(([name, model]) => convertModel(name, model, context));
+
+  const ordered = orderByDependencies(tables);
+  const created = new Set<string>();
+  const deferred: { table: Table; foreignKey: ForeignKey }[] = [];
+  const statements: string[] = [];
+
+  for (const table of ordered) {
+    created.add(table.model);
+    // SQLite only checks references when rows are written, so it never needs to defer
+    const inline = table.foreignKeys.filter((foreignKey) => dialect === 'sqlite' || created.has(foreignKey.target));
+    deferred.push(...table.foreignKeys
+      .filter((foreignKey) => !inline.includes(foreignKey))
+      .map((foreignKey) => ({ table, foreignKey })));
+    statements.push(...formatTable(table, inline, context));
+  }
+
+  if (deferred.length > 0) {
+    statements.push([
+      '-- Foreign keys between tables that reference each other',
+      ...deferred.map(({ table, foreignKey }) =>
+        `ALTER TABLE ${tableName(table, dialect)} ADD ${formatForeignKey(foreignKey, context)};`
+      ),
+    ].join('\n'));
+  }
+
+  const sections = [
+    headerComment(parsed.metadata, dialect, skipped.map(([name, model]) => `${model.kind} ${name}`)),
+    ...(dialect === 'postgresql' ? formatSchemasAndEnums(tables, context) : []),
+    ...statements,
+  ];
+  return sections.join('\n\n') + '\n';
+}
+
+function headerComment(metadata: ERDDiagram['metadata'] | undefined, dialect: SqlDialect, skipped: string[]): string {
+  const lines = [
+    ...(metadata?.name ? [metadata.name] : []),
+    ...(metadata?.description ? String(metadata.description).split('\n') : []),
+    `${SQL_DIALECTS[dialect]} DDL generated from the ERD`,
+    ...skipped.map((block) => `${block} is not generated (it has no table)`),
+  ];
+  return lines.map((line) => `-- ${line}`.trimEnd()).join('\n');
+}
+
+function convertModel(name: string, model: ERDModel, context: GeneratorContext): Table {
+  const fields = Object.entries(model.fields || {});
+  const table: Table = {
+    model: name,
+    name: model.table_name || name,
+    schema: model.schema_name,
+    comment: model.description,
+    columns: [],
+    primaryKey: [],
+    uniqueConstraints: [],
+    indexes: [],
+    foreignKeys: [],
+  };
+
+  for (const [fieldName, field] of fields) {
+    if (!field?.field_type) {
+      throw new Error(`Field ${name}.${fieldName} is missing field_type`);
+    }
+    const baseType = baseTypeOf(field.field_type);
+    if (!context.models[baseType]) {
+      table.columns.push(convertField(field, columnName(field, fieldName), baseType, context));
+    }
+  }
+
+  // Foreign keys sit on the scalar column (SQL imports) or on the relation field (Prisma exports)
+  for (const [fieldName, field] of fields) {
+    const foreignKey = field.attributes?.foreign_key;
+    const target = foreignKey && context.models[foreignKey.table];
+    if (!foreignKey || !target || field.attributes?.virtual) {
+      continue;
+    }
+
+    const isRelationField = !!context.models[baseTypeOf(field.field_type)];
+    const scalars = foreignKey.fields
+      || (isRelationField ? [findForeignKeyColumn(table, fields, fieldName, field, foreignKey.column, target, context)] : [fieldName]);
+    const columns = scalars.map((scalar) => columnName(model.fields[scalar], scalar));
+    const references = (foreignKey.references || [foreignKey.column || 'id'])
+      .map((reference) => columnName(target.fields?.[reference], reference));
+
+    table.foreignKeys.push({
+      name: foreignKey.constraint_name || `${table.name}_${columns.join('_')}_fkey`,
+      columns,
+      target: foreignKey.table,
+      references,
+      onDelete: toReferentialAction(foreignKey.on_delete),
+      onUpdate: toReferentialAction(foreignKey.on_update),
+    });
+  }
+
+  // A composite key is either several primary_key fields or an @@id block attribute
+  const compositeId = findBlockAttributes(model.block_attributes, 'id')[0];
+  table.primaryKey = (compositeId || fields.filter(([, field]) => field.attributes?.primary_key).map(([fieldName]) => fieldName))
+    .map((fieldName) => columnName(model.fields[fieldName], fieldName));
+
+  const toColumns = (names: string[]) => (names || []).map((fieldName) => columnName(model.fields[fieldName], fieldName));
+  for (const constraint of model.unique_constraints || []) {
+    table.uniqueConstraints.push({ name: constraint.constraint_name, columns: toColumns(constraint.columns) });
+  }
+  for (const columns of findBlockAttributes(model.block_attributes, 'unique')) {
+    table.uniqueConstraints.push({ name: `${table.name}_${toColumns(columns).join('_')}_key`, columns: toColumns(columns) });
+  }
+  for (const index of model.indexes || []) {
+    table.indexes.push({ name: index.index_name, columns: toColumns(index.columns), unique: !!index.unique });
+  }
+  for (const columns of findBlockAttributes(model.block_attributes, 'index')) {
+    table.indexes.push({ name: `${table.name}_${toColumns(columns).join('_')}_idx`, columns: toColumns(columns), unique: false });
+  }
+
+  // A unique constraint on the whole primary key says nothing new
+  const isPrimaryKey = (columns: string[]) => columns.join() === table.primaryKey.join();
+  table.uniqueConstraints = table.uniqueConstraints.filter((constraint) => !isPrimaryKey(constraint.columns));
+  for (const column of table.columns) {
+    column.unique = column.unique && !isPrimaryKey([column.name]);
+  }
+
+  return table;
+}
+
+function convertField(field: ERDField, name: string, baseType: string, context: GeneratorContext): Column {
+  const { dialect } = context;
+  const isList = String(field.field_type).trim().endsWith('[]') || !!field.attributes?.is_list;
+  const enumType = context.enums[baseType];
+  const scalarType = enumType ? baseType : SCALAR_TYPES[baseType.toLowerCase()] || baseType;
+  const defaultValue = field.attributes?.default_value;
+  const autoincrement = defaultValue === 'autoincrement()';
+
+  let type: string;
+  if (enumType) {
+    type = dialect === 'postgresql'
+      ? quoteIdentifier(enumType.map || baseType, dialect)
+      : dialect === 'mysql' ? `ENUM(${enumValues(enumType).map((value) => quoteString(value, dialect)).join(', ')})` : 'TEXT';
+  } else if (/^Unsupported\(/.test(scalarType)) {
+    type = JSON.parse(scalarType.slice('Unsupported('.length, -1));
+  } else if (field.db_type) {
+    type = translateType(field.db_type, scalarType, dialect);
+  } else {
+    type = DEFAULT_TYPES[dialect][scalarType] || 'TEXT';
+  }
+
+  if (isList && !type.endsWith('[]')) {
+    // Only PostgreSQL has array columns; elsewhere the list is stored as JSON
+    type = dialect === 'postgresql' ? `${type}[]` : dialect === 'mysql' ? 'JSON' : 'TEXT';
+  }
+  if (autoincrement && dialect === 'postgresql') {
+    type = SERIAL_TYPES[type.toUpperCase()] || type;
+  }
+  if (autoincrement && dialect === 'sqlite') {
+    type = 'INTEGER';
+  }
+
+  const isUpdatedAt = field.attributes?.prisma_attributes?.includes('@updatedAt');
+  return {
+    name,
+    type,
+    notNull: !!field.constraints?.not_null || !!field.attributes?.primary_key,
+    unique: !!field.attributes?.unique,
+    autoincrement,
+    defaultValue: defaultValue === undefined || defaultValue === null || defaultValue === '' || autoincrement
+      ? undefined
+      : formatDefault(String(defaultValue), type, scalarType, enumType, isList, dialect),
+    onUpdate: isUpdatedAt && dialect === 'mysql' ? currentTimestamp(type, dialect) : undefined,
+    comment: field.description,
+  };
+}
+
+/**
+ * db_type as the dialect spells it: "VarChar(255)" -> "VARCHAR(255)", "JSONB" -> "JSON" for MySQL
+ */
+function translateType(dbType: string, scalarType: string, dialect: SqlDialect): string {
+  const match = String(dbType).trim().match(/^([A-Za-z][\w ]*?)\s*(\(.*\))?(\[\])?$/);
+  if (!match) {
+    return String(dbType).trim();
+  }
+
+  const [, typeName, args = '', array = ''] = match;
+  const sqlName = sqlTypeName(typeName);
+  // MySQL booleans are TINYINT(1), which PostgreSQL has no use for
+  if (scalarType === 'Boolean' && dialect === 'postgresql') {
+    return 'BOOLEAN' + array;
+  }
+
+  const translated = DIALECT_TYPES[dialect][sqlName];
+  if (translated) {
+    return (translated.includes('(') ? translated : translated + args.replace(/\s+/g, '')) + array;
+  }
+  return sqlName + args.replace(/\s+/g, '') + array;
+}
+
+/**
+ * SQL spelling of a db_type name: "VarChar" -> "VARCHAR", "DoublePrecision" -> "DOUBLE PRECISION"
+ */
+export function sqlTypeName(typeName: string): string {
+  const upper = typeName.toUpperCase();
+  return PRISMA_NATIVE_TYPES[upper] || upper;
+}
+
+/**
+ * SQL literal or expression for a default_value, or undefined when only Prisma Client can fill it in
+ */
+function formatDefault(
+  value: string,
+  type: string,
+  scalarType: string,
+  enumType: ERDEnum | undefined,
+  isList: boolean,
+  dialect: SqlDialect
+): string | undefined {
+  const call = value.match(/^([\w.]+)\((.*)\)$/);
+  if (call) {
+    const [, name, args] = call;
+    if (name === 'now') {
+      return currentTimestamp(type, dialect);
+    }
+    if (name === 'uuid') {
+      return dialect === 'postgresql' ? 'gen_random_uuid()' : dialect === 'mysql' ? '(UUID())' : undefined;
+    }
+    if (name === 'dbgenerated') {
+      return args ? JSON.parse(args) : undefined;
+    }
+    return CLIENT_DEFAULTS.includes(name) ? undefined : value;
+  }
+
+  if (isList && /^\[.*\]$/.test(value)) {
+    const items = value.slice(1, -1).split(',').map((item) => item.trim().replace(/^"(.*)"$/, '$1')).filter(Boolean);
+    if (dialect !== 'postgresql') {
+      return `(${quoteString(JSON.stringify(items), dialect)})`;
+    }
+    return quoteString(`{${items.map((item) => (/^[\w.-]+$/.test(item) ? item : JSON.stringify(item))).join(',')}}`, dialect);
+  }
+
+  if (enumType) {
+    const enumValue = enumType.values?.find((item) => typeof item === 'object' && item.value_name === value);
+    return quoteString(enumValue?.map || value, dialect);
+  }
+  if (scalarType === 'Boolean' && /^(true|false)$/i.test(value)) {
+    return value.toUpperCase();
+  }
+  if (['Int', 'BigInt', 'Float', 'Decimal'].includes(scalarType) && !isNaN(Number(value))) {
+    return value;
+  }
+
+  // MySQL only takes literal defaults on JSON, TEXT and BLOB columns as expressions
+  const literal = quoteString(value, dialect);
+  return dialect === 'mysql' && /^(JSON|\w*TEXT|\w*BLOB)$/i.test(type) ? `(${literal})` : literal;
+}
+
+function currentTimestamp(type: string, dialect: SqlDialect): string {
+  // MySQL wants the same fractional seconds as the column, e.g. DATETIME(3)
+  const precision = dialect === 'mysql' ? type.match(/\((\d)\)$/)?.[1] : undefined;
+  return precision ? `CURRENT_TIMESTAMP(${precision})` : 'CURRENT_TIMESTAMP';
+}
+
+/**
+ * Column behind a relation field without `fields`, added when the ERD doesn't declare it
+ */
+function findForeignKeyColumn(
+  table: Table,
+  fields: [string, ERDField][],
+  relationField: string,
+  field: ERDField,
+  referencedField: string | undefined,
+  target: ERDModel,
+  context: GeneratorContext
+): string {
+  const candidates = [`${relationField}Id`, `${relationField}_id`];
+  const existing = candidates.find((candidate) => fields.some(([name]) => name === candidate));
+  if (existing) {
+    return existing;
+  }
+
+  // Same type as the referenced column, without its default
+  const reference = target.fields?.[referencedField || 'id'];
+  const referenceType = baseTypeOf(reference?.field_type || 'String');
+  const column = { field_type: referenceType, db_type: reference?.db_type, constraints: field.constraints };
+  table.columns.push(convertField(column, candidates[0], referenceType, context));
+  return candidates[0];
+}
+
+/**
+ * Field lists of @@id / @@unique / @@index block attributes, e.g. "@@id([postId, tagId])"
+ */
+function findBlockAttributes(blockAttributes: string[] | undefined, name: string): string[][] {
+  return (blockAttributes || []).flatMap((attribute) => {
+    const match = attribute.match(new RegExp(`^@@${name}\\(\\s*(?:fields:\\s*)?\\[([^\\]]*)\\]`));
+    return match ? [match[1].split(',').map((column) => column.trim().replace(/\(.*$/, '')).filter(Boolean)] : [];
+  });
+}
+
+/**
+ * Order tables so each comes after the tables it references. Tables in a
+ * reference cycle keep their declaration order; their foreign keys are added later.
+ */
+function orderByDependencies(tables: Table[]): Table[] {
+  const ordered: Table[] = [];
+  const placed = new Set<string>();
+
+  while (ordered.length < tables.length) {
+    const remaining = tables.filter((table) => !placed.has(table.model));
+    const next = remaining.find((table) => table.foreignKeys.every((foreignKey) =>
+      foreignKey.target === table.model || placed.has(foreignKey.target)
+      || !tables.some((other) => other.model === foreignKey.target)
+    )) || remaining[0];
+    ordered.push(next);
+    placed.add(next.model);
+  }
+
+  return ordered;
+}
+
+/**
+ * CREATE SCHEMA and CREATE TYPE ... AS ENUM statements, which tables depend on
+ */
+function formatSchemasAndEnums(tables: Table[], context: GeneratorContext): string[] {
+  const schemas = [...new Set(tables.map((table) => table.schema).filter((schema): schema is string => !!schema))];
+  const statements = schemas.map((schema) => `CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema, context.dialect)};`);
+
+  for (const [name, enumType] of Object.entries(context.enums)) {
+    const values = enumValues(enumType).map((value) => quoteString(value, context.dialect));
+    const comment = enumType?.description ? `\nCOMMENT ON TYPE ${quoteIdentifier(enumType.map || name, context.dialect)} IS ${quoteString(enumType.description, context.dialect)};` : '';
+    statements.push(`CREATE TYPE ${quoteIdentifier(enumType.map || name, context.dialect)} AS ENUM (${values.join(', ')});${comment}`);
+  }
+  return statements;
+}
+
+function formatTable(table: Table, foreignKeys: ForeignKey[], context: GeneratorContext): string[] {
+  const { dialect } = context;
+  // SQLite autoincrement needs the key declared on the column itself
+  const inlineKey = dialect === 'sqlite' && table.primaryKey.length === 1
+    && table.columns.find((column) => column.name === table.primaryKey[0])?.autoincrement;
+
+  const lines = [
+    ...table.columns.map((column) => formatColumn(column, !!inlineKey && column.name === table.primaryKey[0], dialect)),
+    ...(table.primaryKey.length > 0 && !inlineKey ? [`PRIMARY KEY (${quoteIdentifiers(table.primaryKey, dialect)})`] : []),
+    ...table.uniqueConstraints.map((constraint) =>
+      `CONSTRAINT ${quoteIdentifier(constraint.name, dialect)} UNIQUE (${quoteIdentifiers(constraint.columns, dialect)})`
+    ),
+    ...foreignKeys.map((foreignKey) => formatForeignKey(foreignKey, context)),
+  ];
+
+  const body = lines.map((line, index) => {
+    const comma = index < lines.length - 1 ? ',' : '';
+    // SQLite keeps descriptions as comments above the column
+    const column = table.columns[index];
+    const comment = dialect === 'sqlite' && column?.comment ? column.comment.split('\n').map((text) => `  -- ${text}\n`).join('') : '';
+    return `${comment}  ${line}${comma}`;
+  });
+
+  const tableComment = table.comment && dialect === 'mysql' ? ` COMMENT=${quoteString(table.comment, dialect)}` : '';
+  const statements = [[
+    ...(table.comment && dialect === 'sqlite' ? table.comment.split('\n').map((text) => `-- ${text}`) : []),
+    `CREATE TABLE ${tableName(table, dialect)} (`,
+    ...body,
+    `)${tableComment};`,
+  ].join('\n')];
+
+  const indexes = table.indexes.map((index) =>
+    `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(index.name, dialect)} ON ${tableName(table, dialect)} (${quoteIdentifiers(index.columns, dialect)});`
+  );
+  const comments = dialect !== 'postgresql' ? [] : [
+    ...(table.comment ? [`COMMENT ON TABLE ${tableName(table, dialect)} IS ${quoteString(table.comment, dialect)};`] : []),
+    ...table.columns.filter((column) => column.comment).map((column) =>
+      `COMMENT ON COLUMN ${tableName(table, dialect)}.${quoteIdentifier(column.name, dialect)} IS ${quoteString(column.comment!, dialect)};`
+    ),
+  ];
+  if (indexes.length > 0 || comments.length > 0) {
+    statements.push([...indexes, ...comments].join('\n'));
+  }
+  return statements;
+}
+
+function formatColumn(column: Column, inlineKey: boolean, dialect: SqlDialect): string {
+  const parts = [quoteIdentifier(column.name, dialect), column.type];
+  if (inlineKey) {
+    parts.push('PRIMARY KEY AUTOINCREMENT');
+  }
+  if (column.notNull && !inlineKey) {
+    parts.push('NOT NULL');
+  }
+  if (column.autoincrement && dialect === 'mysql') {
+    parts.push('AUTO_INCREMENT');
+  }
+  if (column.defaultValue !== undefined) {
+    parts.push(`DEFAULT ${column.defaultValue}`);
+  }
+  if (column.onUpdate) {
+    parts.push(`ON UPDATE ${column.onUpdate}`);
+  }
+  if (column.unique) {
+    parts.push('UNIQUE');
+  }
+  if (column.comment && dialect === 'mysql') {
+    parts.push(`COMMENT ${quoteString(column.comment, dialect)}`);
+  }
+  return parts.join(' ');
+}
+
+function formatForeignKey(foreignKey: ForeignKey, context: GeneratorContext): string {
+  const target = context.models[foreignKey.target];
+  const targetTable = { name: target.table_name || foreignKey.target, schema: target.schema_name };
+  return [
+    `CONSTRAINT ${quoteIdentifier(foreignKey.name, context.dialect)}`,
+    `FOREIGN KEY (${quoteIdentifiers(foreignKey.columns, context.dialect)})`,
+    `REFERENCES ${tableName(targetTable, context.dialect)} (${quoteIdentifiers(foreignKey.references, context.dialect)})`,
+    ...(foreignKey.onDelete ? [`ON DELETE ${foreignKey.onDelete}`] : []),
+    ...(foreignKey.onUpdate ? [`ON UPDATE ${foreignKey.onUpdate}`] : []),
+  ].join(' ');
+}
+
+function enumValues(enumType: ERDEnum): string[] {
+  // Values are either { value_name, map } entries or plain strings
+  return (enumType?.values || []).map((value: ERDEnum['values'][number] | string) =>
+    typeof value === 'object' ? value.map || value.value_name : String(value)
+  );
+}
+
+// "Post[]" -> "Post", "String?" -> "String"
+function baseTypeOf(fieldType: string): string {
+  return String(fieldType).trim().replace(/(\[\]|\?)$/, '');
+}
+
+function columnName(field: ERDField | undefined, fieldName: string): string {
+  return field?.attributes?.map || fieldName;
+}
+
+function toReferentialAction(action?: string): string | undefined {
+  return action ? REFERENTIAL_ACTIONS[action.toLowerCase().replace(/[^a-z]/g, '')] : undefined;
+}
+
+// SQLite has no schemas; attached databases aren't part of the ERD
+function tableName(table: { name: string; schema?: string }, dialect: SqlDialect): string {
+  return table.schema && dialect !== 'sqlite'
+    ? `${quoteIdentifier(table.schema, dialect)}.${quoteIdentifier(table.name, dialect)}`
+    : quoteIdentifier(table.name, dialect);
+}
+
+function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  return dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteIdentifiers(names: string[], dialect: SqlDialect): string {
+  return names.map((name) => quoteIdentifier(name, dialect)).join(', ');
+}
+
+function quoteString(value: string, dialect: SqlDialect): string {
+  const escaped = dialect === 'mysql' ? value.replace(/\\/g, '\\\\') : value;
+  return `'${escaped.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,48 @@
+// Text metrics
+// Font-metrics based text measurement for environments without a canvas (e.g. the CLI)
+
+// Advance widths of printable ASCII (space through ~) in 1/1000 em, from Helvetica's AFM
+const CHAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const FIRST_CHAR_CODE = 32;
+const DEFAULT_CHAR_WIDTH = 556;
+const BOLD_WIDTH_FACTOR = 1.08;
+const LINE_HEIGHT = 1.2;
+
+/**
+ * Estimate the rendered width of a single line of sans-serif text
+ */
+export function estimateTextWidth(text: string, fontSize: number, fontWeight: string = '400'): number {
+  let units = 0;
+  for (const char of text) {
+    const width = CHAR_WIDTHS[char.charCodeAt(0) - FIRST_CHAR_CODE];
+    units += width ?? DEFAULT_CHAR_WIDTH;
+  }
+
+  const factor = Number(fontWeight) >= 600 ? BOLD_WIDTH_FACTOR : 1;
+  return (units / 1000) * fontSize * factor;
+}
+
+/**
+ * Estimate the bounding box of (possibly multi-line) text
+ */
+export function estimateTextDimensions(
+  text: string,
+  fontSize: number,
+  fontWeight: string = '400'
+): { width: number; height: number } {
+  const lines = text.split('\n');
+  const width = Math.max(...lines.map(line => estimateTextWidth(line, fontSize, fontWeight)));
+
+  return {
+    width: Math.ceil(width),
+    height: Math.ceil(fontSize * LINE_HEIGHT * lines.length),
+  };
+}
@@ -0,0 +1,500 @@
+/**
+ * Key reference for .cryml files: what each key of the diagram types in diagrams.ts holds,
+ * its allowed values, and which keys name other elements of the diagram.
+ * Object schemas are checked against their diagrams.ts types when compiling, so a key added,
+ * removed or made optional there has to be mirrored here. Editor completion and hover,
+ * the structure validator and the published JSON Schema all read it.
+ */
+
+import {
+  AltSection, ArrowType, BaseDiagram, BlockType, DiagramMetadata, DiagramType, ERDColorRule, ERDColors,
+  ERDConstraints, ERDDiagram, ERDEnum, ERDEnumValue, ERDField, ERDFieldAttributes, ERDForeignKey, ERDIndex,
+  ERDModel, ERDPrismaConfig, ERDUniqueConstraint, FlowColor, FlowDiagram, FlowEdge, FlowGroup, FlowNode,
+  FlowStyle, ParticipantType, SequenceBlock, SequenceColor, SequenceDiagram, SequenceMessage, SequenceNote,
+  SequenceParticipant, SequenceStyle,
+} from './diagrams';
+
+// ============================================================================
+// Schema Nodes
+// ============================================================================
+
+// Named elements of a diagram; models include enums, which share their names
+export type ElementKind = 'node' | 'group' | 'participant' | 'message' | 'model' | 'field';
+
+/**
+ * What a value refers to by name:
+ * - node / group / participant / message / model: the element with that ID or name
+ * - fieldType: a scalar type, model or enum name, with optional ? / [] modifiers
+ * - referencedField: a field of the model named by the sibling `table` key
+ * - modelField: a field of the enclosing model
+ */
+export type ReferenceKind = Exclude<ElementKind, 'field'> | 'fieldType' | 'referencedField' | 'modelField';
+
+export interface SchemaNode {
+  description: string;
+  type?: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  enum?: readonly string[];
+  enumDescriptions?: readonly string[]; // One per enum value, as in VS Code JSON schemas
+  properties?: Record<string, SchemaNode>;
+  required?: readonly string[];
+  items?: SchemaNode;
+  additionalProperties?: SchemaNode; // Value of every entry in a map keyed by name (models, nodes, participants)
+  reference?: ReferenceKind;
+  defines?: ElementKind; // The map's keys (or the scalar value) name elements of this kind
+}
+
+// Keys of a diagrams.ts type that are written in .cryml files (parsers add sourceRange)
+type FileKeys<T> = Exclude<keyof T, 'sourceRange'>;
+type RequiredFileKeys<T> = { [K in FileKeys<T>]-?: undefined extends T[K] ? never : K }[FileKeys<T>];
+
+/**
+ * Schema of an object of type T. Every key of T needs a property and no other key may have
+ * one; `required` has to name exactly the keys T doesn't mark optional.
+ */
+function objectSchema<T>(
+  description: string,
+  properties: { [K in FileKeys<T>]-?: SchemaNode },
+  required: Record<RequiredFileKeys<T>, true>
+): SchemaNode {
+  const requiredKeys = Object.keys(required);
+  return { description, type: 'object', properties, ...(requiredKeys.length > 0 ? { required: requiredKeys } : {}) };
+}
+
+// ============================================================================
+// Enumerated Values
+// ============================================================================
+
+export const DIAGRAM_TYPES: readonly DiagramType[] = ['erd', 'flow', 'sequence'];
+export const FLOW_NODE_TYPES: readonly FlowNode['type'][] = ['start', 'end', 'process', 'decision', 'note'];
+export const FLOW_COLORS: readonly FlowColor[] = ['blue', 'green', 'red', 'orange', 'purple', 'gray', 'yellow', 'teal'];
+export const PARTICIPANT_TYPES: readonly ParticipantType[] = ['participant', 'actor'];
+export const ARROW_TYPES: readonly ArrowType[] = ['solid', 'dashed', 'open_solid', 'open_dashed', 'dot'];
+export const BLOCK_TYPES: readonly BlockType[] = ['alt', 'opt', 'loop', 'par', 'critical', 'neg'];
+export const SEQUENCE_COLORS: readonly SequenceColor[] = ['blue', 'green', 'red', 'orange', 'purple', 'gray', 'yellow', 'teal'];
+export const MODEL_COLORS: readonly NonNullable<ERDModel['color']>[] = ['yellow', 'red', 'teal'];
+export const FIELD_SCALAR_TYPES: readonly string[] = ['String', 'Int', 'BigInt', 'Float', 'Decimal', 'Boolean', 'DateTime', 'Json', 'Bytes'];
+
+// ============================================================================
+// Shared Sections
+// ============================================================================
+
+const DIAGRAM_DESCRIPTIONS = [
+  'Entity relationship diagram: models, fields and foreign keys',
+  'Flow chart: nodes joined by edges',
+  'Sequence diagram: messages between participants over time',
+];
+
+const METADATA = objectSchema<DiagramMetadata>('Name and description shown in the diagram header', {
+  name: { description: 'Diagram name', type: 'string' },
+  description: { description: 'What the diagram shows', type: 'string' },
+  version: { description: 'Version of the diagram, e.g. "1.0"', type: 'string' },
+  schema_version: { description: 'Version of the database schema an ERD was imported from', type: 'string' },
+}, { name: true });
+
+// Saved layouts aren't part of the diagrams.ts types; the extension writes them.
+// They point at nodes (models in ERDs) by ID, so renames have to follow them
+const LAYOUT_REFERENCES: Record<DiagramType, ReferenceKind | undefined> = {
+  erd: 'model',
+  flow: 'node',
+  sequence: undefined,
+};
+
+function layoutSchema(diagramType: DiagramType): SchemaNode {
+  const nodeId = (description: string): SchemaNode => ({ description, type: 'string', reference: LAYOUT_REFERENCES[diagramType] });
+  return {
+    description: 'Node positions saved by "Save Layout". Written by the extension; edit with care',
+    type: 'object',
+    properties: {
+      version: { description: 'Layout format version', type: 'string' },
+      timestamp: { description: 'When the layout was saved', type: 'string' },
+      direction: { description: 'Auto-layout direction', type: 'string', enum: ['DOWN', 'RIGHT'] },
+      kind: { description: 'Diagram kind the layout was saved from', type: 'string' },
+      nodes: {
+        description: 'Saved node positions',
+        type: 'array',
+        items: {
+          description: 'A node position',
+          type: 'object',
+          properties: {
+            id: nodeId('Node the position belongs to'),
+            data: {
+              description: 'Node data when the layout was saved',
+              type: 'object',
+              properties: diagramType === 'flow'
+                ? { group: { description: 'Group the node was in', type: 'string', reference: 'group' } }
+                : undefined,
+            },
+          },
+        },
+      },
+      edges: {
+        description: 'Saved edges',
+        type: 'array',
+        items: {
+          description: 'A saved edge',
+          type: 'object',
+          properties: {
+            source: nodeId('Node the edge leaves'),
+            target: nodeId('Node the edge enters'),
+          },
+        },
+      },
+    },
+  };
+}
+
+type DiagramKeys<T> = Exclude<FileKeys<T>, keyof BaseDiagram>;
+
+function baseSchema<T extends BaseDiagram>(
+  diagramType: T['diagram_type'],
+  properties: { [K in DiagramKeys<T>]-?: SchemaNode },
+  required: Record<Extract<RequiredFileKeys<T>, DiagramKeys<T>>, true>
+): SchemaNode {
+  // The layout section is added last, where Save Layout writes it
+  const base: { [K in Exclude<FileKeys<BaseDiagram>, 'layout'>]-?: SchemaNode } = {
+    diagram_type: {
+      description: 'Kind of diagram in this file (erd when omitted)',
+      type: 'string',
+      enum: DIAGRAM_TYPES,
+      enumDescriptions: DIAGRAM_DESCRIPTIONS,
+    },
+    metadata: METADATA,
+    version: { description: 'Version of the .cryml format the file was written for, e.g. "1.0"', type: 'string' },
+  };
+  return {
+    description: DIAGRAM_DESCRIPTIONS[DIAGRAM_TYPES.indexOf(diagramType)],
+    type: 'object',
+    // ERDs predate diagram_type, so it may be left out there
+    required: [...(diagramType === 'erd' ? [] : ['diagram_type']), 'metadata', ...Object.keys(required)],
+    properties: { ...base, ...properties, layout: layoutSchema(diagramType) },
+  };
+}
+
+// ============================================================================
+// ERD
+// ============================================================================
+
+const FOREIGN_KEY = objectSchema<ERDForeignKey>('Makes this field reference a column of another model', {
+  table: { description: 'Referenced model', type: 'string', reference: 'model' },
+  column: { description: 'Referenced field of the `table` model, usually its primary key', type: 'string', reference: 'referencedField' },
+  fields: {
+    description: 'Scalar fields of this model holding the key, when set on a relation field',
+    type: 'array',
+    items: { description: 'A field of this model', type: 'string', reference: 'modelField' },
+  },
+  references: {
+    description: 'All referenced columns of a composite key',
+    type: 'array',
+    items: { description: 'A field of the `table` model', type: 'string', reference: 'referencedField' },
+  },
+  constraint_name: { description: 'Name of the foreign key constraint', type: 'string' },
+  on_delete: { description: 'Referential action on delete, e.g. Cascade, SetNull, Restrict', type: 'string' },
+  on_update: { description: 'Referential action on update, e.g. Cascade, NoAction', type: 'string' },
+}, { table: true, column: true });
+
+const FIELD = objectSchema<ERDField>('A column or relation of the model', {
+  field_type: {
+    description: 'Scalar type (String, Int, DateTime...), or a model or enum name for relations. `?` marks it optional and `[]` a list',
+    type: 'string',
+    reference: 'fieldType',
+  },
+  db_type: { description: 'Database column type, e.g. varchar(255) or uuid', type: 'string' },
+  description: { description: 'Shown on the field and exported as a comment', type: 'string' },
+  constraints: objectSchema<ERDConstraints>('Column constraints', {
+    not_null: { description: 'The column is required', type: 'boolean' },
+  }, {}),
+  attributes: objectSchema<ERDFieldAttributes>('Keys, defaults and relations', {
+    primary_key: { description: 'The field is (part of) the primary key', type: 'boolean' },
+    unique: { description: 'Values are unique', type: 'boolean' },
+    default_value: { description: 'Default value or expression, e.g. now() or autoincrement()', type: 'string' },
+    foreign_key: FOREIGN_KEY,
+    virtual: { description: 'Relation field with no column of its own', type: 'boolean' },
+    referenced_by: { description: 'Model whose foreign key this virtual field mirrors', type: 'string', reference: 'model' },
+    is_list: { description: 'The field holds a list', type: 'boolean' },
+    map: { description: 'Column name in the database', type: 'string' },
+    relation_name: { description: 'Name telling apart several relations between the same models', type: 'string' },
+    prisma_attributes: {
+      description: 'Prisma field attributes with no structured equivalent',
+      type: 'array',
+      items: { description: 'A Prisma attribute, e.g. @updatedAt', type: 'string' },
+    },
+  }, {}),
+}, { field_type: true });
+
+const COLUMN_LIST: SchemaNode = {
+  description: 'Fields of this model',
+  type: 'array',
+  items: { description: 'A field of this model', type: 'string', reference: 'modelField' },
+};
+
+const MODEL = objectSchema<ERDModel>('A table, view or composite type', {
+  kind: { description: 'What the model is', type: 'string', enum: ['model', 'view', 'type'] },
+  description: { description: 'Shown on the model and exported as a comment', type: 'string' },
+  color: { description: 'Header color', type: 'string', enum: MODEL_COLORS },
+  group: { description: 'Group the model belongs to', type: 'string' },
+  table_name: { description: 'Table name in the database', type: 'string' },
+  schema_name: { description: 'Database schema holding the table', type: 'string' },
+  fields: { description: 'Fields by name', type: 'object', additionalProperties: FIELD, defines: 'field' },
+  indexes: {
+    description: 'Indexes on this model',
+    type: 'array',
+    items: objectSchema<ERDIndex>('An index', {
+      index_name: { description: 'Index name', type: 'string' },
+      columns: COLUMN_LIST,
+      unique: { description: 'The index is unique', type: 'boolean' },
+    }, { index_name: true, columns: true }),
+  },
+  unique_constraints: {
+    description: 'Unique constraints over several fields',
+    type: 'array',
+    items: objectSchema<ERDUniqueConstraint>('A unique constraint', {
+      constraint_name: { description: 'Constraint name', type: 'string' },
+      columns: COLUMN_LIST,
+    }, { constraint_name: true, columns: true }),
+  },
+  block_attributes: {
+    description: 'Prisma block attributes with no structured equivalent',
+    type: 'array',
+    items: { description: 'A Prisma block attribute, e.g. @@schema("auth")', type: 'string' },
+  },
+}, { fields: true });
+
+const ENUM = objectSchema<ERDEnum>('An enum usable as a field_type', {
+  description: { description: 'Shown on the enum and exported as a comment', type: 'string' },
+  map: { description: 'Enum name in the database', type: 'string' },
+  values: {
+    description: 'Enum values',
+    type: 'array',
+    items: objectSchema<ERDEnumValue>('An enum value', {
+      value_name: { description: 'Value name', type: 'string' },
+      description: { description: 'What the value means', type: 'string' },
+      map: { description: 'Value in the database', type: 'string' },
+    }, { value_name: true }),
+  },
+  block_attributes: {
+    description: 'Prisma block attributes with no structured equivalent',
+    type: 'array',
+    items: { description: 'A Prisma block attribute', type: 'string' },
+  },
+}, { values: true });
+
+// Settings of a datasource or generator block, e.g. provider and url
+const PRISMA_BLOCKS: SchemaNode = {
+  description: 'Block settings',
+  type: 'object',
+  additionalProperties: { description: 'A Prisma expression, string literals unquoted', type: 'string' },
+};
+
+const ERD_SCHEMA = baseSchema<ERDDiagram>('erd', {
+  colors: objectSchema<ERDColors>('Model colors', {
+    default: { description: 'Color of models no rule matches', type: 'string', enum: MODEL_COLORS },
+    rules: {
+      description: 'Colors and groups for models whose name matches a pattern',
+      type: 'array',
+      items: objectSchema<ERDColorRule>('A color rule', {
+        pattern: { description: 'Regular expression matched against model names, ignoring case', type: 'string' },
+        color: { description: 'Color of matching models', type: 'string', enum: MODEL_COLORS },
+        group: { description: 'Group of matching models', type: 'string' },
+      }, { pattern: true, color: true, group: true }),
+    },
+  }, { default: true }),
+  models: { description: 'Models by name', type: 'object', additionalProperties: MODEL, defines: 'model' },
+  enums: { description: 'Enums by name', type: 'object', additionalProperties: ENUM, defines: 'model' },
+  prisma: objectSchema<ERDPrismaConfig>('datasource and generator blocks of an imported Prisma schema', {
+    datasources: { description: 'Datasource blocks by name', type: 'object', additionalProperties: PRISMA_BLOCKS },
+    generators: { description: 'Generator blocks by name', type: 'object', additionalProperties: PRISMA_BLOCKS },
+  }, {}),
+}, { models: true });
+
+// ============================================================================
+// Flow
+// ============================================================================
+
+const FLOW_SCHEMA = baseSchema<FlowDiagram>('flow', {
+  style: objectSchema<FlowStyle>('Default look of the nodes', {
+    default_color: { description: 'Color of nodes outside a colored group', type: 'string', enum: FLOW_COLORS },
+    node_size: { description: 'Node size', type: 'string', enum: ['small', 'medium', 'large'] },
+  }, {}),
+  nodes: {
+    description: 'Nodes by ID',
+    type: 'object',
+    defines: 'node',
+    additionalProperties: objectSchema<FlowNode>('A flow node', {
+      type: {
+        description: 'Node shape and role',
+        type: 'string',
+        enum: FLOW_NODE_TYPES,
+        enumDescriptions: [
+          'Entry point of the flow (circle)',
+          'Exit point of the flow (double circle)',
+          'A step (rounded box)',
+          'A branch; label its outgoing edges (diamond)',
+          'A comment attached with an edge (folded corner)',
+        ],
+      },
+      label: { description: 'Text on the node', type: 'string' },
+      description: { description: 'Details shown below the label', type: 'string' },
+      group: { description: 'ID of the group the node belongs to', type: 'string', reference: 'group' },
+      position: objectSchema<NonNullable<FlowNode['position']>>('Fixed position; auto-layout places the node when omitted', {
+        x: { description: 'Horizontal position', type: 'number' },
+        y: { description: 'Vertical position', type: 'number' },
+      }, { x: true, y: true }),
+    }, { type: true, label: true }),
+  },
+  edges: {
+    description: 'Connections between nodes',
+    type: 'array',
+    items: objectSchema<FlowEdge>('An edge', {
+      from: { description: 'ID of the source node', type: 'string', reference: 'node' },
+      to: { description: 'ID of the target node', type: 'string', reference: 'node' },
+      label: { description: 'Text on the edge; name the branch for decision nodes', type: 'string' },
+      condition: { description: 'Condition under which the edge is taken', type: 'string' },
+    }, { from: true, to: true }),
+  },
+  groups: {
+    description: 'Node groups by ID',
+    type: 'object',
+    defines: 'group',
+    additionalProperties: objectSchema<FlowGroup>('A group of nodes', {
+      label: { description: 'Group name shown on its nodes', type: 'string' },
+      color: { description: 'Color of the group\'s nodes', type: 'string', enum: FLOW_COLORS },
+      collapsed: { description: 'Show the group collapsed', type: 'boolean' },
+    }, {}),
+  },
+}, { nodes: true, edges: true });
+
+// ============================================================================
+// Sequence
+// ============================================================================
+
+const MESSAGE_LIST: SchemaNode = {
+  description: 'IDs of the messages inside',
+  type: 'array',
+  items: { description: 'A message ID', type: 'string', reference: 'message' },
+};
+
+const SEQUENCE_SCHEMA = baseSchema<SequenceDiagram>('sequence', {
+  style: objectSchema<SequenceStyle>('Default look of the diagram', {
+    default_color: { description: 'Color of participants without one', type: 'string', enum: SEQUENCE_COLORS },
+    participant_width: { description: 'Width of the participant boxes', type: 'number' },
+    show_lifelines: { description: 'Draw lifelines below participants', type: 'boolean' },
+    show_activations: { description: 'Draw activation bars', type: 'boolean' },
+  }, {}),
+  participants: {
+    description: 'Participants by ID',
+    type: 'object',
+    defines: 'participant',
+    additionalProperties: objectSchema<SequenceParticipant>('A participant', {
+      type: {
+        description: 'How the participant is drawn',
+        type: 'string',
+        enum: PARTICIPANT_TYPES,
+        enumDescriptions: ['A system or component (box)', 'A person or external role (stick figure)'],
+      },
+      label: { description: 'Name shown in the header', type: 'string' },
+      description: { description: 'What the participant is', type: 'string' },
+      group: { description: 'Group shared with neighbouring participants', type: 'string' },
+      color: { description: 'Header color', type: 'string', enum: SEQUENCE_COLORS },
+      order: { description: 'Horizontal position, lowest first', type: 'number' },
+    }, { type: true, label: true }),
+  },
+  messages: {
+    description: 'Messages in time order',
+    type: 'array',
+    items: objectSchema<SequenceMessage>('A message', {
+      id: { description: 'Message ID, referenced by blocks', type: 'string', defines: 'message' },
+      from: { description: 'ID of the sending participant', type: 'string', reference: 'participant' },
+      to: { description: 'ID of the receiving participant', type: 'string', reference: 'participant' },
+      label: { description: 'Text on the arrow', type: 'string' },
+      arrow_type: {
+        description: 'Line and arrowhead style',
+        type: 'string',
+        enum: ARROW_TYPES,
+        enumDescriptions: [
+          'Call: solid line, filled arrowhead',
+          'Reply: dashed line, filled arrowhead',
+          'Asynchronous call: solid line, open arrowhead',
+          'Asynchronous reply: dashed line, open arrowhead',
+          'Lost or fire-and-forget message: solid line ending in a dot',
+        ],
+      },
+      note: { description: 'Note shown next to the message', type: 'string' },
+      sequence_order: { description: 'Position in time, starting at 1', type: 'number' },
+    }, { id: true, from: true, to: true, label: true, sequence_order: true }),
+  },
+  notes: {
+    description: 'Notes over participants',
+    type: 'array',
+    items: objectSchema<SequenceNote>('A note', {
+      id: { description: 'Note ID', type: 'string' },
+      text: { description: 'Note text', type: 'string' },
+      position: objectSchema<SequenceNote['position']>('Where the note is drawn', {
+        participant: { description: 'ID of the participant the note is over', type: 'string', reference: 'participant' },
+        over: {
+          description: 'IDs of the participants the note spans',
+          type: 'array',
+          items: { description: 'A participant ID', type: 'string', reference: 'participant' },
+        },
+        y: { description: 'sequence_order of the message the note follows', type: 'number' },
+      }, { y: true }),
+      style: { description: 'Note style', type: 'string', enum: ['note', 'warning', 'error'] },
+    }, { id: true, text: true, position: true }),
+  },
+  blocks: {
+    description: 'Fragments grouping messages',
+    type: 'array',
+    items: objectSchema<SequenceBlock>('A block', {
+      id: { description: 'Block ID', type: 'string' },
+      type: {
+        description: 'Kind of fragment',
+        type: 'string',
+        enum: BLOCK_TYPES,
+        enumDescriptions: [
+          'Alternatives: one alt_section runs, chosen by its condition',
+          'Optional: runs only when the condition holds',
+          'Repeats while the condition holds',
+          'Parallel: the alt_sections run at the same time',
+          'Critical region that must not be interrupted',
+          'Invalid interaction that must not happen',
+        ],
+      },
+      label: { description: 'Text in the block header', type: 'string' },
+      condition: { description: 'Guard shown in the block header', type: 'string' },
+      messages: MESSAGE_LIST,
+      alt_sections: {
+        description: 'Sections of alt and par blocks',
+        type: 'array',
+        items: objectSchema<AltSection>('A section', {
+          condition: { description: 'Guard of this section', type: 'string' },
+          messages: MESSAGE_LIST,
+        }, { messages: true }),
+      },
+      sequence_order: { description: 'Nesting order; outer blocks first', type: 'number' },
+    }, { id: true, type: true, messages: true, sequence_order: true }),
+  },
+}, { participants: true, messages: true });
+
+export const DIAGRAM_SCHEMAS: Record<DiagramType, SchemaNode> = {
+  erd: ERD_SCHEMA,
+  flow: FLOW_SCHEMA,
+  sequence: SEQUENCE_SCHEMA,
+};
+
+/**
+ * Schema of the value at a path, e.g. ['models', 'User', 'fields', 'id', 'field_type'].
+ * Array indexes and map keys step into items and additionalProperties.
+ */
+export function schemaAt(root: SchemaNode, path: readonly (string | number)[]): SchemaNode | undefined {
+  let current: SchemaNode | undefined = root;
+  for (const segment of path) {
+    if (!current) {
+      return undefined;
+    }
+    if (typeof segment === 'number') {
+      current = current.items;
+    } else {
+      current = current.properties?.[segment] ?? current.additionalProperties;
+    }
+  }
+  return current;
+}
@@ -9,15 +9,36 @@
 
 export type DiagramType = 'erd' | 'flow' | 'sequence';
 
+/**
+ * Character offsets of an element's declaration in its source file.
+ * Recorded by the parsers (not part of the YAML) so the diagram can reveal the source.
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
 export interface BaseDiagram {
   diagram_type: DiagramType;
   metadata: DiagramMetadata;
+  version?: string; // .cryml format version, written by the Prisma import
+  layout?: DiagramLayout;
+}
+
+/**
+ * Layout section written by "Save Layout". Only the direction is read outside the
+ * layout code; the saved node and edge entries are applied as they are.
+ */
+export interface DiagramLayout {
+  direction?: 'DOWN' | 'RIGHT';
+  [key: string]: unknown;
 }
 
 export interface DiagramMetadata {
   name: string;
   description?: string;
   version?: string;
+  schema_version?: string;
 }
 
 // ============================================================================
@@ -30,6 +51,16 @@ export interface ERDDiagram extends BaseDiagram {
   colors?: ERDColors;
   models: Record<string, ERDModel>;
   enums?: Record<string, ERDEnum>;
+  prisma?: ERDPrismaConfig;
+}
+
+/**
+ * datasource and generator blocks of an imported Prisma schema. Values are
+ * Prisma expressions, with string literals unquoted (url: env("DATABASE_URL"))
+ */
+export interface ERDPrismaConfig {
+  datasources?: Record<string, Record<string, string>>;
+  generators?: Record<string, Record<string, string>>;
 }
 
 export interface ERDColors {
@@ -44,6 +75,8 @@ export interface ERDColorRule {
 }
 
 export interface ERDModel {
+  kind?: 'model' | 'view' | 'type';
+  description?: string;
   color?: 'yellow' | 'red' | 'teal';
   group?: string;
   table_name?: string;
@@ -51,11 +84,13 @@ export interface ERDModel {
   fields: Record<string, ERDField>;
   indexes?: ERDIndex[];
   unique_constraints?: ERDUniqueConstraint[];
+  block_attributes?: string[]; // Prisma block attributes with no structured equivalent
 }
 
 export interface ERDField {
   field_type: string;
   db_type?: string;
+  description?: string;
   constraints?: ERDConstraints;
   attributes?: ERDFieldAttributes;
 }
@@ -74,11 +109,15 @@ export interface ERDFieldAttributes {
   is_list?: boolean;
   map?: string;
   relation_name?: string;
+  prisma_attributes?: string[]; // Prisma field attributes with no structured equivalent
 }
 
 export interface ERDForeignKey {
   table: string;
   column: string;
+  fields?: string[]; // Scalar fields holding the key, when set on a relation field
+  references?: string[]; // All referenced columns of a composite key
+  constraint_name?: string;
   on_delete?: string;
   on_update?: string;
 }
@@ -95,12 +134,16 @@ export interface ERDUniqueConstraint {
 }
 
 export interface ERDEnum {
+  description?: string;
+  map?: string;
   values: ERDEnumValue[];
+  block_attributes?: string[];
 }
 
 export interface ERDEnumValue {
   value_name: string;
   description?: string;
+  map?: string;
 }
 
 // ============================================================================
@@ -121,7 +164,7 @@ export interface FlowStyle {
   node_size?: 'small' | 'medium' | 'large';
 }
 
-export type FlowColor = 'blue' | 'green' | 'red' | 'orange' | 'purple' | 'gray';
+export type FlowColor = 'blue' | 'green' | 'red' | 'orange' | 'purple' | 'gray' | 'yellow' | 'teal';
 
 export interface FlowNode {
   type: 'start' | 'end' | 'process' | 'decision' | 'note';
@@ -129,6 +172,7 @@ export interface FlowNode {
   description?: string;
   group?: string;
   position?: { x: number; y: number };
+  sourceRange?: SourceRange;
 }
 
 export interface FlowEdge {
@@ -188,6 +232,7 @@ export interface SequenceMessage {
   arrow_type?: ArrowType;
   note?: string;
   sequence_order: number; // For vertical ordering (time)
+  sourceRange?: SourceRange;
 }
 
 export interface SequenceNote {
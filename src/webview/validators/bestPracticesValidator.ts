@@ -33,7 +33,7 @@ export function validateERDBestPractices(diagram: any): ValidationWarning[] {
       warnings.push(createWarning(
         'MISSING_PRIMARY_KEY',
         `models.${modelName}`,
-        `Model does not have a primary key: ${modelName}`
+        modelName
       ));
     }
 
@@ -56,7 +56,7 @@ export function validateERDBestPractices(diagram: any): ValidationWarning[] {
           warnings.push(createWarning(
             'FK_WITHOUT_INDEX',
             `models.${modelName}.fields.${fieldName}`,
-            `Foreign key field lacks an index: ${modelName}.${fieldName}`
+            `${modelName}.${fieldName}`
           ));
         }
       }
@@ -75,11 +75,9 @@ export function validateSequenceBestPractices(diagram: any): ValidationWarning[]
   // Count participant message usage
   const participantMessageCounts = new Map<string, number>();
 
-  if (diagram.participants && Array.isArray(diagram.participants)) {
-    for (const p of diagram.participants) {
-      if (p && typeof p === 'object' && p.id && typeof p.id === 'string') {
-        participantMessageCounts.set(p.id, 0);
-      }
+  if (diagram.participants && typeof diagram.participants === 'object') {
+    for (const participantId of Object.keys(diagram.participants)) {
+      participantMessageCounts.set(participantId, 0);
     }
   }
 
@@ -110,8 +108,8 @@ export function validateSequenceBestPractices(diagram: any): ValidationWarning[]
     if (count === 0) {
       warnings.push(createWarning(
         'UNUSED_PARTICIPANT',
-        'participants',
-        `Participant has no messages: ${participantId}`
+        `participants.${participantId}`,
+        participantId
       ));
     }
   }
@@ -125,55 +123,52 @@ export function validateSequenceBestPractices(diagram: any): ValidationWarning[]
 export function validateFlowBestPractices(diagram: any): ValidationWarning[] {
   const warnings: ValidationWarning[] = [];
 
-  if (!diagram.nodes || !Array.isArray(diagram.nodes)) {
+  if (!diagram.nodes || typeof diagram.nodes !== 'object') {
     return warnings;
   }
 
-  // Check fork/join mismatches
-  const forkNodes = diagram.nodes.filter(
-    (n: any) => n && typeof n === 'object' && n.type === 'fork'
-  );
-  const joinNodes = diagram.nodes.filter(
-    (n: any) => n && typeof n === 'object' && n.type === 'join'
-  );
+  const nodeEntries = Object.entries<any>(diagram.nodes).filter(([, n]) => n && typeof n === 'object');
 
-  if (forkNodes.length !== joinNodes.length) {
-    warnings.push(createWarning(
-      'FORK_JOIN_MISMATCH',
-      'nodes',
-      `Fork nodes (${forkNodes.length}) don't match join nodes (${joinNodes.length})`
-    ));
-  }
-
-  // Check for complex diagrams
-  if (diagram.nodes.length > 20) {
+  // Check for complex diagrams that don't use groups
+  const hasGroups = nodeEntries.some(([, n]) => n.group);
+  if (nodeEntries.length > 20 && !hasGroups) {
     warnings.push(createWarning(
       'COMPLEX_DIAGRAM',
       'nodes',
-      `Flow diagram has ${diagram.nodes.length} nodes - consider using groups/subgraphs`
+      `${nodeEntries.length} nodes`
     ));
   }
 
-  // Check decision nodes have conditions on edges
+  // Check decision nodes branch and label their branches
   if (diagram.edges && Array.isArray(diagram.edges)) {
-    for (const node of diagram.nodes) {
-      if (!node || typeof node !== 'object' || node.type !== 'decision') {
+    for (const [nodeId, node] of nodeEntries) {
+      if (node.type !== 'decision') {
         continue;
       }
 
       const outgoingEdges = diagram.edges.filter(
-        (e: any) => e && typeof e === 'object' && e.source === node.id
+        (e: any) => e && typeof e === 'object' && e.from === nodeId
       );
 
+      if (outgoingEdges.length < 2) {
+        warnings.push(createWarning(
+          'DECISION_FEW_BRANCHES',
+          `nodes.${nodeId}`,
+          nodeId
+        ));
+        continue;
+      }
+
+      // Either a label or a condition describes which branch is taken
       const edgesWithoutConditions = outgoingEdges.filter(
-        (e: any) => !e.condition || typeof e.condition !== 'string' || e.condition.trim() === ''
+        (e: any) => !hasText(e.condition) && !hasText(e.label)
       );
 
-      if (outgoingEdges.length >= 2 && edgesWithoutConditions.length > 0) {
+      if (edgesWithoutConditions.length > 0) {
         warnings.push(createWarning(
           'MISSING_CONDITION',
-          `edges`,
-          `Decision node has edges without conditions: ${node.id}`
+          `nodes.${nodeId}`,
+          nodeId
         ));
       }
     }
@@ -181,3 +176,7 @@ export function validateFlowBestPractices(diagram: any): ValidationWarning[] {
 
   return warnings;
 }
+
+function hasText(value: unknown): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== '';
+}
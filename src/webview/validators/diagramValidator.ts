@@ -15,17 +15,27 @@ import {
 } from './types';
 import {
   validateERDStructure,
+  validateFlowStructure,
+  validateSequenceStructure,
 } from './structureValidator';
 import {
   validateERDReferences,
+  validateFlowReferences,
+  validateSequenceReferences,
 } from './referenceValidator';
 import {
   validateERDLayout,
+  validateFlowLayout,
+  validateSequenceLayout,
 } from './layoutValidator';
 import {
   validateERDBestPractices,
+  validateFlowBestPractices,
+  validateSequenceBestPractices,
 } from './bestPracticesValidator';
 
+const DIAGRAM_TYPES: DiagramType[] = ['erd', 'flow', 'sequence'];
+
 export class DiagramValidator {
   /**
    * Validate a .cryml file content
@@ -49,6 +59,10 @@ export class DiagramValidator {
       // Detect diagram type
       const diagramType = this.detectDiagramType(parsed);
 
+      if (!diagramType) {
+        return aggregateResults([createError('INVALID_DIAGRAM_TYPE', 'diagram_type')], [], 'erd');
+      }
+
       // Phase 1: Structure validation (required fields, data types)
       const structureErrors = await this.validateStructure(parsed, diagramType);
 
@@ -91,8 +105,9 @@ export class DiagramValidator {
 
   /**
    * Detect the diagram type from parsed YAML
+   * Returns null when diagram_type is set to an unknown value
    */
-  private detectDiagramType(parsed: any): DiagramType {
+  private detectDiagramType(parsed: any): DiagramType | null {
     const diagramType = parsed.diagram_type;
 
     if (!diagramType) {
@@ -100,10 +115,8 @@ export class DiagramValidator {
       return 'erd';
     }
 
-    const validTypes: DiagramType[] = ['erd'];
-
-    if (!validTypes.includes(diagramType)) {
-      throw new Error(`Invalid diagram_type: ${diagramType}. Only 'erd' is supported.`);
+    if (!DIAGRAM_TYPES.includes(diagramType)) {
+      return null;
     }
 
     return diagramType as DiagramType;
@@ -116,27 +129,15 @@ export class DiagramValidator {
     parsed: any,
     diagramType: DiagramType
   ): Promise<ValidationError[]> {
-    const errors: ValidationError[] = [];
-
-    // Common structure validation
-    if (!parsed.diagram_type) {
-      // No error - default to ERD for backward compatibility
-    } else if (!['erd'].includes(parsed.diagram_type)) {
-      errors.push(createError('INVALID_DIAGRAM_TYPE', 'diagram_type'));
-    }
-
-    if (!parsed.metadata) {
-      errors.push(createError('MISSING_METADATA', ''));
-    } else if (!parsed.metadata.name) {
-      errors.push(createError('MISSING_METADATA_NAME', 'metadata.name'));
+    // The schemas cover metadata and the type-specific sections
+    switch (diagramType) {
+      case 'erd':
+        return validateERDStructure(parsed);
+      case 'flow':
+        return validateFlowStructure(parsed);
+      case 'sequence':
+        return validateSequenceStructure(parsed);
     }
-
-    // Type-specific structure validation
-    if (diagramType === 'erd') {
-      errors.push(...validateERDStructure(parsed));
-    }
-
-    return errors;
   }
 
   /**
@@ -146,11 +147,14 @@ export class DiagramValidator {
     parsed: any,
     diagramType: DiagramType
   ): Promise<ValidationError[]> {
-    if (diagramType === 'erd') {
-      return validateERDReferences(parsed);
+    switch (diagramType) {
+      case 'erd':
+        return validateERDReferences(parsed);
+      case 'flow':
+        return validateFlowReferences(parsed);
+      case 'sequence':
+        return validateSequenceReferences(parsed);
     }
-
-    return [];
   }
 
   /**
@@ -160,11 +164,14 @@ export class DiagramValidator {
     parsed: any,
     diagramType: DiagramType
   ): Promise<ValidationError[]> {
-    if (diagramType === 'erd') {
-      return validateERDLayout(parsed);
+    switch (diagramType) {
+      case 'erd':
+        return validateERDLayout(parsed);
+      case 'flow':
+        return validateFlowLayout(parsed);
+      case 'sequence':
+        return validateSequenceLayout(parsed);
     }
-
-    return [];
   }
 
   /**
@@ -174,10 +181,13 @@ export class DiagramValidator {
     parsed: any,
     diagramType: DiagramType
   ): Promise<ValidationWarning[]> {
-    if (diagramType === 'erd') {
-      return validateERDBestPractices(parsed);
+    switch (diagramType) {
+      case 'erd':
+        return validateERDBestPractices(parsed);
+      case 'flow':
+        return validateFlowBestPractices(parsed);
+      case 'sequence':
+        return validateSequenceBestPractices(parsed);
     }
-
-    return [];
   }
 }
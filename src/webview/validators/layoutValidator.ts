@@ -2,7 +2,7 @@
  * Layout validator - validates layout constraints (circular deps, reachability, ordering)
  */
 
-import { ValidationError, createError, ErrorCode } from './types';
+import { ValidationError, createError } from './types';
 
 /**
  * Validate ERD diagram layout
@@ -70,7 +70,7 @@ export function validateERDLayout(diagram: any): ValidationError[] {
       errors.push(createError(
         'CIRCULAR_DEPENDENCY',
         `models.${modelName}`,
-        `Circular foreign key dependency detected involving: ${modelName}`
+        modelName
       ));
       break; // Only report one cycle error
     }
@@ -90,37 +90,38 @@ export function validateSequenceLayout(diagram: any): ValidationError[] {
     return errors;
   }
 
-  // Sort messages by sequence_order and verify they're sequential
-  const sorted = [...diagram.messages]
-    .filter((m: any) => m && typeof m === 'object')
-    .sort((a: any, b: any) => (a.sequence_order || 0) - (b.sequence_order || 0));
+  // Sort messages by sequence_order (keeping their source index) and verify they're sequential
+  const sorted = diagram.messages
+    .map((m: any, index: number) => ({ message: m, index }))
+    .filter(({ message }: { message: any }) => message && typeof message === 'object')
+    .sort((a: any, b: any) => (a.message.sequence_order || 0) - (b.message.sequence_order || 0));
 
   for (let i = 0; i < sorted.length; i++) {
     const expectedOrder = i + 1;
-    const actualOrder = sorted[i].sequence_order;
+    const actualOrder = sorted[i].message.sequence_order;
 
     if (actualOrder !== expectedOrder) {
       errors.push(createError(
         'INVALID_SEQUENCE_ORDER',
-        `messages`,
-        `sequence_order must be sequential starting from 1 (expected ${expectedOrder}, found ${actualOrder} at position ${i})`
+        `messages[${sorted[i].index}].sequence_order`,
+        `expected ${expectedOrder}, found ${actualOrder}`
       ));
       break; // Only report one ordering error
     }
   }
 
   // Check for duplicate sequence_order values
-  const orderValues = diagram.messages
-    .filter((m: any) => m && typeof m === 'object')
-    .map((m: any) => m.sequence_order);
-
-  const uniqueOrders = new Set(orderValues);
-  if (orderValues.length !== uniqueOrders.size) {
-    errors.push(createError(
-      'INVALID_SEQUENCE_ORDER',
-      'messages',
-      'Duplicate sequence_order values detected'
-    ));
+  const seenOrders = new Set<number>();
+  for (const { message, index } of sorted) {
+    if (seenOrders.has(message.sequence_order)) {
+      errors.push(createError(
+        'INVALID_SEQUENCE_ORDER',
+        `messages[${index}].sequence_order`,
+        `${message.sequence_order} is used more than once`
+      ));
+      break; // Only report one duplicate error
+    }
+    seenOrders.add(message.sequence_order);
   }
 
   return errors;
@@ -133,16 +134,16 @@ export function validateSequenceLayout(diagram: any): ValidationError[] {
 export function validateFlowLayout(diagram: any): ValidationError[] {
   const errors: ValidationError[] = [];
 
-  if (!diagram.nodes || !Array.isArray(diagram.nodes) ||
+  if (!diagram.nodes || typeof diagram.nodes !== 'object' ||
       !diagram.edges || !Array.isArray(diagram.edges)) {
     return errors;
   }
 
+  const nodeEntries = Object.entries<any>(diagram.nodes).filter(([, n]) => n && typeof n === 'object');
+
   // Build adjacency list
   const adjacency = new Map<string, string[]>();
-  const nodeIds = new Set<string>(diagram.nodes.filter((n: any) => n && typeof n === 'object').map((n: any) => n.id));
-
-  for (const nodeId of nodeIds) {
+  for (const [nodeId] of nodeEntries) {
     adjacency.set(nodeId, []);
   }
 
@@ -151,18 +152,18 @@ export function validateFlowLayout(diagram: any): ValidationError[] {
       continue;
     }
 
-    if (edge.source && edge.target) {
-      adjacency.get(edge.source)?.push(edge.target);
+    if (edge.from && edge.to) {
+      adjacency.get(edge.from)?.push(edge.to);
     }
   }
 
   // Find start nodes
-  const startNodes = diagram.nodes.filter(
-    (n: any) => n && typeof n === 'object' && n.type === 'start'
-  );
+  const startNodeIds = nodeEntries
+    .filter(([, n]) => n.type === 'start')
+    .map(([nodeId]) => nodeId);
 
   // If no start nodes, can't validate reachability
-  if (startNodes.length === 0) {
+  if (startNodeIds.length === 0) {
     return errors;
   }
 
@@ -181,45 +182,20 @@ export function validateFlowLayout(diagram: any): ValidationError[] {
     }
   }
 
-  for (const startNode of startNodes) {
-    traverse(startNode.id);
+  for (const startNodeId of startNodeIds) {
+    traverse(startNodeId);
   }
 
-  // Report unreachable nodes (except start nodes themselves)
-  for (const node of diagram.nodes) {
-    if (!node || typeof node !== 'object') {
-      continue;
-    }
-
-    if (node.type !== 'start' && !reachable.has(node.id)) {
+  // Report unreachable nodes (notes are annotations and need no incoming edges)
+  for (const [nodeId, node] of nodeEntries) {
+    if (node.type !== 'start' && node.type !== 'note' && !reachable.has(nodeId)) {
       errors.push(createError(
         'UNREACHABLE_NODE',
-        `nodes`,
-        `Node is not reachable from any start node: ${node.id}`
+        `nodes.${nodeId}`,
+        nodeId
       ));
     }
   }
 
-  // Validate decision nodes have at least 2 outgoing edges
-  for (const node of diagram.nodes) {
-    if (!node || typeof node !== 'object') {
-      continue;
-    }
-
-    if (node.type === 'decision') {
-      const outgoingEdges = diagram.edges.filter(
-        (e: any) => e && typeof e === 'object' && e.source === node.id
-      );
-
-      if (outgoingEdges.length < 2) {
-        errors.push(createError(
-          'MISSING_METADATA' as ErrorCode,
-          `nodes`,
-          `Decision node should have at least 2 outgoing edges: ${node.id}`
-        ));
-      }
-    }
-  }
-
   return errors;
 }
@@ -2,7 +2,7 @@
  * Reference validator - validates that references exist (FK targets, participant IDs, node IDs)
  */
 
-import { ValidationError, createError, ErrorCode } from './types';
+import { ValidationError, createError } from './types';
 
 /**
  * Validate ERD diagram references
@@ -41,7 +41,7 @@ export function validateERDReferences(diagram: any): ValidationError[] {
         errors.push(createError(
           'FK_TABLE_NOT_FOUND',
           `${fkPath}.table`,
-          `Foreign key references non-existent table: ${fk.table}`
+          fk.table
         ));
         continue;
       }
@@ -60,7 +60,7 @@ export function validateERDReferences(diagram: any): ValidationError[] {
         errors.push(createError(
           'FK_COLUMN_NOT_FOUND',
           `${fkPath}.column`,
-          `Foreign key references non-existent column: ${fk.column}`
+          `${fk.table}.${fk.column}`
         ));
       }
     }
@@ -77,11 +77,9 @@ export function validateSequenceReferences(diagram: any): ValidationError[] {
 
   // Collect participant IDs
   const participantIds = new Set<string>();
-  if (diagram.participants && Array.isArray(diagram.participants)) {
-    for (const p of diagram.participants) {
-      if (p.id && typeof p.id === 'string') {
-        participantIds.add(p.id);
-      }
+  if (diagram.participants && typeof diagram.participants === 'object') {
+    for (const participantId of Object.keys(diagram.participants)) {
+      participantIds.add(participantId);
     }
   }
 
@@ -89,7 +87,7 @@ export function validateSequenceReferences(diagram: any): ValidationError[] {
   const messageIds = new Set<string>();
   if (diagram.messages && Array.isArray(diagram.messages)) {
     for (const m of diagram.messages) {
-      if (m.id && typeof m.id === 'string') {
+      if (m && m.id && typeof m.id === 'string') {
         messageIds.add(m.id);
       }
     }
@@ -110,7 +108,7 @@ export function validateSequenceReferences(diagram: any): ValidationError[] {
           errors.push(createError(
             'PARTICIPANT_NOT_FOUND',
             `${path}.from`,
-            `Message references non-existent participant: ${msg.from}`
+            msg.from
           ));
         }
       }
@@ -120,7 +118,7 @@ export function validateSequenceReferences(diagram: any): ValidationError[] {
           errors.push(createError(
             'PARTICIPANT_NOT_FOUND',
             `${path}.to`,
-            `Message references non-existent participant: ${msg.to}`
+            msg.to
           ));
         }
       }
@@ -137,54 +135,45 @@ export function validateSequenceReferences(diagram: any): ValidationError[] {
         continue;
       }
 
-      if (block.messages && Array.isArray(block.messages)) {
-        for (const msgId of block.messages) {
-          if (typeof msgId === 'string' && !messageIds.has(msgId)) {
-            errors.push(createError(
-              'MESSAGE_NOT_FOUND',
-              `${path}.messages`,
-              `Block references non-existent message: ${msgId}`
-            ));
-          }
-        }
-      }
+      errors.push(...validateMessageIdList(block.messages, messageIds, `${path}.messages`));
 
-      // Validate parent_block reference
-      if (block.parent_block && typeof block.parent_block === 'string') {
-        const parentExists = diagram.blocks?.some(
-          (b: any) => b && typeof b === 'object' && b.id === block.parent_block
-        );
-        if (!parentExists) {
-          errors.push(createError(
-            'MESSAGE_NOT_FOUND' as ErrorCode,
-            `${path}.parent_block`,
-            `Block references non-existent parent block: ${block.parent_block}`
-          ));
+      if (block.alt_sections && Array.isArray(block.alt_sections)) {
+        for (let j = 0; j < block.alt_sections.length; j++) {
+          const section = block.alt_sections[j];
+          if (section && typeof section === 'object') {
+            errors.push(...validateMessageIdList(section.messages, messageIds, `${path}.alt_sections[${j}].messages`));
+          }
         }
       }
     }
   }
 
-  // Validate note attachments
+  // Validate note positions
   if (diagram.notes && Array.isArray(diagram.notes)) {
     for (let i = 0; i < diagram.notes.length; i++) {
       const note = diagram.notes[i];
-      const path = `notes[${i}]`;
+      const path = `notes[${i}].position`;
 
-      if (!note || typeof note !== 'object') {
+      if (!note || typeof note !== 'object' || !note.position || typeof note.position !== 'object') {
         continue;
       }
 
-      if (note.attached_to && Array.isArray(note.attached_to)) {
-        for (const attachment of note.attached_to) {
-          const isParticipant = participantIds.has(attachment);
-          const isMessage = messageIds.has(attachment);
+      if (typeof note.position.participant === 'string' && !participantIds.has(note.position.participant)) {
+        errors.push(createError(
+          'PARTICIPANT_NOT_FOUND',
+          `${path}.participant`,
+          note.position.participant
+        ));
+      }
 
-          if (!isParticipant && !isMessage) {
+      if (Array.isArray(note.position.over)) {
+        for (let j = 0; j < note.position.over.length; j++) {
+          const participantId = note.position.over[j];
+          if (typeof participantId === 'string' && !participantIds.has(participantId)) {
             errors.push(createError(
-              'PARTICIPANT_NOT_FOUND' as ErrorCode,
-              `${path}.attached_to`,
-              `Note references non-existent participant or message: ${attachment}`
+              'PARTICIPANT_NOT_FOUND',
+              `${path}.over[${j}]`,
+              participantId
             ));
           }
         }
@@ -195,6 +184,27 @@ export function validateSequenceReferences(diagram: any): ValidationError[] {
   return errors;
 }
 
+function validateMessageIdList(list: any, messageIds: Set<string>, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!list || !Array.isArray(list)) {
+    return errors;
+  }
+
+  for (let i = 0; i < list.length; i++) {
+    const msgId = list[i];
+    if (typeof msgId === 'string' && !messageIds.has(msgId)) {
+      errors.push(createError(
+        'MESSAGE_NOT_FOUND',
+        `${path}[${i}]`,
+        msgId
+      ));
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate Flow diagram references
  */
@@ -203,15 +213,13 @@ export function validateFlowReferences(diagram: any): ValidationError[] {
 
   // Collect node IDs
   const nodeIds = new Set<string>();
-  if (diagram.nodes && Array.isArray(diagram.nodes)) {
-    for (const n of diagram.nodes) {
-      if (n.id && typeof n.id === 'string') {
-        nodeIds.add(n.id);
-      }
+  if (diagram.nodes && typeof diagram.nodes === 'object') {
+    for (const nodeId of Object.keys(diagram.nodes)) {
+      nodeIds.add(nodeId);
     }
   }
 
-  // Validate edge source/target references
+  // Validate edge from/to references
   if (diagram.edges && Array.isArray(diagram.edges)) {
     for (let i = 0; i < diagram.edges.length; i++) {
       const edge = diagram.edges[i];
@@ -221,51 +229,27 @@ export function validateFlowReferences(diagram: any): ValidationError[] {
         continue;
       }
 
-      if (edge.source && typeof edge.source === 'string') {
-        if (!nodeIds.has(edge.source)) {
+      if (edge.from && typeof edge.from === 'string') {
+        if (!nodeIds.has(edge.from)) {
           errors.push(createError(
             'NODE_NOT_FOUND',
-            `${path}.source`,
-            `Edge references non-existent source node: ${edge.source}`
+            `${path}.from`,
+            edge.from
           ));
         }
       }
 
-      if (edge.target && typeof edge.target === 'string') {
-        if (!nodeIds.has(edge.target)) {
+      if (edge.to && typeof edge.to === 'string') {
+        if (!nodeIds.has(edge.to)) {
           errors.push(createError(
             'NODE_NOT_FOUND',
-            `${path}.target`,
-            `Edge references non-existent target node: ${edge.target}`
+            `${path}.to`,
+            edge.to
           ));
         }
       }
     }
   }
 
-  // Validate group node references
-  if (diagram.groups && Array.isArray(diagram.groups)) {
-    for (let i = 0; i < diagram.groups.length; i++) {
-      const group = diagram.groups[i];
-      const path = `groups[${i}]`;
-
-      if (!group || typeof group !== 'object') {
-        continue;
-      }
-
-      if (group.nodes && Array.isArray(group.nodes)) {
-        for (const nodeId of group.nodes) {
-          if (typeof nodeId === 'string' && !nodeIds.has(nodeId)) {
-            errors.push(createError(
-              'NODE_NOT_FOUND',
-              `${path}.nodes`,
-              `Group references non-existent node: ${nodeId}`
-            ));
-          }
-        }
-      }
-    }
-  }
-
   return errors;
 }
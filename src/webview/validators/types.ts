@@ -3,6 +3,7 @@
  */
 
 import { DiagramType } from '../types/diagrams';
+import { YamlPathSegment } from '../parsers/yamlPath';
 
 // ============================================================================
 // Validation Result
@@ -23,7 +24,7 @@ export interface ValidationError {
   level: 'error';
   code: ErrorCode;
   message: string;
-  path: string;
+  path: string | YamlPathSegment[]; // Segments when keys may contain "."
   line?: number;
   column?: number;
   suggestion?: string;
@@ -37,7 +38,7 @@ export interface ValidationWarning {
   level: 'warning';
   code: WarningCode;
   message: string;
-  path: string;
+  path: string | YamlPathSegment[]; // Segments when keys may contain "."
   line?: number;
   suggestion?: string;
 }
@@ -53,6 +54,7 @@ export type ErrorCode =
   | 'INVALID_DIAGRAM_TYPE'
   | 'MISSING_METADATA'
   | 'MISSING_METADATA_NAME'
+  | 'INVALID_STRUCTURE'
   // ERD
   | 'FK_TABLE_NOT_FOUND'
   | 'FK_COLUMN_NOT_FOUND'
@@ -98,6 +100,7 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   INVALID_DIAGRAM_TYPE: 'Invalid diagram_type. Must be one of: erd, sequence, flow',
   MISSING_METADATA: 'Missing required field: metadata',
   MISSING_METADATA_NAME: 'Missing required field: metadata.name',
+  INVALID_STRUCTURE: 'Invalid structure',
 
   // ERD
   FK_TABLE_NOT_FOUND: 'Foreign key references non-existent table',
@@ -105,7 +108,7 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   CIRCULAR_DEPENDENCY: 'Circular foreign key dependency detected',
 
   // Sequence
-  PARTICIPANT_NOT_FOUND: 'Message references non-existent participant',
+  PARTICIPANT_NOT_FOUND: 'Reference to non-existent participant',
   MESSAGE_NOT_FOUND: 'Block references non-existent message',
   INVALID_SEQUENCE_ORDER: 'sequence_order must be sequential starting from 1',
   DUPLICATE_PARTICIPANT_ID: 'Duplicate participant ID',
@@ -149,6 +152,7 @@ export const SUGGESTIONS: Record<ErrorCode | WarningCode, string> = {
   INVALID_DIAGRAM_TYPE: 'Use one of: erd, sequence, flow',
   MISSING_METADATA: 'Add: metadata: { name: "Diagram Name" }',
   MISSING_METADATA_NAME: 'Add: metadata.name: "Diagram Name"',
+  INVALID_STRUCTURE: 'Hover the key for what it holds, or see schemas/cryml-1.0.schema.json',
 
   FK_TABLE_NOT_FOUND: 'Check the table name or create the referenced table',
   FK_COLUMN_NOT_FOUND: 'Check the column name or create the referenced column',
@@ -185,7 +189,7 @@ export const SUGGESTIONS: Record<ErrorCode | WarningCode, string> = {
 
 export function createError(
   code: ErrorCode,
-  path: string,
+  path: string | YamlPathSegment[],
   details?: string
 ): ValidationError {
   return {
@@ -199,7 +203,7 @@ export function createError(
 
 export function createWarning(
   code: WarningCode,
-  path: string,
+  path: string | YamlPathSegment[],
   details?: string
 ): ValidationWarning {
   return {
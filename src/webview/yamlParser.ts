@@ -3,90 +3,28 @@
 
 import { PrismaSchema, PrismaModel, PrismaField, PrismaEnum } from './prismaParser';
 import * as yaml from 'yaml';
+import { DiagramType, ERDDiagram, ERDEnum, ERDField, ERDModel } from './types/diagrams';
+import { findYamlEntryRanges } from './parsers/yamlPath';
+import { debugLog } from './debugLog';
 
-export interface YamlSchema {
-  version?: string;
-  diagram_type?: 'erd' | 'sequence' | 'flow';
-  metadata: {
-    name: string;
-    description?: string;
-    schema_version?: string;
-  };
-  colors?: {
-    default: string;
-    rules?: Array<{
-      pattern: string;
-      color: string;
-      group: string;
-    }>;
-  };
-  models?: { [key: string]: YamlModel };
-  enums?: { [key: string]: YamlEnum };
-}
-
-export interface YamlModel {
-  color?: string;
-  group?: string;
-  table_name?: string;
-  schema_name?: string;
-  fields: { [key: string]: YamlField };
-  indexes?: YamlIndex[];
-  unique_constraints?: YamlUniqueConstraint[];
-}
-
-export interface YamlField {
-  field_type: string;
-  db_type?: string;
-  constraints?: {
-    not_null?: boolean;
-  };
-  attributes?: {
-    primary_key?: boolean;
-    unique?: boolean;
-    default_value?: string;
-    foreign_key?: {
-      table: string;
-      column: string;
-      on_delete?: string;
-      on_update?: string;
-    };
-    virtual?: boolean;
-    referenced_by?: string;
-    is_list?: boolean;
-    map?: string;
-    relation_name?: string;
-  };
-}
-
-export interface YamlIndex {
-  index_name: string;
-  columns: string[];
-  unique?: boolean;
-}
-
-export interface YamlUniqueConstraint {
-  constraint_name: string;
-  columns: string[];
-}
-
-export interface YamlEnum {
-  values: Array<{
-    value_name: string;
-    description?: string;
-  }>;
-}
+// ERD files may leave diagram_type out; other types are sent to parseYamlDiagram()
+type YamlSchema = Omit<ERDDiagram, 'diagram_type'> & { diagram_type?: DiagramType };
 
 export function parseYamlSchema(content: string): PrismaSchema {
   try {
-    console.log('Parsing YAML schema...');
-    console.log('YAML content length:', content.length);
+    debugLog('Parsing YAML schema...');
+    debugLog('YAML content length:', content.length);
 
-    const parsedYaml = yaml.parse(content) as YamlSchema;
-    console.log('Parsed YAML:', JSON.stringify(parsedYaml, null, 2));
+    const doc = yaml.parseDocument(content);
+    if (doc.errors.length > 0) {
+      throw doc.errors[0];
+    }
+    const parsedYaml = doc.toJS() as YamlSchema;
+    debugLog('Parsed YAML:', JSON.stringify(parsedYaml, null, 2));
 
     // Detect diagram type - default to 'erd' for backward compatibility
     const diagramType = parsedYaml.diagram_type || 'erd';
-    console.log('Diagram type:', diagramType);
+    debugLog('Diagram type:', diagramType);
 
     // Currently only ERD is supported for PrismaSchema return type
     if (diagramType !== 'erd') {
@@ -100,21 +38,27 @@ export function parseYamlSchema(content: string): PrismaSchema {
 
     // Convert models
     if (parsedYaml && typeof parsedYaml === 'object' && parsedYaml.models) {
-      console.log('Found models in YAML');
+      debugLog('Found models in YAML');
       const modelEntries = Object.entries(parsedYaml.models);
-      console.log('Model entries:', modelEntries.length);
+      const modelRanges = findYamlEntryRanges(doc, content, ['models']);
+      debugLog('Model entries:', modelEntries.length);
 
       for (const [modelName, yamlModel] of modelEntries) {
-        console.log('Converting model:', modelName, yamlModel);
+        debugLog('Converting model:', modelName, yamlModel);
         try {
-          const model = convertYamlModel(modelName, yamlModel as YamlModel, parsedYaml.colors);
+          const model = convertYamlModel(modelName, yamlModel as ERDModel, parsedYaml.colors);
+          model.sourceRange = modelRanges.get(modelName);
+          const fieldRanges = findYamlEntryRanges(doc, content, ['models', modelName, 'fields']);
+          for (const field of model.fields) {
+            field.sourceRange = fieldRanges.get(field.name);
+          }
           schema.models.push(model);
         } catch (err) {
           console.error('Error converting model', modelName, err);
         }
       }
     } else {
-      console.log('No models found in YAML or invalid format', parsedYaml);
+      debugLog('No models found in YAML or invalid format', parsedYaml);
     }
 
     // Apply color rules
@@ -125,20 +69,20 @@ export function parseYamlSchema(content: string): PrismaSchema {
     // Convert enums
     if (parsedYaml && typeof parsedYaml === 'object' && parsedYaml.enums) {
       const enumEntries = Object.entries(parsedYaml.enums);
-      console.log('Found enums in YAML:', enumEntries.length);
+      debugLog('Found enums in YAML:', enumEntries.length);
 
       for (const [enumName, yamlEnum] of enumEntries) {
         try {
-          schema.enums.push(convertYamlEnum(enumName, yamlEnum as YamlEnum));
+          schema.enums.push(convertYamlEnum(enumName, yamlEnum as ERDEnum));
         } catch (err) {
           console.error('Error converting enum', enumName, err);
         }
       }
     }
 
-    console.log('Final schema:', schema);
-    console.log('Models count:', schema.models.length);
-    console.log('Enums count:', schema.enums.length);
+    debugLog('Final schema:', schema);
+    debugLog('Models count:', schema.models.length);
+    debugLog('Enums count:', schema.enums.length);
 
     return schema;
   } catch (error) {
@@ -148,47 +92,70 @@ export function parseYamlSchema(content: string): PrismaSchema {
   }
 }
 
-function convertYamlModel(name: string, yamlModel: YamlModel, colors: any): PrismaModel {
-  console.log('convertYamlModel start:', name, 'yamlModel:', yamlModel);
+function convertYamlModel(name: string, yamlModel: ERDModel, colors: any): PrismaModel {
+  debugLog('convertYamlModel start:', name, 'yamlModel:', yamlModel);
 
   const model: PrismaModel = {
     name,
+    kind: yamlModel.kind,
     fields: [],
     color: (yamlModel.color as any) || colors?.default || 'yellow',
     group: yamlModel.group,
+    documentation: yamlModel.description,
   };
 
   // Convert fields
   if (yamlModel.fields) {
-    console.log('  Found fields in model:', Object.keys(yamlModel.fields));
+    debugLog('  Found fields in model:', Object.keys(yamlModel.fields));
     try {
       const fieldEntries = Object.entries(yamlModel.fields);
-      console.log('  Field entries count:', fieldEntries.length);
+      debugLog('  Field entries count:', fieldEntries.length);
 
       for (const [fieldName, yamlField] of fieldEntries) {
-        console.log('  Converting field:', fieldName, yamlField);
+        debugLog('  Converting field:', fieldName, yamlField);
         try {
           const field = convertYamlField(fieldName, yamlField);
           model.fields.push(field);
-          console.log('  Field converted successfully');
+          debugLog('  Field converted successfully');
         } catch (err) {
           console.error('  Error converting field', fieldName, err);
         }
       }
-      console.log('  All fields converted, count:', model.fields.length);
+      debugLog('  All fields converted, count:', model.fields.length);
     } catch (err) {
       console.error('  Error iterating fields:', err);
     }
   } else {
-    console.log('  No fields found in model');
+    debugLog('  No fields found in model');
+  }
+
+  // Several primary_key fields form a composite key
+  const primaryKey = model.fields.filter((field) => field.isId).map((field) => field.name);
+  if (primaryKey.length > 0) {
+    model.primaryKey = primaryKey;
+  }
+
+  if (Array.isArray(yamlModel.indexes)) {
+    model.indexes = yamlModel.indexes.map((index) => ({
+      name: index.index_name,
+      columns: index.columns || [],
+      unique: !!index.unique,
+    }));
+  }
+
+  if (Array.isArray(yamlModel.unique_constraints)) {
+    model.uniqueConstraints = yamlModel.unique_constraints.map((constraint) => ({
+      name: constraint.constraint_name,
+      columns: constraint.columns || [],
+    }));
   }
 
-  console.log('convertYamlModel end:', name, 'fields count:', model.fields.length);
+  debugLog('convertYamlModel end:', name, 'fields count:', model.fields.length);
   return model;
 }
 
-function convertYamlField(name: string, yamlField: YamlField): PrismaField {
-  console.log('    convertYamlField:', name, 'yamlField:', JSON.stringify(yamlField));
+function convertYamlField(name: string, yamlField: ERDField): PrismaField {
+  debugLog('    convertYamlField:', name, 'yamlField:', JSON.stringify(yamlField));
 
   const field: PrismaField = {
     name,
@@ -216,11 +183,11 @@ function convertYamlField(name: string, yamlField: YamlField): PrismaField {
     }
   }
 
-  console.log('    Field converted:', field);
+  debugLog('    Field converted:', field);
   return field;
 }
 
-function convertYamlEnum(name: string, yamlEnum: YamlEnum): PrismaEnum {
+function convertYamlEnum(name: string, yamlEnum: ERDEnum): PrismaEnum {
   return {
     name,
     values: yamlEnum.values?.map(v => ({ name: v.value_name })) || [],
@@ -250,9 +217,9 @@ function applyColorRules(models: PrismaModel[], rules: Array<{ pattern: string;
  */
 export function parseYamlDiagram(content: string): any {
   try {
-    console.log('Parsing YAML diagram...');
+    debugLog('Parsing YAML diagram...');
     const parsedYaml = yaml.parse(content);
-    console.log('Diagram type:', parsedYaml?.diagram_type || 'erd (default)');
+    debugLog('Diagram type:', parsedYaml?.diagram_type || 'erd (default)');
     return parsedYaml;
   } catch (error) {
     console.error('Failed to parse YAML diagram:', error);
@@ -1,103 +1,42 @@
 // Prisma to YAML Transformer
 // Converts Prisma schema to our YAML standard
 
-import { PrismaSchema, PrismaModel, PrismaField, PrismaEnum } from './prismaParser';
+import { PrismaSchema, PrismaModel, PrismaField, PrismaEnum, PrismaConfig, parsePrismaSchema } from './prismaParser';
+import { parsePrismaAst, formatValue, PrismaBlock, PrismaAttribute } from './parsers/prismaAst';
+import { yamlToPrisma } from './prismaGenerator';
 import * as yaml from 'yaml';
-
-export interface YamlSchema {
-  version: string;
-  metadata: {
-    name: string;
-    description?: string;
-    schema_version?: string;
-  };
-  colors: {
-    default: string;
-    rules?: Array<{
-      pattern: string;
-      color: string;
-      group: string;
-    }>;
-  };
-  models: { [key: string]: YamlModel };
-  enums?: { [key: string]: YamlEnum };
-}
-
-export interface YamlModel {
-  color?: string;
-  group?: string;
-  table_name?: string;
-  schema_name?: string;
-  fields: { [key: string]: YamlField };
-  indexes?: YamlIndex[];
-  unique_constraints?: YamlUniqueConstraint[];
-}
-
-export interface YamlField {
-  field_type: string;
-  db_type?: string;
-  constraints?: {
-    not_null?: boolean;
-  };
-  attributes?: {
-    primary_key?: boolean;
-    unique?: boolean;
-    default_value?: string;
-    foreign_key?: {
-      table: string;
-      column: string;
-      on_delete?: string;
-      on_update?: string;
-    };
-    virtual?: boolean;
-    referenced_by?: string;
-    is_list?: boolean;
-    map?: string;
-    relation_name?: string;
-  };
-}
-
-export interface YamlIndex {
-  index_name: string;
-  columns: string[];
-  unique?: boolean;
-}
-
-export interface YamlUniqueConstraint {
-  constraint_name: string;
-  columns: string[];
-}
-
-export interface YamlEnum {
-  values: Array<{
-    value_name: string;
-    description?: string;
-  }>;
-}
-
-export function prismaToYaml(schema: PrismaSchema, metadata?: { name: string; description?: string }): string {
+import { ERDDiagram, ERDEnum, ERDField, ERDModel, ERDPrismaConfig } from './types/diagrams';
+
+// Prisma imports leave diagram_type out, as ERDs may
+type YamlSchema = Omit<ERDDiagram, 'diagram_type'>;
+
+/**
+ * Convert a parsed schema to an ERD .cryml. A DBML Project names it ahead of metadata.
+ * Set inferredGroups to false to leave out groups categorizeModels guessed from model names,
+ * for exports that would present them as real groups (DBML TableGroups).
+ */
+export function prismaToYaml(
+  schema: PrismaSchema,
+  metadata?: { name: string; description?: string },
+  options: { inferredGroups?: boolean } = {}
+): string {
   const yamlSchema: YamlSchema = {
     version: '1.0',
     metadata: {
-      name: metadata?.name || 'Database Schema',
-      description: metadata?.description,
+      name: schema.project?.name || metadata?.name || 'Database Schema',
+      description: schema.project?.documentation ?? metadata?.description,
       schema_version: '1.0.0',
     },
+    // Each model carries its own color and group
     colors: {
       default: 'yellow',
     },
     models: {},
   };
 
-  // Add color rules based on model patterns
-  const colorPatterns = extractColorPatterns(schema.models);
-  if (colorPatterns.length > 0) {
-    yamlSchema.colors.rules = colorPatterns;
-  }
-
   // Convert models
   for (const model of schema.models) {
-    yamlSchema.models[model.name] = convertModel(model);
+    yamlSchema.models[model.name] = convertModel(model, options.inferredGroups !== false);
   }
 
   // Convert enums
@@ -108,75 +47,93 @@ export function prismaToYaml(schema: PrismaSchema, metadata?: { name: string; de
     }
   }
 
-  return yaml.stringify(yamlSchema);
-}
-
-function extractColorPatterns(models: PrismaModel[]): Array<{ pattern: string; color: string; group: string }> {
-  const patterns: Array<{ pattern: string; color: string; group: string }> = [];
-  const seen = new Set<string>();
-
-  for (const model of models) {
-    if (model.group && model.color && !seen.has(model.group)) {
-      seen.add(model.group);
-
-      // Create a pattern based on the model name
-      const pattern = `^${model.name}`;
-
-      patterns.push({
-        pattern,
-        color: model.color,
-        group: model.group,
-      });
+  // Keep datasource and generator settings for the way back to Prisma, even when there are
+  // none, so a models-only schema file isn't given the default blocks
+  if (schema.configBlocks) {
+    const prisma: Required<ERDPrismaConfig> = { generators: {}, datasources: {} };
+    for (const block of schema.configBlocks) {
+      prisma[block.kind === 'datasource' ? 'datasources' : 'generators'][block.name] = convertConfig(block);
     }
+    yamlSchema.prisma = prisma;
   }
 
-  return patterns;
+  return yaml.stringify(yamlSchema);
 }
 
-function convertModel(model: PrismaModel): YamlModel {
-  const yamlModel: YamlModel = {
+function convertModel(model: PrismaModel, inferredGroups: boolean): ERDModel {
+  const yamlModel: ERDModel = {
     fields: {},
   };
 
+  if (model.kind && model.kind !== 'model') {
+    yamlModel.kind = model.kind;
+  }
+
+  if (model.documentation) {
+    yamlModel.description = model.documentation;
+  }
+
   if (model.color) {
     yamlModel.color = model.color;
   }
 
-  if (model.group) {
+  if (model.group && (inferredGroups || !model.groupInferred)) {
     yamlModel.group = model.group;
   }
 
+  if (model.map) {
+    yamlModel.table_name = model.map;
+  }
+
+  if (model.schema) {
+    yamlModel.schema_name = model.schema;
+  }
+
   // Convert fields
   for (const field of model.fields) {
-    yamlModel.fields[field.name] = convertField(field, model.name);
+    yamlModel.fields[field.name] = convertField(field);
+  }
+
+  // Unnamed constraints get Prisma's default names. Verbatim ones are in extraAttributes.
+  const indexes = model.indexes?.filter((index) => !index.verbatim) || [];
+  if (indexes.length > 0) {
+    yamlModel.indexes = indexes.map((index) => ({
+      index_name: index.name || `${model.name}_${index.columns.join('_')}_idx`,
+      columns: index.columns,
+      ...(index.unique && { unique: true }),
+    }));
+  }
+
+  const uniqueConstraints = model.uniqueConstraints?.filter((constraint) => !constraint.verbatim) || [];
+  if (uniqueConstraints.length > 0) {
+    yamlModel.unique_constraints = uniqueConstraints.map((constraint) => ({
+      constraint_name: constraint.name || `${model.name}_${constraint.columns.join('_')}_key`,
+      columns: constraint.columns,
+    }));
+  }
+
+  if (model.extraAttributes) {
+    yamlModel.block_attributes = model.extraAttributes;
   }
 
   return yamlModel;
 }
 
-function convertField(field: PrismaField, modelName: string): YamlField {
-  const yamlField: YamlField = {
+function convertField(field: PrismaField): ERDField {
+  const yamlField: ERDField = {
     field_type: field.type,
   };
 
-  // Add database type mapping for common Prisma types
-  const dbTypeMap: { [key: string]: string } = {
-    'String': 'VARCHAR(255)',
-    'Int': 'INTEGER',
-    'BigInt': 'BIGINT',
-    'Decimal': 'DECIMAL(10,2)',
-    'Boolean': 'BOOLEAN',
-    'DateTime': 'TIMESTAMP',
-    'Json': 'JSONB',
-    'Bytes': 'BYTEA',
-  };
+  if (field.nativeType) {
+    yamlField.db_type = field.nativeType;
+  }
 
-  if (dbTypeMap[field.type]) {
-    yamlField.db_type = dbTypeMap[field.type];
+  if (field.documentation) {
+    yamlField.description = field.documentation;
   }
 
   // Add constraints
-  const constraints: any = {};
+  const constraints: NonNullable<ERDField['constraints']> = {};
   if (field.isRequired) {
     constraints.not_null = true;
   }
@@ -185,7 +142,7 @@ function convertField(field: PrismaField, modelName: string): YamlField {
   }
 
   // Add attributes
-  const attributes: any = {};
+  const attributes: NonNullable<ERDField['attributes']> = {};
 
   if (field.isId) {
     attributes.primary_key = true;
@@ -195,15 +152,21 @@ function convertField(field: PrismaField, modelName: string): YamlField {
     attributes.unique = true;
   }
 
-  if (field.hasDefault) {
-    attributes.default_value = 'auto()';
+  if (field.defaultValue !== undefined) {
+    // String literals are stored unquoted; everything else as the Prisma expression
+    attributes.default_value = field.defaultValue.startsWith('"') ? JSON.parse(field.defaultValue) : field.defaultValue;
   }
 
   if (field.isForeignKey) {
+    const references = field.relationReferences || [field.referencesField || 'id'];
     attributes.foreign_key = {
       table: field.relationToModel || '',
-      column: field.referencesField || 'id',
-      on_delete: 'CASCADE',
+      column: references[0],
+      ...(field.relationFields && { fields: field.relationFields }),
+      ...(references.length > 1 && { references }),
+      ...(field.relationMap && { constraint_name: field.relationMap }),
+      ...(field.onDelete && { on_delete: field.onDelete }),
+      ...(field.onUpdate && { on_update: field.onUpdate }),
     };
   }
 
@@ -214,15 +177,18 @@ function convertField(field: PrismaField, modelName: string): YamlField {
   // Virtual relation field (back-relation)
   if (field.relationToModel && !field.isForeignKey) {
     attributes.virtual = true;
-    if (field.relationName) {
-      attributes.relation_name = field.relationName;
-    }
-    // Try to find the back-reference field
-    if (field.isList) {
-      attributes.relationType = 'OneToMany';
-    } else {
-      attributes.relationType = 'ManyToOne';
-    }
+  }
+
+  if (field.relationName) {
+    attributes.relation_name = field.relationName;
+  }
+
+  if (field.map) {
+    attributes.map = field.map;
+  }
+
+  if (field.extraAttributes) {
+    attributes.prisma_attributes = field.extraAttributes;
   }
 
   if (Object.keys(attributes).length > 0) {
@@ -232,10 +198,127 @@ function convertField(field: PrismaField, modelName: string): YamlField {
   return yamlField;
 }
 
-function convertEnum(enumType: PrismaEnum): YamlEnum {
+function convertEnum(enumType: PrismaEnum): ERDEnum {
   return {
+    ...(enumType.documentation && { description: enumType.documentation }),
+    ...(enumType.map && { map: enumType.map }),
     values: enumType.values.map(v => ({
       value_name: v.name,
+      ...(v.documentation && { description: v.documentation }),
+      ...(v.map && { map: v.map }),
     })),
+    ...(enumType.extraAttributes && { block_attributes: enumType.extraAttributes }),
   };
 }
+
+function convertConfig(block: PrismaConfig): { [key: string]: string } {
+  const properties: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(block.properties)) {
+    properties[key] = value.startsWith('"') ? JSON.parse(value) : value;
+  }
+  return properties;
+}
+
+// Unnamed arguments that mean the same as a named one, e.g. @relation("A") and @relation(name: "A")
+const POSITIONAL_ARGUMENTS: { [attribute: string]: string } = {
+  relation: 'name',
+  default: 'value',
+  map: 'name',
+  schema: 'name',
+  id: 'fields',
+  unique: 'fields',
+  index: 'fields',
+  fulltext: 'fields',
+};
+
+/**
+ * Convert a Prisma schema to YAML and back, and list what the round trip changed.
+ * Blocks are compared as normalized ASTs, so formatting, comments and block order don't count.
+ */
+export function checkPrismaRoundTrip(content: string): string[] {
+  const original = parsePrismaAst(content);
+  if (original.errors.length > 0) {
+    throw original.errors[0];
+  }
+
+  const regenerated = yamlToPrisma(prismaToYaml(parsePrismaSchema(content)));
+  const expected = describeBlocks(original.blocks);
+  const actual = describeBlocks(parsePrismaAst(regenerated).blocks);
+  const differences: string[] = [];
+
+  for (const [block, lines] of expected) {
+    const regeneratedLines = actual.get(block);
+    if (!regeneratedLines) {
+      differences.push(`${block}: missing`);
+      continue;
+    }
+
+    const lost = lines.filter((line) => !regeneratedLines.includes(line));
+    const added = regeneratedLines.filter((line) => !lines.includes(line));
+    differences.push(...lost.map((line) => `${block}: lost "${line}"`));
+    differences.push(...added.map((line) => `${block}: added "${line}"`));
+    if (lost.length === 0 && added.length === 0 && lines.join('\n') !== regeneratedLines.join('\n')) {
+      differences.push(`${block}: declaration order changed`);
+    }
+  }
+
+  for (const block of actual.keys()) {
+    if (!expected.has(block)) {
+      differences.push(`${block}: added`);
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * One normalized line per declaration, keyed by block ("model User")
+ */
+function describeBlocks(blocks: PrismaBlock[]): Map<string, string[]> {
+  const described = new Map<string, string[]>();
+
+  for (const block of blocks) {
+    const lines: string[] = block.documentation ? [`/// ${block.documentation}`] : [];
+
+    switch (block.kind) {
+      case 'datasource':
+      case 'generator':
+        lines.push(...block.properties.map((property) => `${property.name} = ${formatValue(property.value)}`).sort());
+        break;
+      case 'enum':
+        for (const value of block.values) {
+          const attributes = value.attributes.map((attribute) => normalizeAttribute(attribute, '@'));
+          lines.push([...(value.documentation ? [`/// ${value.documentation}`] : []), value.name, ...attributes].join(' '));
+        }
+        lines.push(...block.attributes.map((attribute) => normalizeAttribute(attribute, '@@')).sort());
+        break;
+      default:
+        for (const field of block.fields) {
+          const type = field.type + (field.isList ? '[]' : '') + (field.isOptional ? '?' : '');
+          const attributes = field.attributes.map((attribute) => normalizeAttribute(attribute, '@')).sort();
+          lines.push([...(field.documentation ? [`/// ${field.documentation}`] : []), field.name, type, ...attributes].join(' '));
+        }
+        lines.push(...block.attributes.map((attribute) => normalizeAttribute(attribute, '@@')).sort());
+    }
+
+    described.set(`${block.kind} ${block.name}`, lines);
+  }
+
+  return described;
+}
+
+/**
+ * An attribute with every argument named and sorted by name
+ */
+function normalizeAttribute(attribute: PrismaAttribute, prefix: '@' | '@@'): string {
+  if (attribute.args.length === 0) {
+    return `${prefix}${attribute.name}`;
+  }
+
+  const positionalName = POSITIONAL_ARGUMENTS[attribute.name];
+  const args = attribute.args.map((arg, index) => {
+    const name = arg.name ?? (positionalName && index === 0 ? positionalName : `$${index}`);
+    return `${name}: ${formatValue(arg.value)}`;
+  });
+  return `${prefix}${attribute.name}(${args.sort().join(', ')})`;
+}
@@ -0,0 +1,45 @@
+const fs = require('fs');
+const path = require('path');
+
+// One bundle per src/test/*.test.ts, run with node --test
+const testDir = path.resolve(__dirname, 'src/test');
+const entry = Object.fromEntries(
+  fs.readdirSync(testDir)
+    .filter((file) => file.endsWith('.test.ts'))
+    .map((file) => [file.replace(/\.ts$/, ''), path.join(testDir, file)])
+);
+
+module.exports = {
+  target: 'node',
+  entry,
+  output: {
+    path: path.resolve(__dirname, 'out/test'),
+    filename: '[name].js',
+    libraryTarget: 'commonjs2',
+    clean: true
+  },
+  resolve: {
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.json'],
+    alias: {
+      '@': path.resolve(__dirname, 'src'),
+      'elkjs': 'elkjs/lib/elk.bundled.js'
+    }
+  },
+  // The node:test and node:assert modules come from Node itself
+  externals: [/^node:/],
+  module: {
+    rules: [
+      {
+        test: /\.tsx?$/,
+        use: {
+          loader: 'ts-loader',
+          options: {
+            configFile: 'tsconfig.test.json'
+          }
+        },
+        exclude: /node_modules/
+      }
+    ]
+  },
+  devtool: 'source-map'
+};